@@ -0,0 +1,43 @@
+#!/usr/bin/env node
+/**
+ * Create the KEK keyfile for the `local` key-encryption provider.
+ *
+ * Usage:  node scripts/init-kek.mjs [keyfile] [kekId]
+ *
+ * Defaults: keyfile = SESSION_KMS_LOCAL_KEYFILE or .data/kek.json,
+ *           kekId   = kek-1
+ *
+ * Run it once per deployment and share the resulting file with every
+ * instance — instances with their own KEK cannot decrypt each other's
+ * data.  Refuses to overwrite an existing keyfile.
+ */
+
+import { randomBytes } from "crypto";
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { dirname, resolve } from "path";
+
+const R = "\x1b[0m";
+const RED = "\x1b[91m";
+const GRN = "\x1b[92m";
+const YEL = "\x1b[93m";
+
+const KEK_ID_PATTERN = /^[A-Za-z0-9_./-]{1,128}$/;
+
+const path = resolve(process.argv[2] || process.env.SESSION_KMS_LOCAL_KEYFILE || ".data/kek.json");
+const id = process.argv[3] || "kek-1";
+
+if (!KEK_ID_PATTERN.test(id)) {
+  console.error(`${RED}✗ KEK id "${id}" must match ${KEK_ID_PATTERN}${R}`);
+  process.exit(1);
+}
+if (existsSync(path)) {
+  console.error(`${RED}✗ ${path} already exists — not overwriting it${R}`);
+  process.exit(1);
+}
+
+mkdirSync(dirname(path), { recursive: true });
+const keyfile = { keys: [{ id, key: randomBytes(32).toString("hex") }] };
+writeFileSync(path, JSON.stringify(keyfile, null, 2) + "\n", { mode: 0o600 });
+
+console.log(`${GRN}🔐 Created KEK keyfile ${path} (key "${id}")${R}`);
+console.log(`${YEL}   Back it up and give every instance the same file.${R}`);
@@ -15,22 +15,21 @@ import {
   Bomb,
   Settings,
   Save,
+  Users,
+  UserPlus,
+  KeyRound,
+  Coins,
+  Plus,
 } from "lucide-react";
-
-// ── Hardcoded admin address ──────────────────────────────────────────
-const ADMIN_ADDRESS = "0x6CC236D96C1f02916D469dba37c52550ba0821FF";
-
-// ── Chain meta (inlined to keep the page self-contained) ─────────────
-const CHAIN_META: Record<number, { name: string; color: string }> = {
-  10: { name: "Optimism", color: "#FF0420" },
-  8453: { name: "Base", color: "#0052FF" },
-  137: { name: "Polygon", color: "#8247E5" },
-  42161: { name: "Arbitrum", color: "#12AAFF" },
-};
-
-function chainLabel(id: number): string {
-  return CHAIN_META[id]?.name ?? `Chain ${id}`;
-}
+import { formatUnits } from "viem";
+import {
+  ADMIN_MESSAGE_HEADER,
+  ADMIN_SIGNATURE_HEADER,
+  ADMIN_SESSION_MAX_MS,
+  buildAdminAuthMessage,
+} from "@/lib/adminAuthMessage";
+import { chainDisplayName, getChainConfig, CHAIN_REGISTRY } from "@/chains";
+import { deserialize } from "@/lib/bigintJson";
 
 function shortAddr(addr: string): string {
   if (!addr || addr.length < 10) return addr;
@@ -50,14 +49,98 @@ type SessionInfo = {
   registeredAt: string;
   lastPollAt: string | null;
   active: boolean;
+  /** Deposits backing off after failures, or held with an open circuit */
+  depositFailures?: {
+    chainId: number;
+    tokenSymbol: string;
+    consecutiveFailures: number;
+    lastError: string;
+    retryAfter: string;
+    circuitOpenedAt?: string;
+  }[];
+};
+
+type AdminRole = "viewer" | "operator" | "owner";
+
+type TokenInfo = {
+  symbol: string;
+  name: string;
+  decimals: number;
+  addresses: Record<string, string>;
+  minBridgeAmount: bigint;
+  maxFeeAmount: bigint;
+  /** Absent for built-in tokens */
+  addedInVersion?: number;
+};
+
+/** Add-token form — amounts in whole tokens, addresses keyed by chain id */
+type TokenForm = {
+  symbol: string;
+  name: string;
+  decimals: string;
+  addresses: Record<string, string>;
+  minBridgeAmount: string;
+  maxFeeAmount: string;
+};
+
+const EMPTY_TOKEN_FORM: TokenForm = {
+  symbol: "",
+  name: "",
+  decimals: "",
+  addresses: {},
+  minBridgeAmount: "",
+  maxFeeAmount: "",
+};
+
+const ADMIN_ROLES: AdminRole[] = ["viewer", "operator", "owner"];
+
+type AdminInfo = {
+  address: string;
+  role: AdminRole;
+  addedBy: string;
+  addedAt: string;
+};
+
+type ReencryptionProgress = {
+  status: "running" | "done";
+  targetKeyId: string;
+  startedAt: string;
+  startedBy: string;
+  finishedAt?: string;
+  total: number;
+  processed: number;
+  remaining: number;
+  reencrypted: number;
+  current: number;
+  missing: number;
+  failed: { walletAddress: string; error: string }[];
+};
+
+type EncryptionStatus = {
+  mode: "keyring" | "envelope";
+  currentKeyId: string;
+  keyIds: string[];
+  job: ReencryptionProgress | null;
 };
 
 type AuthState = {
   address: string;
   message: string;
   signature: string;
+  role: AdminRole;
 };
 
+function authHeaders(auth: AuthState): Record<string, string> {
+  return {
+    [ADMIN_MESSAGE_HEADER]: encodeURIComponent(auth.message),
+    [ADMIN_SIGNATURE_HEADER]: auth.signature,
+  };
+}
+
+function hasRole(auth: AuthState | null, minRole: AdminRole): boolean {
+  return !!auth && ADMIN_ROLES.indexOf(auth.role) >= ADMIN_ROLES.indexOf(minRole);
+}
+
 // ── Helpers to talk to window.ethereum ────────────────────────────────
 
 async function connectWallet(): Promise<string> {
@@ -89,6 +172,7 @@ export default function AdminPage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [resettingFailures, setResettingFailures] = useState<string | null>(null);
   const [nuking, setNuking] = useState(false);
   const [nukeConfirm, setNukeConfirm] = useState(false);
   const [nukeResult, setNukeResult] = useState<string | null>(null);
@@ -100,17 +184,29 @@ export default function AdminPage() {
   const [savingSettings, setSavingSettings] = useState(false);
   const [settingsSaved, setSettingsSaved] = useState(false);
 
+  // ── Token registry state ──────────────────────────────────────────
+  const [tokens, setTokens] = useState<TokenInfo[]>([]);
+  const [tokenRegistryVersion, setTokenRegistryVersion] = useState(0);
+  const [tokenForm, setTokenForm] = useState<TokenForm>(EMPTY_TOKEN_FORM);
+  const [addingToken, setAddingToken] = useState(false);
+
+  // ── Admins state ──────────────────────────────────────────────────
+  const [admins, setAdmins] = useState<AdminInfo[]>([]);
+  const [newAdminAddress, setNewAdminAddress] = useState("");
+  const [newAdminRole, setNewAdminRole] = useState<AdminRole>("viewer");
+  const [savingAdmin, setSavingAdmin] = useState(false);
+  const [removingAdmin, setRemovingAdmin] = useState<string | null>(null);
+
+  // Encryption key rotation
+  const [encryption, setEncryption] = useState<EncryptionStatus | null>(null);
+  const [reencrypting, setReencrypting] = useState(false);
+
   // ── Connect wallet ──────────────────────────────────────────────
   const handleConnect = useCallback(async () => {
     setError(null);
     try {
       const addr = await connectWallet();
       setWalletAddress(addr);
-
-      if (addr.toLowerCase() !== ADMIN_ADDRESS.toLowerCase()) {
-        setError(`Connected address ${shortAddr(addr)} is not the admin.`);
-        return;
-      }
       setStep("sign");
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to connect");
@@ -122,9 +218,32 @@ export default function AdminPage() {
     if (!walletAddress) return;
     setError(null);
     try {
-      const message = `Universal Deposit Address Admin Access | Timestamp: ${Date.now()}`;
+      const challenge = await fetch("/api/admin/auth", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ address: walletAddress }),
+      });
+      const { nonce, error: challengeError } = await challenge.json();
+      if (!challenge.ok) throw new Error(challengeError || `HTTP ${challenge.status}`);
+
+      const now = Date.now();
+      const message = buildAdminAuthMessage({
+        domain: window.location.host,
+        address: walletAddress,
+        nonce,
+        issuedAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + ADMIN_SESSION_MAX_MS).toISOString(),
+      });
       const signature = await signMessage(message, walletAddress);
-      setAuth({ address: walletAddress, message, signature });
+
+      // Confirm the signer is an admin and learn its role
+      const pending: AuthState = { address: walletAddress, message, signature, role: "viewer" };
+      const res = await fetch("/api/admin/auth", { headers: authHeaders(pending) });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+
+      setAuth({ ...pending, role: data.role });
+      setNukeResult(null);
       setStep("dashboard");
     } catch (err) {
       setError(err instanceof Error ? err.message : "Signature rejected");
@@ -138,11 +257,7 @@ export default function AdminPage() {
     setError(null);
     try {
       const res = await fetch("/api/admin/sessions", {
-        headers: {
-          "x-admin-signature": auth.signature,
-          "x-admin-message": auth.message,
-          "x-admin-address": auth.address,
-        },
+        headers: authHeaders(auth),
       });
       const data = await res.json();
       if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
@@ -166,11 +281,7 @@ export default function AdminPage() {
           `/api/admin/sessions?address=${encodeURIComponent(address)}`,
           {
             method: "DELETE",
-            headers: {
-              "x-admin-signature": auth.signature,
-              "x-admin-message": auth.message,
-              "x-admin-address": auth.address,
-            },
+            headers: authHeaders(auth),
           },
         );
         const data = await res.json();
@@ -185,6 +296,36 @@ export default function AdminPage() {
     [auth],
   );
 
+  // ── Reset a session's failing deposits ─────────────────────────
+  const handleResetFailures = useCallback(
+    async (address: string) => {
+      if (!auth) return;
+      setResettingFailures(address);
+      setError(null);
+      try {
+        const res = await fetch(
+          `/api/admin/sessions/failures?address=${encodeURIComponent(address)}`,
+          {
+            method: "DELETE",
+            headers: authHeaders(auth),
+          },
+        );
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+        setSessions((prev) =>
+          prev.map((s) =>
+            s.walletAddress === address.toLowerCase() ? { ...s, depositFailures: [] } : s,
+          ),
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Reset failed");
+      } finally {
+        setResettingFailures(null);
+      }
+    },
+    [auth],
+  );
+
   // ── Nuke all data ──────────────────────────────────────────────
   const handleNuke = useCallback(async () => {
     if (!auth) return;
@@ -194,12 +335,7 @@ export default function AdminPage() {
     try {
       const res = await fetch("/api/admin/sessions", {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-admin-signature": auth.signature,
-          "x-admin-message": auth.message,
-          "x-admin-address": auth.address,
-        },
+        headers: { "Content-Type": "application/json", ...authHeaders(auth) },
         body: JSON.stringify({ confirm: true }),
       });
       const data = await res.json();
@@ -207,8 +343,12 @@ export default function AdminPage() {
       setSessions([]);
       setNukeConfirm(false);
       setNukeResult(
-        `All data wiped successfully. ${data.sessionsWiped ?? 0} session(s) removed.`,
+        `All data wiped successfully. ${data.sessionsWiped ?? 0} session(s) removed. ` +
+          "Sign in again to continue.",
       );
+      // The flush also wiped this sign-in
+      setAuth(null);
+      setStep("sign");
     } catch (err) {
       setError(err instanceof Error ? err.message : "Nuke failed");
     } finally {
@@ -221,16 +361,20 @@ export default function AdminPage() {
     if (!auth) return;
     try {
       const res = await fetch("/api/admin/settings", {
-        headers: {
-          "x-admin-signature": auth.signature,
-          "x-admin-message": auth.message,
-          "x-admin-address": auth.address,
-        },
+        headers: authHeaders(auth),
       });
-      const data = await res.json();
+      // Token amounts are BigInts
+      const data = deserialize<{
+        error?: string;
+        feeCollectorAddress?: string;
+        tokens?: TokenInfo[];
+        tokenRegistryVersion?: number;
+      }>(await res.text());
       if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
       setFeeCollectorAddress(data.feeCollectorAddress ?? "");
       setFeeCollectorInput(data.feeCollectorAddress ?? "");
+      setTokens(data.tokens ?? []);
+      setTokenRegistryVersion(data.tokenRegistryVersion ?? 0);
     } catch (err) {
       console.error("Failed to fetch settings:", err);
     }
@@ -245,12 +389,7 @@ export default function AdminPage() {
     try {
       const res = await fetch("/api/admin/settings", {
         method: "PATCH",
-        headers: {
-          "Content-Type": "application/json",
-          "x-admin-signature": auth.signature,
-          "x-admin-message": auth.message,
-          "x-admin-address": auth.address,
-        },
+        headers: { "Content-Type": "application/json", ...authHeaders(auth) },
         body: JSON.stringify({ feeCollectorAddress: feeCollectorInput }),
       });
       const data = await res.json();
@@ -266,22 +405,188 @@ export default function AdminPage() {
     }
   }, [auth, feeCollectorInput]);
 
+  // ── Add token to the registry ─────────────────────────────────
+  const handleAddToken = useCallback(async () => {
+    if (!auth) return;
+    const symbol = tokenForm.symbol.trim().toUpperCase();
+    if (
+      !confirm(
+        `Add ${symbol} to the token registry?\n\n` +
+          "Every session has to re-grant its permission before this token is forwarded for it.",
+      )
+    ) {
+      return;
+    }
+    setAddingToken(true);
+    setError(null);
+    try {
+      const addresses = Object.fromEntries(
+        Object.entries(tokenForm.addresses)
+          .map(([chainId, address]) => [chainId, address.trim()])
+          .filter(([, address]) => address !== ""),
+      );
+      const res = await fetch("/api/admin/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", ...authHeaders(auth) },
+        body: JSON.stringify({
+          addToken: {
+            symbol,
+            name: tokenForm.name.trim(),
+            decimals: Number(tokenForm.decimals),
+            addresses,
+            minBridgeAmount: tokenForm.minBridgeAmount.trim(),
+            maxFeeAmount: tokenForm.maxFeeAmount.trim(),
+          },
+        }),
+      });
+      const data = deserialize<{
+        error?: string;
+        tokens?: TokenInfo[];
+        tokenRegistryVersion?: number;
+      }>(await res.text());
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setTokens(data.tokens ?? []);
+      setTokenRegistryVersion(data.tokenRegistryVersion ?? 0);
+      setTokenForm(EMPTY_TOKEN_FORM);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add token");
+    } finally {
+      setAddingToken(false);
+    }
+  }, [auth, tokenForm]);
+
+  // ── Fetch admins ───────────────────────────────────────────────
+  const fetchAdmins = useCallback(async () => {
+    if (!auth) return;
+    try {
+      const res = await fetch("/api/admin/admins", { headers: authHeaders(auth) });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setAdmins(data.admins ?? []);
+    } catch (err) {
+      console.error("Failed to fetch admins:", err);
+    }
+  }, [auth]);
+
+  // ── Add admin / change role ───────────────────────────────────
+  const handleSaveAdmin = useCallback(
+    async (address: string, role: AdminRole) => {
+      if (!auth) return;
+      setSavingAdmin(true);
+      setError(null);
+      try {
+        const res = await fetch("/api/admin/admins", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...authHeaders(auth) },
+          body: JSON.stringify({ address, role }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+        setAdmins(data.admins ?? []);
+        setNewAdminAddress("");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to save admin");
+      } finally {
+        setSavingAdmin(false);
+      }
+    },
+    [auth],
+  );
+
+  // ── Remove admin ──────────────────────────────────────────────
+  const handleRemoveAdmin = useCallback(
+    async (address: string) => {
+      if (!auth) return;
+      if (!confirm(`Remove admin ${shortAddr(address)}?`)) return;
+      setRemovingAdmin(address);
+      setError(null);
+      try {
+        const res = await fetch(
+          `/api/admin/admins?address=${encodeURIComponent(address)}`,
+          { method: "DELETE", headers: authHeaders(auth) },
+        );
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+        setAdmins(data.admins ?? []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to remove admin");
+      } finally {
+        setRemovingAdmin(null);
+      }
+    },
+    [auth],
+  );
+
+  // ── Fetch encryption keyring + job ─────────────────────────────
+  const fetchEncryption = useCallback(async () => {
+    if (!auth) return;
+    try {
+      const res = await fetch("/api/admin/encryption", { headers: authHeaders(auth) });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setEncryption(data);
+    } catch (err) {
+      console.error("Failed to fetch encryption status:", err);
+    }
+  }, [auth]);
+
+  // ── Re-encrypt every session under the newest key ──────────────
+  // Starts (or resumes) the job and keeps stepping it batch by batch
+  // until it is done.
+  const handleReencrypt = useCallback(async () => {
+    if (!auth) return;
+    const resume = encryption?.job?.status === "running" &&
+      encryption.job.targetKeyId === encryption.currentKeyId;
+    if (!resume && !confirm(`Re-encrypt every session under key "${encryption?.currentKeyId}"?`)) return;
+    setReencrypting(true);
+    setError(null);
+    try {
+      let action: "start" | "step" = resume ? "step" : "start";
+      for (;;) {
+        const res = await fetch("/api/admin/encryption", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...authHeaders(auth) },
+          body: JSON.stringify({ action }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+        setEncryption(data);
+        if (data.job?.status !== "running") break;
+        action = "step";
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Re-encryption failed");
+    } finally {
+      setReencrypting(false);
+    }
+  }, [auth, encryption]);
+
   // ── Disconnect ─────────────────────────────────────────────────
   const handleDisconnect = useCallback(() => {
+    // Revoke the sign-in server-side (best effort)
+    if (auth) {
+      fetch("/api/admin/auth", { method: "DELETE", headers: authHeaders(auth) }).catch(
+        () => {},
+      );
+    }
     setWalletAddress(null);
     setAuth(null);
     setSessions([]);
+    setAdmins([]);
+    setEncryption(null);
     setStep("connect");
     setError(null);
-  }, []);
+  }, [auth]);
 
   // Auto-fetch when authed
   useEffect(() => {
     if (auth) {
       fetchSessions();
       fetchSettings();
+      fetchAdmins();
+      fetchEncryption();
     }
-  }, [auth, fetchSessions, fetchSettings]);
+  }, [auth, fetchSessions, fetchSettings, fetchAdmins, fetchEncryption]);
 
   return (
     <div className="admin-page">
@@ -300,6 +605,7 @@ export default function AdminPage() {
             <span className="chip-addr">
               <span className="chip-dot" />
               {shortAddr(walletAddress)}
+              {auth && <span className="admin-role-badge">{auth.role}</span>}
             </span>
             <button className="btn-ghost" onClick={handleDisconnect}>
               <LogOut size={14} />
@@ -330,10 +636,7 @@ export default function AdminPage() {
             <h1 className="admin-auth-title">Admin Access</h1>
             <p className="admin-auth-desc">
               Connect your extension wallet (MetaMask, Rabby) and sign a message
-              to verify you are the admin.
-            </p>
-            <p className="admin-auth-address">
-              Required: <code>{shortAddr(ADMIN_ADDRESS)}</code>
+              to verify you are an admin.
             </p>
             <button className="btn-primary admin-auth-btn" onClick={handleConnect}>
               <Wallet size={16} />
@@ -352,9 +655,15 @@ export default function AdminPage() {
             </div>
             <h1 className="admin-auth-title">Sign Message</h1>
             <p className="admin-auth-desc">
-              Sign a message with your wallet to prove you own the admin address.
-              This does not cost any gas.
+              Sign a message with your wallet to prove you own an admin address.
+              The sign-in lasts one hour and does not cost any gas.
             </p>
+            {nukeResult && (
+              <div className="admin-nuke-result">
+                <CheckCircle size={16} />
+                <span>{nukeResult}</span>
+              </div>
+            )}
             <button className="btn-primary admin-auth-btn" onClick={handleSign}>
               <PenLine size={16} />
               Sign Message
@@ -408,18 +717,20 @@ export default function AdminPage() {
                         {s.walletAddress}
                       </span>
                     </div>
-                    <button
-                      className="admin-delete-btn"
-                      onClick={() => handleDelete(s.walletAddress)}
-                      disabled={deleting === s.walletAddress}
-                    >
-                      {deleting === s.walletAddress ? (
-                        <RefreshCw size={14} className="icon-spin" />
-                      ) : (
-                        <Trash2 size={14} />
-                      )}
-                      {deleting === s.walletAddress ? "Deleting…" : "Delete"}
-                    </button>
+                    {hasRole(auth, "operator") && (
+                      <button
+                        className="admin-delete-btn"
+                        onClick={() => handleDelete(s.walletAddress)}
+                        disabled={deleting === s.walletAddress}
+                      >
+                        {deleting === s.walletAddress ? (
+                          <RefreshCw size={14} className="icon-spin" />
+                        ) : (
+                          <Trash2 size={14} />
+                        )}
+                        {deleting === s.walletAddress ? "Deleting…" : "Delete"}
+                      </button>
+                    )}
                   </div>
 
                   <div className="admin-session-grid">
@@ -434,9 +745,9 @@ export default function AdminPage() {
                       <span className="admin-field-value">
                         <span
                           className="admin-chain-dot"
-                          style={{ background: CHAIN_META[s.listeningConfig.destChainId]?.color ?? "#888" }}
+                          style={{ background: getChainConfig(s.listeningConfig.destChainId)?.color ?? "#888" }}
                         />
-                        {chainLabel(s.listeningConfig.destChainId)}
+                        {chainDisplayName(s.listeningConfig.destChainId)}
                       </span>
                     </div>
                     <div className="admin-session-field">
@@ -466,6 +777,41 @@ export default function AdminPage() {
                       </span>
                     </div>
                   </div>
+
+                  {!!s.depositFailures?.length && (
+                    <div className="admin-session-failures">
+                      <AlertTriangle size={14} />
+                      <ul>
+                        {s.depositFailures.map((f) => (
+                          <li key={`${f.chainId}:${f.tokenSymbol}`}>
+                            <strong>
+                              {/* chainId 0 — the wallet as a whole failed */}
+                              {f.chainId === 0
+                                ? "All deposits"
+                                : `${f.tokenSymbol} on ${chainDisplayName(f.chainId)}`}
+                            </strong>{" "}
+                            {f.circuitOpenedAt
+                              ? `circuit open after ${f.consecutiveFailures} failures`
+                              : `${f.consecutiveFailures} failure(s), next try ${new Date(f.retryAfter).toLocaleTimeString()}`}
+                            : {f.lastError}
+                          </li>
+                        ))}
+                      </ul>
+                      {hasRole(auth, "operator") && (
+                        <button
+                          className="admin-refresh-btn"
+                          onClick={() => handleResetFailures(s.walletAddress)}
+                          disabled={resettingFailures === s.walletAddress}
+                        >
+                          <RefreshCw
+                            size={13}
+                            className={resettingFailures === s.walletAddress ? "icon-spin" : undefined}
+                          />
+                          Reset
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -479,8 +825,10 @@ export default function AdminPage() {
                 <h2 className="admin-settings-title">Settings</h2>
               </div>
               <p className="admin-settings-desc">
-                Configure the fee collector address for cross-token bridge fees (10 bps).
-                Caps: 20 USDC, 20 USDT, 0.01 WETH per transfer.
+                Configure the fee collector address for cross-token bridge fees (10 bps,
+                capped per token — see Tokens below). Session permissions are
+                pinned to the collector they were granted with, so existing sessions
+                keep paying the previous collector until they are re-granted.
               </p>
             </div>
 
@@ -503,6 +851,7 @@ export default function AdminPage() {
                   onClick={handleSaveSettings}
                   disabled={
                     savingSettings ||
+                    !hasRole(auth, "operator") ||
                     feeCollectorInput.toLowerCase() === feeCollectorAddress.toLowerCase()
                   }
                 >
@@ -524,66 +873,361 @@ export default function AdminPage() {
             </div>
           </div>
 
-          {/* ── Danger zone: Nuke all data ─────────────────── */}
-          <div className="admin-nuke-section">
-            <div className="admin-nuke-header">
-              <h2 className="admin-nuke-title">Danger Zone</h2>
-              <p className="admin-nuke-desc">
-                Permanently delete all data from Redis — sessions, history, and
-                every stored key. This action cannot be undone.
+          {/* ── Token registry ─────────────────────────────── */}
+          <div className="admin-settings-section">
+            <div className="admin-settings-header">
+              <div className="admin-settings-title-row">
+                <Coins size={18} />
+                <h2 className="admin-settings-title">Tokens</h2>
+              </div>
+              <p className="admin-settings-desc">
+                Tokens watched and forwarded, with their minimum bridge amount and
+                cross-token fee cap. Adding a token bumps the registry version (now
+                v{tokenRegistryVersion}); sessions are asked to re-grant before it is
+                forwarded for them.
               </p>
             </div>
 
-            {nukeResult && (
-              <div className="admin-nuke-result">
-                <CheckCircle size={16} />
-                <span>{nukeResult}</span>
-                <button
-                  className="admin-error-dismiss"
-                  onClick={() => setNukeResult(null)}
-                >
-                  ✕
-                </button>
-              </div>
-            )}
+            <div className="admin-admins-list">
+              {tokens.map((t) => (
+                <div key={t.symbol} className="admin-admin-row">
+                  <span className="admin-session-addr">
+                    {t.symbol} — {t.name}
+                  </span>
+                  <span className="admin-settings-current">
+                    {Object.keys(t.addresses).map((id) => chainDisplayName(Number(id))).join(", ")}
+                    {" · "}min {formatUnits(t.minBridgeAmount, t.decimals)}
+                    {" · "}fee cap {formatUnits(t.maxFeeAmount, t.decimals)}
+                  </span>
+                  <span className="admin-role-badge">
+                    {t.addedInVersion ? `v${t.addedInVersion}` : "built-in"}
+                  </span>
+                </div>
+              ))}
+            </div>
 
-            {!nukeConfirm ? (
-              <button
-                className="admin-nuke-btn"
-                onClick={() => setNukeConfirm(true)}
-              >
-                <Bomb size={16} />
-                Delete All Data
-              </button>
-            ) : (
-              <div className="admin-nuke-confirm">
-                <p className="admin-nuke-confirm-text">
-                  Are you absolutely sure? This will wipe <strong>everything</strong>.
-                </p>
-                <div className="admin-nuke-confirm-actions">
+            {hasRole(auth, "operator") && (
+              <div className="admin-settings-field">
+                <label className="admin-settings-label" htmlFor="newTokenSymbol">
+                  Add Token
+                </label>
+                <div className="admin-settings-input-row">
+                  <input
+                    id="newTokenSymbol"
+                    type="text"
+                    className="admin-settings-input"
+                    value={tokenForm.symbol}
+                    onChange={(e) => setTokenForm({ ...tokenForm, symbol: e.target.value })}
+                    placeholder="Symbol (e.g. DAI)"
+                    spellCheck={false}
+                  />
+                  <input
+                    type="text"
+                    className="admin-settings-input"
+                    value={tokenForm.name}
+                    onChange={(e) => setTokenForm({ ...tokenForm, name: e.target.value })}
+                    placeholder="Name"
+                  />
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    className="admin-settings-input"
+                    value={tokenForm.decimals}
+                    onChange={(e) => setTokenForm({ ...tokenForm, decimals: e.target.value })}
+                    placeholder="Decimals"
+                  />
+                </div>
+                {CHAIN_REGISTRY.map((entry) => (
+                  <div key={entry.chain.id} className="admin-settings-input-row">
+                    <input
+                      type="text"
+                      className="admin-settings-input"
+                      value={tokenForm.addresses[entry.chain.id] ?? ""}
+                      onChange={(e) =>
+                        setTokenForm({
+                          ...tokenForm,
+                          addresses: { ...tokenForm.addresses, [entry.chain.id]: e.target.value },
+                        })
+                      }
+                      placeholder={`${entry.name} address (0x…, blank if not deployed)`}
+                      spellCheck={false}
+                    />
+                  </div>
+                ))}
+                <div className="admin-settings-input-row">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    className="admin-settings-input"
+                    value={tokenForm.minBridgeAmount}
+                    onChange={(e) =>
+                      setTokenForm({ ...tokenForm, minBridgeAmount: e.target.value })
+                    }
+                    placeholder="Min bridge amount (e.g. 0.1)"
+                  />
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    className="admin-settings-input"
+                    value={tokenForm.maxFeeAmount}
+                    onChange={(e) => setTokenForm({ ...tokenForm, maxFeeAmount: e.target.value })}
+                    placeholder="Fee cap per transfer (e.g. 20)"
+                  />
                   <button
-                    className="admin-nuke-btn admin-nuke-btn--confirm"
-                    onClick={handleNuke}
-                    disabled={nuking}
+                    className="admin-settings-save-btn"
+                    onClick={handleAddToken}
+                    disabled={
+                      addingToken ||
+                      !tokenForm.symbol.trim() ||
+                      !tokenForm.decimals.trim() ||
+                      !tokenForm.minBridgeAmount.trim() ||
+                      !tokenForm.maxFeeAmount.trim()
+                    }
                   >
-                    {nuking ? (
+                    {addingToken ? (
                       <RefreshCw size={14} className="icon-spin" />
                     ) : (
-                      <Bomb size={14} />
+                      <Plus size={14} />
                     )}
-                    {nuking ? "Wiping…" : "Yes, wipe everything"}
+                    Add
                   </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* ── Admins ─────────────────────────────────────── */}
+          <div className="admin-settings-section">
+            <div className="admin-settings-header">
+              <div className="admin-settings-title-row">
+                <Users size={18} />
+                <h2 className="admin-settings-title">Admins</h2>
+              </div>
+              <p className="admin-settings-desc">
+                Viewers can read sessions and settings, operators can also delete
+                sessions and change settings, owners can also manage admins and
+                wipe all data.
+              </p>
+            </div>
+
+            <div className="admin-admins-list">
+              {admins.map((a) => (
+                <div key={a.address} className="admin-admin-row">
+                  <span className="admin-session-addr">{a.address}</span>
+                  {hasRole(auth, "owner") ? (
+                    <select
+                      className="admin-role-select"
+                      value={a.role}
+                      onChange={(e) => handleSaveAdmin(a.address, e.target.value as AdminRole)}
+                      disabled={savingAdmin}
+                    >
+                      {ADMIN_ROLES.map((r) => (
+                        <option key={r} value={r}>
+                          {r}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="admin-role-badge">{a.role}</span>
+                  )}
+                  {hasRole(auth, "owner") && (
+                    <button
+                      className="admin-delete-btn"
+                      onClick={() => handleRemoveAdmin(a.address)}
+                      disabled={removingAdmin === a.address}
+                    >
+                      {removingAdmin === a.address ? (
+                        <RefreshCw size={14} className="icon-spin" />
+                      ) : (
+                        <Trash2 size={14} />
+                      )}
+                      Remove
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {hasRole(auth, "owner") && (
+              <div className="admin-settings-field">
+                <label className="admin-settings-label" htmlFor="newAdmin">
+                  Add Admin
+                </label>
+                <div className="admin-settings-input-row">
+                  <input
+                    id="newAdmin"
+                    type="text"
+                    className="admin-settings-input"
+                    value={newAdminAddress}
+                    onChange={(e) => setNewAdminAddress(e.target.value)}
+                    placeholder="0x…"
+                    spellCheck={false}
+                  />
+                  <select
+                    className="admin-role-select"
+                    value={newAdminRole}
+                    onChange={(e) => setNewAdminRole(e.target.value as AdminRole)}
+                  >
+                    {ADMIN_ROLES.map((r) => (
+                      <option key={r} value={r}>
+                        {r}
+                      </option>
+                    ))}
+                  </select>
                   <button
-                    className="admin-nuke-cancel-btn"
-                    onClick={() => setNukeConfirm(false)}
-                    disabled={nuking}
+                    className="admin-settings-save-btn"
+                    onClick={() => handleSaveAdmin(newAdminAddress.trim(), newAdminRole)}
+                    disabled={savingAdmin || !newAdminAddress.trim()}
                   >
-                    Cancel
+                    {savingAdmin ? (
+                      <RefreshCw size={14} className="icon-spin" />
+                    ) : (
+                      <UserPlus size={14} />
+                    )}
+                    Add
                   </button>
                 </div>
               </div>
             )}
           </div>
+
+          {/* ── Encryption key rotation ─────────────────────── */}
+          {encryption && (
+            <div className="admin-settings-section">
+              <div className="admin-settings-header">
+                <div className="admin-settings-title-row">
+                  <KeyRound size={18} />
+                  <h2 className="admin-settings-title">Encryption Keys</h2>
+                </div>
+                <p className="admin-settings-desc">
+                  {encryption.mode === "envelope"
+                    ? "Session keys and webhook secrets are encrypted under per-secret data keys wrapped by the key-encryption provider. After switching modes or rotating the KEK, re-encrypt every session before retiring the old key."
+                    : "Session keys and webhook secrets are encrypted under the first key in SESSION_ENCRYPTION_KEYS. After adding a new key, re-encrypt every session under it before removing the old one."}
+                </p>
+              </div>
+
+              <p className="admin-settings-current">
+                Mode: <code>{encryption.mode}</code> · current key:{" "}
+                <code>{encryption.currentKeyId}</code>
+                {encryption.keyIds.length > (encryption.mode === "envelope" ? 0 : 1) && (
+                  <>
+                    {" "}· keyring: <code>{encryption.keyIds.join(", ")}</code>
+                  </>
+                )}
+              </p>
+
+              {encryption.job && (
+                <div className="admin-reencrypt-progress">
+                  <div className="admin-reencrypt-bar">
+                    <div
+                      className="admin-reencrypt-bar-fill"
+                      style={{
+                        width: `${encryption.job.total ? (encryption.job.processed / encryption.job.total) * 100 : 100}%`,
+                      }}
+                    />
+                  </div>
+                  <p className="admin-settings-current">
+                    {encryption.job.status === "done" ? "Finished" : "Running"} → key{" "}
+                    <code>{encryption.job.targetKeyId}</code>:{" "}
+                    {encryption.job.processed}/{encryption.job.total} processed ·{" "}
+                    {encryption.job.reencrypted} re-encrypted · {encryption.job.current} already
+                    current · {encryption.job.missing} gone
+                    {encryption.job.failed.length > 0 && (
+                      <> · {encryption.job.failed.length} failed</>
+                    )}
+                  </p>
+                  {encryption.job.failed.map((f) => (
+                    <p key={f.walletAddress} className="admin-settings-current">
+                      <code>{shortAddr(f.walletAddress)}</code> {f.error}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {hasRole(auth, "owner") && (
+                <button
+                  className="admin-settings-save-btn"
+                  onClick={handleReencrypt}
+                  disabled={reencrypting}
+                >
+                  {reencrypting ? (
+                    <RefreshCw size={14} className="icon-spin" />
+                  ) : (
+                    <KeyRound size={14} />
+                  )}
+                  {reencrypting
+                    ? "Re-encrypting…"
+                    : encryption.job?.status === "running" &&
+                        encryption.job.targetKeyId === encryption.currentKeyId
+                      ? "Resume Re-encryption"
+                      : "Re-encrypt All Sessions"}
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* ── Danger zone: Nuke all data ─────────────────── */}
+          {hasRole(auth, "owner") && (
+            <div className="admin-nuke-section">
+              <div className="admin-nuke-header">
+                <h2 className="admin-nuke-title">Danger Zone</h2>
+                <p className="admin-nuke-desc">
+                  Permanently delete all data from Redis — sessions, history, and
+                  every stored key. This action cannot be undone.
+                </p>
+              </div>
+
+              {nukeResult && (
+                <div className="admin-nuke-result">
+                  <CheckCircle size={16} />
+                  <span>{nukeResult}</span>
+                  <button
+                    className="admin-error-dismiss"
+                    onClick={() => setNukeResult(null)}
+                  >
+                    ✕
+                  </button>
+                </div>
+              )}
+
+              {!nukeConfirm ? (
+                <button
+                  className="admin-nuke-btn"
+                  onClick={() => setNukeConfirm(true)}
+                >
+                  <Bomb size={16} />
+                  Delete All Data
+                </button>
+              ) : (
+                <div className="admin-nuke-confirm">
+                  <p className="admin-nuke-confirm-text">
+                    Are you absolutely sure? This will wipe <strong>everything</strong>.
+                  </p>
+                  <div className="admin-nuke-confirm-actions">
+                    <button
+                      className="admin-nuke-btn admin-nuke-btn--confirm"
+                      onClick={handleNuke}
+                      disabled={nuking}
+                    >
+                      {nuking ? (
+                        <RefreshCw size={14} className="icon-spin" />
+                      ) : (
+                        <Bomb size={14} />
+                      )}
+                      {nuking ? "Wiping…" : "Yes, wipe everything"}
+                    </button>
+                    <button
+                      className="admin-nuke-cancel-btn"
+                      onClick={() => setNukeConfirm(false)}
+                      disabled={nuking}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
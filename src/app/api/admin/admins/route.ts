@@ -0,0 +1,145 @@
+/**
+ * /api/admin/admins
+ *
+ * Manage who can use the admin panel.
+ *
+ * GET    — List admins and their roles                       [viewer]
+ * POST   — Add an admin or change a role { address, role }  [owner]
+ * DELETE — Remove an admin (?address=0x…)                    [owner]
+ *
+ * The last owner can never be removed or demoted.
+ */
+
+import { NextResponse } from "next/server";
+import { isAddress } from "viem";
+import { getAdmins, setAdmins, type AdminEntry, type AdminRole } from "@/lib/db";
+import { requireAdmin, auditAdminAction, ADMIN_ROLES } from "@/lib/adminAuth";
+
+const ownerCount = (admins: AdminEntry[]) =>
+  admins.filter((a) => a.role === "owner").length;
+
+// ── GET — list admins ────────────────────────────────────────────────
+export async function GET(req: Request) {
+  const auth = await requireAdmin(req, "viewer");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    return NextResponse.json({ admins: await getAdmins() });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Internal error" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── POST — add admin / change role ───────────────────────────────────
+export async function POST(req: Request) {
+  const auth = await requireAdmin(req, "owner");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  let body: { address?: string; role?: string } = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (!body.address || !isAddress(body.address)) {
+    return NextResponse.json({ error: "Invalid Ethereum address" }, { status: 400 });
+  }
+  if (!ADMIN_ROLES.includes(body.role as AdminRole)) {
+    return NextResponse.json(
+      { error: `role must be one of: ${ADMIN_ROLES.join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const address = body.address.toLowerCase();
+    const role = body.role as AdminRole;
+    const admins = await getAdmins();
+    const existing = admins.find((a) => a.address === address);
+
+    const next: AdminEntry[] = existing
+      ? admins.map((a) => (a.address === address ? { ...a, role } : a))
+      : [
+          ...admins,
+          {
+            address,
+            role,
+            addedBy: auth.admin.address,
+            addedAt: new Date().toISOString(),
+          },
+        ];
+
+    if (ownerCount(next) === 0) {
+      return NextResponse.json(
+        { error: "Cannot demote the last owner" },
+        { status: 400 },
+      );
+    }
+
+    await setAdmins(next);
+    await auditAdminAction(
+      req,
+      auth,
+      existing ? "admin.update" : "admin.add",
+      address,
+      existing ? { before: existing.role, after: role } : { role },
+    );
+    return NextResponse.json({ ok: true, admins: next });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Internal error" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── DELETE — remove admin ────────────────────────────────────────────
+export async function DELETE(req: Request) {
+  const auth = await requireAdmin(req, "owner");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const address = new URL(req.url).searchParams.get("address")?.toLowerCase();
+  if (!address) {
+    return NextResponse.json(
+      { error: "Missing ?address= query parameter" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const admins = await getAdmins();
+    const existing = admins.find((a) => a.address === address);
+    if (!existing) {
+      return NextResponse.json({ error: "Not an admin" }, { status: 404 });
+    }
+
+    const next = admins.filter((a) => a.address !== address);
+    if (ownerCount(next) === 0) {
+      return NextResponse.json(
+        { error: "Cannot remove the last owner" },
+        { status: 400 },
+      );
+    }
+
+    await setAdmins(next);
+    await auditAdminAction(req, auth, "admin.remove", address, {
+      role: existing.role,
+    });
+    return NextResponse.json({ ok: true, admins: next });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Internal error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * /api/admin/audit
+ *
+ * GET — Audit log, newest first (paginated)                    [viewer]
+ *
+ * Query params:
+ *   - offset:  number (default 0)
+ *   - limit:   number (default 50, max 200)
+ *   - address: only entries for this wallet's session
+ */
+
+import { NextResponse } from "next/server";
+import { isAddress } from "viem";
+import { getAuditEntries, getAuditCount } from "@/lib/db";
+import { requireAdmin } from "@/lib/adminAuth";
+
+export async function GET(req: Request) {
+  const auth = await requireAdmin(req, "viewer");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const url = new URL(req.url);
+  const offset = Math.max(0, parseInt(url.searchParams.get("offset") ?? "0", 10) || 0);
+  const limit = Math.min(200, Math.max(1, parseInt(url.searchParams.get("limit") ?? "50", 10) || 50));
+  const address = url.searchParams.get("address") ?? undefined;
+
+  if (address !== undefined && !isAddress(address)) {
+    return NextResponse.json({ error: "Invalid Ethereum address" }, { status: 400 });
+  }
+
+  try {
+    const [entries, total] = await Promise.all([
+      getAuditEntries(offset, limit, address),
+      getAuditCount(address),
+    ]);
+    return NextResponse.json({ entries, total, offset, limit });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Internal error" },
+      { status: 500 },
+    );
+  }
+}
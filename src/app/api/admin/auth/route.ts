@@ -0,0 +1,79 @@
+/**
+ * /api/admin/auth
+ *
+ * Admin sign-in (see lib/adminAuth.ts).
+ *
+ * POST   — Issue a nonce for an admin address to sign (no auth)
+ * GET    — Return the signed-in admin's address and role   [viewer]
+ * DELETE — Sign out: revoke the signed message's nonce     [viewer]
+ */
+
+import { NextResponse } from "next/server";
+import { isAddress } from "viem";
+import { revokeAdminNonce } from "@/lib/db";
+import {
+  requireAdmin,
+  issueAdminChallenge,
+  auditAdminAction,
+} from "@/lib/adminAuth";
+
+// ── POST — issue a sign-in nonce ─────────────────────────────────────
+export async function POST(req: Request) {
+  let body: { address?: string } = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (!body.address || !isAddress(body.address)) {
+    return NextResponse.json({ error: "Invalid Ethereum address" }, { status: 400 });
+  }
+
+  try {
+    const challenge = await issueAdminChallenge(body.address);
+    if (!challenge) {
+      return NextResponse.json({ error: "Not admin" }, { status: 403 });
+    }
+    return NextResponse.json({ nonce: challenge.nonce });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Internal error" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── GET — who am I ───────────────────────────────────────────────────
+export async function GET(req: Request) {
+  const auth = await requireAdmin(req, "viewer");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  await auditAdminAction(req, auth, "admin.sign_in");
+  return NextResponse.json({
+    address: auth.admin.address,
+    role: auth.admin.role,
+    expiresAt: new Date(auth.expiresAt).toISOString(),
+  });
+}
+
+// ── DELETE — sign out ────────────────────────────────────────────────
+export async function DELETE(req: Request) {
+  const auth = await requireAdmin(req, "viewer");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    await revokeAdminNonce(auth.admin.address, auth.nonce);
+    await auditAdminAction(req, auth, "admin.sign_out");
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Internal error" },
+      { status: 500 },
+    );
+  }
+}
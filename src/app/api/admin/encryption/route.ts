@@ -0,0 +1,92 @@
+/**
+ * /api/admin/encryption
+ *
+ * Encryption key rotation (see lib/encrypt.ts and lib/reencryption.ts).
+ *
+ * GET  — Encryption mode, key ids and re-encryption job progress [viewer]
+ * POST — { action: "start" } start a job over every active
+ *        session, or { action: "step" } run its next batch       [owner]
+ *
+ * Both POST actions run one batch and return the job's progress; the
+ * admin panel keeps stepping until it reports "done" (poll cycles also
+ * advance a running job on their own).
+ */
+
+import { NextResponse } from "next/server";
+import { getReencryptionJob } from "@/lib/db";
+import { requireAdmin, adminActor } from "@/lib/adminAuth";
+import {
+  keyringStatus,
+  reencryptionProgress,
+  startReencryptionJob,
+  runReencryptionBatch,
+} from "@/lib/reencryption";
+
+// ── GET — keyring + job progress ─────────────────────────────────────
+export async function GET(req: Request) {
+  const auth = await requireAdmin(req, "viewer");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const job = await getReencryptionJob();
+    return NextResponse.json({
+      ...(await keyringStatus()),
+      job: job ? reencryptionProgress(job) : null,
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Internal error" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── POST — start / step the re-encryption job ────────────────────────
+export async function POST(req: Request) {
+  const auth = await requireAdmin(req, "owner");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  let body: { action?: string } = {};
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (body.action !== "start" && body.action !== "step") {
+    return NextResponse.json(
+      { error: 'action must be "start" or "step"' },
+      { status: 400 },
+    );
+  }
+
+  try {
+    if (
+      body.action === "start" &&
+      !(await startReencryptionJob(adminActor(req, auth)))
+    ) {
+      return NextResponse.json(
+        { error: "A re-encryption job is already running" },
+        { status: 409 },
+      );
+    }
+
+    const job = await runReencryptionBatch();
+    if (!job) {
+      return NextResponse.json({ error: "No re-encryption job" }, { status: 404 });
+    }
+    return NextResponse.json({
+      ...(await keyringStatus()),
+      job: reencryptionProgress(job),
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Internal error" },
+      { status: 500 },
+    );
+  }
+}
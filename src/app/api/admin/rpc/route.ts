@@ -0,0 +1,45 @@
+/**
+ * /api/admin/rpc
+ *
+ * RPC endpoint health (see rpcHealth.ts).
+ *
+ * GET — Configured endpoints per chain, with latency and error rates as
+ *       seen by this process and by the last poll cycle          [viewer]
+ *
+ * Endpoints are shown by host only; configured URLs often embed API keys.
+ */
+
+import { NextResponse } from "next/server";
+import { getRpcHealth } from "@/lib/db";
+import { requireAdmin } from "@/lib/adminAuth";
+import { CHAIN_REGISTRY, chainRpcUrls } from "@/chains";
+import { rpcHealthSnapshot, rpcUrlHost } from "@/rpcHealth";
+
+// ── GET — endpoints + health ─────────────────────────────────────────
+export async function GET(req: Request) {
+  const auth = await requireAdmin(req, "viewer");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const chains = CHAIN_REGISTRY.map((entry) => ({
+      chainId: entry.chain.id,
+      name: entry.name,
+      endpoints: chainRpcUrls(entry.chain.id).map((url, index) => ({
+        index,
+        host: rpcUrlHost(url),
+      })),
+    }));
+    return NextResponse.json({
+      chains,
+      process: rpcHealthSnapshot(),
+      lastPollCycle: await getRpcHealth(),
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Internal error" },
+      { status: 500 },
+    );
+  }
+}
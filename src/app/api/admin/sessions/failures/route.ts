@@ -0,0 +1,42 @@
+/**
+ * /api/admin/sessions/failures
+ *
+ * DELETE — Reset a wallet's failure backoff and open circuits
+ *          (?address=0x…, optionally &key=<chainId>:<token>)  [operator]
+ */
+
+import { NextResponse } from "next/server";
+import { getSession, resetDepositFailures } from "@/lib/db";
+import { requireAdmin, adminActor } from "@/lib/adminAuth";
+
+// ── DELETE — reset failures ──────────────────────────────────────────
+export async function DELETE(req: Request) {
+  const auth = await requireAdmin(req, "operator");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const address = searchParams.get("address");
+  const key = searchParams.get("key") ?? undefined;
+
+  if (!address) {
+    return NextResponse.json(
+      { error: "Missing ?address= query parameter" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    if (!(await getSession(address))) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+    const cleared = await resetDepositFailures(address, adminActor(req, auth), key);
+    return NextResponse.json({ ok: true, cleared: cleared.length });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Internal error" },
+      { status: 500 },
+    );
+  }
+}
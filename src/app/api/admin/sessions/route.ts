@@ -2,71 +2,26 @@
  * /api/admin/sessions
  *
  * Protected admin endpoints for viewing and deleting sessions.
- * Every request must include a valid signature from the hardcoded admin address.
+ * Every request must carry a signed admin sign-in (see lib/adminAuth.ts).
  *
- * GET    — List all sessions (active set + details)
- * POST   — Nuclear: flush ALL data from Redis (sessions, history, everything)
- * DELETE — Remove a session by wallet address (?address=0x…)
+ * GET    — List all sessions (active set + details)               [viewer]
+ * POST   — Nuclear: flush ALL data (sessions, history, everything) [owner]
+ * DELETE — Remove a session by wallet address (?address=0x…)      [operator]
  */
 
 import { NextResponse } from "next/server";
-import { verifyMessage } from "viem";
 import {
   getActiveAddresses,
   getSession,
   deleteSession,
   deleteAllData,
+  getDepositFailures,
 } from "@/lib/db";
-
-// ── Hardcoded admin address ──────────────────────────────────────────
-const ADMIN_ADDRESS = "0x6CC236D96C1f02916D469dba37c52550ba0821FF".toLowerCase();
-
-// ── Signature validity window (5 minutes) ────────────────────────────
-const MAX_AGE_MS = 5 * 60 * 1000;
-
-// ── Verify admin signature ───────────────────────────────────────────
-async function verifyAdmin(req: Request): Promise<{ ok: true } | { ok: false; error: string; status: number }> {
-  const signature = req.headers.get("x-admin-signature") as `0x${string}` | null;
-  const message = req.headers.get("x-admin-message");
-  const address = req.headers.get("x-admin-address");
-
-  if (!signature || !message || !address) {
-    return { ok: false, error: "Missing auth headers", status: 401 };
-  }
-
-  // Check timestamp freshness
-  const tsMatch = message.match(/Timestamp:\s*(\d+)/);
-  if (tsMatch) {
-    const ts = parseInt(tsMatch[1], 10);
-    if (Date.now() - ts > MAX_AGE_MS) {
-      return { ok: false, error: "Signature expired — please sign again", status: 401 };
-    }
-  }
-
-  try {
-    const recovered = await verifyMessage({
-      address: address as `0x${string}`,
-      message,
-      signature,
-    });
-
-    if (!recovered) {
-      return { ok: false, error: "Invalid signature", status: 403 };
-    }
-
-    if (address.toLowerCase() !== ADMIN_ADDRESS) {
-      return { ok: false, error: "Not admin", status: 403 };
-    }
-
-    return { ok: true };
-  } catch {
-    return { ok: false, error: "Signature verification failed", status: 403 };
-  }
-}
+import { requireAdmin, adminActor } from "@/lib/adminAuth";
 
 // ── GET — list all sessions ──────────────────────────────────────────
 export async function GET(req: Request) {
-  const auth = await verifyAdmin(req);
+  const auth = await requireAdmin(req, "viewer");
   if (!auth.ok) {
     return NextResponse.json({ error: auth.error }, { status: auth.status });
   }
@@ -86,6 +41,7 @@ export async function GET(req: Request) {
           registeredAt: record.registeredAt,
           lastPollAt: record.lastPollAt,
           active: record.active,
+          depositFailures: Object.values(await getDepositFailures(addr)),
         };
       }),
     );
@@ -104,7 +60,7 @@ export async function GET(req: Request) {
 
 // ── POST — nuclear: flush ALL data ───────────────────────────────────
 export async function POST(req: Request) {
-  const auth = await verifyAdmin(req);
+  const auth = await requireAdmin(req, "owner");
   if (!auth.ok) {
     return NextResponse.json({ error: auth.error }, { status: auth.status });
   }
@@ -125,7 +81,8 @@ export async function POST(req: Request) {
   }
 
   try {
-    const result = await deleteAllData();
+    const result = await deleteAllData(adminActor(req, auth));
+
     return NextResponse.json({
       ok: true,
       message: "All data has been wiped",
@@ -141,7 +98,7 @@ export async function POST(req: Request) {
 
 // ── DELETE — remove a session by address ─────────────────────────────
 export async function DELETE(req: Request) {
-  const auth = await verifyAdmin(req);
+  const auth = await requireAdmin(req, "operator");
   if (!auth.ok) {
     return NextResponse.json({ error: auth.error }, { status: auth.status });
   }
@@ -157,7 +114,7 @@ export async function DELETE(req: Request) {
   }
 
   try {
-    await deleteSession(address);
+    await deleteSession(address, adminActor(req, auth));
     return NextResponse.json({ ok: true, deleted: address });
   } catch (err) {
     return NextResponse.json(
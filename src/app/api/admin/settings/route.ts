@@ -2,76 +2,53 @@
  * /api/admin/settings
  *
  * Protected admin endpoints for viewing and updating app-wide settings.
- * Every request must include a valid signature from the admin address.
+ * Every request must carry a signed admin sign-in (see lib/adminAuth.ts).
  *
- * GET   — Retrieve current settings (fee collector address, etc.)
- * PATCH — Update one or more settings
+ * GET   — Retrieve current settings (fee collector address,
+ *         token registry)                                        [viewer]
+ * PATCH — Update one or more settings                           [operator]
+ *
+ * PATCH `addToken` onboards a token into the registry (addresses per
+ * chain, decimals, min bridge amount, fee cap).  It bumps the registry
+ * version, so every wallet has to re-grant before the token is watched.
+ * Token amounts are BigInts, hence the bigintJson-encoded responses.
  */
 
 import { NextResponse } from "next/server";
-import { verifyMessage, isAddress } from "viem";
-import { getFeeCollectorAddress, setFeeCollectorAddress } from "@/lib/db";
-
-// ── Hardcoded admin address ──────────────────────────────────────────
-const ADMIN_ADDRESS = "0x6CC236D96C1f02916D469dba37c52550ba0821FF".toLowerCase();
-
-// ── Signature validity window (5 minutes) ────────────────────────────
-const MAX_AGE_MS = 5 * 60 * 1000;
-
-// ── Verify admin signature ───────────────────────────────────────────
-async function verifyAdmin(
-  req: Request,
-): Promise<{ ok: true } | { ok: false; error: string; status: number }> {
-  const signature = req.headers.get("x-admin-signature") as `0x${string}` | null;
-  const message = req.headers.get("x-admin-message");
-  const address = req.headers.get("x-admin-address");
-
-  if (!signature || !message || !address) {
-    return { ok: false, error: "Missing auth headers", status: 401 };
-  }
-
-  // Check timestamp freshness
-  const tsMatch = message.match(/Timestamp:\s*(\d+)/);
-  if (tsMatch) {
-    const ts = parseInt(tsMatch[1], 10);
-    if (Date.now() - ts > MAX_AGE_MS) {
-      return { ok: false, error: "Signature expired — please sign again", status: 401 };
-    }
-  }
-
-  try {
-    const recovered = await verifyMessage({
-      address: address as `0x${string}`,
-      message,
-      signature,
-    });
-
-    if (!recovered) {
-      return { ok: false, error: "Invalid signature", status: 403 };
-    }
-
-    if (address.toLowerCase() !== ADMIN_ADDRESS) {
-      return { ok: false, error: "Not admin", status: 403 };
-    }
-
-    return { ok: true };
-  } catch {
-    return { ok: false, error: "Signature verification failed", status: 403 };
-  }
+import { isAddress } from "viem";
+import {
+  getFeeCollectorAddress,
+  setFeeCollectorAddress,
+  getTokenRegistry,
+  addToken,
+} from "@/lib/db";
+import { requireAdmin, adminActor } from "@/lib/adminAuth";
+import { validateTokenInput, tokenFromInput, type TokenInput } from "@/config";
+import { serialize } from "@/lib/bigintJson";
+
+async function settingsBody(extra: Record<string, unknown> = {}): Promise<string> {
+  const [feeCollectorAddress, registry] = await Promise.all([
+    getFeeCollectorAddress(),
+    getTokenRegistry(),
+  ]);
+  return serialize({
+    ...extra,
+    feeCollectorAddress,
+    tokens: Object.values(registry.tokens),
+    tokenRegistryVersion: registry.version,
+  });
 }
 
 // ── GET — retrieve current settings ──────────────────────────────────
 export async function GET(req: Request) {
-  const auth = await verifyAdmin(req);
+  const auth = await requireAdmin(req, "viewer");
   if (!auth.ok) {
     return NextResponse.json({ error: auth.error }, { status: auth.status });
   }
 
   try {
-    const feeCollectorAddress = await getFeeCollectorAddress();
-
-    return NextResponse.json({
-      feeCollectorAddress,
+    return new NextResponse(await settingsBody(), {
+      headers: { "Content-Type": "application/json" },
     });
   } catch (err) {
     return NextResponse.json(
@@ -83,12 +60,12 @@ export async function GET(req: Request) {
 
 // ── PATCH — update settings ──────────────────────────────────────────
 export async function PATCH(req: Request) {
-  const auth = await verifyAdmin(req);
+  const auth = await requireAdmin(req, "operator");
   if (!auth.ok) {
     return NextResponse.json({ error: auth.error }, { status: auth.status });
   }
 
-  let body: { feeCollectorAddress?: string } = {};
+  let body: { feeCollectorAddress?: string; addToken?: TokenInput } = {};
   try {
     body = await req.json();
   } catch {
@@ -106,15 +83,21 @@ export async function PATCH(req: Request) {
           { status: 400 },
         );
       }
-      await setFeeCollectorAddress(body.feeCollectorAddress);
+      await setFeeCollectorAddress(body.feeCollectorAddress, adminActor(req, auth));
     }
 
-    // Return updated settings
-    const feeCollectorAddress = await getFeeCollectorAddress();
+    if (body.addToken !== undefined) {
+      const { tokens } = await getTokenRegistry();
+      const tokenError = validateTokenInput(body.addToken, tokens);
+      if (tokenError) {
+        return NextResponse.json({ error: tokenError }, { status: 400 });
+      }
+      await addToken(tokenFromInput(body.addToken), adminActor(req, auth));
+    }
 
-    return NextResponse.json({
-      ok: true,
-      feeCollectorAddress,
+    // Return updated settings
+    return new NextResponse(await settingsBody({ ok: true }), {
+      headers: { "Content-Type": "application/json" },
     });
   } catch (err) {
     return NextResponse.json(
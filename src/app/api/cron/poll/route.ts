@@ -7,8 +7,9 @@
  * Protected by CRON_SECRET so it can't be called by random visitors.
  *
  * Schedule: every 1 minute (configured in vercel.json).
- * On the Pro plan the function can run for up to 60 s, which is enough
- * to iterate through all registered wallets sequentially.
+ * On the Pro plan the function can run for up to 60 s.  pollAllSessions
+ * stops starting work after POLL_TIME_BUDGET_SECONDS (default 45) and
+ * leaves the wallets it did not reach to the next invocation.
  */
 
 import { NextResponse } from "next/server";
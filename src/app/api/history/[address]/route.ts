@@ -1,6 +1,7 @@
 /**
  * GET  /api/history/:address — fetch history entries (paginated)
- * POST /api/history/:address — add a new history entry
+ * POST /api/history/:address — add a new history entry (wallet-signed,
+ *                               see lib/walletAuth.ts)
  *
  * Query params (GET):
  *   - offset: number (default 0)
@@ -9,6 +10,7 @@
 
 import { NextResponse, type NextRequest } from "next/server";
 import { getHistory, getHistoryCount, addHistoryEntry, type HistoryEntry } from "@/lib/db";
+import { verifyWalletRequest } from "@/lib/walletAuth";
 
 const VALID_TYPES = ["bridge", "forward", "sweep"] as const;
 const VALID_STATUSES = ["success", "error"] as const;
@@ -58,6 +60,11 @@ export async function POST(
     );
   }
 
+  const auth = await verifyWalletRequest(request, address);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
   let body: unknown;
   try {
     body = await request.json();
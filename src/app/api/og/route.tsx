@@ -1,5 +1,6 @@
 import { ImageResponse } from "next/og";
 import { type NextRequest } from "next/server";
+import { CHAIN_REGISTRY } from "@/chains";
 
 export const runtime = "edge";
 
@@ -25,12 +26,9 @@ const PRIMARY = "#6366F1";
 const PRIMARY_LIGHT = "#EEF2FF";
 const BORDER = "#E5E7EB";
 
-const CHAINS: [name: string, color: string][] = [
-  ["Optimism", "#FF0420"],
-  ["Base", "#0052FF"],
-  ["Polygon", "#8247E5"],
-  ["Arbitrum", "#12AAFF"],
-];
+const CHAINS: [name: string, color: string][] = CHAIN_REGISTRY.map(
+  ({ name, color }) => [name, color],
+);
 
 const TOKENS = ["USDC", "USDT", "WETH"];
 
@@ -0,0 +1,47 @@
+/**
+ * GET /api/sessions/:address/audit — the wallet's audit trail (paginated)
+ *
+ * Every registration, reconfiguration and deregistration of the wallet's
+ * session, by the wallet itself or by an admin, newest first.  Client IPs
+ * are only shown in the admin view (/api/admin/audit).
+ *
+ * Query params:
+ *   - offset: number (default 0)
+ *   - limit:  number (default 50, max 100)
+ */
+
+import { NextResponse } from "next/server";
+import { getAuditEntries, getAuditCount } from "@/lib/db";
+
+type Ctx = { params: Promise<{ address: string }> };
+
+export async function GET(req: Request, ctx: Ctx) {
+  const { address } = await ctx.params;
+
+  if (!address || !/^0x[a-fA-F0-9]{40}$/i.test(address)) {
+    return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+  }
+
+  const url = new URL(req.url);
+  const offset = Math.max(0, parseInt(url.searchParams.get("offset") ?? "0", 10) || 0);
+  const limit = Math.min(100, Math.max(1, parseInt(url.searchParams.get("limit") ?? "50", 10) || 50));
+
+  try {
+    const [entries, total] = await Promise.all([
+      getAuditEntries(offset, limit, address),
+      getAuditCount(address),
+    ]);
+
+    return NextResponse.json({
+      entries: entries.map(({ ip: _ip, ...entry }) => entry),
+      total,
+      offset,
+      limit,
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Internal error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * GET /api/sessions/:address/deposits — incoming transfers (paginated)
+ *
+ * Every ERC-20 transfer to the wallet found by log-based deposit
+ * detection (DEPOSIT_DETECTION=logs), with its sender, tx hash and block,
+ * newest first.  Empty while detection reads balances only.
+ *
+ * Query params:
+ *   - offset: number (default 0)
+ *   - limit:  number (default 50, max 100)
+ */
+
+import { NextResponse } from "next/server";
+import { getDepositEvents, getDepositEventCount } from "@/lib/db";
+
+type Ctx = { params: Promise<{ address: string }> };
+
+export async function GET(req: Request, ctx: Ctx) {
+  const { address } = await ctx.params;
+
+  if (!address || !/^0x[a-fA-F0-9]{40}$/i.test(address)) {
+    return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+  }
+
+  const url = new URL(req.url);
+  const offset = Math.max(0, parseInt(url.searchParams.get("offset") ?? "0", 10) || 0);
+  const limit = Math.min(100, Math.max(1, parseInt(url.searchParams.get("limit") ?? "50", 10) || 50));
+
+  try {
+    const [entries, total] = await Promise.all([
+      getDepositEvents(address, offset, limit),
+      getDepositEventCount(address),
+    ]);
+
+    return NextResponse.json({ entries, total, offset, limit });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Internal error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * /api/sessions/[address]/failures
+ *
+ * DELETE — Reset failure backoff and open circuits so the next poll cycle
+ *          retries every held deposit, or only one (?key=<chainId>:<token>,
+ *          or ?key=wallet for a wallet-wide failure)
+ *
+ * Must be signed by the wallet itself (see lib/walletAuth.ts).  The
+ * failures themselves are reported by GET /api/sessions/[address].
+ */
+
+import { NextResponse } from "next/server";
+import { getSession, resetDepositFailures } from "@/lib/db";
+import { c, shortAddr } from "@/lib/log";
+import { verifyWalletRequest, walletActor } from "@/lib/walletAuth";
+
+type Ctx = { params: Promise<{ address: string }> };
+
+// ── DELETE — reset failures ──────────────────────────────────────────
+
+export async function DELETE(req: Request, ctx: Ctx) {
+  const { address } = await ctx.params;
+  const key = new URL(req.url).searchParams.get("key") ?? undefined;
+
+  console.log(
+    `  🔁 ${c.dim("DELETE")} ${c.cyan(shortAddr(address))} failures ${c.dim(key ?? "(all)")}`,
+  );
+
+  const auth = await verifyWalletRequest(req, address);
+  if (!auth.ok) {
+    console.error(c.boldRed(`  ✗ DELETE failures ${shortAddr(address)}: ${auth.error}`));
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    if (!(await getSession(address))) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+    const cleared = await resetDepositFailures(address, walletActor(req, address), key);
+    return NextResponse.json({ ok: true, cleared: cleared.length });
+  } catch (err) {
+    console.error(
+      c.boldRed(`  ✗ DELETE failures error for ${shortAddr(address)}:`),
+      err instanceof Error ? err.message : err,
+    );
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Internal error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * POST /api/sessions/:address/rotate
+ *
+ * Swap the wallet's session key for a freshly generated one.  Called by
+ * the listening dashboard after it has granted the new signer its own
+ * permission; the response carries the previous grant so the browser can
+ * revoke it on-chain.
+ *
+ * Body:
+ *  - sessionPrivateKey: string (0x-prefixed hex)
+ *  - sessionSignerAddress: string
+ *  - sessionDetails: object (the new grant — may contain __bigint: strings)
+ *  - tokenRegistryVersion?: number (token registry version the new grant
+ *    covers; kept when omitted, never older than the current grant's)
+ *
+ * The session keeps its `expiresAt`, so the new grant should carry the
+ * same validity window.  Expired sessions must be renewed instead.
+ *
+ * Must be signed by the wallet itself (see lib/walletAuth.ts).  Holds the
+ * wallet's poll lease while swapping, so no poll cycle is mid-bridge with
+ * the old key when it gets revoked.  Waits up to ROTATION_LEASE_WAIT_MS
+ * for a poll cycle to release it, then answers 409 with Retry-After
+ * (`rotateServerSessionKey` retries on it).
+ */
+
+import { NextResponse } from "next/server";
+import { privateKeyToAccount } from "viem/accounts";
+import {
+  getSession,
+  rotateSessionKey,
+  isSessionExpired,
+  acquireWalletLeaseWithin,
+  releaseWalletLease,
+  getTokenRegistry,
+} from "@/lib/db";
+import { serialize, deserialize } from "@/lib/bigintJson";
+import { c, shortAddr } from "@/lib/log";
+import { verifyWalletRequest, walletActor } from "@/lib/walletAuth";
+import { validateTokenRegistryVersion } from "@/config";
+
+type Ctx = { params: Promise<{ address: string }> };
+
+/** Long enough for one store round-trip; a poll cycle holds it far longer */
+const ROTATION_LEASE_TTL_MS = 30_000;
+/** How long to wait for a poll cycle to release the wallet's lease */
+const ROTATION_LEASE_WAIT_MS = 8_000;
+/** Suggested retry delay when it is still held */
+const ROTATION_RETRY_AFTER_S = 15;
+
+export async function POST(req: Request, ctx: Ctx) {
+  const { address } = await ctx.params;
+
+  const auth = await verifyWalletRequest(req, address);
+  if (!auth.ok) {
+    console.error(c.boldRed(`  ✗ ROTATE ${shortAddr(address)}: ${auth.error}`));
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  // Parse with bigint reviver so sessionDetails has real BigInts
+  const body = deserialize<Record<string, unknown>>(await req.text());
+  const { sessionPrivateKey, sessionSignerAddress, sessionDetails, tokenRegistryVersion } =
+    body as {
+      sessionPrivateKey?: string;
+      sessionSignerAddress?: string;
+      sessionDetails?: unknown;
+      tokenRegistryVersion?: number;
+    };
+
+  if (!sessionPrivateKey || !sessionSignerAddress || !sessionDetails) {
+    return NextResponse.json(
+      { error: "Missing required fields: sessionPrivateKey, sessionSignerAddress, sessionDetails" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const signer = privateKeyToAccount(sessionPrivateKey as `0x${string}`);
+    if (signer.address.toLowerCase() !== sessionSignerAddress.toLowerCase()) {
+      return NextResponse.json(
+        { error: "sessionSignerAddress does not match sessionPrivateKey" },
+        { status: 400 },
+      );
+    }
+  } catch {
+    return NextResponse.json({ error: "Invalid sessionPrivateKey" }, { status: 400 });
+  }
+
+  console.log(
+    `  🔑 ${c.boldBlue("ROTATE")} ${c.cyan(shortAddr(address))}` +
+      `  new signer=${c.cyan(shortAddr(sessionSignerAddress))}`,
+  );
+
+  const lease = await acquireWalletLeaseWithin(
+    address,
+    ROTATION_LEASE_TTL_MS,
+    ROTATION_LEASE_WAIT_MS,
+  );
+  if (!lease) {
+    return NextResponse.json(
+      { error: "A poll cycle is processing this wallet — try again shortly" },
+      { status: 409, headers: { "Retry-After": String(ROTATION_RETRY_AFTER_S) } },
+    );
+  }
+
+  try {
+    const record = await getSession(address);
+    if (!record) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+    if (isSessionExpired(record)) {
+      return NextResponse.json(
+        { error: "Session has expired — renew it instead" },
+        { status: 409 },
+      );
+    }
+    if (record.sessionSignerAddress.toLowerCase() === sessionSignerAddress.toLowerCase()) {
+      return NextResponse.json(
+        { error: "New session signer must differ from the current one" },
+        { status: 400 },
+      );
+    }
+    const versionError =
+      validateTokenRegistryVersion(tokenRegistryVersion, (await getTokenRegistry()).version) ??
+      ((tokenRegistryVersion ?? Infinity) < (record.tokenRegistryVersion ?? 0)
+        ? "The new grant must cover at least the current grant's tokens"
+        : null);
+    if (versionError) {
+      return NextResponse.json({ error: versionError }, { status: 400 });
+    }
+
+    const { previousSessionDetails } = await rotateSessionKey(
+      address,
+      { sessionPrivateKey, sessionSignerAddress, sessionDetails, tokenRegistryVersion },
+      walletActor(req, address),
+    );
+
+    // sessionDetails carries BigInts — serialise with the shared codec
+    return new NextResponse(
+      serialize({
+        ok: true,
+        previousSignerAddress: record.sessionSignerAddress,
+        previousSessionDetails,
+      }),
+      { headers: { "Content-Type": "application/json" } },
+    );
+  } catch (err) {
+    console.error(
+      c.boldRed(`  ✗ ROTATE error for ${shortAddr(address)}:`),
+      err instanceof Error ? err.message : err,
+    );
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Internal error" },
+      { status: 500 },
+    );
+  } finally {
+    await releaseWalletLease(lease).catch(() => {});
+  }
+}
@@ -1,9 +1,24 @@
 /**
  * /api/sessions/[address]
  *
- * GET    — Fetch session status for a wallet
- * PATCH  — Reconfigure (update listeningConfig, sessionDetails, etc.)
- * DELETE — Deregister (stop monitoring)
+ * GET    — Fetch session status for a wallet (incl. whether the session
+ *          key is due for rotation, when the session expires, whether
+ *          its permission set is stale, which registry tokens it
+ *          does not cover yet and which deposits keep failing)
+ * PATCH  — Reconfigure (update listeningConfig, sessionDetails, etc.).
+ *          Changing recipients, routes, spending limits or the lifetime
+ *          must come with a fresh sessionDetails grant — the permission is
+ *          scoped to them.  Renewing sends a new grant with its expiresAt;
+ *          an expired session can only be reactivated that way.  A grant
+ *          covering newly added tokens sends its tokenRegistryVersion.
+ *          A new grant answers with the grant it replaced, to be revoked.
+ * DELETE — Deregister (stop monitoring).  Refused with 409 while any of
+ *          the session's grants — the current one or one it replaced — is
+ *          still live on any chain; the response carries those grants so
+ *          the owner can revoke them on-chain and retry.
+ *
+ * PATCH and DELETE must be signed by the wallet itself (X-Wallet-Message /
+ * X-Wallet-Signature, see lib/walletAuth.ts).
  */
 
 import { NextResponse } from "next/server";
@@ -11,13 +26,51 @@ import {
   getSession,
   updateSession,
   deleteSession,
+  isSessionKeyRotationDue,
+  isSessionExpired,
+  isSessionRenewalDue,
+  diffListeningConfig,
+  getTokenRegistry,
+  getFeeCollectorAddress,
+  getDepositFailures,
   type ListeningConfig,
 } from "@/lib/db";
-import { deserialize } from "@/lib/bigintJson";
+import { serialize, deserialize } from "@/lib/bigintJson";
 import { c, shortAddr } from "@/lib/log";
+import { verifyWalletRequest, walletActor } from "@/lib/walletAuth";
+import {
+  validateMinBridgeAmounts,
+  validateSpendingLimits,
+  validateSessionLifetime,
+  validateSessionExpiry,
+  validateRecipientTokenSymbol,
+  validateSplitRoutes,
+  validateTokenRegistryVersion,
+  tokensForVersion,
+  staleSessionReason,
+  resolveSpendingLimits,
+  SUPPORTED_CHAINS,
+} from "@/config";
+import { getLivePermissionChains } from "@/sessions/getLivePermissionChains";
+import { permissionScopeProblem, resolvePermissionRoutes } from "@/sessions/buildDepositV3Actions";
+import type { Address } from "viem";
 
 type Ctx = { params: Promise<{ address: string }> };
 
+/**
+ * Config fields the on-chain permission is scoped to (see
+ * buildDepositV3Actions) — changing them needs a fresh grant.
+ */
+const PERMISSION_SCOPED_FIELDS: (keyof ListeningConfig)[] = [
+  "destChainId",
+  "recipientIsSelf",
+  "recipientAddr",
+  "recipientTokenSymbol",
+  "routes",
+  "spendingLimits",
+  "sessionLifetimeDays",
+];
+
 // ── GET — session status ─────────────────────────────────────────────
 
 export async function GET(_req: Request, ctx: Ctx) {
@@ -33,6 +86,13 @@ export async function GET(_req: Request, ctx: Ctx) {
       return NextResponse.json({ registered: false });
     }
 
+    const staleReason = staleSessionReason(record.sessionVersion);
+    const registry = await getTokenRegistry();
+    const tokenRegistryVersion = record.tokenRegistryVersion ?? 0;
+    const newTokens = Object.values(registry.tokens)
+      .filter((t) => (t.addedInVersion ?? 0) > tokenRegistryVersion)
+      .map((t) => t.symbol);
+
     console.log(
       `  📋 ${c.dim("GET")} ${c.cyan(shortAddr(address))} → ` +
         `active=${record.active}  v=${record.sessionVersion}  ` +
@@ -47,6 +107,25 @@ export async function GET(_req: Request, ctx: Ctx) {
       sessionVersion: record.sessionVersion,
       registeredAt: record.registeredAt,
       lastPollAt: record.lastPollAt,
+      keyRotatedAt: record.keyRotatedAt ?? null,
+      keyRotationDue: isSessionKeyRotationDue(record),
+      expiresAt: record.expiresAt ?? null,
+      expired: isSessionExpired(record),
+      renewalDue: isSessionRenewalDue(record),
+      // Poll cycles skip stale sessions; staleSince is set by the first one
+      stale: staleReason !== null,
+      staleReason,
+      staleSince: record.staleSince ?? null,
+      // Tokens added since the grant — watched only after a re-grant
+      tokenRegistryVersion,
+      newTokens,
+      // Deposits backing off after failures; circuitOpen ones wait for a
+      // reset (DELETE /api/sessions/[address]/failures)
+      depositFailures: Object.entries(await getDepositFailures(address)).map(([key, f]) => ({
+        key,
+        ...f,
+        circuitOpen: !!f.circuitOpenedAt,
+      })),
     });
   } catch (err) {
     console.error(
@@ -65,6 +144,12 @@ export async function GET(_req: Request, ctx: Ctx) {
 export async function PATCH(req: Request, ctx: Ctx) {
   const { address } = await ctx.params;
 
+  const auth = await verifyWalletRequest(req, address);
+  if (!auth.ok) {
+    console.error(c.boldRed(`  ✗ PATCH ${shortAddr(address)}: ${auth.error}`));
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
   // Parse with bigint reviver so sessionDetails has real BigInts
   const rawText = await req.text();
   const body = deserialize<Record<string, unknown>>(rawText);
@@ -76,9 +161,89 @@ export async function PATCH(req: Request, ctx: Ctx) {
 
   try {
     const patch: Parameters<typeof updateSession>[1] = {};
+    const existing = await getSession(address);
+
+    if (body.expiresAt !== undefined) {
+      if (body.sessionDetails === undefined) {
+        const error = "expiresAt can only change with a new permission grant — include sessionDetails";
+        console.error(c.boldRed(`  ✗ PATCH ${shortAddr(address)}: ${error}`));
+        return NextResponse.json({ error }, { status: 409 });
+      }
+      const lifetimeDays =
+        (body.listeningConfig as ListeningConfig | undefined)?.sessionLifetimeDays ??
+        existing?.listeningConfig.sessionLifetimeDays;
+      const expiryError = validateSessionExpiry(body.expiresAt, lifetimeDays);
+      if (expiryError) {
+        console.error(c.boldRed(`  ✗ PATCH ${shortAddr(address)}: ${expiryError}`));
+        return NextResponse.json({ error: expiryError }, { status: 400 });
+      }
+      patch.expiresAt = body.expiresAt as string;
+    }
+
+    if (body.active === true && existing && isSessionExpired(existing) && !patch.expiresAt) {
+      const error = "Session has expired — renew it with a new grant and expiresAt";
+      console.error(c.boldRed(`  ✗ PATCH ${shortAddr(address)}: ${error}`));
+      return NextResponse.json({ error }, { status: 409 });
+    }
+
+    const registry = await getTokenRegistry();
+    if (body.tokenRegistryVersion !== undefined) {
+      const versionError =
+        body.sessionDetails === undefined
+          ? "tokenRegistryVersion can only change with a new permission grant — include sessionDetails"
+          : validateTokenRegistryVersion(body.tokenRegistryVersion, registry.version);
+      if (versionError) {
+        console.error(c.boldRed(`  ✗ PATCH ${shortAddr(address)}: ${versionError}`));
+        return NextResponse.json({ error: versionError }, { status: 400 });
+      }
+      patch.tokenRegistryVersion = body.tokenRegistryVersion as number;
+    }
 
     if (body.listeningConfig) {
-      patch.listeningConfig = body.listeningConfig as ListeningConfig;
+      const listeningConfig = body.listeningConfig as ListeningConfig;
+      // Config may only name tokens the (new or current) grant covers
+      const tokens = tokensForVersion(
+        registry.tokens,
+        patch.tokenRegistryVersion ?? existing?.tokenRegistryVersion ?? 0,
+      );
+      const configError =
+        validateMinBridgeAmounts(listeningConfig.minBridgeAmounts, tokens) ??
+        validateSpendingLimits(listeningConfig.spendingLimits, tokens) ??
+        validateSessionLifetime(listeningConfig.sessionLifetimeDays) ??
+        validateRecipientTokenSymbol(
+          listeningConfig.recipientTokenSymbol,
+          listeningConfig.destChainId,
+          tokens,
+        ) ??
+        validateSplitRoutes(listeningConfig.routes, tokens) ??
+        // The grant can only be built when every action has one counterparty
+        // and every swapped token a spending limit
+        permissionScopeProblem(SUPPORTED_CHAINS.map((chain) => chain.id), {
+          walletAddress: address as Address,
+          routes: resolvePermissionRoutes(address as Address, listeningConfig),
+          feeCollectorAddress: (await getFeeCollectorAddress()) as Address,
+          spendingLimits: resolveSpendingLimits(listeningConfig.spendingLimits, tokens),
+          tokens,
+        });
+      if (configError) {
+        console.error(c.boldRed(`  ✗ PATCH ${shortAddr(address)}: ${configError}`));
+        return NextResponse.json({ error: configError }, { status: 400 });
+      }
+
+      if (body.sessionDetails === undefined) {
+        const changed = Object.keys(
+          diffListeningConfig(existing?.listeningConfig, listeningConfig),
+        ).map((key) => key.replace("listeningConfig.", ""));
+        const scoped = PERMISSION_SCOPED_FIELDS.filter((f) => changed.includes(f));
+        if (existing && scoped.length > 0) {
+          const error =
+            `Changing ${scoped.join(", ")} needs a new permission grant — ` +
+            `include sessionDetails`;
+          console.error(c.boldRed(`  ✗ PATCH ${shortAddr(address)}: ${error}`));
+          return NextResponse.json({ error }, { status: 409 });
+        }
+      }
+      patch.listeningConfig = listeningConfig;
     }
     if (body.sessionDetails !== undefined) {
       patch.sessionDetails = body.sessionDetails;
@@ -90,7 +255,15 @@ export async function PATCH(req: Request, ctx: Ctx) {
       patch.active = body.active as boolean;
     }
 
-    await updateSession(address, patch);
+    await updateSession(address, patch, walletActor(req, address));
+    if (patch.sessionDetails !== undefined && existing?.sessionDetails) {
+      // The replaced grant, for the owner to revoke on-chain — it
+      // carries BigInts, so serialise with the shared codec
+      return new NextResponse(
+        serialize({ ok: true, previousSessionDetails: existing.sessionDetails }),
+        { headers: { "Content-Type": "application/json" } },
+      );
+    }
     return NextResponse.json({ ok: true });
   } catch (err) {
     console.error(
@@ -106,14 +279,64 @@ export async function PATCH(req: Request, ctx: Ctx) {
 
 // ── DELETE — deregister ──────────────────────────────────────────────
 
-export async function DELETE(_req: Request, ctx: Ctx) {
+export async function DELETE(req: Request, ctx: Ctx) {
   const { address } = await ctx.params;
   console.log(
     `  🗑  ${c.dim("DELETE")} ${c.cyan(shortAddr(address))}`,
   );
 
+  const auth = await verifyWalletRequest(req, address);
+  if (!auth.ok) {
+    console.error(c.boldRed(`  ✗ DELETE ${shortAddr(address)}: ${auth.error}`));
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
   try {
-    await deleteSession(address);
+    // Only revoked grants may be forgotten — a signer could still use
+    // them.  Replaced grants count too: their revocation may have failed.
+    const existing = await getSession(address);
+    const grants = existing
+      ? [existing.sessionDetails, ...(existing.supersededGrants ?? [])].filter(Boolean)
+      : [];
+    if (grants.length > 0) {
+      let live: { sessionDetails: unknown; liveChainIds: number[] }[];
+      try {
+        const checked = await Promise.all(
+          grants.map(async (sessionDetails) => ({
+            sessionDetails,
+            liveChainIds: await getLivePermissionChains(address as `0x${string}`, sessionDetails),
+          })),
+        );
+        live = checked.filter((g) => g.liveChainIds.length > 0);
+      } catch (err) {
+        console.error(
+          c.boldRed(`  ✗ DELETE ${shortAddr(address)}: revocation check failed:`),
+          err instanceof Error ? err.message : err,
+        );
+        return NextResponse.json(
+          { error: "Could not confirm the permission is revoked on-chain — try again" },
+          { status: 503 },
+        );
+      }
+      if (live.length > 0) {
+        for (const { liveChainIds } of live) {
+          console.log(
+            c.dim(`  ↳ permission still live on chain(s) ${liveChainIds.join(", ")}`),
+          );
+        }
+        // sessionDetails carries BigInts — serialise with the shared codec
+        return new NextResponse(
+          serialize({
+            error: "Revoke the session permissions on-chain before deleting",
+            revokeRequired: true,
+            grants: live,
+          }),
+          { status: 409, headers: { "Content-Type": "application/json" } },
+        );
+      }
+    }
+
+    await deleteSession(address, walletActor(req, address));
     return NextResponse.json({ ok: true });
   } catch (err) {
     console.error(
@@ -0,0 +1,176 @@
+/**
+ * /api/sessions/[address]/webhooks
+ *
+ * GET    — List the wallet's webhook endpoints (secrets are never returned)
+ * POST   — Register an endpoint { url, events? } → { id, url, events, secret }
+ * DELETE — Remove an endpoint (?id=wh_…)
+ *
+ * POST and DELETE must be signed by the wallet itself (see lib/walletAuth.ts).
+ */
+
+import { NextResponse } from "next/server";
+import {
+  getSession,
+  addWebhookEndpoint,
+  removeWebhookEndpoint,
+  type WebhookEvent,
+} from "@/lib/db";
+import { c, shortAddr } from "@/lib/log";
+import { verifyWalletRequest } from "@/lib/walletAuth";
+import {
+  WEBHOOK_EVENTS,
+  MAX_WEBHOOK_ENDPOINTS,
+  validateWebhookUrl,
+  checkWebhookHost,
+} from "@/lib/webhooks";
+
+type Ctx = { params: Promise<{ address: string }> };
+
+function validateWebhookEvents(value: unknown): string | null {
+  if (value === undefined) return null;
+  if (!Array.isArray(value) || value.length === 0) {
+    return "events must be a non-empty array";
+  }
+  const unknown = value.filter((e) => !WEBHOOK_EVENTS.includes(e));
+  if (unknown.length > 0) {
+    return `Unknown webhook event(s): ${unknown.join(", ")}`;
+  }
+  return null;
+}
+
+// ── GET — list endpoints ─────────────────────────────────────────────
+
+export async function GET(_req: Request, ctx: Ctx) {
+  const { address } = await ctx.params;
+
+  try {
+    const record = await getSession(address);
+    if (!record) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+
+    const webhooks = (record.webhooks ?? []).map((w) => ({
+      id: w.id,
+      url: w.url,
+      events: w.events,
+      createdAt: w.createdAt,
+    }));
+
+    console.log(
+      `  📬 ${c.dim("GET")} ${c.cyan(shortAddr(address))} webhooks → ${webhooks.length}`,
+    );
+    return NextResponse.json({ webhooks });
+  } catch (err) {
+    console.error(
+      c.boldRed(`  ✗ GET webhooks error for ${shortAddr(address)}:`),
+      err instanceof Error ? err.message : err,
+    );
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Internal error" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── POST — register endpoint ─────────────────────────────────────────
+
+export async function POST(req: Request, ctx: Ctx) {
+  const { address } = await ctx.params;
+
+  const auth = await verifyWalletRequest(req, address);
+  if (!auth.ok) {
+    console.error(c.boldRed(`  ✗ POST webhooks ${shortAddr(address)}: ${auth.error}`));
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const body = (await req.json()) as { url?: unknown; events?: unknown };
+
+    const inputError =
+      validateWebhookUrl(body.url) ??
+      validateWebhookEvents(body.events) ??
+      (await checkWebhookHost(body.url as string));
+    if (inputError) {
+      console.error(c.boldRed(`  ✗ POST webhooks ${shortAddr(address)}: ${inputError}`));
+      return NextResponse.json({ error: inputError }, { status: 400 });
+    }
+
+    const record = await getSession(address);
+    if (!record) {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 });
+    }
+    if ((record.webhooks ?? []).length >= MAX_WEBHOOK_ENDPOINTS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints per wallet` },
+        { status: 400 },
+      );
+    }
+
+    const events = [
+      ...new Set((body.events as WebhookEvent[] | undefined) ?? WEBHOOK_EVENTS),
+    ];
+    const { endpoint, secret } = await addWebhookEndpoint(address, {
+      url: body.url as string,
+      events,
+    });
+
+    console.log(
+      `  📬 ${c.dim("POST")} ${c.cyan(shortAddr(address))} webhook ${endpoint.id} → ` +
+        `${endpoint.url} ${c.dim(`[${events.join(", ")}]`)}`,
+    );
+
+    return NextResponse.json({
+      id: endpoint.id,
+      url: endpoint.url,
+      events: endpoint.events,
+      createdAt: endpoint.createdAt,
+      secret,
+    });
+  } catch (err) {
+    console.error(
+      c.boldRed(`  ✗ POST webhooks error for ${shortAddr(address)}:`),
+      err instanceof Error ? err.message : err,
+    );
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Internal error" },
+      { status: 500 },
+    );
+  }
+}
+
+// ── DELETE — remove endpoint ─────────────────────────────────────────
+
+export async function DELETE(req: Request, ctx: Ctx) {
+  const { address } = await ctx.params;
+  const id = new URL(req.url).searchParams.get("id");
+
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  console.log(
+    `  🗑  ${c.dim("DELETE")} ${c.cyan(shortAddr(address))} webhook ${id}`,
+  );
+
+  const auth = await verifyWalletRequest(req, address);
+  if (!auth.ok) {
+    console.error(c.boldRed(`  ✗ DELETE webhook ${shortAddr(address)}: ${auth.error}`));
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    if (!(await removeWebhookEndpoint(address, id))) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error(
+      c.boldRed(`  ✗ DELETE webhook error for ${shortAddr(address)}:`),
+      err instanceof Error ? err.message : err,
+    );
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Internal error" },
+      { status: 500 },
+    );
+  }
+}
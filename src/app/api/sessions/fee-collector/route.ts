@@ -0,0 +1,23 @@
+/**
+ * GET /api/sessions/fee-collector
+ *
+ * Public — the current fee collector address.  The setup pipeline pins
+ * the session's `transfer` permission to it (see buildDepositV3Actions),
+ * so cross-token fees can only ever go there.
+ */
+
+import { NextResponse } from "next/server";
+import { getFeeCollectorAddress } from "@/lib/db";
+
+export async function GET() {
+  try {
+    return NextResponse.json({
+      feeCollectorAddress: await getFeeCollectorAddress(),
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Internal error" },
+      { status: 500 },
+    );
+  }
+}
@@ -10,15 +10,43 @@
  *  - sessionPrivateKey: string (0x-prefixed hex)
  *  - sessionSignerAddress: string
  *  - sessionDetails: object (the grant result — may contain __bigint: strings)
- *  - listeningConfig: { destChainId, recipientIsSelf, recipientAddr, recipientTokenSymbol? }
+ *  - listeningConfig: { destChainId, recipientIsSelf, recipientAddr, recipientTokenSymbol?, minBridgeAmounts?, spendingLimits?, sessionLifetimeDays?, routes? }
  *  - sessionVersion: number
+ *  - tokenRegistryVersion?: number (token registry version the grant was
+ *    built from — tokens added later are not watched until a re-grant)
+ *  - expiresAt?: string (ISO — when the granted permission expires; the
+ *    session is deactivated after it)
+ *
+ * Must be signed by `walletAddress` (X-Wallet-Message / X-Wallet-Signature,
+ * see lib/walletAuth.ts) — registering replaces any existing session.
  */
 
 import { NextResponse } from "next/server";
-import { registerSession } from "@/lib/db";
+import {
+  registerSession,
+  getTokenRegistry,
+  getFeeCollectorAddress,
+  type ListeningConfig,
+} from "@/lib/db";
 import { deserialize } from "@/lib/bigintJson";
 import { c, shortAddr, fmtMs } from "@/lib/log";
 import { getPostHogClient } from "@/lib/posthog-server";
+import { verifyWalletRequest, walletActor } from "@/lib/walletAuth";
+import {
+  validateMinBridgeAmounts,
+  validateSpendingLimits,
+  validateSessionLifetime,
+  validateSessionExpiry,
+  validateRecipientTokenSymbol,
+  validateSplitRoutes,
+  validateTokenRegistryVersion,
+  tokensForVersion,
+  resolveSpendingLimits,
+  SUPPORTED_CHAINS,
+} from "@/config";
+import { permissionScopeProblem, resolvePermissionRoutes } from "@/sessions/buildDepositV3Actions";
+import type { Address } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
 
 export async function POST(request: Request) {
   const startTime = Date.now();
@@ -35,18 +63,17 @@ export async function POST(request: Request) {
       sessionDetails,
       listeningConfig,
       sessionVersion,
+      tokenRegistryVersion,
+      expiresAt,
     } = body as {
       walletAddress: string;
       sessionPrivateKey: string;
       sessionSignerAddress: string;
       sessionDetails: unknown;
-      listeningConfig: {
-        destChainId: number;
-        recipientIsSelf: boolean;
-        recipientAddr: string;
-        recipientTokenSymbol?: string;
-      };
+      listeningConfig: ListeningConfig;
       sessionVersion: number;
+      tokenRegistryVersion?: number;
+      expiresAt?: string;
     };
 
     const lc = listeningConfig;
@@ -57,6 +84,7 @@ export async function POST(request: Request) {
         `  v=${sessionVersion}` +
         `  dest=${lc?.destChainId}` +
         tokenTag +
+        (lc?.routes ? `  routes=${lc.routes.length}` : "") +
         `  recipient=${lc?.recipientIsSelf ? "self" : shortAddr(lc?.recipientAddr)}`,
     );
 
@@ -87,6 +115,56 @@ export async function POST(request: Request) {
       );
     }
 
+    const auth = await verifyWalletRequest(request, walletAddress, rawText);
+    if (!auth.ok) {
+      console.error(c.boldRed(`  ❌ Unauthorized: ${auth.error}`));
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    // The stored key must be the grant's redeemer, or the session can never sign
+    let signerError: string | null = null;
+    try {
+      const signer = privateKeyToAccount(sessionPrivateKey as `0x${string}`);
+      if (signer.address.toLowerCase() !== sessionSignerAddress.toLowerCase()) {
+        signerError = "sessionSignerAddress does not match sessionPrivateKey";
+      }
+    } catch {
+      signerError = "Invalid sessionPrivateKey";
+    }
+    if (signerError) {
+      console.error(c.boldRed(`  ❌ ${signerError}`));
+      return NextResponse.json({ error: signerError }, { status: 400 });
+    }
+
+    // Config may only name tokens the grant covers
+    const registry = await getTokenRegistry();
+    const tokens = tokensForVersion(registry.tokens, tokenRegistryVersion ?? 0);
+    const configError =
+      validateTokenRegistryVersion(tokenRegistryVersion, registry.version) ??
+      validateMinBridgeAmounts(listeningConfig.minBridgeAmounts, tokens) ??
+      validateSpendingLimits(listeningConfig.spendingLimits, tokens) ??
+      validateSessionLifetime(listeningConfig.sessionLifetimeDays) ??
+      validateSessionExpiry(expiresAt, listeningConfig.sessionLifetimeDays) ??
+      validateRecipientTokenSymbol(
+        listeningConfig.recipientTokenSymbol,
+        listeningConfig.destChainId,
+        tokens,
+      ) ??
+      validateSplitRoutes(listeningConfig.routes, tokens) ??
+      // The grant can only be built when every action has one counterparty
+      // and every swapped token a spending limit
+      permissionScopeProblem(SUPPORTED_CHAINS.map((chain) => chain.id), {
+        walletAddress: walletAddress as Address,
+        routes: resolvePermissionRoutes(walletAddress as Address, listeningConfig),
+        feeCollectorAddress: (await getFeeCollectorAddress()) as Address,
+        spendingLimits: resolveSpendingLimits(listeningConfig.spendingLimits, tokens),
+        tokens,
+      });
+    if (configError) {
+      console.error(c.boldRed(`  ❌ ${configError}`));
+      return NextResponse.json({ error: configError }, { status: 400 });
+    }
+
     await registerSession({
       walletAddress,
       sessionPrivateKey,
@@ -94,7 +172,9 @@ export async function POST(request: Request) {
       sessionDetails,
       listeningConfig,
       sessionVersion,
-    });
+      tokenRegistryVersion,
+      expiresAt,
+    }, walletActor(request, walletAddress));
 
     // Track server-side session registration
     const posthog = getPostHogClient();
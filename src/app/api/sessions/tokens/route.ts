@@ -0,0 +1,27 @@
+/**
+ * GET /api/sessions/tokens
+ *
+ * Public — the token registry: the built-in tokens plus those admins
+ * have added, and the registry version.  The setup pipeline grants
+ * permissions for every token listed and records the version, so the
+ * dashboard can ask for a re-grant once a newer token is added.
+ */
+
+import { NextResponse } from "next/server";
+import { getTokenRegistry } from "@/lib/db";
+import { serialize } from "@/lib/bigintJson";
+
+export async function GET() {
+  try {
+    const registry = await getTokenRegistry();
+    return new NextResponse(
+      serialize({ version: registry.version, tokens: Object.values(registry.tokens) }),
+      { headers: { "Content-Type": "application/json" } },
+    );
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Internal error" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { PrivyProvider } from "@privy-io/react-auth";
-import { optimism, base, polygon, arbitrum } from "viem/chains";
+import { SUPPORTED_CHAINS } from "../config";
 import type { ReactNode } from "react";
 
 export function Providers({ children }: { children: ReactNode }) {
@@ -19,7 +19,7 @@ export function Providers({ children }: { children: ReactNode }) {
       config={{
         appearance: { theme: "dark" },
         loginMethods: ["email", "passkey"],
-        supportedChains: [optimism, base, polygon, arbitrum],
+        supportedChains: [...SUPPORTED_CHAINS],
         embeddedWallets: {
           ethereum: { createOnLogin: "all-users" },
           showWalletUIs: false,
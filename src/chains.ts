@@ -0,0 +1,192 @@
+import { optimism, base, polygon, arbitrum } from "viem/chains";
+import { isAddress, type Address, type Chain } from "viem";
+
+/**
+ * Chain registry — the one place a supported chain is described.  The
+ * chain tables elsewhere (`SUPPORTED_CHAINS`, RPC transports and token
+ * addresses in config.ts, `CHAIN_META` in constants.ts, chain names in
+ * logs and admin pages) are all derived from it.
+ *
+ * Adding a chain means adding one entry below, plus its
+ * NEXT_PUBLIC_RPC_* env var.  `validateChainRegistry` rejects an
+ * incomplete entry when this module loads, so a half-added chain fails
+ * at startup rather than in a poll cycle.
+ */
+
+/** ERC-20 tokens every registered chain must list an address for */
+export const REGISTRY_TOKEN_SYMBOLS = ["USDC", "USDT", "WETH"] as const;
+export type RegistryTokenSymbol = (typeof REGISTRY_TOKEN_SYMBOLS)[number];
+
+export type ChainCapabilities = {
+  /**
+   * The native currency is ETH.  Native balances are then bridged like
+   * deposits (wrapped into WETH first, or kept native for routes that
+   * want ETH), and routes may deliver native ETH here; elsewhere native
+   * balances are left alone.
+   */
+  nativeEth: boolean;
+};
+
+export type ChainConfig = {
+  chain: Chain;
+  /** Display name (UI, logs, admin pages) */
+  name: string;
+  /** Brand colour, `#RRGGBB` */
+  color: string;
+  /**
+   * RPC URL, or comma-separated URLs tried in ranked order
+   * (NEXT_PUBLIC_RPC_*).  Next.js only inlines env vars referenced as
+   * literal `process.env.NEXT_PUBLIC_X` expressions, so each entry names
+   * its own.  Unset falls back to the chain's public RPC.  Read it
+   * through `chainRpcUrls`.
+   */
+  rpcUrl: string | undefined;
+  /** Across V3 SpokePool */
+  spokePool: Address;
+  tokens: Record<RegistryTokenSymbol, Address>;
+  /**
+   * Blocks a `Transfer` log must be buried under before log-based
+   * deposit detection records it, so a reorg cannot retract a deposit
+   * event.  Scans stop this many blocks short of the head.
+   */
+  logConfirmations: number;
+  capabilities: ChainCapabilities;
+};
+
+export const CHAIN_REGISTRY: readonly ChainConfig[] = [
+  {
+    chain: optimism,
+    name: "Optimism",
+    color: "#FF0420",
+    rpcUrl: process.env.NEXT_PUBLIC_RPC_OPTIMISM,
+    spokePool: "0x6f26Bf09B1C792e3228e5467807a900A503c0281",
+    tokens: {
+      USDC: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85",
+      USDT: "0x94b008aA00579c1307B0EF2c499aD98a8ce58e58",
+      WETH: "0x4200000000000000000000000000000000000006",
+    },
+    logConfirmations: 10,
+    capabilities: { nativeEth: true },
+  },
+  {
+    chain: base,
+    name: "Base",
+    color: "#0052FF",
+    rpcUrl: process.env.NEXT_PUBLIC_RPC_BASE,
+    spokePool: "0x09aea4b2242abC8bb4BB78D537A67a245A7bEC64",
+    tokens: {
+      USDC: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+      USDT: "0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2",
+      WETH: "0x4200000000000000000000000000000000000006",
+    },
+    logConfirmations: 10,
+    capabilities: { nativeEth: true },
+  },
+  {
+    chain: polygon,
+    name: "Polygon",
+    color: "#8247E5",
+    rpcUrl: process.env.NEXT_PUBLIC_RPC_POLYGON,
+    spokePool: "0x9295ee1d8C5b022Be115A2AD3c30C72E34e7F096",
+    tokens: {
+      USDC: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
+      USDT: "0xc2132D05D31c914a87C6611C10748AEb04B58e8F",
+      // Bridged WETH — POL is the native currency, nothing wraps into it
+      WETH: "0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619",
+    },
+    logConfirmations: 32,
+    capabilities: { nativeEth: false },
+  },
+  {
+    chain: arbitrum,
+    name: "Arbitrum",
+    color: "#12AAFF",
+    rpcUrl: process.env.NEXT_PUBLIC_RPC_ARBITRUM,
+    spokePool: "0xe35e9842fceaca96570b734083f4a58e8f7c5f2a",
+    tokens: {
+      USDC: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+      USDT: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9",
+      WETH: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+    },
+    logConfirmations: 40,
+    capabilities: { nativeEth: true },
+  },
+];
+
+/**
+ * Check every entry is complete: a unique chain id, a name and `#RRGGBB`
+ * colour, a valid SpokePool, an address for every registry token and a
+ * log confirmation depth.
+ * Returns one message per problem (empty when the registry is valid).
+ */
+export function validateChainRegistry(
+  registry: readonly ChainConfig[] = CHAIN_REGISTRY,
+): string[] {
+  const problems: string[] = [];
+  const seen = new Set<number>();
+
+  for (const [i, entry] of registry.entries()) {
+    const where = `chain registry[${i}]${entry.name ? ` (${entry.name})` : ""}`;
+    if (!entry.chain || !Number.isInteger(entry.chain.id)) {
+      problems.push(`${where}: missing viem chain`);
+      continue;
+    }
+    if (seen.has(entry.chain.id)) {
+      problems.push(`${where}: duplicate chain id ${entry.chain.id}`);
+    }
+    seen.add(entry.chain.id);
+
+    if (!entry.name?.trim()) problems.push(`${where}: missing name`);
+    if (!/^#[0-9a-fA-F]{6}$/.test(entry.color ?? "")) {
+      problems.push(`${where}: color must be #RRGGBB`);
+    }
+    if (!isAddress(entry.spokePool ?? "", { strict: false })) {
+      problems.push(`${where}: invalid spokePool address`);
+    }
+    for (const symbol of REGISTRY_TOKEN_SYMBOLS) {
+      if (!isAddress(entry.tokens?.[symbol] ?? "", { strict: false })) {
+        problems.push(`${where}: missing or invalid ${symbol} address`);
+      }
+    }
+    if (!Number.isInteger(entry.logConfirmations) || entry.logConfirmations < 0) {
+      problems.push(`${where}: logConfirmations must be a non-negative integer`);
+    }
+    if (typeof entry.capabilities?.nativeEth !== "boolean") {
+      problems.push(`${where}: capabilities.nativeEth must be set`);
+    }
+  }
+
+  if (registry.length === 0) problems.push("chain registry is empty");
+  return problems;
+}
+
+const registryProblems = validateChainRegistry();
+if (registryProblems.length > 0) {
+  throw new Error(`Invalid chain registry:\n  ${registryProblems.join("\n  ")}`);
+}
+
+const BY_ID = new Map(CHAIN_REGISTRY.map((entry) => [entry.chain.id, entry]));
+
+/** Registry entry for `chainId`, or `undefined` when it is not supported. */
+export function getChainConfig(chainId: number): ChainConfig | undefined {
+  return BY_ID.get(chainId);
+}
+
+/** Display name for `chainId`, e.g. "Base" (or "Chain 1234" when unknown). */
+export function chainDisplayName(chainId: number): string {
+  return BY_ID.get(chainId)?.name ?? `Chain ${chainId}`;
+}
+
+/**
+ * RPC endpoints configured for `chainId`, in configured order — the
+ * chain's public RPC when none are set.
+ */
+export function chainRpcUrls(chainId: number): string[] {
+  const entry = BY_ID.get(chainId);
+  if (!entry) return [];
+  const urls = (entry.rpcUrl ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+  return urls.length > 0 ? urls : [...entry.chain.rpcUrls.default.http];
+}
@@ -16,7 +16,7 @@ import {
 } from "lucide-react";
 import { CHAIN_META, MEESCAN_URL } from "../constants";
 import { shortAddr } from "../utils";
-import { SUPPORTED_TOKENS } from "../config";
+import { useTokenRegistry } from "../hooks/useTokenRegistry";
 import { formatUnits } from "viem";
 
 // ── Types ────────────────────────────────────────────────────────────
@@ -24,7 +24,14 @@ import { formatUnits } from "viem";
 type HistoryEntry = {
   timestamp: string;
   type: "bridge" | "forward" | "sweep";
-  status: "success" | "error";
+  status:
+    | "pending"
+    | "mined"
+    | "filled"
+    | "failed"
+    | "expired"
+    | "success"
+    | "error";
   hash?: string;
   error?: string;
   tokenSymbol: string;
@@ -32,8 +39,39 @@ type HistoryEntry = {
   sourceChainId: number;
   destChainId: number;
   recipient: string;
+  originTxHash?: string;
+  fillTxHash?: string;
 };
 
+/** Collapse the server-side lifecycle into the three visual states */
+function entryTone(entry: HistoryEntry): "success" | "pending" | "error" {
+  switch (entry.status) {
+    case "success":
+    case "filled":
+      return "success";
+    case "mined":
+      // Forwards are final once mined; bridges still await the fill
+      return entry.type === "bridge" ? "pending" : "success";
+    case "pending":
+      return "pending";
+    default:
+      return "error";
+  }
+}
+
+const STATUS_LABEL: Partial<Record<HistoryEntry["status"], string>> = {
+  pending: "Submitted",
+  mined: "Awaiting fill",
+  filled: "Filled",
+  failed: "Failed on-chain",
+  expired: "Expired",
+};
+
+function statusLabel(entry: HistoryEntry): string | undefined {
+  if (entry.status === "mined" && entry.type !== "bridge") return "Mined";
+  return STATUS_LABEL[entry.status];
+}
+
 type FetchState = "idle" | "loading" | "success" | "error";
 
 // ── Component ────────────────────────────────────────────────────────
@@ -42,6 +80,7 @@ export function BridgeHistory() {
   const { wallets } = useWallets();
   const embeddedWallet = wallets.find((w) => w.walletClientType === "privy");
   const address = embeddedWallet?.address;
+  const { tokens } = useTokenRegistry();
 
   const [entries, setEntries] = useState<HistoryEntry[]>([]);
   const [total, setTotal] = useState(0);
@@ -73,7 +112,7 @@ export function BridgeHistory() {
   // ── Helpers ──────────────────────────────────────────────────────────
 
   function formatAmount(amount: string, symbol: string): string {
-    const token = SUPPORTED_TOKENS[symbol];
+    const token = tokens[symbol];
     const decimals = token?.decimals ?? (symbol === "ETH" ? 18 : undefined);
     if (decimals == null) return `${amount} ${symbol}`;
     try {
@@ -175,12 +214,14 @@ export function BridgeHistory() {
             {entries.map((entry, i) => (
               <div
                 key={`${entry.timestamp}-${i}`}
-                className={`history-entry ${entry.status === "success" ? "history-entry--success" : "history-entry--error"}`}
+                className={`history-entry history-entry--${entryTone(entry)}`}
               >
                 {/* Status icon + type */}
                 <div className="history-entry-icon">
-                  {entry.status === "success" ? (
+                  {entryTone(entry) === "success" ? (
                     <CheckCircle2 size={18} />
+                  ) : entryTone(entry) === "pending" ? (
+                    <Loader2 size={18} className="icon-spin" />
                   ) : (
                     <XCircle size={18} />
                   )}
@@ -224,8 +265,13 @@ export function BridgeHistory() {
                       )}
                     </div>
 
-                    {/* Timestamp */}
+                    {/* Status + timestamp */}
                     <span className="history-entry-time">
+                      {statusLabel(entry) && (
+                        <span className={`history-status-tag history-status-tag--${entryTone(entry)}`}>
+                          {statusLabel(entry)}
+                        </span>
+                      )}
                       {formatTime(entry.timestamp)}
                     </span>
                   </div>
@@ -243,8 +289,8 @@ export function BridgeHistory() {
                     </span>
                   </div>
 
-                  {/* Success → hash + MeeScan link */}
-                  {entry.status === "success" && entry.hash && (
+                  {/* Submitted → hash + MeeScan link */}
+                  {entry.status !== "error" && entry.hash && (
                     <div className="history-entry-hash">
                       <span className="history-detail-label">Hash:</span>
                       <a
@@ -259,8 +305,18 @@ export function BridgeHistory() {
                     </div>
                   )}
 
-                  {/* Error → error message */}
-                  {entry.status === "error" && entry.error && (
+                  {/* Filled → destination fill tx */}
+                  {entry.fillTxHash && (
+                    <div className="history-entry-hash">
+                      <span className="history-detail-label">Fill tx:</span>
+                      <span className="history-detail-value history-detail-value--mono">
+                        {shortAddr(entry.fillTxHash)}
+                      </span>
+                    </div>
+                  )}
+
+                  {/* Error / failed / expired → error message */}
+                  {entryTone(entry) === "error" && entry.error && (
                     <div className="history-entry-error">
                       <span className="history-error-text">
                         {entry.error}
@@ -1,5 +1,6 @@
 "use client";
 
+import { useState, useEffect } from "react";
 import {
   Radio,
   Settings2,
@@ -9,11 +10,23 @@ import {
   Loader2,
   CheckCircle2,
   Timer,
+  KeyRound,
+  Hourglass,
+  RefreshCw,
+  AlertTriangle,
+  Coins,
+  CircleSlash,
 } from "lucide-react";
 import type { PipelineState } from "../hooks/usePipeline";
 import { useCronCountdown } from "../hooks/useCronCountdown";
 import { CHAIN_META } from "../constants";
-import { shortAddr } from "../utils";
+import {
+  shortAddr,
+  formatMinBridgeAmounts,
+  formatSpendingLimits,
+  formatSplitRoute,
+  formatTimeLeft,
+} from "../utils";
 
 interface Props {
   pipeline: PipelineState;
@@ -23,6 +36,14 @@ export function ListeningDashboard({ pipeline: p }: Props) {
   const destMeta = CHAIN_META[p.destChainId];
   const countdown = useCronCountdown(p.serverRegistered);
 
+  // Re-render every minute so the session expiry countdown stays current
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!p.sessionExpiresAt) return;
+    const tick = setInterval(() => setNow(Date.now()), 60_000);
+    return () => clearInterval(tick);
+  }, [p.sessionExpiresAt]);
+
   return (
     <section className="listening-section">
       <div className="listening-container">
@@ -62,7 +83,13 @@ export function ListeningDashboard({ pipeline: p }: Props) {
                     The server is polling your address for USDC, USDT &amp;
                     WETH deposits on all monitored chains.
                     <br />
-                    {p.recipientIsSelf ? (
+                    {p.splitRoutes?.length ? (
+                      <>
+                        Each deposit is split across{" "}
+                        <strong>{p.splitRoutes.length} destinations</strong>
+                        {" "}and delivered via Across.
+                      </>
+                    ) : p.recipientIsSelf ? (
                       <>
                         Funds will be automatically bridged to{" "}
                         <strong>{destMeta.name}</strong>
@@ -117,36 +144,177 @@ export function ListeningDashboard({ pipeline: p }: Props) {
             </span>
           </div>
 
-          {/* ── Destination + Session Info ─────────────────────── */}
-          <div className="listening-meta">
-            <div className="listening-meta-row">
-              <span className="listening-meta-label">Destination</span>
-              <span className="listening-meta-value">
-                <span
-                  className="listening-chain-dot"
-                  style={{ background: destMeta.color }}
-                />
-                {destMeta.name}
+          {/* ── Stale session — poll cycles skip it until re-granted ─ */}
+          {p.staleReason && (
+            <div className="listening-banner listening-banner--warning">
+              <AlertTriangle size={16} />
+              <span>
+                <strong>Deposits are not being forwarded.</strong>{" "}
+                {p.staleReason}. Update your session&apos;s permissions to resume.
               </span>
+              <button
+                className="listening-banner-action"
+                onClick={p.handleRegrantSession}
+                disabled={!p.serverRegistered || p.regrantStatus === "loading"}
+              >
+                {p.regrantStatus === "loading" ? (
+                  <Loader2 size={13} className="icon-spin" />
+                ) : (
+                  <RefreshCw size={13} />
+                )}
+                {p.regrantStatus === "loading" ? "Updating…" : "Update"}
+              </button>
             </div>
-            <div className="listening-meta-row">
-              <span className="listening-meta-label">Recipient</span>
-              <span className="listening-meta-value listening-meta-value--mono">
-                {p.recipientIsSelf
-                  ? `Self (${shortAddr(p.embeddedWallet?.address || "")})`
-                  : shortAddr(p.recipientAddr)}
+          )}
+
+          {/* ── New tokens — not watched until the grant covers them ─ */}
+          {p.newTokens.length > 0 && !p.staleReason && (
+            <div className="listening-banner listening-banner--warning">
+              <Coins size={16} />
+              <span>
+                <strong>{p.newTokens.join(", ")}</strong>{" "}
+                {p.newTokens.length > 1 ? "are" : "is"} now supported. Update your
+                session&apos;s permissions to forward {p.newTokens.length > 1 ? "them" : "it"} too.
               </span>
+              <button
+                className="listening-banner-action"
+                onClick={p.handleRegrantSession}
+                disabled={!p.serverRegistered || p.regrantStatus === "loading"}
+              >
+                {p.regrantStatus === "loading" ? (
+                  <Loader2 size={13} className="icon-spin" />
+                ) : (
+                  <RefreshCw size={13} />
+                )}
+                {p.regrantStatus === "loading" ? "Updating…" : "Update"}
+              </button>
             </div>
+          )}
+
+          {/* ── Failing deposits — retried with backoff, held once
+                 their circuit opens until the owner resets it ───── */}
+          {p.depositFailures.length > 0 && !p.staleReason && (
+            <div
+              className={`listening-banner ${
+                p.depositFailures.some((f) => f.circuitOpen)
+                  ? "listening-banner--error"
+                  : "listening-banner--warning"
+              }`}
+            >
+              <CircleSlash size={16} />
+              <span>
+                {p.depositFailures.map((f) => (
+                  <span key={f.key} className="listening-banner-line">
+                    <strong>
+                      {f.key === "wallet"
+                        ? "All deposits"
+                        : `${f.tokenSymbol} on ${CHAIN_META[f.chainId]?.name ?? `Chain ${f.chainId}`}`}
+                    </strong>{" "}
+                    {f.circuitOpen
+                      ? `is on hold after ${f.consecutiveFailures} failed attempts`
+                      : Date.parse(f.retryAfter) > now
+                        ? `failed ${f.consecutiveFailures}× — next try in ${formatTimeLeft(f.retryAfter, now)}`
+                        : `failed ${f.consecutiveFailures}× — retrying next cycle`}
+                    : {f.lastError}
+                  </span>
+                ))}
+              </span>
+              <button
+                className="listening-banner-action"
+                onClick={p.handleResetDepositFailures}
+                disabled={!p.serverRegistered || p.resetFailuresStatus === "loading"}
+              >
+                {p.resetFailuresStatus === "loading" ? (
+                  <Loader2 size={13} className="icon-spin" />
+                ) : (
+                  <RefreshCw size={13} />
+                )}
+                {p.resetFailuresStatus === "loading" ? "Resetting…" : "Retry now"}
+              </button>
+            </div>
+          )}
+
+          {/* ── Renewal prompt ─────────────────────────────────── */}
+          {p.renewalDue && p.sessionExpiresAt && !p.staleReason && (
+            <div className="listening-banner listening-banner--warning">
+              <Hourglass size={16} />
+              <span>
+                Your session expires in{" "}
+                <strong>{formatTimeLeft(p.sessionExpiresAt, now)}</strong>.
+                Renew it to keep bridging deposits.
+              </span>
+              <button
+                className="listening-banner-action"
+                onClick={p.handleRegrantSession}
+                disabled={!p.serverRegistered || p.regrantStatus === "loading"}
+              >
+                {p.regrantStatus === "loading" ? (
+                  <Loader2 size={13} className="icon-spin" />
+                ) : (
+                  <RefreshCw size={13} />
+                )}
+                {p.regrantStatus === "loading" ? "Renewing…" : "Renew"}
+              </button>
+            </div>
+          )}
+
+          {/* ── Destination + Session Info ─────────────────────── */}
+          <div className="listening-meta">
+            {p.splitRoutes?.length ? (
+              <div className="listening-meta-row">
+                <span className="listening-meta-label">Split Routes</span>
+                <span className="listening-meta-value listening-meta-value--stack">
+                  {p.splitRoutes.map((route, i) => (
+                    <span key={i}>{formatSplitRoute(route)}</span>
+                  ))}
+                </span>
+              </div>
+            ) : (
+              <>
+                <div className="listening-meta-row">
+                  <span className="listening-meta-label">Destination</span>
+                  <span className="listening-meta-value">
+                    <span
+                      className="listening-chain-dot"
+                      style={{ background: destMeta.color }}
+                    />
+                    {destMeta.name}
+                  </span>
+                </div>
+                <div className="listening-meta-row">
+                  <span className="listening-meta-label">Recipient</span>
+                  <span className="listening-meta-value listening-meta-value--mono">
+                    {p.recipientIsSelf
+                      ? `Self (${shortAddr(p.embeddedWallet?.address || "")})`
+                      : shortAddr(p.recipientAddr)}
+                  </span>
+                </div>
+              </>
+            )}
             <div className="listening-meta-row">
               <span className="listening-meta-label">Monitored Tokens</span>
               <span className="listening-meta-value">
                 USDC · USDT · WETH
               </span>
             </div>
+            {!p.splitRoutes?.length && (
+              <div className="listening-meta-row">
+                <span className="listening-meta-label">Receive As</span>
+                <span className="listening-meta-value">
+                  {p.recipientTokenSymbol ?? "Same as input"}
+                </span>
+              </div>
+            )}
+            <div className="listening-meta-row">
+              <span className="listening-meta-label">Min. Amounts</span>
+              <span className="listening-meta-value">
+                {formatMinBridgeAmounts(p.minBridgeAmounts)}
+              </span>
+            </div>
             <div className="listening-meta-row">
-              <span className="listening-meta-label">Receive As</span>
+              <span className="listening-meta-label">Spending Limits</span>
               <span className="listening-meta-value">
-                {p.recipientTokenSymbol ?? "Same as input"}
+                {formatSpendingLimits(p.spendingLimits)}
               </span>
             </div>
             <div className="listening-meta-row">
@@ -155,11 +323,22 @@ export function ListeningDashboard({ pipeline: p }: Props) {
                 {p.sessionSignerAddress
                   ? shortAddr(p.sessionSignerAddress)
                   : "—"}
+                {p.keyRotationDue && " (rotation due)"}
+              </span>
+            </div>
+            <div className="listening-meta-row">
+              <span className="listening-meta-label">Session Expires</span>
+              <span className="listening-meta-value">
+                {p.sessionExpiresAt
+                  ? `${Date.parse(p.sessionExpiresAt) > now ? "in " : ""}` +
+                    `${formatTimeLeft(p.sessionExpiresAt, now)} ` +
+                    `(${new Date(p.sessionExpiresAt).toLocaleDateString()})`
+                  : "Never"}
               </span>
             </div>
           </div>
 
-          {/* ── Reconfigure & Delete ──────────────────────────── */}
+          {/* ── Reconfigure, Rotate & Delete ──────────────────── */}
           <div className="listening-actions">
             <button
               className="listening-reconfigure-btn"
@@ -180,6 +359,25 @@ export function ListeningDashboard({ pipeline: p }: Props) {
                   : "Change Recipient or Destination Chain"}
             </button>
 
+            <button
+              className="listening-reconfigure-btn"
+              onClick={p.handleRotateSessionKey}
+              disabled={!p.serverRegistered || p.rotateStatus === "loading"}
+            >
+              {p.rotateStatus === "loading" ? (
+                <Loader2 size={14} className="icon-spin" />
+              ) : p.rotateStatus === "done" ? (
+                <CheckCircle2 size={14} />
+              ) : (
+                <KeyRound size={14} />
+              )}
+              {p.rotateStatus === "loading"
+                ? "Rotating…"
+                : p.rotateStatus === "done"
+                  ? "Rotated"
+                  : "Rotate Session Key"}
+            </button>
+
             <button
               className="listening-delete-btn"
               onClick={p.handleDeleteSession}
@@ -193,7 +391,7 @@ export function ListeningDashboard({ pipeline: p }: Props) {
                 <Trash2 size={14} />
               )}
               {p.deleteStatus === "loading"
-                ? "Disabling…"
+                ? "Revoking…"
                 : p.deleteStatus === "done"
                   ? "Disabled"
                   : "Disable Deposit Address"}
@@ -10,11 +10,11 @@ import {
   ArrowRight,
   Layers,
 } from "lucide-react";
-import { SUPPORTED_CHAINS, SUPPORTED_TOKENS } from "../config";
+import { SUPPORTED_CHAINS } from "../config";
 import { CHAIN_META, MEESCAN_URL } from "../constants";
 import {
   useManageFunds,
-  SWEEP_SYMBOLS,
+  sweepSymbols,
   NATIVE_ETH_SYMBOL,
   type SweepRecord,
 } from "../hooks/useManageFunds";
@@ -88,9 +88,9 @@ export function ManageFunds() {
           </div>
 
           <div className="manage-balance-list">
-            {SWEEP_SYMBOLS.map((sym) => {
+            {sweepSymbols(mf.tokens).map((sym) => {
               const isNative = sym === NATIVE_ETH_SYMBOL;
-              const config = isNative ? null : SUPPORTED_TOKENS[sym];
+              const config = isNative ? null : mf.tokens[sym];
               const hasToken = isNative || !!config?.addresses[mf.selectedChainId];
               const bal = mf.chainBalances[sym] ?? 0n;
               const isSweepable = mf.sweepableTokens.includes(sym);
@@ -105,7 +105,7 @@ export function ManageFunds() {
                     {isNative ? "Native Ether" : config!.name}
                   </span>
                   <span className="manage-token-bal">
-                    {hasToken ? formatTokenBySymbol(bal, sym) : "N/A"}
+                    {hasToken ? formatTokenBySymbol(bal, sym, mf.tokens) : "N/A"}
                   </span>
                   {isSweepable && (
                     <Check size={13} className="manage-token-check" />
@@ -5,7 +5,8 @@ import QRCode from "react-qr-code";
 import Image from "next/image";
 import { ArrowLeftRight, Copy, Check, ExternalLink } from "lucide-react";
 import { CHAIN_META } from "../constants";
-import { SUPPORTED_CHAINS, TOKEN_SYMBOLS } from "../config";
+import { SUPPORTED_CHAINS } from "../config";
+import { useTokenRegistry } from "../hooks/useTokenRegistry";
 
 
 interface PaymentPageProps {
@@ -14,6 +15,7 @@ interface PaymentPageProps {
 
 export function PaymentPage({ address }: PaymentPageProps) {
   const [copied, setCopied] = useState(false);
+  const tokenSymbols = Object.keys(useTokenRegistry().tokens);
 
   const pageUrl = window.location.href;
 
@@ -97,7 +99,7 @@ export function PaymentPage({ address }: PaymentPageProps) {
           {/* Heading */}
           <h1 className="pay-heading">Send Tokens</h1>
           <p className="pay-sub">
-            Send {TOKEN_SYMBOLS.join(", ")} to the address below on any of the
+            Send {tokenSymbols.join(", ")} to the address below on any of the
             supported chains. It will be automatically forwarded to the
             recipient.
           </p>
@@ -106,7 +108,7 @@ export function PaymentPage({ address }: PaymentPageProps) {
           <div className="pay-chains-section">
             <span className="pay-chains-label">Supported Tokens</span>
             <div className="pay-chains-grid">
-              {TOKEN_SYMBOLS.map((symbol) => (
+              {tokenSymbols.map((symbol) => (
                 <div key={symbol} className="pay-chain-pill">
                   <span>{symbol}</span>
                 </div>
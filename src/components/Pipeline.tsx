@@ -49,6 +49,16 @@ export function Pipeline({ pipeline: p }: PipelineProps) {
             setRecipientIsSelf={p.setRecipientIsSelf}
             recipientTokenSymbol={p.recipientTokenSymbol}
             setRecipientTokenSymbol={p.setRecipientTokenSymbol}
+            minBridgeAmounts={p.minBridgeAmounts}
+            setMinBridgeAmounts={p.setMinBridgeAmounts}
+            spendingLimits={p.spendingLimits}
+            setSpendingLimits={p.setSpendingLimits}
+            sessionLifetimeDays={p.sessionLifetimeDays}
+            setSessionLifetimeDays={p.setSessionLifetimeDays}
+            sessionExpiredAt={p.sessionExpiredAt}
+            tokens={p.tokens}
+            splitRoutes={p.splitRoutes}
+            destinationProblem={p.destinationProblem}
             walletAddress={p.embeddedWallet?.address}
             stepRef={ref(1)}
           />
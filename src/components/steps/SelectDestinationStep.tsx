@@ -4,9 +4,26 @@ import { useState, useRef, useEffect, type RefObject } from "react";
 import { Check, ChevronDown } from "lucide-react";
 import posthog from "posthog-js";
 import type { StepStatus } from "../../types";
-import { shortAddr, isValidAddress } from "../../utils";
-import { CHAIN_META, DEST_CHAINS } from "../../constants";
-import { TOKEN_SYMBOLS, SUPPORTED_TOKENS } from "../../config";
+import { formatUnits } from "viem";
+import {
+  shortAddr,
+  isValidAddress,
+  formatMinBridgeAmounts,
+  formatSpendingLimits,
+  formatSplitRoute,
+} from "../../utils";
+import { CHAIN_META, DEST_CHAINS, SPLIT_ROUTES_RULE } from "../../constants";
+import { getChainConfig } from "../../chains";
+import {
+  SESSION_LIFETIME_OPTIONS_DAYS,
+  NATIVE_ETH_SYMBOL,
+  defaultMinBridgeAmount,
+  thresholdSymbols,
+  validateMinBridgeAmounts,
+  validateSpendingLimits,
+  type TokenRegistry,
+} from "../../config";
+import type { SplitRoute } from "../../sessions/index";
 import { StepCard } from "../StepCard";
 
 interface Props {
@@ -26,6 +43,20 @@ interface Props {
   setRecipientIsSelf: (v: boolean) => void;
   recipientTokenSymbol: string | undefined;
   setRecipientTokenSymbol: (v: string | undefined) => void;
+  minBridgeAmounts: Record<string, string>;
+  setMinBridgeAmounts: (v: Record<string, string>) => void;
+  spendingLimits: Record<string, string>;
+  setSpendingLimits: (v: Record<string, string>) => void;
+  sessionLifetimeDays: number;
+  setSessionLifetimeDays: (v: number) => void;
+  /** Expiry of a lapsed session being renewed through the pipeline */
+  sessionExpiredAt: string | null;
+  /** Token registry — every token the grant will cover */
+  tokens: TokenRegistry;
+  /** Split routes set via the sessions API — they replace the destination */
+  splitRoutes?: SplitRoute[];
+  /** Why the destination cannot be granted, or null */
+  destinationProblem: string | null;
   walletAddress?: string;
   stepRef: (el: HTMLDivElement | null) => void;
 }
@@ -47,6 +78,16 @@ export function SelectDestinationStep({
   setRecipientIsSelf,
   recipientTokenSymbol,
   setRecipientTokenSymbol,
+  minBridgeAmounts,
+  setMinBridgeAmounts,
+  spendingLimits,
+  setSpendingLimits,
+  sessionLifetimeDays,
+  setSessionLifetimeDays,
+  sessionExpiredAt,
+  tokens,
+  splitRoutes,
+  destinationProblem,
   walletAddress,
   stepRef,
 }: Props) {
@@ -75,6 +116,16 @@ export function SelectDestinationStep({
           setRecipientIsSelf={setRecipientIsSelf}
           recipientTokenSymbol={recipientTokenSymbol}
           setRecipientTokenSymbol={setRecipientTokenSymbol}
+          minBridgeAmounts={minBridgeAmounts}
+          setMinBridgeAmounts={setMinBridgeAmounts}
+          spendingLimits={spendingLimits}
+          setSpendingLimits={setSpendingLimits}
+          sessionLifetimeDays={sessionLifetimeDays}
+          setSessionLifetimeDays={setSessionLifetimeDays}
+          sessionExpiredAt={sessionExpiredAt}
+          tokens={tokens}
+          splitRoutes={splitRoutes}
+          destinationProblem={destinationProblem}
           walletAddress={walletAddress}
         />
       ) : (
@@ -83,6 +134,9 @@ export function SelectDestinationStep({
           recipientIsSelf={recipientIsSelf}
           recipientAddr={recipientAddr}
           recipientTokenSymbol={recipientTokenSymbol}
+          minBridgeAmounts={minBridgeAmounts}
+          spendingLimits={spendingLimits}
+          sessionLifetimeDays={sessionLifetimeDays}
           walletAddress={walletAddress}
         />
       )}
@@ -90,6 +144,27 @@ export function SelectDestinationStep({
   );
 }
 
+/* ── Helpers ─────────────────────────────────────────────────────── */
+
+/** Default minimum for a token, in human-readable units */
+const defaultMinLabel = (sym: string, tokens: TokenRegistry) =>
+  formatUnits(
+    defaultMinBridgeAmount(sym, tokens),
+    sym === NATIVE_ETH_SYMBOL ? 18 : (tokens[sym]?.decimals ?? 18),
+  );
+
+/** Validation error for one threshold input, or null (blank = default) */
+const minAmountError = (sym: string, value: string | undefined, tokens: TokenRegistry) =>
+  value && value.trim() !== ""
+    ? validateMinBridgeAmounts({ [sym]: value.trim() }, tokens)
+    : null;
+
+/** Validation error for one spending limit input, or null (blank = no limit) */
+const spendingLimitError = (sym: string, value: string | undefined, tokens: TokenRegistry) =>
+  value && value.trim() !== ""
+    ? validateSpendingLimits({ [sym]: value.trim() }, tokens)
+    : null;
+
 /* ── Sub-components ──────────────────────────────────────────────── */
 
 function DestinationForm({
@@ -108,6 +183,16 @@ function DestinationForm({
   setRecipientIsSelf,
   recipientTokenSymbol,
   setRecipientTokenSymbol,
+  minBridgeAmounts,
+  setMinBridgeAmounts,
+  spendingLimits,
+  setSpendingLimits,
+  sessionLifetimeDays,
+  setSessionLifetimeDays,
+  sessionExpiredAt,
+  tokens,
+  splitRoutes,
+  destinationProblem,
   walletAddress,
 }: Omit<Props, "destConfirmed" | "stepRef">) {
   const selfPlaceholder = walletAddress
@@ -150,12 +235,25 @@ function DestinationForm({
     }
   }, [tokenDropdownOpen]);
 
+  const symbols = thresholdSymbols(tokens);
+  const minAmountErrors = symbols.map((sym) =>
+    minAmountError(sym, minBridgeAmounts[sym], tokens),
+  ).filter(Boolean);
+  const spendingLimitErrors = symbols.map((sym) =>
+    spendingLimitError(sym, spendingLimits[sym], tokens),
+  ).filter(Boolean);
+
   const displayTokenSymbol = recipientTokenSymbol ?? "Same as input";
+  // Native ETH can only be delivered where it is the native currency
+  const destHasNativeEth = !!getChainConfig(destChainId)?.capabilities.nativeEth;
   const tokenOptions = [
     { value: undefined as string | undefined, label: "Same as input" },
-    ...TOKEN_SYMBOLS.map((sym) => ({
-      value: sym as string | undefined,
-      label: `${sym} — ${SUPPORTED_TOKENS[sym].name}`,
+    ...(destHasNativeEth
+      ? [{ value: NATIVE_ETH_SYMBOL as string | undefined, label: `${NATIVE_ETH_SYMBOL} — Native Ether` }]
+      : []),
+    ...Object.values(tokens).map((token) => ({
+      value: token.symbol as string | undefined,
+      label: `${token.symbol} — ${token.name}`,
     })),
   ];
 
@@ -201,6 +299,12 @@ function DestinationForm({
                     className={`chain-option${chain.id === destChainId ? " chain-option--active" : ""}`}
                     onClick={() => {
                       setDestChainId(chain.id);
+                      if (
+                        recipientTokenSymbol === NATIVE_ETH_SYMBOL &&
+                        !getChainConfig(chain.id)?.capabilities.nativeEth
+                      ) {
+                        setRecipientTokenSymbol(undefined);
+                      }
                       setChainDropdownOpen(false);
                     }}
                   >
@@ -299,6 +403,125 @@ function DestinationForm({
             )}
           </div>
         </div>
+
+        {/* Minimum bridge amounts */}
+        <div className="dest-field">
+          <label className="dest-field-label">Minimum Bridge Amounts</label>
+          <div className="min-amount-grid">
+            {symbols.map((sym) => {
+              const value = minBridgeAmounts[sym] ?? "";
+              return (
+                <label key={sym} className="min-amount-row">
+                  <span className="min-amount-symbol">{sym}</span>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    className={`recipient-input${
+                      minAmountError(sym, value, tokens) ? " recipient-input--invalid" : ""
+                    }`}
+                    placeholder={defaultMinLabel(sym, tokens)}
+                    value={value}
+                    onChange={(e) =>
+                      setMinBridgeAmounts({
+                        ...minBridgeAmounts,
+                        [sym]: e.target.value.trim(),
+                      })
+                    }
+                    disabled={status === "pending"}
+                    spellCheck={false}
+                    autoComplete="off"
+                  />
+                </label>
+              );
+            })}
+          </div>
+          <span className="dest-field-hint">
+            {minAmountErrors[0] ??
+              "Smaller balances wait until they build up. Leave blank for the default."}
+          </span>
+        </div>
+
+        {/* Session spending limits */}
+        <div className="dest-field">
+          <label className="dest-field-label">Spending Limits</label>
+          <div className="min-amount-grid">
+            {symbols.map((sym) => {
+              const value = spendingLimits[sym] ?? "";
+              return (
+                <label key={sym} className="min-amount-row">
+                  <span className="min-amount-symbol">{sym}</span>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    className={`recipient-input${
+                      spendingLimitError(sym, value, tokens) ? " recipient-input--invalid" : ""
+                    }`}
+                    placeholder="No limit"
+                    value={value}
+                    onChange={(e) =>
+                      setSpendingLimits({
+                        ...spendingLimits,
+                        [sym]: e.target.value.trim(),
+                      })
+                    }
+                    disabled={status === "pending"}
+                    spellCheck={false}
+                    autoComplete="off"
+                  />
+                </label>
+              );
+            })}
+          </div>
+          <span className="dest-field-hint">
+            {spendingLimitErrors[0] ??
+              "Most the session key can ever move per token on each chain, enforced on-chain. Required for tokens swapped into another; otherwise leave blank for no limit."}
+          </span>
+        </div>
+
+        {/* Session lifetime */}
+        <div className="dest-field">
+          <label className="dest-field-label">Session Lifetime</label>
+          <div className="lifetime-options">
+            {SESSION_LIFETIME_OPTIONS_DAYS.map((days) => (
+              <button
+                key={days}
+                className={`lifetime-option${
+                  sessionLifetimeDays === days ? " lifetime-option--active" : ""
+                }`}
+                onClick={() => setSessionLifetimeDays(days)}
+                disabled={status === "pending"}
+              >
+                {days} days
+              </button>
+            ))}
+          </div>
+          <span className="dest-field-hint">
+            {sessionExpiredAt
+              ? `Your previous session expired on ${new Date(sessionExpiredAt).toLocaleDateString()} — continue to renew it.`
+              : "The permission stops working after this. You'll be reminded to renew it a few days before."}
+          </span>
+        </div>
+
+        {/* Split routes (set via the sessions API) */}
+        {splitRoutes?.length ? (
+          <div className="dest-field">
+            <label className="dest-field-label">Split Routes</label>
+            {splitRoutes.map((route, i) => (
+              <span key={i} className="dest-field-value">
+                {formatSplitRoute(route)}
+              </span>
+            ))}
+            <span className="dest-field-hint">
+              These replace the destination above. {SPLIT_ROUTES_RULE}
+            </span>
+          </div>
+        ) : null}
+
+        {destinationProblem && (
+          <span className="dest-field-hint dest-field-hint--error">
+            {destinationProblem}
+          </span>
+        )}
       </div>
 
       {/* Continue */}
@@ -312,11 +535,21 @@ function DestinationForm({
               dest_chain_name: CHAIN_META[destChainId]?.name,
               recipient_is_self: recipientIsSelf,
               recipient_token_symbol: recipientTokenSymbol ?? "same_as_input",
+              custom_min_amounts: Object.keys(minBridgeAmounts).filter(
+                (sym) => minBridgeAmounts[sym],
+              ),
+              spending_limits: Object.keys(spendingLimits).filter(
+                (sym) => spendingLimits[sym],
+              ),
+              session_lifetime_days: sessionLifetimeDays,
             });
           }}
           disabled={
             status === "pending" ||
-            (!recipientIsSelf && !isValidAddress(recipientAddr))
+            (!recipientIsSelf && !isValidAddress(recipientAddr)) ||
+            minAmountErrors.length > 0 ||
+            spendingLimitErrors.length > 0 ||
+            !!destinationProblem
           }
         >
           Continue
@@ -331,12 +564,18 @@ function DestinationConfirmed({
   recipientIsSelf,
   recipientAddr,
   recipientTokenSymbol,
+  minBridgeAmounts,
+  spendingLimits,
+  sessionLifetimeDays,
   walletAddress,
 }: {
   destChainId: number;
   recipientIsSelf: boolean;
   recipientAddr: string;
   recipientTokenSymbol: string | undefined;
+  minBridgeAmounts: Record<string, string>;
+  spendingLimits: Record<string, string>;
+  sessionLifetimeDays: number;
   walletAddress?: string;
 }) {
   return (
@@ -374,6 +613,31 @@ function DestinationConfirmed({
           {recipientTokenSymbol ?? "Same as input"}
         </span>
       </div>
+      <div className="done-row">
+        <span className="done-badge">
+          <Check size={11} strokeWidth={3} />
+          Minimum Amounts
+        </span>
+        <span className="done-value">
+          {formatMinBridgeAmounts(minBridgeAmounts)}
+        </span>
+      </div>
+      <div className="done-row">
+        <span className="done-badge">
+          <Check size={11} strokeWidth={3} />
+          Spending Limits
+        </span>
+        <span className="done-value">
+          {formatSpendingLimits(spendingLimits)}
+        </span>
+      </div>
+      <div className="done-row">
+        <span className="done-badge">
+          <Check size={11} strokeWidth={3} />
+          Session Lifetime
+        </span>
+        <span className="done-value">{sessionLifetimeDays} days</span>
+      </div>
     </div>
   );
 }
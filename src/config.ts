@@ -1,7 +1,14 @@
-import { base, optimism, polygon, arbitrum, mainnet, bsc } from "viem/chains";
-import { http, type Chain, type Transport } from "viem";
+import { fallback, http, parseUnits, formatUnits, type Chain, type Transport } from "viem";
 import type { Address } from "viem";
 import { setGlobalConstants } from "@rhinestone/module-sdk";
+import {
+  CHAIN_REGISTRY,
+  chainDisplayName,
+  chainRpcUrls,
+  getChainConfig,
+  type RegistryTokenSymbol,
+} from "./chains";
+import { trackedTransport } from "./rpcHealth";
 
 // ─── Rhinestone Policy Override ──────────────────────────────────────
 // The V1 Sudo Policy (0x0000000000FEEc8D74e3143fBaBbca515358d869) is
@@ -14,25 +21,32 @@ setGlobalConstants({
   SUDO_POLICY_ADDRESS: "0x0000003111cD8e92337C100F22B7A9dbf8DEE301",
 });
 
+/** Per-request timeout when a chain has endpoints to fall back to */
+const RPC_FALLBACK_TIMEOUT_MS = 10_000;
+/** How often viem's ranker pings each endpoint of a fallback transport */
+const RPC_RANK_INTERVAL_MS = 30_000;
+
 /**
- * Map chain IDs → RPC URLs from env vars.
- * IMPORTANT: Next.js only inlines NEXT_PUBLIC_* env vars when referenced as
- * literal `process.env.NEXT_PUBLIC_X` expressions — dynamic bracket access
- * (e.g. `process.env[key]`) is NOT replaced at build time.  So we must
- * reference each variable explicitly here.
+ * Returns the transport for a chain.  With several registry RPC URLs it
+ * is a viem fallback transport over them, which ranks the endpoints by
+ * latency and stability from its own pings; every endpoint's requests
+ * are timed and scored for health reporting either way (see
+ * rpcHealth.ts).
  */
-const RPC_URLS: Record<number, string | undefined> = {
-  [base.id]: process.env.NEXT_PUBLIC_RPC_BASE,
-  [mainnet.id]: process.env.NEXT_PUBLIC_RPC_ETHEREUM,
-  [arbitrum.id]: process.env.NEXT_PUBLIC_RPC_ARBITRUM,
-  [optimism.id]: process.env.NEXT_PUBLIC_RPC_OPTIMISM,
-  [bsc.id]: process.env.NEXT_PUBLIC_RPC_BNB,
-  [polygon.id]: process.env.NEXT_PUBLIC_RPC_POLYGON,
-};
-
-/** Returns the appropriate transport for a chain, using env-var RPC URLs */
 export function getTransport(chain: Chain): Transport {
-  return http(RPC_URLS[chain.id]);
+  const urls = chainRpcUrls(chain.id);
+  if (urls.length === 0) return http();
+  if (urls.length === 1) return trackedTransport(chain.id, urls[0], http(urls[0]));
+  return fallback(
+    urls.map((url) =>
+      trackedTransport(
+        chain.id,
+        url,
+        http(url, { timeout: RPC_FALLBACK_TIMEOUT_MS, retryCount: 1 }),
+      ),
+    ),
+    { rank: { interval: RPC_RANK_INTERVAL_MS } },
+  );
 }
 
 // ─── Biconomy ────────────────────────────────────────────────────────
@@ -40,12 +54,9 @@ export const NEXUS_SINGLETON =
   "0x00000000383e8cBe298514674Ea60Ee1d1de50ac" as const;
 
 // ─── Across Protocol V3 SpokePool Addresses ─────────────────────────
-export const ACROSS_SPOKEPOOL: Record<number, Address> = {
-  [optimism.id]: "0x6f26Bf09B1C792e3228e5467807a900A503c0281",
-  [base.id]: "0x09aea4b2242abC8bb4BB78D537A67a245A7bEC64",
-  [polygon.id]: "0x9295ee1d8C5b022Be115A2AD3c30C72E34e7F096",
-  [arbitrum.id]: "0xe35e9842fceaca96570b734083f4a58e8f7c5f2a",
-};
+export const ACROSS_SPOKEPOOL: Record<number, Address> = Object.fromEntries(
+  CHAIN_REGISTRY.map((entry) => [entry.chain.id, entry.spokePool]),
+);
 
 // ─── Across SpokePoolPeriphery (used for cross-token swap+bridge) ───
 // Same address deployed on all supported chains.
@@ -62,26 +73,14 @@ export const SWAP_API_DEPOSIT_SELECTOR = "0xad5425c6" as const;
 export const SWAP_API_PERIPHERY_SELECTOR = "0x110560ad" as const;
 
 // ─── Token Addresses ─────────────────────────────────────────────────
-export const USDC: Record<number, Address> = {
-  [optimism.id]: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85",
-  [base.id]: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
-  [polygon.id]: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
-  [arbitrum.id]: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
-};
-
-export const USDT: Record<number, Address> = {
-  [optimism.id]: "0x94b008aA00579c1307B0EF2c499aD98a8ce58e58",
-  [base.id]: "0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2",
-  [polygon.id]: "0xc2132D05D31c914a87C6611C10748AEb04B58e8F",
-  [arbitrum.id]: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9",
-};
+const registryAddresses = (symbol: RegistryTokenSymbol): Record<number, Address> =>
+  Object.fromEntries(
+    CHAIN_REGISTRY.map((entry) => [entry.chain.id, entry.tokens[symbol]]),
+  );
 
-export const WETH: Record<number, Address> = {
-  [optimism.id]: "0x4200000000000000000000000000000000000006",
-  [base.id]: "0x4200000000000000000000000000000000000006",
-  [polygon.id]: "0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619",
-  [arbitrum.id]: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
-};
+export const USDC = registryAddresses("USDC");
+export const USDT = registryAddresses("USDT");
+export const WETH = registryAddresses("WETH");
 
 // ─── Token Configuration ─────────────────────────────────────────────
 export type TokenConfig = {
@@ -89,39 +88,522 @@ export type TokenConfig = {
   name: string;
   decimals: number;
   addresses: Record<number, Address>;
+  /**
+   * Default minimum balance before a deposit is bridged (or swept on the
+   * Manage Funds page), in base units.  Wallets can raise it via
+   * `ListeningConfig.minBridgeAmounts` so small deposits accumulate
+   * first, but never go below it.
+   */
+  minBridgeAmount: bigint;
+  /** Cap on the cross-token bridge fee per transfer, in base units */
+  maxFeeAmount: bigint;
+  /**
+   * Token registry version the token was added in (absent: built in).
+   * Only sessions granted at that version or later may move it.
+   */
+  addedInVersion?: number;
 };
 
-export const SUPPORTED_TOKENS: Record<string, TokenConfig> = {
-  USDC: { symbol: "USDC", name: "USD Coin", decimals: 6, addresses: USDC },
-  USDT: { symbol: "USDT", name: "Tether USD", decimals: 6, addresses: USDT },
-  WETH: { symbol: "WETH", name: "Wrapped Ether", decimals: 18, addresses: WETH },
+/**
+ * Tokens by symbol: the built-ins below plus any an admin has added
+ * (stored in the db — see `getTokenRegistry` in lib/db.ts and
+ * `GET /api/sessions/tokens`).  Functions that take one default to the built-ins.
+ */
+export type TokenRegistry = Record<string, TokenConfig>;
+
+export const SUPPORTED_TOKENS: TokenRegistry = {
+  USDC: {
+    symbol: "USDC",
+    name: "USD Coin",
+    decimals: 6,
+    addresses: USDC,
+    minBridgeAmount: 100_000n, // 0.1 USDC
+    maxFeeAmount: 20_000_000n, // 20 USDC
+  },
+  USDT: {
+    symbol: "USDT",
+    name: "Tether USD",
+    decimals: 6,
+    addresses: USDT,
+    minBridgeAmount: 100_000n, // 0.1 USDT
+    maxFeeAmount: 20_000_000n, // 20 USDT
+  },
+  WETH: {
+    symbol: "WETH",
+    name: "Wrapped Ether",
+    decimals: 18,
+    addresses: WETH,
+    minBridgeAmount: 10_000_000_000_000n, // 0.00001 WETH
+    maxFeeAmount: 10_000_000_000_000_000n, // 0.01 WETH
+  },
 };
 
-export const TOKEN_SYMBOLS = Object.keys(SUPPORTED_TOKENS) as string[];
+/**
+ * Symbol used for native ETH balances (never in the token registry).
+ * Also a valid `recipientTokenSymbol` on chains whose native currency is
+ * ETH — the recipient then gets native ETH rather than WETH.
+ */
+export const NATIVE_ETH_SYMBOL = "ETH";
+
+/**
+ * Whether delivering `input` as `output` keeps the asset — the same
+ * symbol, or native ETH ↔ WETH (a wrap or unwrap, not a swap).  Only a
+ * change of asset is a cross-token route (see `calculateBridgeFee`).
+ */
+export function isSameAsset(input: string, output: string): boolean {
+  if (input === output) return true;
+  const ethLike = [NATIVE_ETH_SYMBOL, "WETH"];
+  return ethLike.includes(input) && ethLike.includes(output);
+}
+
+/**
+ * Validate the token a destination receives (`field`) — a registry token,
+ * or native ETH when `destChainId`'s native currency is ETH.  Returns an
+ * error message, or `null`.
+ */
+export function validateRecipientTokenSymbol(
+  value: unknown,
+  destChainId: number,
+  tokens: TokenRegistry = SUPPORTED_TOKENS,
+  field = "recipientTokenSymbol",
+): string | null {
+  if (value === undefined) return null;
+  if (value === NATIVE_ETH_SYMBOL) {
+    return getChainConfig(destChainId)?.capabilities.nativeEth
+      ? null
+      : `${field}: native ETH cannot be delivered on ${chainDisplayName(destChainId)}`;
+  }
+  if (typeof value !== "string" || !Object.keys(tokens).includes(value)) {
+    return `${field}: unsupported token`;
+  }
+  return null;
+}
+
+/**
+ * The tokens a session granted at token registry `version` covers — the
+ * built-ins plus those added up to that version.
+ */
+export function tokensForVersion(tokens: TokenRegistry, version: number): TokenRegistry {
+  return Object.fromEntries(
+    Object.entries(tokens).filter(([, t]) => (t.addedInVersion ?? 0) <= version),
+  );
+}
+
+/**
+ * Validate the token registry version a grant claims to cover — a whole
+ * number no newer than the `current` registry.  Returns an error
+ * message, or `null`.
+ */
+export function validateTokenRegistryVersion(value: unknown, current: number): string | null {
+  if (value === undefined) return null;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value > current) {
+    return `tokenRegistryVersion must be a whole number from 0 to ${current}`;
+  }
+  return null;
+}
+
+// ─── Token Onboarding ───────────────────────────────────────────────
+/** A token as an admin submits it (`PATCH /api/admin/settings { addToken }`) */
+export type TokenInput = {
+  symbol: string;
+  name: string;
+  decimals: number;
+  /** Chain id → token address, for any of the supported chains */
+  addresses: Record<string, string>;
+  /** Human-readable default minimum, e.g. "0.5" */
+  minBridgeAmount: string;
+  /** Human-readable fee cap per transfer, e.g. "20" */
+  maxFeeAmount: string;
+};
+
+const decimalAmount = (value: unknown, decimals: number): bigint | null => {
+  if (typeof value !== "string" || !/^\d+(\.\d+)?$/.test(value)) return null;
+  if ((value.split(".")[1] ?? "").length > decimals) return null;
+  return parseUnits(value, decimals);
+};
+
+/**
+ * Validate a token an admin wants to add.  Returns an error message, or
+ * `null` when valid.  The symbol must be new (and not the native ETH
+ * symbol); it needs an address on at least one supported chain.
+ */
+export function validateTokenInput(
+  value: unknown,
+  tokens: TokenRegistry = SUPPORTED_TOKENS,
+): string | null {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return "addToken must be an object";
+  }
+  const t = value as Record<string, unknown>;
+  if (typeof t.symbol !== "string" || !/^[A-Za-z0-9]{2,11}$/.test(t.symbol)) {
+    return "addToken.symbol must be 2–11 letters or digits";
+  }
+  const symbol = t.symbol.toUpperCase();
+  if (symbol === NATIVE_ETH_SYMBOL || Object.keys(tokens).includes(symbol)) {
+    return `addToken.symbol: ${symbol} is already supported`;
+  }
+  if (typeof t.name !== "string" || !t.name.trim() || t.name.length > 64) {
+    return "addToken.name must be a non-empty string (at most 64 characters)";
+  }
+  if (!Number.isInteger(t.decimals) || (t.decimals as number) < 0 || (t.decimals as number) > 36) {
+    return "addToken.decimals must be an integer between 0 and 36";
+  }
+  const decimals = t.decimals as number;
+
+  if (typeof t.addresses !== "object" || t.addresses === null || Array.isArray(t.addresses)) {
+    return "addToken.addresses must be an object of chain id → address";
+  }
+  const chainIds = SUPPORTED_CHAINS.map((ch) => String(ch.id));
+  const entries = Object.entries(t.addresses);
+  if (entries.length === 0) return "addToken.addresses needs at least one chain";
+  for (const [chainId, address] of entries) {
+    if (!chainIds.includes(chainId)) {
+      return `addToken.addresses: chain ${chainId} is not supported`;
+    }
+    if (typeof address !== "string" || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return `addToken.addresses.${chainId} must be a valid address`;
+    }
+  }
+
+  const min = decimalAmount(t.minBridgeAmount, decimals);
+  if (min === null || min === 0n) {
+    return `addToken.minBridgeAmount must be a positive decimal string with at most ${decimals} decimals`;
+  }
+  if (decimalAmount(t.maxFeeAmount, decimals) === null) {
+    return `addToken.maxFeeAmount must be a decimal string with at most ${decimals} decimals`;
+  }
+  return null;
+}
+
+/** Build the token config for a validated `TokenInput`. */
+export function tokenFromInput(input: TokenInput): TokenConfig {
+  return {
+    symbol: input.symbol.toUpperCase(),
+    name: input.name.trim(),
+    decimals: input.decimals,
+    addresses: Object.fromEntries(
+      Object.entries(input.addresses).map(([chainId, address]) => [
+        Number(chainId),
+        address as Address,
+      ]),
+    ),
+    minBridgeAmount: parseUnits(input.minBridgeAmount, input.decimals),
+    maxFeeAmount: parseUnits(input.maxFeeAmount, input.decimals),
+  };
+}
+
+// ─── Minimum Bridge Thresholds ──────────────────────────────────────
+/** Default minimum for native ETH (0.00001 ETH) */
+export const NATIVE_ETH_MIN_BRIDGE_AMOUNT = 10_000_000_000_000n;
+/** Fallback minimum for a symbol the registry does not know */
+export const DEFAULT_MIN_BRIDGE = 100_000n;
+
+/** Default minimum balance (base units) before `symbol` is bridged */
+export function defaultMinBridgeAmount(
+  symbol: string,
+  tokens: TokenRegistry = SUPPORTED_TOKENS,
+): bigint {
+  if (symbol === NATIVE_ETH_SYMBOL) return NATIVE_ETH_MIN_BRIDGE_AMOUNT;
+  return tokens[symbol]?.minBridgeAmount ?? DEFAULT_MIN_BRIDGE;
+}
+
+/** Symbols a wallet may set a custom minimum or limit for: ERC-20 tokens + native ETH */
+export const thresholdSymbols = (tokens: TokenRegistry = SUPPORTED_TOKENS) => [
+  ...Object.keys(tokens),
+  NATIVE_ETH_SYMBOL,
+];
+
+const thresholdDecimals = (symbol: string, tokens: TokenRegistry) =>
+  tokens[symbol]?.decimals ?? 18;
+
+/**
+ * Effective minimum (base units) for `symbol`, given a wallet's optional
+ * overrides.  Overrides are human-readable decimal strings (e.g. "25").
+ */
+export function resolveMinBridgeAmount(
+  symbol: string,
+  overrides?: Record<string, string>,
+  tokens: TokenRegistry = SUPPORTED_TOKENS,
+): bigint {
+  const floor = defaultMinBridgeAmount(symbol, tokens);
+  const custom = overrides?.[symbol];
+  if (!custom) return floor;
+  try {
+    const amount = parseUnits(custom, thresholdDecimals(symbol, tokens));
+    return amount > floor ? amount : floor;
+  } catch {
+    return floor;
+  }
+}
+
+/**
+ * Validate a `minBridgeAmounts` map.  Returns an error message, or `null`
+ * when valid.  Each value must be a plain decimal string with no more
+ * fractional digits than the token has, and at least the default minimum.
+ */
+export function validateMinBridgeAmounts(
+  value: unknown,
+  tokens: TokenRegistry = SUPPORTED_TOKENS,
+): string | null {
+  if (value === undefined) return null;
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return "minBridgeAmounts must be an object of token symbol → amount";
+  }
+
+  for (const [symbol, amount] of Object.entries(value)) {
+    if (!thresholdSymbols(tokens).includes(symbol)) {
+      return `minBridgeAmounts: unsupported token "${symbol}"`;
+    }
+    if (typeof amount !== "string" || !/^\d+(\.\d+)?$/.test(amount)) {
+      return `minBridgeAmounts.${symbol} must be a decimal string (e.g. "25")`;
+    }
+    const decimals = thresholdDecimals(symbol, tokens);
+    const fraction = amount.split(".")[1] ?? "";
+    if (fraction.length > decimals) {
+      return `minBridgeAmounts.${symbol} has more than ${decimals} decimals`;
+    }
+    const floor = defaultMinBridgeAmount(symbol, tokens);
+    if (parseUnits(amount, decimals) < floor) {
+      return `minBridgeAmounts.${symbol} must be at least ${formatUnits(floor, decimals)}`;
+    }
+  }
+  return null;
+}
+
+// ─── Session Spending Limits ────────────────────────────────────────
+/**
+ * Parse a wallet's optional spending limits (`ListeningConfig.spendingLimits`,
+ * human-readable amounts keyed by symbol) into base units.  They are
+ * enforced on-chain by the session permission, per token and chain.
+ */
+export function resolveSpendingLimits(
+  limits?: Record<string, string>,
+  tokens: TokenRegistry = SUPPORTED_TOKENS,
+): Record<string, bigint> | undefined {
+  const entries = Object.entries(limits ?? {}).filter(([, v]) => v.trim() !== "");
+  if (entries.length === 0) return undefined;
+  return Object.fromEntries(
+    entries.map(([sym, v]) => [sym, parseUnits(v, thresholdDecimals(sym, tokens))]),
+  );
+}
+
+/**
+ * Validate a `spendingLimits` map.  Returns an error message, or `null`
+ * when valid.  Each value must be a positive decimal string with no more
+ * fractional digits than the token has.
+ */
+export function validateSpendingLimits(
+  value: unknown,
+  tokens: TokenRegistry = SUPPORTED_TOKENS,
+): string | null {
+  if (value === undefined) return null;
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return "spendingLimits must be an object of token symbol → amount";
+  }
+
+  for (const [symbol, amount] of Object.entries(value)) {
+    if (!thresholdSymbols(tokens).includes(symbol)) {
+      return `spendingLimits: unsupported token "${symbol}"`;
+    }
+    if (typeof amount !== "string" || !/^\d+(\.\d+)?$/.test(amount)) {
+      return `spendingLimits.${symbol} must be a decimal string (e.g. "1000")`;
+    }
+    const decimals = thresholdDecimals(symbol, tokens);
+    const fraction = amount.split(".")[1] ?? "";
+    if (fraction.length > decimals) {
+      return `spendingLimits.${symbol} has more than ${decimals} decimals`;
+    }
+    if (parseUnits(amount, decimals) === 0n) {
+      return `spendingLimits.${symbol} must be greater than 0`;
+    }
+  }
+  return null;
+}
+
+// ─── Admin ──────────────────────────────────────────────────────────
+/**
+ * Owner seeded into an empty admin list (server-side; override with
+ * ADMIN_OWNER_ADDRESS).  Further admins are managed from the admin page.
+ */
+export const DEFAULT_ADMIN_OWNER_ADDRESS: Address =
+  "0x6CC236D96C1f02916D469dba37c52550ba0821FF";
+
+// ─── Session Key Rotation ───────────────────────────────────────────
+/**
+ * Session keys older than this are rotated the next time the owner opens
+ * the dashboard (server-side; override with SESSION_KEY_MAX_AGE_DAYS).
+ */
+export const DEFAULT_SESSION_KEY_MAX_AGE_DAYS = 30;
+
+// ─── Failure Backoff ────────────────────────────────────────────────
+/**
+ * A deposit that keeps failing for a wallet is retried after 1, 2, 4 …
+ * minutes, at most this many (server-side; override with
+ * FAILURE_BACKOFF_MAX_MINUTES).
+ */
+export const DEFAULT_FAILURE_BACKOFF_MAX_MINUTES = 60;
+
+/**
+ * Failures in a row after which a deposit is no longer retried until the
+ * owner or an admin resets it (server-side; override with
+ * FAILURE_CIRCUIT_THRESHOLD).
+ */
+export const DEFAULT_FAILURE_CIRCUIT_THRESHOLD = 5;
+
+// ─── Session Lifetime ───────────────────────────────────────────────
+/**
+ * Lifetimes the owner can pick in the setup pipeline
+ * (`ListeningConfig.sessionLifetimeDays`).  The permission is granted
+ * with a matching validity window, and the server deactivates the
+ * session once it lapses.
+ */
+export const SESSION_LIFETIME_OPTIONS_DAYS = [7, 30, 90, 180] as const;
+export const DEFAULT_SESSION_LIFETIME_DAYS = 30;
+
+/**
+ * A renewal prompt is sent this long before a session expires
+ * (server-side; override with SESSION_RENEWAL_NOTICE_DAYS).
+ */
+export const DEFAULT_SESSION_RENEWAL_NOTICE_DAYS = 3;
+
+/** Validate `sessionLifetimeDays`.  Returns an error message, or `null`. */
+export function validateSessionLifetime(value: unknown): string | null {
+  if (value === undefined) return null;
+  if (!(SESSION_LIFETIME_OPTIONS_DAYS as readonly unknown[]).includes(value)) {
+    return `sessionLifetimeDays must be one of: ${SESSION_LIFETIME_OPTIONS_DAYS.join(", ")}`;
+  }
+  return null;
+}
+
+/**
+ * Validate a session's `expiresAt` (ISO timestamp) against the lifetime it
+ * was granted for.  Returns an error message, or `null` when valid.
+ */
+export function validateSessionExpiry(
+  expiresAt: unknown,
+  lifetimeDays: number = DEFAULT_SESSION_LIFETIME_DAYS,
+): string | null {
+  if (expiresAt === undefined) return null;
+  const at = typeof expiresAt === "string" ? Date.parse(expiresAt) : NaN;
+  if (Number.isNaN(at)) return "expiresAt must be an ISO timestamp";
+  if (at <= Date.now()) return "expiresAt must be in the future";
+  // One day of slack for the time between granting and registering
+  const max = Date.now() + (lifetimeDays + 1) * 24 * 60 * 60 * 1000;
+  if (at > max) return `expiresAt is beyond the ${lifetimeDays}-day session lifetime`;
+  return null;
+}
 
 // ─── Fee Configuration ──────────────────────────────────────────────
 /** Default fee collector address (used when the DB has no override) */
 export const DEFAULT_FEE_COLLECTOR_ADDRESS: Address =
   "0x6CC236D96C1f02916D469dba37c52550ba0821FF";
 
-/** Fee in basis points charged on cross-token bridges (10 bps = 0.1%) */
+/**
+ * Fee in basis points charged on cross-token bridges (10 bps = 0.1%),
+ * capped per transfer by the token's `maxFeeAmount`
+ */
 export const FEE_BPS = 10n;
 
+// ─── Split Routes ───────────────────────────────────────────────────
+/** Most destinations a deposit may be split across */
+export const MAX_SPLIT_ROUTES = 5;
+/** Route shares are in basis points and must sum to this */
+export const TOTAL_SHARE_BPS = 10_000;
+
 /**
- * Maximum fee per transfer, per token.
- * Caps the 10 bps fee so large bridges don't generate outsized fees.
+ * Validate a `routes` list (see `ListeningConfig.routes`).  Returns an
+ * error message, or `null` when valid.
  */
-export const MAX_FEE_AMOUNTS: Record<string, bigint> = {
-  USDC: 20_000_000n, // 20 USDC  (6 decimals)
-  USDT: 20_000_000n, // 20 USDT  (6 decimals)
-  WETH: 10_000_000_000_000_000n, // 0.01 WETH (18 decimals)
-};
+export function validateSplitRoutes(
+  value: unknown,
+  tokens: TokenRegistry = SUPPORTED_TOKENS,
+): string | null {
+  if (value === undefined) return null;
+  if (!Array.isArray(value) || value.length === 0) {
+    return "routes must be a non-empty array";
+  }
+  if (value.length > MAX_SPLIT_ROUTES) {
+    return `routes supports at most ${MAX_SPLIT_ROUTES} destinations`;
+  }
+
+  const chainIds = SUPPORTED_CHAINS.map((ch) => ch.id as number);
+  let total = 0;
+
+  for (const [i, route] of value.entries()) {
+    const where = `routes[${i}]`;
+    if (typeof route !== "object" || route === null) {
+      return `${where} must be an object`;
+    }
+    const r = route as Record<string, unknown>;
+    if (!chainIds.includes(r.destChainId as number)) {
+      return `${where}.destChainId is not a supported chain`;
+    }
+    if (typeof r.recipientIsSelf !== "boolean") {
+      return `${where}.recipientIsSelf must be a boolean`;
+    }
+    if (
+      !r.recipientIsSelf &&
+      (typeof r.recipientAddr !== "string" ||
+        !/^0x[a-fA-F0-9]{40}$/.test(r.recipientAddr))
+    ) {
+      return `${where}.recipientAddr must be a valid address`;
+    }
+    const tokenError = validateRecipientTokenSymbol(
+      r.recipientTokenSymbol,
+      r.destChainId as number,
+      tokens,
+      `${where}.recipientTokenSymbol`,
+    );
+    if (tokenError) return tokenError;
+    if (
+      !Number.isInteger(r.shareBps) ||
+      (r.shareBps as number) <= 0 ||
+      (r.shareBps as number) > TOTAL_SHARE_BPS
+    ) {
+      return `${where}.shareBps must be an integer between 1 and ${TOTAL_SHARE_BPS}`;
+    }
+    total += r.shareBps as number;
+  }
+
+  if (total !== TOTAL_SHARE_BPS) {
+    return `routes shares must sum to ${TOTAL_SHARE_BPS} bps (got ${total})`;
+  }
+  return null;
+}
 
 // ─── Session Version ─────────────────────────────────────────────────
 // Bump this whenever the session permission scope changes (e.g. new tokens,
 // policy address changes) so that existing stored sessions are invalidated
 // and users must re-enable.
-export const SESSION_VERSION = 7;
+//   v8 — transfer/approve pinned to route recipients, fee collector and
+//        Across contracts instead of Sudo
+//   v9 — Across deposits pinned to the wallet and route recipients; the
+//        unused depositV3 action dropped; fees on wrapped ETH paid in ETH
+// Add a line to SESSION_VERSION_NOTES too — it is shown to owners whose
+// sessions were granted for an older version.
+export const SESSION_VERSION = 9;
+
+/** What each session version changed, as shown to owners of stale sessions */
+export const SESSION_VERSION_NOTES: Record<number, string> = {
+  8: "transfers and approvals are limited to your recipients and the Across contracts",
+  9: "Across deposits are limited to your wallet and recipients",
+};
+
+/**
+ * Why a session granted for `version` no longer works, or `null` when it
+ * is current.
+ */
+export function staleSessionReason(version: number | undefined): string | null {
+  const granted = version ?? 0;
+  if (granted >= SESSION_VERSION) return null;
+  const notes = Object.entries(SESSION_VERSION_NOTES)
+    .filter(([v]) => Number(v) > granted)
+    .map(([v, note]) => `v${v}: ${note}`);
+  return (
+    `Permissions were granted for session v${granted}, but v${SESSION_VERSION} is required` +
+    (notes.length ? ` (${notes.join("; ")})` : "")
+  );
+}
 
 // ─── Biconomy API Key (for MEE service authentication) ──────────────
 export const BICONOMY_API_KEY =
@@ -131,29 +613,5 @@ export const BICONOMY_API_KEY =
     : process.env.BICONOMY_API_KEY ?? process.env.NEXT_PUBLIC_BICONOMY_API_KEY
   ) as string;
 
-// ─── Chains used in this app ─────────────────────────────────────────
-export const SUPPORTED_CHAINS = [optimism, base, polygon, arbitrum] as const;
-
-// ─── depositV3 ABI (Across SpokePool) ────────────────────────────────
-export const DEPOSIT_V3_ABI = [
-  {
-    name: "depositV3",
-    type: "function",
-    stateMutability: "payable",
-    inputs: [
-      { name: "depositor", type: "address" },
-      { name: "recipient", type: "address" },
-      { name: "inputToken", type: "address" },
-      { name: "outputToken", type: "address" },
-      { name: "inputAmount", type: "uint256" },
-      { name: "outputAmount", type: "uint256" },
-      { name: "destinationChainId", type: "uint256" },
-      { name: "exclusiveRelayer", type: "address" },
-      { name: "quoteTimestamp", type: "uint32" },
-      { name: "fillDeadline", type: "uint32" },
-      { name: "exclusivityDeadline", type: "uint32" },
-      { name: "message", type: "bytes" },
-    ],
-    outputs: [],
-  },
-] as const;
+// ─── Chains used in this app (see chains.ts) ─────────────────────────
+export const SUPPORTED_CHAINS: readonly Chain[] = CHAIN_REGISTRY.map((entry) => entry.chain);
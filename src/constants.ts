@@ -1,5 +1,4 @@
 import type { ElementType } from "react";
-import { optimism, base, polygon, arbitrum } from "viem/chains";
 import {
   Wallet,
   Globe,
@@ -9,18 +8,26 @@ import {
   ShieldCheck,
 } from "lucide-react";
 import { SUPPORTED_CHAINS } from "./config";
+import { CHAIN_REGISTRY } from "./chains";
 
-/** Brand colors & labels for each chain */
-export const CHAIN_META: Record<number, { name: string; color: string }> = {
-  [optimism.id]: { name: "Optimism", color: "#FF0420" },
-  [base.id]: { name: "Base", color: "#0052FF" },
-  [polygon.id]: { name: "Polygon", color: "#8247E5" },
-  [arbitrum.id]: { name: "Arbitrum", color: "#12AAFF" },
-};
+/** Brand colors & labels for each chain (from the chain registry) */
+export const CHAIN_META: Record<number, { name: string; color: string }> =
+  Object.fromEntries(
+    CHAIN_REGISTRY.map(({ chain, name, color }) => [chain.id, { name, color }]),
+  );
 
 /** Destination chains */
 export const DEST_CHAINS = [...SUPPORTED_CHAINS];
 
+/**
+ * Which split routes can be granted.  The grant pins every call to a
+ * single payee per chain (see `permissionScopeProblem`), so routes must
+ * not need two for the same call.
+ */
+export const SPLIT_ROUTES_RULE =
+  "Splits can be granted when every route pays the same address and keeps the deposited token. " +
+  "Paying several addresses or swapping into another token would need two payees for the same call on some chain.";
+
 /** Icon theme for each pipeline step (6 setup steps) */
 export const STEP_THEMES: { bg: string; fg: string; icon: ElementType }[] = [
   { bg: "#EFF6FF", fg: "#3B82F6", icon: Wallet },
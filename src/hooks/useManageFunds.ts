@@ -12,31 +12,32 @@ import {
 } from "@biconomy/abstractjs";
 import {
   SUPPORTED_CHAINS,
-  SUPPORTED_TOKENS,
-  TOKEN_SYMBOLS,
+  NATIVE_ETH_SYMBOL,
+  defaultMinBridgeAmount,
   getTransport,
+  type TokenRegistry,
 } from "../config";
-import { createSessionMeeClient } from "../sessions";
+import { createSessionMeeClient, addServerHistoryEntry } from "../sessions";
 import { ScheduledExecutionBounds } from "../sessions/getScheduledExecutionBounds";
 import { formatTokenBySymbol } from "../utils";
+import { useTokenRegistry } from "./useTokenRegistry";
 import type { Status } from "../types";
 
 const POLL_INTERVAL = 15_000;
 
-/** Symbol used for native ETH in balances/sweep maps (not in SUPPORTED_TOKENS) */
-export const NATIVE_ETH_SYMBOL = "ETH";
+export { NATIVE_ETH_SYMBOL };
 
 /** All symbols the sweep UI cares about: ERC-20 tokens + native ETH */
-export const SWEEP_SYMBOLS = [...TOKEN_SYMBOLS, NATIVE_ETH_SYMBOL];
-
-/** Per-token minimum sweep thresholds */
-const MIN_SWEEP_AMOUNTS: Record<string, bigint> = {
-  USDC: 100_000n, // 0.1 USDC
-  USDT: 100_000n, // 0.1 USDT
-  WETH: 10_000_000_000_000n, // 0.00001 WETH
-  [NATIVE_ETH_SYMBOL]: 10_000_000_000_000n, // 0.00001 ETH
-};
-const DEFAULT_MIN_SWEEP = 100_000n;
+export const sweepSymbols = (tokens: TokenRegistry) => [
+  ...Object.keys(tokens),
+  NATIVE_ETH_SYMBOL,
+];
+
+/**
+ * Per-token minimum sweep threshold — the global bridge default.  A
+ * manual sweep is explicit, so per-wallet bridge minimums don't apply.
+ */
+const minSweepAmount = defaultMinBridgeAmount;
 
 export type SweepRecord = {
   chainId: number;
@@ -49,7 +50,7 @@ export type SweepRecord = {
 /**
  * Hook for the "Manage Funds" page.
  *
- * - Fetches balances for **all tokens + native ETH** on **all supported chains**.
+ * - Fetches balances for **all registry tokens + native ETH** on **all supported chains**.
  * - Displays per-chain totals and lets the user pick a chain.
  * - ERC-20 tokens are swept via `.buildComposable()` with `runtimeERC20BalanceOf`
  *   so the actual on-chain balance is injected at execution time. Gas is paid
@@ -61,6 +62,7 @@ export function useManageFunds() {
   const { wallets } = useWallets();
 
   const embeddedWallet = wallets.find((w) => w.walletClientType === "privy");
+  const { tokens } = useTokenRegistry();
 
   // ─── Chain selection ───────────────────────────────────────────
   const [selectedChainId, setSelectedChainId] = useState<number>(
@@ -114,7 +116,7 @@ export function useManageFunds() {
       );
 
       // Fetch ERC-20 balances
-      for (const [symbol, config] of Object.entries(SUPPORTED_TOKENS)) {
+      for (const [symbol, config] of Object.entries(tokens)) {
         const tokenAddr = config.addresses[chain.id];
         if (!tokenAddr) {
           newBalances[chain.id][symbol] = 0n;
@@ -142,7 +144,7 @@ export function useManageFunds() {
     await Promise.all(tasks);
     setBalances(newBalances);
     setIsLoadingBalances(false);
-  }, [embeddedWallet]);
+  }, [embeddedWallet, tokens]);
 
   useEffect(() => {
     if (!embeddedWallet) return;
@@ -159,12 +161,12 @@ export function useManageFunds() {
 
   const sweepableTokens = useMemo(
     () =>
-      SWEEP_SYMBOLS.filter((sym) => {
+      sweepSymbols(tokens).filter((sym) => {
         const bal = chainBalances[sym] ?? 0n;
-        const min = MIN_SWEEP_AMOUNTS[sym] ?? DEFAULT_MIN_SWEEP;
+        const min = minSweepAmount(sym, tokens);
         return bal >= min;
       }),
-    [chainBalances],
+    [chainBalances, tokens],
   );
 
   // ═══════════════════════════════════════════════════════════════
@@ -221,7 +223,7 @@ export function useManageFunds() {
             const erc20SweptTokens: { symbol: string; amount: string }[] = [];
 
             for (const sym of erc20Tokens) {
-              const config = SUPPORTED_TOKENS[sym];
+              const config = tokens[sym];
               const tokenAddr = config.addresses[selectedChainId];
               if (!tokenAddr) continue;
 
@@ -233,9 +235,7 @@ export function useManageFunds() {
                     targetAddress: smartAccountAddress,
                     tokenAddress: tokenAddr,
                     constraints: [
-                      greaterThanOrEqualTo(
-                        MIN_SWEEP_AMOUNTS[sym] ?? DEFAULT_MIN_SWEEP,
-                      ),
+                      greaterThanOrEqualTo(minSweepAmount(sym, tokens)),
                     ],
                   }),
                   recipient: recipient as Address,
@@ -246,12 +246,12 @@ export function useManageFunds() {
               composableInstructions.push(...instruction);
               erc20SweptTokens.push({
                 symbol: sym,
-                amount: formatTokenBySymbol(chainBalances[sym] ?? 0n, sym),
+                amount: formatTokenBySymbol(chainBalances[sym] ?? 0n, sym, tokens),
               });
             }
 
             const feeTokenAddress =
-              SUPPORTED_TOKENS[erc20Tokens[0]].addresses[selectedChainId];
+              tokens[erc20Tokens[0]].addresses[selectedChainId];
 
             const quote = await mee.getQuote({
               instructions: composableInstructions,
@@ -281,20 +281,16 @@ export function useManageFunds() {
 
             for (const swept of erc20SweptTokens) {
               const bal = chainBalances[swept.symbol] ?? 0n;
-              fetch(`/api/history/${address}`, {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                  timestamp: new Date().toISOString(),
-                  type: "sweep",
-                  status: "success",
-                  hash: result.hash,
-                  tokenSymbol: swept.symbol,
-                  amount: String(bal),
-                  sourceChainId: selectedChainId,
-                  destChainId: selectedChainId,
-                  recipient,
-                }),
+              addServerHistoryEntry(embeddedWallet, {
+                timestamp: new Date().toISOString(),
+                type: "sweep",
+                status: "success",
+                hash: result.hash,
+                tokenSymbol: swept.symbol,
+                amount: String(bal),
+                sourceChainId: selectedChainId,
+                destChainId: selectedChainId,
+                recipient,
               }).catch((err) => {
                 console.error("Failed to persist sweep history entry:", err);
               });
@@ -350,20 +346,16 @@ export function useManageFunds() {
               ...prev,
             ]);
 
-            fetch(`/api/history/${address}`, {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                timestamp: new Date().toISOString(),
-                type: "sweep",
-                status: "success",
-                hash: result.hash,
-                tokenSymbol: NATIVE_ETH_SYMBOL,
-                amount: String(ethBal),
-                sourceChainId: selectedChainId,
-                destChainId: selectedChainId,
-                recipient,
-              }),
+            addServerHistoryEntry(embeddedWallet, {
+              timestamp: new Date().toISOString(),
+              type: "sweep",
+              status: "success",
+              hash: result.hash,
+              tokenSymbol: NATIVE_ETH_SYMBOL,
+              amount: String(ethBal),
+              sourceChainId: selectedChainId,
+              destChainId: selectedChainId,
+              recipient,
             }).catch((err) => {
               console.error("Failed to persist sweep history entry:", err);
             });
@@ -414,6 +406,7 @@ export function useManageFunds() {
     chainBalances,
     sweepableTokens,
     fetchBalances,
+    tokens,
   ]);
 
   const resetSweep = useCallback(() => {
@@ -429,7 +422,8 @@ export function useManageFunds() {
     selectedChainId,
     setSelectedChainId,
 
-    // Balances (all chains, all tokens)
+    // Balances (all chains, all registry tokens)
+    tokens,
     balances,
     chainBalances,
     isLoadingBalances,
@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect, useCallback } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import {
   usePrivy,
   useWallets,
@@ -18,6 +18,8 @@ import {
   createSessionMeeClient,
   installSessionModule,
   grantDepositV3Permission,
+  revokeSessionPermission,
+  uninstallSessionModule,
   saveSessionKey,
   loadSessionKey,
   clearSessionKey,
@@ -25,10 +27,28 @@ import {
   getServerSessionStatus,
   reconfigureServerSession,
   deregisterServerSession,
+  rotateServerSessionKey,
+  resetServerDepositFailures,
+  getFeeCollectorAddress,
+  fetchTokenRegistry,
+  permissionScopeProblem,
+  resolvePermissionRoutes,
+  type DepositV3PermissionScope,
+  type ServerDepositFailure,
+  type ListeningConfig,
   type SessionDetails,
+  type SplitRoute,
 } from "../sessions/index";
-import { NEXUS_SINGLETON, SUPPORTED_CHAINS, SESSION_VERSION, getTransport } from "../config";
+import {
+  NEXUS_SINGLETON,
+  SUPPORTED_CHAINS,
+  SESSION_VERSION,
+  DEFAULT_SESSION_LIFETIME_DAYS,
+  getTransport,
+  resolveSpendingLimits,
+} from "../config";
 import { isValidAddress, deriveStatus } from "../utils";
+import { useTokenRegistry } from "./useTokenRegistry";
 import type { Status, StepStatus } from "../types";
 
 // ─────────────────────────────────────────────────────────────────────
@@ -41,10 +61,13 @@ import type { Status, StepStatus } from "../types";
 //  server-side monitoring status.
 // ─────────────────────────────────────────────────────────────────────
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export function usePipeline() {
   const { login, logout, authenticated } = usePrivy();
   const { wallets } = useWallets();
   const { signAuthorization } = useSign7702Authorization();
+  const tokenRegistry = useTokenRegistry();
 
   // ─── Core state ───────────────────────────────────────────────────
   const [, setNexusAccount] =
@@ -89,6 +112,37 @@ export function usePipeline() {
   // ─── Recipient token (defaults to undefined = same as input) ────
   const [recipientTokenSymbol, setRecipientTokenSymbol] = useState<string | undefined>(undefined);
 
+  // ─── Per-token minimum bridge amounts (empty = defaults) ─────────
+  const [minBridgeAmounts, setMinBridgeAmounts] = useState<Record<string, string>>({});
+
+  // ─── Per-token session spending limits (empty = unlimited) ───────
+  const [spendingLimits, setSpendingLimits] = useState<Record<string, string>>({});
+
+  // ─── Session lifetime (days each permission grant is valid) ──────
+  const [sessionLifetimeDays, setSessionLifetimeDays] = useState<number>(
+    DEFAULT_SESSION_LIFETIME_DAYS,
+  );
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<string | null>(null);
+  /** Set when the server's session lapsed — the setup pipeline renews it */
+  const [sessionExpiredAt, setSessionExpiredAt] = useState<string | null>(null);
+  const [renewalDue, setRenewalDue] = useState(false);
+  /** Why the server's session is stale (null: up to date) */
+  const [staleReason, setStaleReason] = useState<string | null>(null);
+
+  // ─── Token registry version of the current grant ─────────────────
+  const [grantTokenRegistryVersion, setGrantTokenRegistryVersion] = useState(0);
+  /** Tokens added to the registry since the server's grant (need a re-grant) */
+  const [newTokens, setNewTokens] = useState<string[]>([]);
+
+  // ─── Deposits the server keeps failing to execute ────────────────
+  const [depositFailures, setDepositFailures] = useState<ServerDepositFailure[]>([]);
+
+  // ─── Weighted split routes (set via the sessions API; kept as-is) ─
+  const [splitRoutes, setSplitRoutes] = useState<SplitRoute[] | undefined>(undefined);
+
+  // ─── Fee collector (cross-token fees are pinned to it) ───────────
+  const [feeCollectorAddress, setFeeCollectorAddress] = useState<`0x${string}` | null>(null);
+
   // ─── Copy address ─────────────────────────────────────────────────
   const [copied, setCopied] = useState(false);
 
@@ -111,6 +165,49 @@ export function usePipeline() {
       ? (recipientAddr as `0x${string}`)
       : null;
 
+  useEffect(() => {
+    getFeeCollectorAddress()
+      .then(setFeeCollectorAddress)
+      .catch(() => {
+        // The check below waits for it; the grant fetches it again
+      });
+  }, []);
+
+  // ─── Derived: why the destination cannot be granted ──────────────
+  /**
+   * The grant's scope problem for the current destination (or its split
+   * routes), checked before the grant step — see `permissionScopeProblem`.
+   * Null until the wallet, a valid recipient and the fee collector are
+   * known.
+   */
+  const destinationProblem = useMemo(() => {
+    if (!embeddedWallet || !effectiveRecipient || !feeCollectorAddress) return null;
+    let limits: Record<string, bigint> | undefined;
+    try {
+      limits = resolveSpendingLimits(spendingLimits, tokenRegistry.tokens);
+    } catch {
+      // Invalid limits are reported by the form itself
+      return null;
+    }
+    const walletAddress = embeddedWallet.address as `0x${string}`;
+    return permissionScopeProblem(
+      SUPPORTED_CHAINS.map((c) => c.id),
+      {
+        walletAddress,
+        routes: resolvePermissionRoutes(walletAddress, {
+          destChainId,
+          recipientIsSelf,
+          recipientAddr,
+          recipientTokenSymbol,
+          routes: splitRoutes,
+        }),
+        feeCollectorAddress,
+        spendingLimits: limits,
+        tokens: tokenRegistry.tokens,
+      },
+    );
+  }, [embeddedWallet, effectiveRecipient, feeCollectorAddress, destChainId, recipientIsSelf, recipientAddr, recipientTokenSymbol, spendingLimits, splitRoutes, tokenRegistry.tokens]);
+
   // ─── Session check loading state ─────────────────────────────────
   const [checkingSession, setCheckingSession] = useState(false);
 
@@ -159,9 +256,30 @@ export function usePipeline() {
       .then((status) => {
         if (cancelled) return;
 
-        const registered = status.registered && !!status.active;
+        const registered = status.registered && !!status.active && !status.expired;
         setServerRegistered(registered);
 
+        // Pre-fill the setup pipeline from a stored config
+        const restoreConfig = (cfg: ListeningConfig) => {
+          setDestChainId(cfg.destChainId);
+          setRecipientIsSelf(cfg.recipientIsSelf);
+          setRecipientAddr(cfg.recipientAddr);
+          setRecipientTokenSymbol(cfg.recipientTokenSymbol);
+          setMinBridgeAmounts(cfg.minBridgeAmounts ?? {});
+          setSpendingLimits(cfg.spendingLimits ?? {});
+          setSessionLifetimeDays(cfg.sessionLifetimeDays ?? DEFAULT_SESSION_LIFETIME_DAYS);
+          setSplitRoutes(cfg.routes);
+        };
+
+        if (status.registered && status.expired && status.listeningConfig) {
+          // Expired session — restore the config so the user can review
+          // it (and the lifetime) and run the pipeline again to renew.
+          console.log(`[usePipeline] Session expired at ${status.expiresAt}`);
+          restoreConfig(status.listeningConfig);
+          setSessionExpiredAt(status.expiresAt ?? null);
+          return;
+        }
+
         if (registered && status.listeningConfig) {
           const cfg = status.listeningConfig;
           const serverVersion = status.sessionVersion ?? 0;
@@ -172,29 +290,27 @@ export function usePipeline() {
           }
 
           if (serverVersion < SESSION_VERSION) {
-            // Stale session — permissions don't cover the latest features.
-            // Restore the config so it's pre-filled, then let the pipeline
-            // auto-advance to re-grant with updated permissions (v→v+1).
+            // Stale session — permissions don't cover the latest features,
+            // so poll cycles skip it.  The dashboard offers a one-click
+            // re-grant for the existing signer (v→v+1).
             console.log(
-              `[usePipeline] Session v${serverVersion} → upgrading to v${SESSION_VERSION}`,
+              `[usePipeline] Session v${serverVersion} is stale (need v${SESSION_VERSION})`,
+            );
+            setStaleReason(
+              status.staleReason ?? `Session v${serverVersion} is out of date`,
             );
-            setDestChainId(cfg.destChainId);
-            setDestConfirmed(true);
-            setRecipientIsSelf(cfg.recipientIsSelf);
-            setRecipientAddr(cfg.recipientAddr);
-            setRecipientTokenSymbol(cfg.recipientTokenSymbol);
-            // Don't set isListening — pipeline auto-advance will re-grant,
-            // re-register with the new version, then enter listening mode.
-            return;
           }
 
-          // Server has an active, up-to-date session — restore from
-          // server data and jump straight to the listening dashboard.
-          setDestChainId(cfg.destChainId);
+          // Server has an active session — restore from server data and
+          // jump straight to the listening dashboard.
+          restoreConfig(cfg);
           setDestConfirmed(true);
-          setRecipientIsSelf(cfg.recipientIsSelf);
-          setRecipientAddr(cfg.recipientAddr);
-          setRecipientTokenSymbol(cfg.recipientTokenSymbol);
+          setKeyRotationDue(!!status.keyRotationDue);
+          setSessionExpiresAt(status.expiresAt ?? null);
+          setRenewalDue(!!status.renewalDue);
+          setGrantTokenRegistryVersion(status.tokenRegistryVersion ?? 0);
+          setNewTokens(status.newTokens ?? []);
+          setDepositFailures(status.depositFailures ?? []);
 
           setIsListening(true);
         }
@@ -371,17 +487,59 @@ export function usePipeline() {
     }
   };
 
+  /**
+   * What the granted permission allows: every token in the registry,
+   * with `transfer` / `approve` pinned to the configured routes and the
+   * fee collector, plus spending limits, valid until `expiresAt` when
+   * given.  Returns the registry version the grant covers as well.
+   */
+  const buildPermissionScope = useCallback(
+    async (
+      walletAddress: `0x${string}`,
+      expiresAt?: Date,
+    ): Promise<{ scope: DepositV3PermissionScope; tokenRegistryVersion: number }> => {
+      // Fetched fresh — the grant must cover the latest tokens
+      const registry = await fetchTokenRegistry();
+      return {
+        scope: {
+          walletAddress,
+          routes: resolvePermissionRoutes(walletAddress, {
+            destChainId,
+            recipientIsSelf,
+            recipientAddr,
+            recipientTokenSymbol,
+            routes: splitRoutes,
+          }),
+          feeCollectorAddress: await getFeeCollectorAddress(),
+          spendingLimits: resolveSpendingLimits(spendingLimits, registry.tokens),
+          validUntil: expiresAt && Math.floor(expiresAt.getTime() / 1000),
+          tokens: registry.tokens,
+        },
+        tokenRegistryVersion: registry.version,
+      };
+    },
+    [destChainId, recipientIsSelf, recipientAddr, recipientTokenSymbol, spendingLimits, splitRoutes],
+  );
+
   /** Step 7 — Grant depositV3 permission */
   const handleGrantPermission = async () => {
-    if (!sessionMeeClientRef.current || !sessionSignerAddress) return;
+    if (!sessionMeeClientRef.current || !sessionSignerAddress || !embeddedWallet) return;
     setGrantStatus("loading");
     setError(null);
     try {
+      const expiresAt = new Date(Date.now() + sessionLifetimeDays * DAY_MS);
+      const { scope, tokenRegistryVersion } = await buildPermissionScope(
+        embeddedWallet.address as `0x${string}`,
+        expiresAt,
+      );
       const details = await grantDepositV3Permission({
         sessionMeeClient: sessionMeeClientRef.current,
         sessionSignerAddress: sessionSignerAddress as `0x${string}`,
         chainIds: SUPPORTED_CHAINS.map((c) => c.id),
+        scope,
       });
+      setSessionExpiresAt(expiresAt.toISOString());
+      setGrantTokenRegistryVersion(tokenRegistryVersion);
       setSessionDetails(details);
       setGrantStatus("success");
     } catch (err) {
@@ -417,7 +575,7 @@ export function usePipeline() {
     //    don't have to re-install the sessions module.
     if (embeddedWallet) {
       try {
-        await reconfigureServerSession(embeddedWallet.address, { active: false });
+        await reconfigureServerSession(embeddedWallet, { active: false });
       } catch {
         // Continue with local cleanup even if server call fails
       }
@@ -445,33 +603,312 @@ export function usePipeline() {
   }, [embeddedWallet]);
 
   // ═══════════════════════════════════════════════════════════════════
-  //  Delete Session — wipe ALL session data from the server and local
-  //  storage.  Monitoring stops immediately.  The user can re-enable
-  //  later, but a brand-new session will be signed (since the key is
-  //  deleted).
+  //  Rotate Session Key — replace the session signer without re-running
+  //  setup.  A fresh key is granted its own permission, the server swaps
+  //  it in, then the old permission is revoked on-chain.  Runs on its
+  //  own when the server reports the key is past its rotation age.
+  // ═══════════════════════════════════════════════════════════════════
+
+  const [rotateStatus, setRotateStatus] = useState<"idle" | "loading" | "done">("idle");
+  const [keyRotationDue, setKeyRotationDue] = useState(false);
+
+  const handleRotateSessionKey = useCallback(async () => {
+    if (!embeddedWallet) return;
+    setRotateStatus("loading");
+    setError(null);
+
+    let swapped = false;
+    try {
+      // 1. User-flow MEE client (not built yet when the session was restored)
+      if (!meeClientRef.current || !sessionMeeClientRef.current) {
+        const provider = await embeddedWallet.getEthereumProvider();
+        const { meeClient, sessionMeeClient } = await createSessionMeeClient(
+          provider,
+          embeddedWallet.address as `0x${string}`,
+        );
+        meeClientRef.current = meeClient;
+        sessionMeeClientRef.current = sessionMeeClient;
+      }
+
+      // 2. New signer + its own depositV3 permission (same expiry — the
+      //    server keeps the session's expiresAt)
+      const { sessionSigner, sessionPrivateKey } = createSessionSigner();
+      const { scope, tokenRegistryVersion } = await buildPermissionScope(
+        embeddedWallet.address as `0x${string}`,
+        sessionExpiresAt ? new Date(sessionExpiresAt) : undefined,
+      );
+      const details = await grantDepositV3Permission({
+        sessionMeeClient: sessionMeeClientRef.current,
+        sessionSignerAddress: sessionSigner.address,
+        chainIds: SUPPORTED_CHAINS.map((c) => c.id),
+        scope,
+      });
+
+      // 3. Swap it in on the server, then locally
+      const { previousSessionDetails } = await rotateServerSessionKey(embeddedWallet, {
+        sessionPrivateKey,
+        sessionSignerAddress: sessionSigner.address,
+        sessionDetails: details,
+        tokenRegistryVersion,
+      });
+      swapped = true;
+      saveSessionKey(embeddedWallet.address, sessionPrivateKey);
+      sessionSignerRef.current = sessionSigner;
+      setSessionSignerAddress(sessionSigner.address);
+      setKeyRotationDue(false);
+      setGrantTokenRegistryVersion(tokenRegistryVersion);
+      setNewTokens([]);
+      setDepositFailures([]);
+
+      // 4. Revoke the old signer's permission on-chain
+      await revokeSessionPermission({
+        meeClient: meeClientRef.current,
+        sessionDetails: previousSessionDetails,
+      });
+
+      posthog.capture("session_key_rotated", {
+        wallet_address: embeddedWallet.address,
+      });
+
+      setRotateStatus("done");
+      setTimeout(() => setRotateStatus("idle"), 2000);
+    } catch (err) {
+      console.error("[rotate] Failed to rotate session key:", err);
+      const msg = err instanceof Error ? err.message : "Failed to rotate session key";
+      setError(
+        swapped
+          ? `Session key rotated, but revoking the previous permission failed: ${msg}`
+          : msg,
+      );
+      setRotateStatus("idle");
+      posthog.captureException(err);
+    }
+  }, [embeddedWallet, buildPermissionScope, sessionExpiresAt]);
+
+  // Rotate once on its own when the key is past the server's policy
+  // (a stale session is re-granted first — rotation keeps its version)
+  useEffect(() => {
+    if (isListening && serverRegistered && keyRotationDue && !staleReason && rotateStatus === "idle")
+      handleRotateSessionKey();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isListening, serverRegistered, keyRotationDue, staleReason]);
+
+  // ═══════════════════════════════════════════════════════════════════
+  //  Re-grant Session — grant the current signer a fresh permission at
+  //  the current SESSION_VERSION, for another full lifetime, and hand it
+  //  to the server.  Renews an expiring session, upgrades a stale one and
+  //  covers newly added tokens without re-running setup.  The previous
+  //  grant is then revoked on-chain, as on rotation.
+  // ═══════════════════════════════════════════════════════════════════
+
+  const [regrantStatus, setRegrantStatus] = useState<"idle" | "loading" | "done">("idle");
+
+  const handleRegrantSession = useCallback(async () => {
+    if (!embeddedWallet || !sessionSignerAddress) return;
+    setRegrantStatus("loading");
+    setError(null);
+
+    let swapped = false;
+    try {
+      // User-flow MEE client (not built yet when the session was restored)
+      if (!meeClientRef.current || !sessionMeeClientRef.current) {
+        const provider = await embeddedWallet.getEthereumProvider();
+        const { meeClient, sessionMeeClient } = await createSessionMeeClient(
+          provider,
+          embeddedWallet.address as `0x${string}`,
+        );
+        meeClientRef.current = meeClient;
+        sessionMeeClientRef.current = sessionMeeClient;
+      }
+
+      const expiresAt = new Date(Date.now() + sessionLifetimeDays * DAY_MS);
+      const { scope, tokenRegistryVersion } = await buildPermissionScope(
+        embeddedWallet.address as `0x${string}`,
+        expiresAt,
+      );
+      const details = await grantDepositV3Permission({
+        sessionMeeClient: sessionMeeClientRef.current,
+        sessionSignerAddress: sessionSignerAddress as `0x${string}`,
+        chainIds: SUPPORTED_CHAINS.map((c) => c.id),
+        scope,
+      });
+
+      const { previousSessionDetails } = await reconfigureServerSession(embeddedWallet, {
+        sessionDetails: details,
+        sessionVersion: SESSION_VERSION,
+        tokenRegistryVersion,
+        expiresAt: expiresAt.toISOString(),
+      });
+      swapped = true;
+      setSessionDetails(details);
+      setSessionExpiresAt(expiresAt.toISOString());
+      setRenewalDue(false);
+      setStaleReason(null);
+      setGrantTokenRegistryVersion(tokenRegistryVersion);
+      setNewTokens([]);
+      // The server retries failing deposits under a new grant
+      setDepositFailures([]);
+
+      // Revoke the replaced permission on-chain — the server keeps it on
+      // the record until then, so deleting the session checks it too
+      if (previousSessionDetails) {
+        await revokeSessionPermission({
+          meeClient: meeClientRef.current,
+          sessionDetails: previousSessionDetails,
+        });
+      }
+
+      posthog.capture("session_regranted", {
+        wallet_address: embeddedWallet.address,
+        reason: staleReason ? "stale" : newTokens.length > 0 ? "new_tokens" : "renewal",
+        session_lifetime_days: sessionLifetimeDays,
+      });
+
+      setRegrantStatus("done");
+      setTimeout(() => setRegrantStatus("idle"), 2000);
+    } catch (err) {
+      console.error("[regrant] Failed to re-grant session:", err);
+      const msg = err instanceof Error ? err.message : "Failed to re-grant session";
+      setError(
+        swapped
+          ? `Session re-granted, but revoking the previous permission failed: ${msg}`
+          : msg,
+      );
+      setRegrantStatus("idle");
+      posthog.captureException(err);
+    }
+  }, [embeddedWallet, sessionSignerAddress, sessionLifetimeDays, staleReason, newTokens, buildPermissionScope]);
+
+  // ═══════════════════════════════════════════════════════════════════
+  //  Reset Failures — clear the server's backoff and open circuits so
+  //  the next poll cycle retries the deposits that kept failing.
+  // ═══════════════════════════════════════════════════════════════════
+
+  const [resetFailuresStatus, setResetFailuresStatus] = useState<"idle" | "loading" | "done">(
+    "idle",
+  );
+
+  const handleResetDepositFailures = useCallback(async () => {
+    if (!embeddedWallet) return;
+    setResetFailuresStatus("loading");
+    setError(null);
+
+    try {
+      await resetServerDepositFailures(embeddedWallet);
+      posthog.capture("deposit_failures_reset", {
+        wallet_address: embeddedWallet.address,
+        circuits_open: depositFailures.filter((f) => f.circuitOpen).length,
+      });
+      setDepositFailures([]);
+
+      setResetFailuresStatus("done");
+      setTimeout(() => setResetFailuresStatus("idle"), 2000);
+    } catch (err) {
+      console.error("[failures] Failed to reset deposit failures:", err);
+      setError(err instanceof Error ? err.message : "Failed to reset deposit failures");
+      setResetFailuresStatus("idle");
+      posthog.captureException(err);
+    }
+  }, [embeddedWallet, depositFailures]);
+
+  // ═══════════════════════════════════════════════════════════════════
+  //  Delete Session — revoke the session's permission on-chain, then
+  //  wipe ALL session data from the server and local storage.  The
+  //  server only deletes the record once the revocation is visible
+  //  on-chain, so nothing is cleared locally until it has.  The user
+  //  can re-enable later, but a brand-new session will be signed (since
+  //  the key is deleted).
   // ═══════════════════════════════════════════════════════════════════
 
   const [deleteStatus, setDeleteStatus] = useState<"idle" | "loading" | "done">("idle");
 
+  /**
+   * Delete the server-side session.  When the server still sees its
+   * permission live on-chain, the owner revokes the grant it returns
+   * (optionally uninstalling the Smart Sessions module as well) and the
+   * delete is retried.  Throws unless the server confirmed the delete.
+   */
+  const revokeAndDeregister = useCallback(async (uninstallModule: boolean) => {
+    if (!embeddedWallet) return;
+
+    const ensureMeeClient = async () => {
+      // User-flow MEE client (not built yet when the session was restored)
+      if (!meeClientRef.current) {
+        const provider = await embeddedWallet.getEthereumProvider();
+        const { meeClient, sessionMeeClient } = await createSessionMeeClient(
+          provider,
+          embeddedWallet.address as `0x${string}`,
+        );
+        meeClientRef.current = meeClient;
+        sessionMeeClientRef.current = sessionMeeClient;
+      }
+      return meeClientRef.current;
+    };
+
+    const first = await deregisterServerSession(embeddedWallet);
+    if (first.deleted) {
+      // Nothing left to revoke — the module can still be uninstalled
+      if (uninstallModule) {
+        await uninstallSessionModule({
+          meeClient: await ensureMeeClient(),
+          chainIds: SUPPORTED_CHAINS.map((c) => c.id),
+        });
+      }
+      return;
+    }
+
+    // One supertransaction per live grant; the module goes with the last
+    const meeClient = await ensureMeeClient();
+    for (const [i, sessionDetails] of first.revokeRequired.entries()) {
+      await revokeSessionPermission({
+        meeClient,
+        sessionDetails,
+        uninstallModule: uninstallModule && i === first.revokeRequired.length - 1,
+      });
+    }
+
+    const retry = await deregisterServerSession(embeddedWallet);
+    if (!retry.deleted) {
+      throw new Error(
+        "The permission was revoked, but the server cannot see it yet — try deleting again in a moment",
+      );
+    }
+  }, [embeddedWallet]);
+
   const handleDeleteSession = useCallback(async () => {
     if (!embeddedWallet) return;
 
     // Require explicit user confirmation
     const confirmed = window.confirm(
       "Delete all session data?\n\n" +
+      "Your wallet will sign a transaction revoking the session's permission on every chain. " +
       "This will stop server-side monitoring and erase your session from the server. " +
       "You can set up a new session afterwards, but you'll need to go through the full setup again.",
     );
     if (!confirmed) return;
 
+    const uninstallModule = window.confirm(
+      "Also uninstall the Smart Sessions module?\n\n" +
+      "This removes every session permission from your account, not just this one. " +
+      "Setting up a new session will install it again.\n\n" +
+      "OK to uninstall it, Cancel to only revoke this session.",
+    );
+
     setDeleteStatus("loading");
+    setError(null);
 
     try {
-      // 1. Delete session from the server
-      await deregisterServerSession(embeddedWallet.address);
+      // 1. Revoke on-chain and delete the session from the server
+      await revokeAndDeregister(uninstallModule);
     } catch (err) {
-      console.error("[delete] Failed to deregister from server:", err);
-      // Continue with local cleanup even if server call fails
+      console.error("[delete] Failed to delete session:", err);
+      // Keep everything until the server has confirmed the delete
+      setError(
+        `Session not deleted: ${err instanceof Error ? err.message : "revocation failed"}`,
+      );
+      setDeleteStatus("idle");
+      posthog.captureException(err);
+      return;
     }
 
     // 2. Clear local session key
@@ -505,13 +942,14 @@ export function usePipeline() {
 
     posthog.capture("session_deleted", {
       wallet_address: embeddedWallet.address,
+      module_uninstalled: uninstallModule,
     });
 
     setDeleteStatus("done");
 
     // Reset the "done" flag after a moment
     setTimeout(() => setDeleteStatus("idle"), 2000);
-  }, [embeddedWallet]);
+  }, [embeddedWallet, revokeAndDeregister]);
 
   // ═══════════════════════════════════════════════════════════════════
   //  Full Reset & Re-setup — nuclear option: wipes everything (server
@@ -528,7 +966,8 @@ export function usePipeline() {
 
     const confirmed = window.confirm(
       "Full reset & re-setup?\n\n" +
-      "This will delete all session data (server + local), generate a new " +
+      "This will revoke the current permission on-chain, delete all session " +
+      "data (server + local), generate a new " +
       "session key, re-sign the 7702 authorization, re-install the sessions " +
       "module, and re-grant permissions.\n\n" +
       "The current destination and recipient settings will be preserved.",
@@ -542,12 +981,23 @@ export function usePipeline() {
     const savedRecipientIsSelf = recipientIsSelf;
     const savedRecipientAddr = recipientAddr;
     const savedRecipientTokenSymbol = recipientTokenSymbol;
+    const savedMinBridgeAmounts = minBridgeAmounts;
+    const savedSpendingLimits = spendingLimits;
+    const savedSessionLifetimeDays = sessionLifetimeDays;
+    const savedSplitRoutes = splitRoutes;
 
-    // 1. Deregister from server
+    // 1. Revoke on-chain and deregister from server (the module stays —
+    //    setup would only install it again)
     try {
-      await deregisterServerSession(embeddedWallet.address);
+      await revokeAndDeregister(false);
     } catch (err) {
-      console.error("[full-reset] Failed to deregister from server:", err);
+      console.error("[full-reset] Failed to delete session:", err);
+      setError(
+        `Reset aborted: ${err instanceof Error ? err.message : "revocation failed"}`,
+      );
+      setResetStatus("idle");
+      posthog.captureException(err);
+      return;
     }
 
     // 2. Clear local session key
@@ -581,11 +1031,15 @@ export function usePipeline() {
     setRecipientIsSelf(savedRecipientIsSelf);
     setRecipientAddr(savedRecipientAddr);
     setRecipientTokenSymbol(savedRecipientTokenSymbol);
+    setMinBridgeAmounts(savedMinBridgeAmounts);
+    setSpendingLimits(savedSpendingLimits);
+    setSessionLifetimeDays(savedSessionLifetimeDays);
+    setSplitRoutes(savedSplitRoutes);
     setDestConfirmed(true);
 
     setResetStatus("done");
     setTimeout(() => setResetStatus("idle"), 2000);
-  }, [embeddedWallet, destChainId, recipientIsSelf, recipientAddr, recipientTokenSymbol]);
+  }, [embeddedWallet, revokeAndDeregister, destChainId, recipientIsSelf, recipientAddr, recipientTokenSymbol, minBridgeAmounts, spendingLimits, sessionLifetimeDays, splitRoutes]);
 
   // ═══════════════════════════════════════════════════════════════════
   //  Transition to listening mode after setup completes.
@@ -603,18 +1057,39 @@ export function usePipeline() {
         if (embeddedWallet && sessionSignerRef.current) {
           const sessionKey = loadSessionKey(embeddedWallet.address);
           if (sessionKey) {
-            const config = { destChainId, recipientIsSelf, recipientAddr, recipientTokenSymbol };
+            // Blank inputs mean "use the default" — don't persist them
+            const customMins = Object.fromEntries(
+              Object.entries(minBridgeAmounts).filter(([, v]) => v.trim() !== ""),
+            );
+            const limits = Object.fromEntries(
+              Object.entries(spendingLimits).filter(([, v]) => v.trim() !== ""),
+            );
+            const config = {
+              destChainId,
+              recipientIsSelf,
+              recipientAddr,
+              recipientTokenSymbol,
+              minBridgeAmounts: Object.keys(customMins).length > 0 ? customMins : undefined,
+              spendingLimits: Object.keys(limits).length > 0 ? limits : undefined,
+              sessionLifetimeDays,
+              routes: splitRoutes,
+            };
             console.log("[server] Registering session with config:", JSON.stringify(config));
             try {
-              await registerSessionOnServer({
-                walletAddress: embeddedWallet.address,
+              await registerSessionOnServer(embeddedWallet, {
                 sessionPrivateKey: sessionKey,
                 sessionSignerAddress: sessionSignerRef.current.address,
                 sessionDetails,
                 listeningConfig: config,
+                tokenRegistryVersion: grantTokenRegistryVersion,
+                expiresAt: sessionExpiresAt ?? undefined,
               });
               if (!cancelled) {
                 setServerRegistered(true);
+                setSessionExpiredAt(null);
+                setRenewalDue(false);
+                setStaleReason(null);
+                setNewTokens([]);
                 console.log("[server] Session registered for background monitoring");
                 posthog.capture("session_setup_completed", {
                   wallet_address: embeddedWallet.address,
@@ -639,7 +1114,7 @@ export function usePipeline() {
       registerAndListen();
       return () => { cancelled = true; };
     }
-  }, [grantStatus, sessionDetails, destChainId, recipientIsSelf, recipientAddr, recipientTokenSymbol]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [grantStatus, sessionDetails, destChainId, recipientIsSelf, recipientAddr, recipientTokenSymbol, minBridgeAmounts, spendingLimits, sessionLifetimeDays, splitRoutes]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // ═══════════════════════════════════════════════════════════════════
   //  Auto-advance — each setup step triggers the next when it succeeds
@@ -801,6 +1276,24 @@ export function usePipeline() {
     recipientTokenSymbol,
     setRecipientTokenSymbol,
 
+    // Minimum bridge amounts
+    minBridgeAmounts,
+    setMinBridgeAmounts,
+
+    // Session spending limits
+    spendingLimits,
+    setSpendingLimits,
+
+    // Session lifetime / expiry
+    sessionLifetimeDays,
+    setSessionLifetimeDays,
+    sessionExpiresAt,
+    sessionExpiredAt,
+
+    // Split routes
+    splitRoutes,
+    destinationProblem,
+
     // Copy
     copied,
     handleCopyAddress,
@@ -820,6 +1313,26 @@ export function usePipeline() {
     handleReconfigure,
     reconfigureStatus,
 
+    // ── Rotate session key ──────────────────────────────────────────
+    handleRotateSessionKey,
+    rotateStatus,
+    keyRotationDue,
+
+    // ── Re-grant session (renewal / stale upgrade) ──────────────────
+    handleRegrantSession,
+    regrantStatus,
+    renewalDue,
+    staleReason,
+    newTokens,
+
+    // ── Failing deposits (backoff / circuit breaker) ────────────────
+    depositFailures,
+    handleResetDepositFailures,
+    resetFailuresStatus,
+
+    // ── Token registry (built-in + admin-added tokens) ──────────────
+    tokens: tokenRegistry.tokens,
+
     // ── Delete session ──────────────────────────────────────────────
     handleDeleteSession,
     deleteStatus,
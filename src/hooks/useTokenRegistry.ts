@@ -0,0 +1,45 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { SUPPORTED_TOKENS, type TokenRegistry } from "../config";
+import { fetchTokenRegistry } from "../sessions/sessionStore";
+
+export type TokenRegistryState = { version: number; tokens: TokenRegistry };
+
+// One fetch per page load, shared by every component using the hook
+let registryPromise: Promise<TokenRegistryState> | null = null;
+
+/**
+ * The token registry (built-in plus admin-added tokens) from
+ * /api/sessions/tokens.  Returns the built-in tokens at version 0 until
+ * it has loaded, or if it cannot be loaded.
+ */
+export function useTokenRegistry(): TokenRegistryState {
+  const [registry, setRegistry] = useState<TokenRegistryState>({
+    version: 0,
+    tokens: SUPPORTED_TOKENS,
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    registryPromise ??= fetchTokenRegistry().catch((err) => {
+      // Retry on the next mount
+      registryPromise = null;
+      throw err;
+    });
+    registryPromise
+      .then((loaded) => {
+        if (!cancelled) setRegistry(loaded);
+      })
+      .catch(() => {
+        // Silently keep the built-in tokens
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return registry;
+}
@@ -0,0 +1,186 @@
+/**
+ * Admin authentication, roles and audit attribution for /api/admin/*.
+ *
+ * Sign-in flow:
+ *   1. POST /api/admin/auth issues a nonce to an address in the admin
+ *      list, to be signed within NONCE_SIGN_WINDOW_MS.
+ *   2. The admin signs a structured message (see adminAuthMessage.ts) with
+ *      the nonce, this site's domain and an expiry.
+ *   3. Every admin request carries the message + signature.  It is
+ *      accepted while it has not expired, the signer is in the admin list
+ *      with a high enough role and its nonce is live: the first request
+ *      activates the nonce issued to the signer, signing out revokes it.
+ *
+ * Roles are ordered viewer < operator < owner; see `AdminRole` in db.ts.
+ */
+
+import { verifyMessage } from "viem";
+import {
+  getAdmin,
+  issueAdminNonce,
+  activateAdminNonce,
+  isAdminNonceLive,
+  appendAuditEntry,
+  type AdminEntry,
+  type AdminRole,
+  type AuditActor,
+} from "./db";
+import { c, shortAddr } from "./log";
+import { requestIp } from "./clientIp";
+import {
+  ADMIN_MESSAGE_HEADER,
+  ADMIN_SIGNATURE_HEADER,
+  ADMIN_SESSION_MAX_MS,
+  parseAdminAuthMessage,
+} from "./adminAuthMessage";
+
+export const ADMIN_ROLES: AdminRole[] = ["viewer", "operator", "owner"];
+
+/** Time allowed between issuing a nonce and signing with it */
+const NONCE_SIGN_WINDOW_MS = 5 * 60 * 1000;
+/** Unsigned nonces an admin may have outstanding; more drop the oldest */
+const MAX_PENDING_NONCES = 5;
+/** Tolerated admin clock drift into the future */
+const MAX_CLOCK_SKEW_MS = 60 * 1000;
+
+export type AdminAuth = {
+  admin: AdminEntry;
+  /** Nonce of the signed message — identifies the sign-in */
+  nonce: string;
+  expiresAt: number;
+};
+
+export type AdminAuthResult =
+  | ({ ok: true } & AdminAuth)
+  | { ok: false; error: string; status: number };
+
+export function hasAdminRole(role: AdminRole, minRole: AdminRole): boolean {
+  return ADMIN_ROLES.indexOf(role) >= ADMIN_ROLES.indexOf(minRole);
+}
+
+/**
+ * Start a sign-in: a fresh nonce for `address` to sign, or `null` when it
+ * is not an admin.
+ */
+export async function issueAdminChallenge(
+  address: string,
+): Promise<{ nonce: string } | null> {
+  if (!(await getAdmin(address))) return null;
+  const nonce = await issueAdminNonce(
+    address,
+    NONCE_SIGN_WINDOW_MS / 1000,
+    MAX_PENDING_NONCES,
+  );
+  return { nonce };
+}
+
+/** Verify the request's admin signature and require at least `minRole`. */
+export async function requireAdmin(
+  req: Request,
+  minRole: AdminRole,
+): Promise<AdminAuthResult> {
+  const signature = req.headers.get(ADMIN_SIGNATURE_HEADER) as `0x${string}` | null;
+  const encoded = req.headers.get(ADMIN_MESSAGE_HEADER);
+
+  if (!signature || !encoded) {
+    return { ok: false, error: "Missing auth headers", status: 401 };
+  }
+
+  let message: string;
+  try {
+    message = decodeURIComponent(encoded);
+  } catch {
+    return { ok: false, error: "Malformed admin message", status: 401 };
+  }
+
+  const fields = parseAdminAuthMessage(message);
+  if (!fields) {
+    return { ok: false, error: "Malformed admin message", status: 401 };
+  }
+
+  const host = req.headers.get("host") ?? new URL(req.url).host;
+  if (fields.domain !== host) {
+    return { ok: false, error: "Signature is for a different domain", status: 403 };
+  }
+
+  const now = Date.now();
+  const issuedAt = Date.parse(fields.issuedAt);
+  const expiresAt = Date.parse(fields.expiresAt);
+  if (
+    Number.isNaN(issuedAt) ||
+    Number.isNaN(expiresAt) ||
+    issuedAt - now > MAX_CLOCK_SKEW_MS ||
+    expiresAt - issuedAt > ADMIN_SESSION_MAX_MS
+  ) {
+    return { ok: false, error: "Invalid sign-in timestamps", status: 401 };
+  }
+  if (expiresAt <= now) {
+    return { ok: false, error: "Signature expired — please sign again", status: 401 };
+  }
+
+  try {
+    const valid = await verifyMessage({
+      address: fields.address as `0x${string}`,
+      message,
+      signature,
+    });
+    if (!valid) {
+      return { ok: false, error: "Invalid signature", status: 403 };
+    }
+  } catch {
+    return { ok: false, error: "Signature verification failed", status: 403 };
+  }
+
+  const admin = await getAdmin(fields.address);
+  if (!admin) {
+    return { ok: false, error: "Not admin", status: 403 };
+  }
+
+  const live =
+    (await isAdminNonceLive(admin.address, fields.nonce)) ||
+    (await activateAdminNonce(
+      admin.address,
+      fields.nonce,
+      Math.ceil((expiresAt - now) / 1000),
+    ));
+  if (!live) {
+    return { ok: false, error: "Signed out — please sign again", status: 401 };
+  }
+
+  if (!hasAdminRole(admin.role, minRole)) {
+    return { ok: false, error: `Requires ${minRole} role`, status: 403 };
+  }
+
+  return { ok: true, admin, nonce: fields.nonce, expiresAt };
+}
+
+/** Attribute a db change to the signed-in admin (see `AuditActor`). */
+export function adminActor(req: Request, auth: AdminAuth): AuditActor {
+  return { actor: auth.admin.address, role: auth.admin.role, ip: requestIp(req) };
+}
+
+/**
+ * Append an admin action that has no db-level audit of its own (sign-in,
+ * admin list changes) to the audit log.  Never throws — a failed audit
+ * write is logged but does not fail the action itself.
+ */
+export async function auditAdminAction(
+  req: Request,
+  auth: AdminAuth,
+  action: string,
+  target?: string,
+  details?: Record<string, unknown>,
+): Promise<void> {
+  try {
+    await appendAuditEntry(adminActor(req, auth), { action, target, details });
+    console.log(
+      `  🛡  ${c.dim("AUDIT")} ${c.cyan(shortAddr(auth.admin.address))} ${action}` +
+        (target ? ` ${c.dim(target)}` : ""),
+    );
+  } catch (err) {
+    console.error(
+      c.boldRed(`  🛡  ✗ Failed to audit ${action} by ${shortAddr(auth.admin.address)}:`),
+      err instanceof Error ? err.message : err,
+    );
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Admin sign-in messages — shared by the admin page (which signs) and
+ * the admin API routes (which verify, see adminAuth.ts).
+ *
+ * SIWE-style (EIP-4361) message bound to the site's domain, a
+ * server-issued nonce and an expiry:
+ *
+ *   admin.example.com wants you to sign in to the Universal Deposit Address admin panel with your Ethereum account:
+ *   0xabc…
+ *
+ *   Nonce: 3f9c…
+ *   Issued At: 2025-01-01T00:00:00.000Z
+ *   Expiration Time: 2025-01-01T01:00:00.000Z
+ *
+ * The signed message is reused for every request until it expires.  It
+ * travels URI-encoded in X-Admin-Message next to X-Admin-Signature.
+ */
+
+export const ADMIN_MESSAGE_HEADER = "x-admin-message";
+export const ADMIN_SIGNATURE_HEADER = "x-admin-signature";
+
+/** Longest sign-in an admin can request */
+export const ADMIN_SESSION_MAX_MS = 60 * 60 * 1000;
+
+const STATEMENT =
+  " wants you to sign in to the Universal Deposit Address admin panel with your Ethereum account:";
+
+export type AdminAuthFields = {
+  /** Host the message was signed for (e.g. "uda.example.com") */
+  domain: string;
+  address: string;
+  nonce: string;
+  /** ISO timestamps */
+  issuedAt: string;
+  expiresAt: string;
+};
+
+export function buildAdminAuthMessage(fields: AdminAuthFields): string {
+  return [
+    `${fields.domain}${STATEMENT}`,
+    fields.address,
+    "",
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+    `Expiration Time: ${fields.expiresAt}`,
+  ].join("\n");
+}
+
+/** Parse a message built by `buildAdminAuthMessage`; `null` if malformed. */
+export function parseAdminAuthMessage(message: string): AdminAuthFields | null {
+  const lines = message.split("\n");
+  if (lines.length !== 6 || !lines[0].endsWith(STATEMENT)) return null;
+
+  const field = (line: string, label: string) =>
+    line.startsWith(`${label}: `) ? line.slice(label.length + 2) : null;
+
+  const domain = lines[0].slice(0, -STATEMENT.length);
+  const address = lines[1];
+  const nonce = field(lines[3], "Nonce");
+  const issuedAt = field(lines[4], "Issued At");
+  const expiresAt = field(lines[5], "Expiration Time");
+
+  if (!domain || !/^0x[a-fA-F0-9]{40}$/.test(address)) return null;
+  if (!nonce || !issuedAt || !expiresAt) return null;
+
+  return { domain, address, nonce, issuedAt, expiresAt };
+}
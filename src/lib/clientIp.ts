@@ -0,0 +1,6 @@
+/** Client IP as reported by the proxy (Vercel sets x-forwarded-for). */
+export function requestIp(req: Request): string | undefined {
+  const forwarded = req.headers.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(",")[0].trim();
+  return req.headers.get("x-real-ip") ?? undefined;
+}
@@ -1,41 +1,103 @@
 /**
- * Persistent session storage backed by Upstash Redis
- * (provisioned via Vercel marketplace).
+ * Persistent session storage.
  *
- * Vercel auto-injects these env vars when the store is linked:
- *   KV_REST_API_URL
- *   KV_REST_API_TOKEN
+ * This module owns the business rules (encryption, record defaults,
+ * logging); the bytes live in a pluggable `SessionStore` backend chosen
+ * by SESSION_STORE (see ./store).  Upstash Redis is the production
+ * backend; memory and SQLite adapters run the same flow offline.
  *
- * Each registered wallet gets a key:
+ * In the Redis layout each registered wallet gets a key:
  *   session:<walletAddress>  →  JSON SessionRecord
+ * Every write to it is a compare-and-swap on the record's `revision`
+ * (see `writeSession`), so concurrent writers never undo each other.
  *
  * The set of all registered wallets is maintained via a Redis SET:
  *   sessions:active          →  { walletAddress, … }
  *
+ * Poll-cycle coordination keys (short-lived, see the lease and
+ * idempotency sections below):
+ *   lease:<walletAddress>    →  fencing token of the current holder
+ *   deposit:<walletAddress>:<chainId>:<token>:<balance>  →  DepositClaim
+ *
+ * Incoming transfers found by log-based detection are kept per wallet
+ * with per-chain block cursors (see the deposit event section below).
+ *
  * Serialisation note:
  *   All BigInt values are encoded as "__bigint:<value>" via the shared
  *   bigintJson module.  `sessionDetails` is stored as a **live object**
  *   (not a pre-serialised string) so there is only ONE layer of JSON.
  */
 
-import { Redis } from "@upstash/redis";
-import { encryptPrivateKey, decryptPrivateKey } from "./encrypt";
-import { serialize, deserialize, reviveBigInts } from "./bigintJson";
+import { randomBytes } from "crypto";
+import {
+  encryptPrivateKey,
+  decryptPrivateKey,
+  needsReencryption,
+  reencryptBlob,
+} from "./encrypt";
 import { c, shortAddr, fmtBytes } from "./log";
-import { DEFAULT_FEE_COLLECTOR_ADDRESS } from "../config";
+import { store } from "./store";
+import { serialize, deserialize } from "./bigintJson";
+import {
+  SUPPORTED_TOKENS,
+  type TokenConfig,
+  type TokenRegistry,
+  DEFAULT_FEE_COLLECTOR_ADDRESS,
+  DEFAULT_ADMIN_OWNER_ADDRESS,
+  DEFAULT_SESSION_KEY_MAX_AGE_DAYS,
+  DEFAULT_SESSION_RENEWAL_NOTICE_DAYS,
+  DEFAULT_FAILURE_BACKOFF_MAX_MINUTES,
+  DEFAULT_FAILURE_CIRCUIT_THRESHOLD,
+} from "../config";
+import type { RpcHealthSnapshot } from "../rpcHealth";
 
 // ── Types ────────────────────────────────────────────────────────────
 
+/**
+ * One weighted leg of a split.  `shareBps` is the share of every deposit
+ * sent this way, in basis points; a config's shares sum to 10 000.
+ */
+export type SplitRoute = {
+  destChainId: number;
+  recipientIsSelf: boolean;
+  recipientAddr: string;
+  /** Token the recipient receives; same as the input token when omitted */
+  recipientTokenSymbol?: string;
+  shareBps: number;
+};
+
 export type ListeningConfig = {
   destChainId: number;
   recipientIsSelf: boolean;
   recipientAddr: string;
   /** Token symbol the recipient should receive on the destination chain (e.g. "USDC"). Defaults to same as input token when omitted. */
   recipientTokenSymbol?: string;
+  /**
+   * Per-token minimum balance before bridging, as human-readable amounts
+   * keyed by symbol (e.g. { USDC: "25" }).  Omitted tokens use the defaults.
+   */
+  minBridgeAmounts?: Record<string, string>;
+  /**
+   * Optional cap on the total amount of each token the session key may
+   * move per chain, as human-readable amounts keyed by symbol.  Enforced
+   * on-chain by the granted permission, so changing it needs a re-grant.
+   */
+  spendingLimits?: Record<string, string>;
+  /**
+   * How long each permission grant is valid for, in days (one of
+   * SESSION_LIFETIME_OPTIONS_DAYS).  Sets `SessionRecord.expiresAt`.
+   */
+  sessionLifetimeDays?: number;
+  /**
+   * Split every deposit across several destinations by weight.  When set,
+   * it replaces the single destination above (which then mirrors the
+   * first route, for display).
+   */
+  routes?: SplitRoute[];
 };
 
 /**
- * What we store in Redis for each wallet.
+ * What we store for each wallet.
  * `encryptedKey` holds the session signer private key encrypted at rest.
  * `sessionDetails` is the live object (BigInts revived on read).
  */
@@ -52,46 +114,109 @@ export type SessionRecord = {
    */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   sessionDetails: any;
+  /**
+   * Earlier grants replaced by a re-grant or key rotation, oldest first.
+   * The owner revokes them on-chain after the swap; they stay here in
+   * case that failed, so deregistering can check them too.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supersededGrants?: any[];
   /** Listening configuration */
   listeningConfig: ListeningConfig;
   /** Session version — must match current config to be valid */
   sessionVersion: number;
+  /**
+   * Token registry version the grant covers (absent: 0, the built-in
+   * tokens only).  Tokens added later are not watched for the wallet
+   * until the owner re-grants — see `getTokenRegistry`.
+   */
+  tokenRegistryVersion?: number;
+  /**
+   * Fee collector when the grant was registered — the permission's
+   * `transfer` is pinned to it, so fees keep going there until the
+   * owner re-grants (absent: granted before permissions were scoped).
+   */
+  grantedFeeCollector?: string;
   /** ISO timestamp of registration */
   registeredAt: string;
+  /** ISO timestamp of the last session key rotation (absent: never rotated) */
+  keyRotatedAt?: string;
+  /**
+   * ISO timestamp the granted permission stops being valid on-chain; the
+   * session is deactivated once it passes (absent: granted without expiry).
+   */
+  expiresAt?: string;
+  /** ISO timestamp the renewal prompt for `expiresAt` was sent */
+  renewalNoticeSentAt?: string;
+  /**
+   * ISO timestamp poll cycles started skipping the session because its
+   * permission set is older than SESSION_VERSION (absent: not stale)
+   */
+  staleSince?: string;
+  /** Why the session is stale, as shown to the owner */
+  staleReason?: string;
   /** ISO timestamp of last successful poll */
   lastPollAt: string | null;
+  /**
+   * ISO timestamp every balance was last read.  With log-based deposit
+   * detection this is the fallback reconciliation (see depositLogs.ts);
+   * absent until the first one.
+   */
+  lastBalanceCheckAt?: string;
   /** Whether the session is actively being polled */
   active: boolean;
+  /** Outbound webhook endpoints registered by the wallet owner */
+  webhooks?: WebhookEndpoint[];
+  /**
+   * Bumped by every write (absent: 0).  A write only lands if the stored
+   * record is still at the revision it was read at — see `writeSession`.
+   */
+  revision?: number;
 };
 
-// ── Redis client (lazy singleton) ────────────────────────────────────
-
-let _redis: Redis | null = null;
-
-function redis(): Redis {
-  if (!_redis) {
-    const url = process.env.KV_REST_API_URL;
-    const token = process.env.KV_REST_API_TOKEN;
-    if (!url || !token) {
-      console.error(
-        c.boldRed(`  🗄 ✗ Redis env vars missing!`) +
-          ` KV_REST_API_URL=${url ? "set" : c.red("MISSING")}` +
-          ` KV_REST_API_TOKEN=${token ? "set" : c.red("MISSING")}`,
-      );
-      throw new Error(
-        "Redis configuration missing — check KV_REST_API_URL and KV_REST_API_TOKEN env vars",
-      );
-    }
-    _redis = new Redis({ url, token });
-  }
-  return _redis;
-}
+/**
+ * Consecutive execution failures of one deposit source for a wallet — or
+ * of the wallet as a whole (`WALLET_FAILURE_KEY`, with chainId 0 and an
+ * empty tokenSymbol).
+ */
+export type DepositFailure = {
+  chainId: number;
+  tokenSymbol: string;
+  /** Failed attempts in a row since the last success or reset */
+  consecutiveFailures: number;
+  lastError: string;
+  lastFailureAt: string;
+  /** ISO timestamp before which the deposit is not retried */
+  retryAfter: string;
+  /** ISO timestamp retries stopped until a reset (absent: circuit closed) */
+  circuitOpenedAt?: string;
+};
+
+/**
+ * Lifecycle of a history entry.
+ *
+ *   pending  — supertx accepted by MEE, not yet mined
+ *   mined    — supertx mined on the source chain (bridges await the fill)
+ *   filled   — Across relayer filled the deposit on the destination chain
+ *   failed   — supertx reverted / failed on-chain
+ *   expired  — never mined, or the bridge was never filled
+ *   success  — legacy / client-recorded sweeps (final on submission)
+ *   error    — submission itself failed
+ */
+export type HistoryStatus =
+  | "pending"
+  | "mined"
+  | "filled"
+  | "failed"
+  | "expired"
+  | "success"
+  | "error";
 
 /** A single bridge/forward/sweep history entry stored per wallet. */
 export type HistoryEntry = {
   timestamp: string;
   type: "bridge" | "forward" | "sweep";
-  status: "success" | "error";
+  status: HistoryStatus;
   hash?: string;
   error?: string;
   tokenSymbol: string;
@@ -99,41 +224,35 @@ export type HistoryEntry = {
   sourceChainId: number;
   destChainId: number;
   recipient: string;
+  /** Source-chain transaction that executed the supertx (once mined) */
+  originTxHash?: string;
+  /** Destination-chain fill transaction (bridges only, once filled) */
+  fillTxHash?: string;
+  /** ISO timestamp of the last status change */
+  updatedAt?: string;
 };
 
 // ── Key helpers ──────────────────────────────────────────────────────
 
-const sessionKey = (addr: string) => `session:${addr.toLowerCase()}`;
-const historyKey = (addr: string) => `history:${addr.toLowerCase()}`;
-const ACTIVE_SET = "sessions:active";
-const FEE_COLLECTOR_KEY = "config:feeCollectorAddress";
-
-// ── Internal: parse a raw Redis value into a SessionRecord ───────────
-
-/**
- * Upstash may return a raw string OR an already-parsed object depending
- * on SDK version / internal behaviour.  This helper normalises either
- * form into a SessionRecord with BigInts properly revived.
- *
- * It also handles **legacy records** where `sessionDetails` was stored
- * as a pre-serialised JSON string (the old JSON-inside-JSON layout).
- */
-function parseRawRecord(raw: string | Record<string, unknown>): SessionRecord {
-  let record: SessionRecord;
-
-  if (typeof raw === "string") {
-    record = deserialize<SessionRecord>(raw);
-  } else {
-    record = reviveBigInts<SessionRecord>(raw);
-  }
-
-  // Legacy migration: old records stored sessionDetails as a JSON string.
-  if (typeof record.sessionDetails === "string") {
-    record.sessionDetails = deserialize(record.sessionDetails);
-  }
-
-  return record;
-}
+const depositClaimKey = (addr: string, depositKey: string) =>
+  `deposit:${addr.toLowerCase()}:${depositKey}`;
+const authNonceKey = (addr: string, nonce: string) =>
+  `auth:nonce:${addr.toLowerCase()}:${nonce}`;
+const adminChallengeKey = (addr: string, nonce: string) =>
+  `admin:challenge:${addr.toLowerCase()}:${nonce}`;
+const adminNonceKey = (addr: string, nonce: string) =>
+  `admin:nonce:${addr.toLowerCase()}:${nonce}`;
+const depositEventKey = (addr: string, event: DepositEvent) =>
+  `deposit:event:${addr.toLowerCase()}:${event.chainId}:${event.txHash}:${event.logIndex}`;
+const depositCursorsConfig = (addr: string) => `depositCursors:${addr.toLowerCase()}`;
+const depositFailuresConfig = (addr: string) => `depositFailures:${addr.toLowerCase()}`;
+const FEE_COLLECTOR_CONFIG = "feeCollectorAddress";
+const ADMINS_CONFIG = "admins";
+const adminChallengesConfig = (addr: string) => `adminChallenges:${addr.toLowerCase()}`;
+const REENCRYPTION_JOB_CONFIG = "reencryptionJob";
+const TOKEN_REGISTRY_CONFIG = "tokenRegistry";
+const RPC_HEALTH_CONFIG = "rpcHealth";
+const POLL_QUEUE_CONFIG = "pollQueue";
 
 // ── Public API ───────────────────────────────────────────────────────
 
@@ -145,47 +264,87 @@ export async function registerSession(params: {
   sessionDetails: unknown;
   listeningConfig: ListeningConfig;
   sessionVersion: number;
-}): Promise<void> {
+  /** Token registry version the grant was built from */
+  tokenRegistryVersion?: number;
+  /** When the granted permission expires (ISO timestamp) */
+  expiresAt?: string;
+}, by: AuditActor = SYSTEM_ACTOR): Promise<void> {
   const addr = params.walletAddress.toLowerCase();
 
-  const encryptedKey = encryptPrivateKey(params.sessionPrivateKey);
+  const encryptedKey = await encryptPrivateKey(params.sessionPrivateKey);
+  const grantedFeeCollector = await getFeeCollectorAddress();
 
-  const record: SessionRecord = {
+  // Re-registering (e.g. after a permission re-grant) keeps the wallet's
+  // webhook endpoints, and its earlier grants until they are revoked.
+  const { before: existing, after, bytes } = await writeSession(addr, (existing) => ({
     walletAddress: addr,
     encryptedKey,
     sessionSignerAddress: params.sessionSignerAddress,
     sessionDetails: params.sessionDetails,
+    supersededGrants: existing ? supersede(existing) : undefined,
     listeningConfig: params.listeningConfig,
     sessionVersion: params.sessionVersion,
+    tokenRegistryVersion: params.tokenRegistryVersion,
+    grantedFeeCollector,
     registeredAt: new Date().toISOString(),
+    expiresAt: params.expiresAt,
     lastPollAt: null,
     active: true,
-  };
+    webhooks: existing?.webhooks,
+  }));
+  const record = after!;
 
-  const r = redis();
-  const key = sessionKey(addr);
-  const payload = serialize(record);
-
-  await r.set(key, payload);
-  await r.sadd(ACTIVE_SET, addr);
+  const s = store();
+  await s.addActive(addr);
+  // A new grant — retry failing deposits at once
+  await forgetDepositFailures(addr);
 
   console.log(
     c.dim(
-      `  🗄 Registered ${shortAddr(addr)}  (${fmtBytes(payload.length)})`,
+      `  🗄 Registered ${shortAddr(addr)}  (${fmtBytes(bytes)})`,
     ),
   );
+
+  const changes = diffListeningConfig(existing?.listeningConfig, record.listeningConfig);
+  if (existing?.sessionSignerAddress !== record.sessionSignerAddress) {
+    changes.sessionSignerAddress = {
+      before: existing?.sessionSignerAddress ?? null,
+      after: record.sessionSignerAddress,
+    };
+  }
+  if (existing?.sessionVersion !== record.sessionVersion) {
+    changes.sessionVersion = {
+      before: existing?.sessionVersion ?? null,
+      after: record.sessionVersion,
+    };
+  }
+  if (existing && !existing.active) {
+    changes.active = { before: false, after: true };
+  }
+  if ((existing?.tokenRegistryVersion ?? 0) !== (record.tokenRegistryVersion ?? 0)) {
+    changes.tokenRegistryVersion = {
+      before: existing?.tokenRegistryVersion ?? null,
+      after: record.tokenRegistryVersion ?? null,
+    };
+  }
+  if (existing?.expiresAt !== record.expiresAt) {
+    changes.expiresAt = {
+      before: existing?.expiresAt ?? null,
+      after: record.expiresAt ?? null,
+    };
+  }
+  await recordAudit(by, {
+    action: existing ? "session.reregister" : "session.register",
+    walletAddress: addr,
+    changes,
+  });
 }
 
 export async function getSession(
   walletAddress: string,
 ): Promise<SessionRecord | null> {
-  const raw = await redis().get<string | Record<string, unknown>>(
-    sessionKey(walletAddress),
-  );
-  if (!raw) return null;
-
   try {
-    return parseRawRecord(raw);
+    return await store().getSession(walletAddress.toLowerCase());
   } catch (err) {
     console.error(
       c.boldRed(`  🗄 ✗ Failed to parse session for ${shortAddr(walletAddress)}`),
@@ -197,6 +356,41 @@ export async function getSession(
   }
 }
 
+/** Attempts at a session write before giving up on concurrent writers */
+const SESSION_WRITE_ATTEMPTS = 5;
+
+/**
+ * Apply `change` to the wallet's stored record and save the result
+ * unless another writer got there first, in which case it is applied
+ * again to theirs — so no write is lost and no record is rewritten from
+ * a stale read.  `change` gets `null` when no record is stored, and
+ * returns `null` to write nothing.  Returns the record before and after
+ * (`null` when nothing was written) and the stored size.
+ */
+async function writeSession(
+  walletAddress: string,
+  change: (
+    existing: SessionRecord | null,
+  ) => SessionRecord | null | Promise<SessionRecord | null>,
+): Promise<{ before: SessionRecord | null; after: SessionRecord | null; bytes: number }> {
+  const s = store();
+  for (let attempt = 0; attempt < SESSION_WRITE_ATTEMPTS; attempt++) {
+    const before = await getSession(walletAddress);
+    const next = await change(before);
+    if (!next) return { before, after: null, bytes: 0 };
+    const after: SessionRecord = { ...next, revision: (before?.revision ?? 0) + 1 };
+    const bytes = await s.swapSession(after, before ? (before.revision ?? 0) : null);
+    if (bytes !== null) return { before, after, bytes };
+  }
+  throw new Error(`Session of ${shortAddr(walletAddress)} kept changing — not saved`);
+}
+
+/** The record's superseded grants once its current grant is replaced */
+function supersede(existing: SessionRecord): unknown[] | undefined {
+  if (!existing.sessionDetails) return existing.supersededGrants;
+  return [...(existing.supersededGrants ?? []), existing.sessionDetails];
+}
+
 export async function updateSession(
   walletAddress: string,
   patch: Partial<
@@ -205,91 +399,1223 @@ export async function updateSession(
       | "listeningConfig"
       | "sessionDetails"
       | "sessionVersion"
+      | "tokenRegistryVersion"
+      | "expiresAt"
       | "lastPollAt"
+      | "lastBalanceCheckAt"
       | "active"
     >
   >,
+  by: AuditActor = SYSTEM_ACTOR,
 ): Promise<void> {
-  const existing = await getSession(walletAddress);
-  if (!existing) throw new Error("Session not found");
+  const grantedFeeCollector =
+    patch.sessionDetails !== undefined ? await getFeeCollectorAddress() : undefined;
+
+  const { before, after } = await writeSession(walletAddress, (existing) => {
+    if (!existing) throw new Error("Session not found");
+
+    const updated: SessionRecord = { ...existing, ...patch };
+    if (patch.sessionDetails !== undefined) {
+      updated.grantedFeeCollector = grantedFeeCollector;
+      updated.supersededGrants = supersede(existing);
+    }
+    // A renewed grant gets its own renewal prompt
+    if (patch.expiresAt !== undefined && patch.expiresAt !== existing.expiresAt) {
+      updated.renewalNoticeSentAt = undefined;
+    }
+    // A new grant at a newer version clears the stale flag
+    if (
+      patch.sessionDetails !== undefined &&
+      patch.sessionVersion !== undefined &&
+      patch.sessionVersion !== existing.sessionVersion
+    ) {
+      updated.staleSince = undefined;
+      updated.staleReason = undefined;
+    }
+    return updated;
+  });
+  const existing = before!;
+  const updated = after!;
 
-  const updated: SessionRecord = { ...existing, ...patch };
+  // A new grant may fix what kept deposits failing — retry them at once
+  if (patch.sessionDetails !== undefined) {
+    await forgetDepositFailures(walletAddress);
+  }
 
-  const r = redis();
-  const payload = serialize(updated);
-  await r.set(sessionKey(walletAddress), payload);
+  const s = store();
 
   if (patch.active === false) {
-    await r.srem(ACTIVE_SET, walletAddress.toLowerCase());
+    await s.removeActive(walletAddress.toLowerCase());
   } else if (patch.active === true) {
-    await r.sadd(ACTIVE_SET, walletAddress.toLowerCase());
+    await s.addActive(walletAddress.toLowerCase());
+  }
+
+  // Bookkeeping (lastPollAt) is not audited — only real config changes
+  const changes = diffListeningConfig(existing.listeningConfig, updated.listeningConfig);
+  if (existing.active !== updated.active) {
+    changes.active = { before: existing.active, after: updated.active };
+  }
+  if (existing.sessionVersion !== updated.sessionVersion) {
+    changes.sessionVersion = {
+      before: existing.sessionVersion,
+      after: updated.sessionVersion,
+    };
+  }
+  if ((existing.tokenRegistryVersion ?? 0) !== (updated.tokenRegistryVersion ?? 0)) {
+    changes.tokenRegistryVersion = {
+      before: existing.tokenRegistryVersion ?? null,
+      after: updated.tokenRegistryVersion ?? null,
+    };
+  }
+  if (existing.expiresAt !== updated.expiresAt) {
+    changes.expiresAt = {
+      before: existing.expiresAt ?? null,
+      after: updated.expiresAt ?? null,
+    };
+  }
+  const grantChanged = patch.sessionDetails !== undefined;
+  if (Object.keys(changes).length > 0 || grantChanged) {
+    await recordAudit(by, {
+      action: "session.update",
+      walletAddress: existing.walletAddress,
+      changes,
+      details: grantChanged ? { sessionDetailsReplaced: true } : undefined,
+    });
   }
 }
 
-export async function deleteSession(walletAddress: string): Promise<void> {
-  const r = redis();
-  await r.del(sessionKey(walletAddress));
-  await r.srem(ACTIVE_SET, walletAddress.toLowerCase());
+export async function deleteSession(
+  walletAddress: string,
+  by: AuditActor = SYSTEM_ACTOR,
+): Promise<void> {
+  const addr = walletAddress.toLowerCase();
+  const existing = await getSession(addr);
+
+  const s = store();
+  await s.deleteSession(addr);
+  await s.removeActive(addr);
+  await forgetDepositFailures(addr);
   console.log(
     c.dim(`  🗄 Deleted session for ${shortAddr(walletAddress)}`),
   );
+
+  await recordAudit(by, {
+    action: "session.delete",
+    walletAddress: addr,
+    changes: diffListeningConfig(existing?.listeningConfig, null),
+    details: existing ? undefined : { found: false },
+  });
 }
 
 /** Returns all wallet addresses that are actively monitored. */
 export async function getActiveAddresses(): Promise<string[]> {
-  return (await redis().smembers(ACTIVE_SET)) as string[];
+  return store().listActive();
+}
+
+/**
+ * Returns the address of every stored session record — active ones plus
+ * the deactivated and expired records kept for renewal.
+ */
+export async function getStoredSessionAddresses(): Promise<string[]> {
+  return store().listSessions();
 }
 
 /** Decrypt the session private key from a stored record. */
-export function decryptSessionKey(record: SessionRecord): `0x${string}` {
-  return decryptPrivateKey(record.encryptedKey) as `0x${string}`;
+export async function decryptSessionKey(
+  record: SessionRecord,
+): Promise<`0x${string}`> {
+  return (await decryptPrivateKey(record.encryptedKey)) as `0x${string}`;
+}
+
+// ── Session Key Rotation API ─────────────────────────────────────────
+//
+// The owner's browser generates a new signer, grants it a fresh
+// permission and sends both here; the record swaps key, signer and grant
+// in one write.  The browser then revokes the previous grant on-chain.
+// Keys older than SESSION_KEY_MAX_AGE_DAYS are flagged as due so the
+// dashboard rotates them on its next visit.
+
+/** Maximum session key age before rotation is due */
+export function sessionKeyMaxAgeMs(): number {
+  const days = Number(process.env.SESSION_KEY_MAX_AGE_DAYS);
+  return (days > 0 ? days : DEFAULT_SESSION_KEY_MAX_AGE_DAYS) * 24 * 60 * 60 * 1000;
+}
+
+/** True when the record's session key is older than the rotation policy. */
+export function isSessionKeyRotationDue(record: SessionRecord): boolean {
+  const since = Date.parse(record.keyRotatedAt ?? record.registeredAt);
+  return Number.isNaN(since) || Date.now() - since >= sessionKeyMaxAgeMs();
+}
+
+/**
+ * Replace the session key, signer and grant in a single write.
+ * Returns the previous grant so the caller can revoke it on-chain.
+ */
+export async function rotateSessionKey(
+  walletAddress: string,
+  params: {
+    sessionPrivateKey: string;
+    sessionSignerAddress: string;
+    /** sessionDetails — object with real BigInts */
+    sessionDetails: unknown;
+    /** Token registry version the new grant was built from (kept when omitted) */
+    tokenRegistryVersion?: number;
+  },
+  by: AuditActor = SYSTEM_ACTOR,
+): Promise<{ previousSessionDetails: unknown }> {
+  const encryptedKey = await encryptPrivateKey(params.sessionPrivateKey);
+  const grantedFeeCollector = await getFeeCollectorAddress();
+
+  const { before } = await writeSession(walletAddress, (existing) => {
+    if (!existing) throw new Error("Session not found");
+    return {
+      ...existing,
+      encryptedKey,
+      sessionSignerAddress: params.sessionSignerAddress,
+      sessionDetails: params.sessionDetails,
+      supersededGrants: supersede(existing),
+      tokenRegistryVersion: params.tokenRegistryVersion ?? existing.tokenRegistryVersion,
+      grantedFeeCollector,
+      keyRotatedAt: new Date().toISOString(),
+    };
+  });
+  const existing = before!;
+  // New grant — retry failing deposits at once
+  await forgetDepositFailures(walletAddress);
+
+  console.log(
+    c.dim(
+      `  🗄 Rotated session key for ${shortAddr(existing.walletAddress)}  ` +
+        `${shortAddr(existing.sessionSignerAddress)} → ${shortAddr(params.sessionSignerAddress)}`,
+    ),
+  );
+
+  await recordAudit(by, {
+    action: "session.rotate_key",
+    walletAddress: existing.walletAddress,
+    changes: {
+      sessionSignerAddress: {
+        before: existing.sessionSignerAddress,
+        after: params.sessionSignerAddress,
+      },
+    },
+  });
+
+  return { previousSessionDetails: existing.sessionDetails };
+}
+
+// ── Session Expiry API ───────────────────────────────────────────────
+//
+// Every grant is valid on-chain until `expiresAt` (the lifetime the owner
+// picked in the setup pipeline).  Poll cycles send a renewal prompt once
+// the session is within SESSION_RENEWAL_NOTICE_DAYS of expiring, and
+// deactivate it once it has lapsed — the permission no longer works.
+
+/** How long before expiry the renewal prompt is sent */
+export function sessionRenewalNoticeMs(): number {
+  const days = Number(process.env.SESSION_RENEWAL_NOTICE_DAYS);
+  return (days > 0 ? days : DEFAULT_SESSION_RENEWAL_NOTICE_DAYS) * 24 * 60 * 60 * 1000;
+}
+
+/** True when the record's grant has expired. */
+export function isSessionExpired(record: SessionRecord, now = Date.now()): boolean {
+  return !!record.expiresAt && Date.parse(record.expiresAt) <= now;
+}
+
+/** True when the record's grant expires within the renewal notice window. */
+export function isSessionRenewalDue(record: SessionRecord, now = Date.now()): boolean {
+  if (!record.expiresAt || isSessionExpired(record, now)) return false;
+  return Date.parse(record.expiresAt) - now <= sessionRenewalNoticeMs();
+}
+
+/** Record that the renewal prompt for the current grant was sent. */
+export async function markRenewalNoticeSent(walletAddress: string): Promise<void> {
+  await writeSession(walletAddress, (existing) =>
+    existing && { ...existing, renewalNoticeSentAt: new Date().toISOString() },
+  );
+}
+
+/**
+ * Deactivate a session whose grant has lapsed.  The record is kept so
+ * the owner can renew it with their existing configuration.
+ */
+export async function expireSession(walletAddress: string): Promise<void> {
+  const { before: existing, after } = await writeSession(walletAddress, (existing) =>
+    existing?.active ? { ...existing, active: false } : null,
+  );
+  if (!existing || !after) return;
+
+  await store().removeActive(existing.walletAddress);
+
+  console.log(
+    c.dim(`  🗄 Session for ${shortAddr(existing.walletAddress)} expired — deactivated`),
+  );
+
+  await recordAudit(SYSTEM_ACTOR, {
+    action: "session.expire",
+    walletAddress: existing.walletAddress,
+    changes: { active: { before: true, after: false } },
+    details: { expiresAt: existing.expiresAt },
+  });
+}
+
+// ── Stale Session API ────────────────────────────────────────────────
+//
+// Bumping SESSION_VERSION invalidates every grant made for an older
+// permission set: poll cycles skip those sessions.  The first cycle to do
+// so flags the record (`staleSince` / `staleReason`) so the owner can be
+// told; a re-grant at the current version clears the flag.
+
+/**
+ * Flag a session as stale.  Returns `true` when the flag is new (or its
+ * reason changed), so the caller notifies the owner only once.
+ */
+export async function markSessionStale(
+  walletAddress: string,
+  reason: string,
+): Promise<boolean> {
+  const { before: existing, after } = await writeSession(walletAddress, (existing) =>
+    existing && existing.staleReason !== reason
+      ? {
+          ...existing,
+          staleSince: existing.staleSince ?? new Date().toISOString(),
+          staleReason: reason,
+        }
+      : null,
+  );
+  if (!existing || !after) return false;
+
+  await recordAudit(SYSTEM_ACTOR, {
+    action: "session.stale",
+    walletAddress: existing.walletAddress,
+    details: { sessionVersion: existing.sessionVersion, reason },
+  });
+  return true;
+}
+
+// ── Deposit Failure API ──────────────────────────────────────────────
+//
+// Execution failures are counted per wallet and deposit source — chain
+// and token, which fix the routes a deposit takes — under their own key,
+// apart from the session record:
+//
+//   config:depositFailures:<walletAddress>  →  JSON { "<chainId>:<tokenSymbol>": DepositFailure }
+//
+// Poll cycles, owners and admins all write it, so every write swaps it
+// only if unchanged since read and otherwise retries — no update is lost
+// and the record is never rewritten from a stale read.
+//
+// A wallet whose processing fails as a whole (e.g. its session key cannot
+// be decrypted) gets one entry under WALLET_FAILURE_KEY that holds all
+// of its deposits, by the same rules.
+//
+// Every failure in a row doubles the wait before the next attempt (1, 2,
+// 4 … minutes, up to FAILURE_BACKOFF_MAX_MINUTES).  After
+// FAILURE_CIRCUIT_THRESHOLD of them the circuit opens and the deposit is
+// left alone until the owner or an admin resets it (or re-grants).  A
+// success clears the entry.
+
+/** First retry delay; doubled for every further failure in a row */
+const FAILURE_BACKOFF_BASE_MS = 60 * 1000;
+
+/** Attempts at a failure write before giving up on concurrent writers */
+const FAILURE_WRITE_ATTEMPTS = 5;
+
+/** A wallet's failing deposit sources, keyed by `depositFailureKey` */
+export type DepositFailures = Record<string, DepositFailure>;
+
+export const depositFailureKey = (chainId: number, tokenSymbol: string) =>
+  `${chainId}:${tokenSymbol}`;
+
+/** Failures of the wallet as a whole, holding every deposit source */
+export const WALLET_FAILURE_KEY = "wallet";
+
+/** Longest wait between retries of a failing deposit */
+export function failureBackoffMaxMs(): number {
+  const minutes = Number(process.env.FAILURE_BACKOFF_MAX_MINUTES);
+  return (minutes > 0 ? minutes : DEFAULT_FAILURE_BACKOFF_MAX_MINUTES) * 60 * 1000;
+}
+
+/** Failures in a row that open a deposit's circuit */
+export function failureCircuitThreshold(): number {
+  const count = Number(process.env.FAILURE_CIRCUIT_THRESHOLD);
+  return Number.isInteger(count) && count > 0 ? count : DEFAULT_FAILURE_CIRCUIT_THRESHOLD;
+}
+
+/** The wallet's failing deposit sources (empty when none). */
+export async function getDepositFailures(walletAddress: string): Promise<DepositFailures> {
+  const raw = await store().getConfig(depositFailuresConfig(walletAddress));
+  return raw ? (JSON.parse(raw) as DepositFailures) : {};
+}
+
+/**
+ * Apply `change` to the wallet's failures and save them unless another
+ * writer got there first, in which case it is applied again to theirs.
+ * `change` returning `null` writes nothing.  Returns the failures before
+ * and after, or `null` when nothing was written.
+ */
+async function updateDepositFailures(
+  walletAddress: string,
+  change: (failures: DepositFailures) => DepositFailures | null,
+): Promise<{ before: DepositFailures; after: DepositFailures } | null> {
+  const key = depositFailuresConfig(walletAddress);
+  const s = store();
+  for (let attempt = 0; attempt < FAILURE_WRITE_ATTEMPTS; attempt++) {
+    const raw = await s.getConfig(key);
+    const before = raw ? (JSON.parse(raw) as DepositFailures) : {};
+    const after = change(before);
+    if (!after) return null;
+    if (await s.swapConfig(key, raw, JSON.stringify(after))) return { before, after };
+  }
+  throw new Error(`Deposit failures of ${shortAddr(walletAddress)} kept changing — not saved`);
+}
+
+/** Forget every failure — a new grant may fix them. */
+async function forgetDepositFailures(walletAddress: string): Promise<void> {
+  await updateDepositFailures(walletAddress, (failures) =>
+    Object.keys(failures).length > 0 ? {} : null,
+  );
+}
+
+/**
+ * The failure entry holding a deposit back right now — its own or the
+ * wallet's circuit is open or backoff has not elapsed — or `null` when
+ * it may be tried.
+ */
+export function depositFailureHold(
+  failures: DepositFailures,
+  chainId: number,
+  tokenSymbol: string,
+  now = Date.now(),
+): DepositFailure | null {
+  for (const key of [WALLET_FAILURE_KEY, depositFailureKey(chainId, tokenSymbol)]) {
+    const failure = failures[key];
+    if (failure && (failure.circuitOpenedAt || Date.parse(failure.retryAfter) > now)) {
+      return failure;
+    }
+  }
+  return null;
+}
+
+/**
+ * Count a failed attempt and schedule the next one.  Returns the updated
+ * entry; `circuitOpenedAt` is set once the threshold is reached.
+ */
+export async function recordDepositFailure(
+  walletAddress: string,
+  chainId: number,
+  tokenSymbol: string,
+  error: string,
+): Promise<DepositFailure | null> {
+  const key = depositFailureKey(chainId, tokenSymbol);
+  return recordFailure(walletAddress, key, chainId, tokenSymbol, error);
+}
+
+/** Count a failed attempt at processing the wallet as a whole. */
+export async function recordWalletFailure(
+  walletAddress: string,
+  error: string,
+): Promise<DepositFailure | null> {
+  return recordFailure(walletAddress, WALLET_FAILURE_KEY, 0, "", error);
+}
+
+async function recordFailure(
+  walletAddress: string,
+  key: string,
+  chainId: number,
+  tokenSymbol: string,
+  error: string,
+): Promise<DepositFailure | null> {
+  if (!(await getSession(walletAddress))) return null;
+
+  const now = Date.now();
+  const written = await updateDepositFailures(walletAddress, (failures) => {
+    const previous = failures[key];
+    const consecutiveFailures = (previous?.consecutiveFailures ?? 0) + 1;
+    const backoffMs = Math.min(
+      FAILURE_BACKOFF_BASE_MS * 2 ** (consecutiveFailures - 1),
+      failureBackoffMaxMs(),
+    );
+    const failure: DepositFailure = {
+      chainId,
+      tokenSymbol,
+      consecutiveFailures,
+      lastError: error,
+      lastFailureAt: new Date(now).toISOString(),
+      retryAfter: new Date(now + backoffMs).toISOString(),
+      circuitOpenedAt:
+        previous?.circuitOpenedAt ??
+        (consecutiveFailures >= failureCircuitThreshold() ? new Date(now).toISOString() : undefined),
+    };
+    return { ...failures, [key]: failure };
+  });
+  const previous = written!.before[key];
+  const failure = written!.after[key];
+
+  if (failure.circuitOpenedAt && !previous?.circuitOpenedAt) {
+    console.log(
+      c.dim(
+        `  🗄 Circuit opened for ` +
+          (key === WALLET_FAILURE_KEY ? "all deposits" : `${tokenSymbol} on chain ${chainId}`) +
+          ` (${shortAddr(walletAddress)}) after ${failure.consecutiveFailures} failures`,
+      ),
+    );
+    await recordAudit(SYSTEM_ACTOR, {
+      action: "session.circuit_open",
+      walletAddress: walletAddress.toLowerCase(),
+      target: key,
+      details: { chainId, tokenSymbol, consecutiveFailures: failure.consecutiveFailures, error },
+    });
+  }
+  return failure;
+}
+
+/** Forget the failures of deposit sources that just succeeded. */
+export async function clearDepositFailures(
+  walletAddress: string,
+  keys: string[],
+): Promise<void> {
+  await updateDepositFailures(walletAddress, (failures) =>
+    keys.some((key) => key in failures)
+      ? Object.fromEntries(Object.entries(failures).filter(([key]) => !keys.includes(key)))
+      : null,
+  );
+}
+
+/**
+ * Reset backoff and open circuits — every deposit source, or only `key`
+ * — so the next poll cycle tries again.  Returns the entries cleared.
+ */
+export async function resetDepositFailures(
+  walletAddress: string,
+  by: AuditActor,
+  key?: string,
+): Promise<DepositFailure[]> {
+  if (!(await getSession(walletAddress))) throw new Error("Session not found");
+
+  const written = await updateDepositFailures(walletAddress, (failures) =>
+    Object.keys(failures).some((k) => key === undefined || k === key)
+      ? Object.fromEntries(Object.entries(failures).filter(([k]) => key !== undefined && k !== key))
+      : null,
+  );
+  if (!written) return [];
+  const cleared = Object.entries(written.before).filter(([k]) => !(k in written.after));
+
+  console.log(
+    c.dim(
+      `  🗄 Reset ${cleared.length} failing deposit source(s) for ${shortAddr(walletAddress)}`,
+    ),
+  );
+  await recordAudit(by, {
+    action: "session.failures_reset",
+    walletAddress: walletAddress.toLowerCase(),
+    details: {
+      cleared: cleared.map(([k, f]) => ({
+        key: k,
+        consecutiveFailures: f.consecutiveFailures,
+        circuitOpen: !!f.circuitOpenedAt,
+      })),
+    },
+  });
+  return cleared.map(([, f]) => f);
+}
+
+// ── Encryption Key Rotation API ──────────────────────────────────────
+//
+// After a new key is added to the front of SESSION_ENCRYPTION_KEYS, the
+// re-encryption job (see reencryption.ts) rewrites every stored secret —
+// session keys and webhook secrets — under it, so the old key can be
+// dropped.  Its progress lives under config:reencryptionJob.
+
+export type ReencryptionJob = {
+  status: "running" | "done";
+  /** Key everything is being re-encrypted under */
+  targetKeyId: string;
+  startedAt: string;
+  /** Admin address that started the job */
+  startedBy: string;
+  updatedAt: string;
+  finishedAt?: string;
+  /** Wallets in `sessions:active` when the job started */
+  total: number;
+  /** Wallets still to process, in order */
+  pending: string[];
+  reencrypted: number;
+  /** Already under the target key */
+  current: number;
+  /** Deregistered since the job started */
+  missing: number;
+  failed: { walletAddress: string; error: string }[];
+};
+
+export type ReencryptOutcome = "reencrypted" | "current" | "missing";
+
+/** Re-encrypt one wallet's stored secrets under the current key. */
+export async function reencryptSession(
+  walletAddress: string,
+): Promise<ReencryptOutcome> {
+  let outcome: ReencryptOutcome = "missing";
+  await writeSession(walletAddress, async (existing) => {
+    if (!existing) {
+      outcome = "missing";
+      return null;
+    }
+
+    const webhooks = existing.webhooks ?? [];
+    const stale =
+      (await needsReencryption(existing.encryptedKey)) ||
+      (await Promise.all(webhooks.map((w) => needsReencryption(w.encryptedSecret))))
+        .some(Boolean);
+    if (!stale) {
+      outcome = "current";
+      return null;
+    }
+
+    outcome = "reencrypted";
+    return {
+      ...existing,
+      encryptedKey: await reencryptBlob(existing.encryptedKey),
+      webhooks: existing.webhooks && await Promise.all(
+        existing.webhooks.map(async (w) => ({
+          ...w,
+          encryptedSecret: await reencryptBlob(w.encryptedSecret),
+        })),
+      ),
+    };
+  });
+  return outcome;
+}
+
+export async function getReencryptionJob(): Promise<ReencryptionJob | null> {
+  const raw = await store().getConfig(REENCRYPTION_JOB_CONFIG);
+  return raw ? (JSON.parse(raw) as ReencryptionJob) : null;
+}
+
+export async function saveReencryptionJob(job: ReencryptionJob): Promise<void> {
+  await store().setConfig(REENCRYPTION_JOB_CONFIG, JSON.stringify(job));
 }
 
 // ── Fee Collector API ─────────────────────────────────────────────────
 
 /**
  * Returns the fee collector address.
- * Falls back to `DEFAULT_FEE_COLLECTOR_ADDRESS` if not set in Redis.
+ * Falls back to `DEFAULT_FEE_COLLECTOR_ADDRESS` if not set in the store.
  */
 export async function getFeeCollectorAddress(): Promise<string> {
-  const addr = await redis().get<string>(FEE_COLLECTOR_KEY);
+  const addr = await store().getConfig(FEE_COLLECTOR_CONFIG);
   return addr || DEFAULT_FEE_COLLECTOR_ADDRESS;
 }
 
 /**
- * Update the fee collector address in Redis.
+ * Update the fee collector address in the store.
  */
-export async function setFeeCollectorAddress(address: string): Promise<void> {
-  await redis().set(FEE_COLLECTOR_KEY, address.toLowerCase());
+export async function setFeeCollectorAddress(
+  address: string,
+  by: AuditActor = SYSTEM_ACTOR,
+): Promise<void> {
+  const before = await getFeeCollectorAddress();
+  await store().setConfig(FEE_COLLECTOR_CONFIG, address.toLowerCase());
   console.log(
     c.dim(`  🗄 Fee collector address updated to ${shortAddr(address)}`),
   );
+
+  await recordAudit(by, {
+    action: "settings.update",
+    target: FEE_COLLECTOR_CONFIG,
+    changes: {
+      feeCollectorAddress: { before: before.toLowerCase(), after: address.toLowerCase() },
+    },
+  });
+}
+
+// ── Token Registry API ───────────────────────────────────────────────
+//
+// Tokens added by admins are stored as one list under config:tokenRegistry,
+// on top of the built-in SUPPORTED_TOKENS.  Every addition bumps the
+// registry version: that is the permission version each wallet now
+// needs, and a wallet whose grant is older (`tokenRegistryVersion`) is
+// asked to re-grant before the new token is watched for it.
+
+type StoredTokenRegistry = { version: number; tokens: TokenConfig[] };
+
+/** Attempts at a registry write before giving up on concurrent writers */
+const TOKEN_REGISTRY_WRITE_ATTEMPTS = 5;
+
+/** The built-in and admin-added tokens, with the registry version. */
+export type TokenRegistrySnapshot = { version: number; tokens: TokenRegistry };
+
+function parseStoredTokens(raw: string | null): StoredTokenRegistry {
+  // Amounts are BigInts — stored with the shared codec
+  return raw ? deserialize<StoredTokenRegistry>(raw) : { version: 0, tokens: [] };
+}
+
+async function loadStoredTokens(): Promise<StoredTokenRegistry> {
+  return parseStoredTokens(await store().getConfig(TOKEN_REGISTRY_CONFIG));
+}
+
+export async function getTokenRegistry(): Promise<TokenRegistrySnapshot> {
+  const stored = await loadStoredTokens();
+  return {
+    version: stored.version,
+    tokens: {
+      ...SUPPORTED_TOKENS,
+      ...Object.fromEntries(stored.tokens.map((t) => [t.symbol, t])),
+    },
+  };
+}
+
+/**
+ * Append `token` to the stored registry under the next version, swapping
+ * it in only if unchanged since read (concurrent additions each get their
+ * own version).  Returns the versions before and after.
+ */
+async function appendStoredToken(
+  token: TokenConfig,
+): Promise<{ before: number; version: number }> {
+  const s = store();
+  for (let attempt = 0; attempt < TOKEN_REGISTRY_WRITE_ATTEMPTS; attempt++) {
+    const raw = await s.getConfig(TOKEN_REGISTRY_CONFIG);
+    const stored = parseStoredTokens(raw);
+    if (token.symbol in SUPPORTED_TOKENS || stored.tokens.some((t) => t.symbol === token.symbol)) {
+      throw new Error(`Token ${token.symbol} is already in the registry`);
+    }
+
+    const version = stored.version + 1;
+    const added: TokenConfig = { ...token, addedInVersion: version };
+    const next = serialize({ version, tokens: [...stored.tokens, added] });
+    if (await s.swapConfig(TOKEN_REGISTRY_CONFIG, raw, next)) {
+      return { before: stored.version, version };
+    }
+  }
+  throw new Error(`Token registry kept changing — ${token.symbol} not added`);
+}
+
+/**
+ * Add a token (already validated — see `validateTokenInput`) and bump the
+ * registry version.  Throws if the symbol is taken.
+ */
+export async function addToken(
+  token: TokenConfig,
+  by: AuditActor = SYSTEM_ACTOR,
+): Promise<TokenRegistrySnapshot> {
+  const { before, version } = await appendStoredToken(token);
+  console.log(
+    c.dim(
+      `  🗄 Token ${token.symbol} added  ` +
+        `(registry v${version}, ${Object.keys(token.addresses).length} chain(s))`,
+    ),
+  );
+
+  await recordAudit(by, {
+    action: "settings.token_add",
+    target: token.symbol,
+    changes: { tokenRegistryVersion: { before, after: version } },
+    details: {
+      name: token.name,
+      decimals: token.decimals,
+      addresses: token.addresses,
+      minBridgeAmount: token.minBridgeAmount.toString(),
+      maxFeeAmount: token.maxFeeAmount.toString(),
+    },
+  });
+
+  return getTokenRegistry();
+}
+
+// ── Admin API ────────────────────────────────────────────────────────
+//
+// Admins and their roles are stored as one JSON list under config:admins.
+// An empty list (fresh store, or after a flush) falls back to a single
+// owner — ADMIN_OWNER_ADDRESS or DEFAULT_ADMIN_OWNER_ADDRESS — so the
+// admin panel can never be locked out entirely.
+
+/** viewer: read-only · operator: + manage sessions and settings · owner: + admins, flush */
+export type AdminRole = "viewer" | "operator" | "owner";
+
+export type AdminEntry = {
+  address: string;
+  role: AdminRole;
+  /** Admin who granted the role ("bootstrap" for the seeded owner) */
+  addedBy: string;
+  addedAt: string;
+};
+
+/** All admins, oldest first. */
+export async function getAdmins(): Promise<AdminEntry[]> {
+  const raw = await store().getConfig(ADMINS_CONFIG);
+  const admins: AdminEntry[] = raw ? JSON.parse(raw) : [];
+  if (admins.length > 0) return admins;
+
+  return [
+    {
+      address: (
+        process.env.ADMIN_OWNER_ADDRESS || DEFAULT_ADMIN_OWNER_ADDRESS
+      ).toLowerCase(),
+      role: "owner",
+      addedBy: "bootstrap",
+      addedAt: new Date(0).toISOString(),
+    },
+  ];
+}
+
+/** Look up one admin by address. */
+export async function getAdmin(address: string): Promise<AdminEntry | null> {
+  const addr = address.toLowerCase();
+  return (await getAdmins()).find((a) => a.address === addr) ?? null;
+}
+
+/** Replace the whole admin list. */
+export async function setAdmins(admins: AdminEntry[]): Promise<void> {
+  await store().setConfig(ADMINS_CONFIG, JSON.stringify(admins));
+  console.log(c.dim(`  🗄 Admin list updated (${admins.length} admin(s))`));
+}
+
+/** Attempts at a challenge-list write before giving up on concurrent writers */
+const ADMIN_CHALLENGE_WRITE_ATTEMPTS = 5;
+
+type AdminChallenge = { nonce: string; expiresAt: number };
+
+/**
+ * Issue a sign-in nonce to `address`, unsigned for up to `ttlSeconds`.
+ * At most `maxPending` stay outstanding per address: issuing more drops
+ * the oldest, so repeated requests cannot grow the store.
+ */
+export async function issueAdminNonce(
+  address: string,
+  ttlSeconds: number,
+  maxPending: number,
+): Promise<string> {
+  const nonce = randomBytes(16).toString("hex");
+  const key = adminChallengesConfig(address);
+  const s = store();
+
+  for (let attempt = 0; attempt < ADMIN_CHALLENGE_WRITE_ATTEMPTS; attempt++) {
+    const raw = await s.getConfig(key);
+    const now = Date.now();
+    const live = (raw ? (JSON.parse(raw) as AdminChallenge[]) : []).filter(
+      (ch) => ch.expiresAt > now,
+    );
+    const pending = [...live, { nonce, expiresAt: now + ttlSeconds * 1000 }];
+    const dropped = pending.splice(0, Math.max(0, pending.length - maxPending));
+
+    if (await s.swapConfig(key, raw, JSON.stringify(pending))) {
+      await s.consumeNonce(adminChallengeKey(address, nonce), ttlSeconds);
+      for (const ch of dropped) await s.deleteNonce(adminChallengeKey(address, ch.nonce));
+      return nonce;
+    }
+  }
+  throw new Error(`Sign-in nonces of ${shortAddr(address)} kept changing — try again`);
+}
+
+/**
+ * Turn an issued, unsigned nonce into a live sign-in for `ttlSeconds`.
+ * `false` when `address` was not issued the nonce or it expired unsigned.
+ */
+export async function activateAdminNonce(
+  address: string,
+  nonce: string,
+  ttlSeconds: number,
+): Promise<boolean> {
+  const s = store();
+  if (!(await s.hasNonce(adminChallengeKey(address, nonce)))) return false;
+  await s.consumeNonce(adminNonceKey(address, nonce), ttlSeconds);
+  await s.deleteNonce(adminChallengeKey(address, nonce));
+  return true;
+}
+
+/** Whether `address` is signed in with `nonce` (activated, not revoked). */
+export async function isAdminNonceLive(address: string, nonce: string): Promise<boolean> {
+  return store().hasNonce(adminNonceKey(address, nonce));
+}
+
+/** Invalidate a nonce — signs the admin out. */
+export async function revokeAdminNonce(address: string, nonce: string): Promise<void> {
+  await store().deleteNonce(adminNonceKey(address, nonce));
+}
+
+// ── Audit Log API ────────────────────────────────────────────────────
+//
+// Append-only record of every session lifecycle change, config change
+// and admin action, newest first:
+//   audit:log                     →  LIST of JSON AuditEntry
+//   audit:wallet:<walletAddress>  →  the same entries, per wallet
+//
+// The audit streams survive `deleteAllData`.  Mutating functions in this
+// module take an optional `AuditActor`; without one the change is
+// attributed to "system".
+
+/** Who made a change */
+export type AuditActor = {
+  /** Wallet or admin address, or "system" */
+  actor: string;
+  /** Admin role, when the actor acted as an admin */
+  role?: AdminRole;
+  ip?: string;
+};
+
+const SYSTEM_ACTOR: AuditActor = { actor: "system" };
+
+/** One changed field */
+export type AuditChange = { before: unknown; after: unknown };
+
+export type AuditEntry = {
+  timestamp: string;
+  /** Address that performed the action ("system" for the server itself) */
+  actor: string;
+  /** Actor's admin role at the time, if the action was an admin action */
+  role?: AdminRole;
+  /** Dotted action name, e.g. "session.update", "admin.add" */
+  action: string;
+  /** Wallet whose session was affected — indexes the per-wallet stream */
+  walletAddress?: string;
+  /** What else the action was applied to (admin address, setting name) */
+  target?: string;
+  /** Changed fields, e.g. { "listeningConfig.recipientAddr": { before, after } } */
+  changes?: Record<string, AuditChange>;
+  details?: Record<string, unknown>;
+  ip?: string;
+};
+
+/**
+ * Field-by-field diff of two listening configs, keyed
+ * "listeningConfig.<field>".  Nested values (routes, minimums) are
+ * compared whole.
+ */
+export function diffListeningConfig(
+  before: ListeningConfig | null | undefined,
+  after: ListeningConfig | null | undefined,
+): Record<string, AuditChange> {
+  const changes: Record<string, AuditChange> = {};
+  const keys = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]) as Set<keyof ListeningConfig>;
+
+  for (const key of keys) {
+    const b = before?.[key];
+    const a = after?.[key];
+    if (JSON.stringify(b) !== JSON.stringify(a)) {
+      changes[`listeningConfig.${key}`] = { before: b ?? null, after: a ?? null };
+    }
+  }
+  return changes;
+}
+
+/** Append an entry stamped with `by` and the current time. */
+async function recordAudit(
+  by: AuditActor,
+  entry: Omit<AuditEntry, "timestamp" | "actor" | "role" | "ip">,
+): Promise<void> {
+  try {
+    await store().appendAudit({
+      timestamp: new Date().toISOString(),
+      actor: by.actor.toLowerCase(),
+      role: by.role,
+      ip: by.ip,
+      ...entry,
+    });
+  } catch (err) {
+    // Never fail the change itself because the audit write failed
+    console.error(
+      c.boldRed(`  🗄 ✗ Failed to audit ${entry.action}:`),
+      err instanceof Error ? err.message : err,
+    );
+  }
+}
+
+/** Record an action that has no db-level mutation of its own (e.g. sign-in). */
+export async function appendAuditEntry(
+  by: AuditActor,
+  entry: Omit<AuditEntry, "timestamp" | "actor" | "role" | "ip">,
+): Promise<void> {
+  await recordAudit(by, entry);
+}
+
+/** Audit entries, newest first — all of them, or one wallet's. */
+export async function getAuditEntries(
+  offset = 0,
+  limit = 50,
+  walletAddress?: string,
+): Promise<AuditEntry[]> {
+  return store().listAudit(offset, limit, walletAddress?.toLowerCase());
+}
+
+export async function getAuditCount(walletAddress?: string): Promise<number> {
+  return store().countAudit(walletAddress?.toLowerCase());
+}
+
+// ── Wallet Lease API ─────────────────────────────────────────────────
+//
+// Overlapping poll cycles (Vercel Cron + local-cron, or a slow cycle
+// still running when the next one fires) must never process the same
+// wallet concurrently.  Each cycle takes a short-lived lease per wallet:
+//
+//   lease:<walletAddress>        →  fencing token   (SET NX PX ttl)
+//   lease:fence:<walletAddress>  →  monotonic counter (INCR)
+//
+// The fencing token is strictly increasing per wallet, so a holder whose
+// lease expired mid-execution can detect that a newer holder took over
+// (`isWalletLeaseHeld`) and stop before submitting anything else.
+
+export type WalletLease = {
+  walletAddress: string;
+  /** Monotonically increasing per wallet — higher always wins */
+  fencingToken: number;
+  /** Epoch ms after which the lease is no longer guaranteed */
+  expiresAt: number;
+};
+
+/**
+ * Try to take the per-wallet lease.
+ * Returns `null` when another poll cycle currently holds it.
+ */
+export async function acquireWalletLease(
+  walletAddress: string,
+  ttlMs: number,
+): Promise<WalletLease | null> {
+  const fencingToken = await store().acquireLease(
+    walletAddress.toLowerCase(),
+    ttlMs,
+  );
+  if (fencingToken === null) return null;
+
+  return {
+    walletAddress: walletAddress.toLowerCase(),
+    fencingToken,
+    expiresAt: Date.now() + ttlMs,
+  };
+}
+
+/**
+ * Take the per-wallet lease, retrying every `intervalMs` while a poll
+ * cycle holds it.  Returns `null` when it is still held after `waitMs`.
+ */
+export async function acquireWalletLeaseWithin(
+  walletAddress: string,
+  ttlMs: number,
+  waitMs: number,
+  intervalMs = 500,
+): Promise<WalletLease | null> {
+  const deadline = Date.now() + waitMs;
+  for (;;) {
+    const lease = await acquireWalletLease(walletAddress, ttlMs);
+    if (lease || Date.now() + intervalMs > deadline) return lease;
+    await new Promise((r) => setTimeout(r, intervalMs));
+  }
+}
+
+/** True while `lease` is still the current holder for its wallet. */
+export async function isWalletLeaseHeld(lease: WalletLease): Promise<boolean> {
+  const current = await store().getLeaseToken(lease.walletAddress);
+  return current === lease.fencingToken;
+}
+
+/** Release the lease (no-op if it already expired or was taken over). */
+export async function releaseWalletLease(lease: WalletLease): Promise<void> {
+  await store().releaseLease(lease.walletAddress, lease.fencingToken);
+}
+
+// ── Poll Queue API ───────────────────────────────────────────────────
+//
+// Poll cycles work through the active wallets one pass at a time:
+//
+//   config:pollQueue  →  JSON PollQueue
+//
+// A pass snapshots the active set.  Each cron invocation scans wallets
+// from the cursor in chunks until its time budget runs out, advancing
+// the cursor only once a chunk is done — a run killed mid-chunk leaves
+// the chunk to the next invocation.  Wallets whose actions the deadline
+// cut short, or that another cycle held the lease on, are carried over
+// and scanned first next time.  Every save checks the queue is still as
+// read, so overlapping invocations never overwrite each other's
+// progress.
+
+export type PollQueue = {
+  /** Increments with every new pass */
+  pass: number;
+  startedAt: string;
+  /** Active wallets when the pass started */
+  addresses: string[];
+  /** Index of the next wallet in `addresses` to scan */
+  cursor: number;
+  /** Wallets to scan before the cursor's, next invocation */
+  carryOver: string[];
+};
+
+export async function getPollQueue(): Promise<PollQueue | null> {
+  const raw = await store().getConfig(POLL_QUEUE_CONFIG);
+  return raw ? (JSON.parse(raw) as PollQueue) : null;
+}
+
+/**
+ * Save `queue` over `expected`, the queue as this invocation read it.
+ * Returns `false`, writing nothing, when an overlapping invocation saved
+ * the queue in the meantime.
+ */
+export async function savePollQueue(
+  queue: PollQueue,
+  expected: PollQueue | null,
+): Promise<boolean> {
+  // Re-serialising the parsed queue reproduces the stored text exactly
+  return store().swapConfig(
+    POLL_QUEUE_CONFIG,
+    expected && JSON.stringify(expected),
+    JSON.stringify(queue),
+  );
+}
+
+/**
+ * Add wallets to the queue's carry-over after the queue moved on under
+ * an invocation.  Returns the queue as saved.
+ */
+export async function carryOverWallets(addresses: string[]): Promise<PollQueue | null> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const queue = await getPollQueue();
+    if (!queue) return null;
+    const next: PollQueue = {
+      ...queue,
+      carryOver: [...queue.carryOver, ...addresses.filter((a) => !queue.carryOver.includes(a))],
+    };
+    if (await savePollQueue(next, queue)) return next;
+  }
+  console.error(c.boldRed(`  ✗ Poll queue kept changing — ${addresses.length} wallet(s) not carried over`));
+  return null;
+}
+
+/**
+ * Start a new pass over the current active set.  Wallets still carried
+ * over from the previous pass go first.
+ */
+export async function startPollPass(previous: PollQueue | null): Promise<PollQueue> {
+  const active = await getActiveAddresses();
+  const carryOver = (previous?.carryOver ?? []).filter((a) => active.includes(a));
+  const queue: PollQueue = {
+    pass: (previous?.pass ?? 0) + 1,
+    startedAt: new Date().toISOString(),
+    addresses: [...carryOver, ...active.filter((a) => !carryOver.includes(a))],
+    cursor: 0,
+    carryOver: [],
+  };
+  if (!(await savePollQueue(queue, previous))) {
+    // An overlapping invocation started the pass first — share it
+    const current = await getPollQueue();
+    if (current) return current;
+  }
+  console.log(c.dim(`  🗄 Poll pass #${queue.pass} started — ${queue.addresses.length} wallet(s)`));
+  return queue;
+}
+
+// ── Deposit Idempotency API ──────────────────────────────────────────
+//
+// Every detected deposit is claimed before its supertx is submitted:
+//
+//   deposit:<walletAddress>:<chainId>:<token>:<balance>  →  DepositClaim
+//
+// The claim lives long enough to outlast the supertx execution window,
+// so a later cycle that still sees the same (not yet swept) balance
+// skips it instead of submitting a duplicate.  The block the balance was
+// read at is recorded on the claim rather than in the key — the same
+// unswept balance is visible at every block until the supertx lands.
+//
+// A balance has no transaction to tell two equal deposits apart, so the
+// claim is dropped as soon as reconciliation sees its supertx mined (the
+// balance is swept): a new deposit of the same amount is then claimed
+// afresh instead of being skipped as a duplicate until the claim lapses.
+
+export type DepositClaim = {
+  /** Block number the balance was read at when the claim was taken */
+  blockNumber: string;
+  /** Fencing token of the lease held by the claiming cycle */
+  fencingToken: number;
+  claimedAt: string;
+  /** Supertransaction hash, set once submission succeeds */
+  hash?: string;
+};
+
+/**
+ * Claim a deposit for submission.  Returns `false` when a claim already
+ * exists (i.e. a supertx for this exact deposit is pending).
+ */
+export async function claimDeposit(
+  walletAddress: string,
+  depositKey: string,
+  claim: DepositClaim,
+  ttlSeconds: number,
+): Promise<boolean> {
+  return store().createClaim(
+    depositClaimKey(walletAddress, depositKey),
+    claim,
+    ttlSeconds,
+  );
+}
+
+/** Attach the submitted supertx hash to an existing claim (TTL kept). */
+export async function markDepositSubmitted(
+  walletAddress: string,
+  depositKey: string,
+  claim: DepositClaim,
+  hash: string,
+): Promise<void> {
+  await store().replaceClaim(depositClaimKey(walletAddress, depositKey), {
+    ...claim,
+    hash,
+  });
+}
+
+/** Drop a claim so the deposit is retried on the next cycle. */
+export async function releaseDepositClaim(
+  walletAddress: string,
+  depositKey: string,
+): Promise<void> {
+  await store().deleteClaim(depositClaimKey(walletAddress, depositKey));
+}
+
+/** Read the current claim for a deposit, if any. */
+export async function getDepositClaim(
+  walletAddress: string,
+  depositKey: string,
+): Promise<DepositClaim | null> {
+  return store().getClaim(depositClaimKey(walletAddress, depositKey));
+}
+
+// ── Auth Nonce API ───────────────────────────────────────────────────
+//
+// Signed wallet requests (see walletAuth.ts) carry a random nonce.  It is
+// recorded until the signature would have expired anyway, so a captured
+// request cannot be replayed:
+//
+//   auth:nonce:<walletAddress>:<nonce>  →  "1"
+
+/**
+ * Mark a request nonce as used.  Returns `false` if it was already used
+ * within `ttlSeconds`.
+ */
+export async function consumeAuthNonce(
+  walletAddress: string,
+  nonce: string,
+  ttlSeconds: number,
+): Promise<boolean> {
+  return store().consumeNonce(authNonceKey(walletAddress, nonce), ttlSeconds);
 }
 
 // ── History API ──────────────────────────────────────────────────────
 
 /**
  * Retrieve a page of history entries for a wallet (newest first).
- * Uses a Redis list (`history:<address>`) where entries are LPUSHed,
- * so index 0 is always the most recent.
+ * In Redis this is a list (`history:<address>`) where entries are
+ * LPUSHed, so index 0 is always the most recent.
  */
 export async function getHistory(
   walletAddress: string,
   offset = 0,
   limit = 50,
 ): Promise<HistoryEntry[]> {
-  const raw = await redis().lrange(historyKey(walletAddress), offset, offset + limit - 1);
-  return (raw as (string | Record<string, unknown>)[]).map((item) => {
-    if (typeof item === "string") {
-      return deserialize<HistoryEntry>(item);
-    }
-    return reviveBigInts<HistoryEntry>(item);
-  });
+  return store().getHistory(walletAddress.toLowerCase(), offset, limit);
 }
 
 /** Return the total number of history entries for a wallet. */
 export async function getHistoryCount(walletAddress: string): Promise<number> {
-  return redis().llen(historyKey(walletAddress));
+  return store().countHistory(walletAddress.toLowerCase());
 }
 
 /**
@@ -300,32 +1626,378 @@ export async function addHistoryEntry(
   walletAddress: string,
   entry: HistoryEntry,
 ): Promise<void> {
-  const payload = serialize(entry);
-  await redis().lpush(historyKey(walletAddress), payload);
+  await addHistoryEntries(walletAddress, [entry]);
+}
+
+/**
+ * Push several entries that share one supertx (one per token / split leg).
+ *
+ * The supertx is tracked once for reconciliation.  If any entry is a
+ * bridge the supertx is tracked as a bridge, so its forward legs settle
+ * together with the Across fill.  `depositKeys` name the deposit claims
+ * it sweeps (see `PendingSupertx`).
+ */
+export async function addHistoryEntries(
+  walletAddress: string,
+  entries: HistoryEntry[],
+  depositKeys?: string[],
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const s = store();
+  let bytes = 0;
+  for (const entry of entries) {
+    bytes += await s.pushHistory(walletAddress.toLowerCase(), entry);
+  }
+
+  // Track in-flight supertxs so the poll cycle can reconcile them
+  const tracked =
+    entries.find((e) => e.status === "pending" && e.type === "bridge") ??
+    entries.find((e) => e.status === "pending");
+  if (tracked?.hash) {
+    const ref: PendingSupertx = {
+      walletAddress: walletAddress.toLowerCase(),
+      hash: tracked.hash,
+      type: tracked.type,
+      sourceChainId: tracked.sourceChainId,
+      destChainId: tracked.destChainId,
+      submittedAt: tracked.timestamp,
+      status: "pending",
+      ...(depositKeys?.length ? { depositKeys } : {}),
+    };
+    await s.putPendingSupertx(ref);
+  }
+
   console.log(
     c.dim(
-      `  🗄 History entry for ${shortAddr(walletAddress)}  (${fmtBytes(payload.length)})`,
+      `  🗄 ${entries.length === 1 ? "History entry" : `${entries.length} history entries`} ` +
+        `for ${shortAddr(walletAddress)}  (${fmtBytes(bytes)})`,
     ),
   );
 }
 
 /**
- * Nuclear option: flush the entire Redis database.
- * This removes ALL keys — sessions, history, active set, everything.
- * Returns the count of active sessions that were wiped (for logging).
+ * Patch every history entry carrying `hash` (newest `scanDepth` entries).
+ * The store applies the patch atomically.  Returns the number of entries
+ * updated.
  */
-export async function deleteAllData(): Promise<{ sessionsWiped: number }> {
-  const r = redis();
+export async function updateHistoryEntries(
+  walletAddress: string,
+  hash: string,
+  patch: Partial<
+    Pick<HistoryEntry, "status" | "error" | "originTxHash" | "fillTxHash">
+  >,
+  scanDepth = 200,
+): Promise<number> {
+  return store().patchHistory(
+    walletAddress.toLowerCase(),
+    hash,
+    { ...patch, updatedAt: new Date().toISOString() },
+    scanDepth,
+  );
+}
 
-  // Grab count before nuking so we can report it
-  const addresses = (await r.smembers(ACTIVE_SET)) as string[];
-  const count = addresses.length;
+// ── In-flight Supertx API ────────────────────────────────────────────
+//
+// Every history entry written as "pending" is indexed here so the poll
+// cycle's reconciliation pass can find it without scanning every
+// wallet's history:
+//
+//   history:pending  →  HASH { <walletAddress>:<hash> → PendingSupertx }
 
-  await r.flushdb();
+export type PendingSupertx = {
+  walletAddress: string;
+  hash: string;
+  type: HistoryEntry["type"];
+  sourceChainId: number;
+  destChainId: number;
+  /** ISO timestamp the supertx was submitted */
+  submittedAt: string;
+  /**
+   * Idempotency keys of the deposits the supertx sweeps.  Their claims are
+   * dropped once it is mined, so a later deposit of the same amount is not
+   * mistaken for one of them.
+   */
+  depositKeys?: string[];
+  /** "mined" bridges stay tracked until every Across fill is seen */
+  status: "pending" | "mined";
+  originTxHash?: string;
+  /** ISO timestamp the supertx was mined */
+  minedAt?: string;
+  /**
+   * Every Across deposit the mined supertx made (one per bridge leg),
+   * read from its receipt.  Unset until the receipt has been read.
+   */
+  acrossDeposits?: AcrossDepositRef[];
+};
+
+/** One Across deposit of a bridge supertx and its fill progress */
+export type AcrossDepositRef = {
+  /** SpokePool deposit id (decimal string — it is a uint256) */
+  depositId: string;
+  destChainId: number;
+  status: "pending" | "filled" | "expired";
+  fillTxHash?: string;
+};
+
+/** All supertxs still awaiting a final status. */
+export async function getPendingSupertxs(): Promise<PendingSupertx[]> {
+  return store().listPendingSupertxs();
+}
+
+/** Persist progress on an in-flight supertx (e.g. pending → mined). */
+export async function updatePendingSupertx(ref: PendingSupertx): Promise<void> {
+  await store().putPendingSupertx(ref);
+}
+
+/** Stop tracking a supertx once it reached a final status. */
+export async function resolvePendingSupertx(
+  walletAddress: string,
+  hash: string,
+): Promise<void> {
+  await store().deletePendingSupertx(walletAddress.toLowerCase(), hash);
+}
+
+// ── Deposit Event API ────────────────────────────────────────────────
+//
+// Log-based deposit detection (see depositLogs.ts) records every incoming
+// ERC-20 transfer to a watched wallet as its own event, so each payment
+// can be traced to the transaction that made it:
+//
+//   deposits:<walletAddress>  →  LIST of DepositEvent (newest first)
+//
+// Each wallet's logs are scanned from its own block cursor per chain (the
+// last block scanned for it), written only under the wallet's lease:
+//
+//   config:depositCursors:<walletAddress>  →  JSON { "<chainId>": "<block>" }
+//
+// Overlapping cycles may still scan the same blocks, so an event is only
+// recorded once per log:
+//
+//   deposit:event:<walletAddress>:<chainId>:<txHash>:<logIndex>  →  "1"
+
+/** How long a recorded log blocks a duplicate — far beyond any rescan */
+const DEPOSIT_EVENT_DEDUP_TTL_S = 24 * 60 * 60;
+
+/** One incoming ERC-20 transfer to a watched wallet */
+export type DepositEvent = {
+  chainId: number;
+  tokenSymbol: string;
+  /** Amount transferred, in the token's base units */
+  amount: string;
+  /** Sender of the transfer */
+  from: string;
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  /** ISO timestamp the poll cycle recorded the event */
+  detectedAt: string;
+};
 
+/**
+ * Record an incoming transfer.  Returns `false` when the same log was
+ * already recorded (by an overlapping cycle).
+ */
+export async function recordDepositEvent(
+  walletAddress: string,
+  event: DepositEvent,
+): Promise<boolean> {
+  const s = store();
+  if (!(await s.consumeNonce(depositEventKey(walletAddress, event), DEPOSIT_EVENT_DEDUP_TTL_S))) {
+    return false;
+  }
+  await s.pushDepositEvent(walletAddress.toLowerCase(), event);
   console.log(
-    c.boldRed(`  🗄 ⚠ FLUSHED entire Redis database — ${count} session(s) wiped`),
+    c.dim(
+      `  🗄 Deposit event for ${shortAddr(walletAddress)}  ` +
+        `(${event.tokenSymbol} on chain ${event.chainId}, tx ${shortAddr(event.txHash)})`,
+    ),
   );
+  return true;
+}
+
+/** A page of the wallet's deposit events (newest first). */
+export async function getDepositEvents(
+  walletAddress: string,
+  offset = 0,
+  limit = 50,
+): Promise<DepositEvent[]> {
+  return store().getDepositEvents(walletAddress.toLowerCase(), offset, limit);
+}
+
+/** Total number of deposit events recorded for a wallet. */
+export async function getDepositEventCount(walletAddress: string): Promise<number> {
+  return store().countDepositEvents(walletAddress.toLowerCase());
+}
+
+/** Last block scanned for the wallet's deposits, by chain ID (empty before the first scan). */
+export async function getDepositCursors(walletAddress: string): Promise<Map<number, bigint>> {
+  const raw = await store().getConfig(depositCursorsConfig(walletAddress));
+  const stored = raw ? (JSON.parse(raw) as Record<string, string>) : {};
+  return new Map(Object.entries(stored).map(([chainId, block]) => [Number(chainId), BigInt(block)]));
+}
+
+/** Save the wallet's cursors — only while holding its lease. */
+export async function setDepositCursors(
+  walletAddress: string,
+  cursors: Map<number, bigint>,
+): Promise<void> {
+  const stored = Object.fromEntries([...cursors].map(([chainId, block]) => [chainId, String(block)]));
+  await store().setConfig(depositCursorsConfig(walletAddress), JSON.stringify(stored));
+}
+
+// ── Webhook API ──────────────────────────────────────────────────────
+//
+// Wallet owners register HTTPS endpoints that receive signed event
+// payloads.  Events are written to a delivery queue (in Redis, a sorted
+// set `webhooks:queue` scored by next attempt time plus a hash of
+// deliveries) and sent by the poll cycle with retries and backoff.
+
+export type WebhookEvent =
+  | "deposit.detected"
+  | "bridge.submitted"
+  | "bridge.filled"
+  | "bridge.failed"
+  | "session.expiring"
+  | "session.expired"
+  | "session.stale"
+  | "deposit.circuit_open";
+
+export type WebhookEndpoint = {
+  id: string;
+  url: string;
+  /** HMAC signing secret, encrypted at rest like the session key */
+  encryptedSecret: string;
+  /** Events delivered to this endpoint */
+  events: WebhookEvent[];
+  createdAt: string;
+};
+
+/** One event queued for one endpoint */
+export type WebhookDelivery = {
+  id: string;
+  walletAddress: string;
+  endpointId: string;
+  event: WebhookEvent;
+  /** Exact JSON body sent on every attempt (signed at send time) */
+  body: string;
+  attempts: number;
+  /** Epoch ms of the next attempt */
+  nextAttemptAt: number;
+  createdAt: string;
+  lastError?: string;
+};
+
+/**
+ * Add a webhook endpoint to a wallet.  Returns the stored endpoint and
+ * its plaintext signing secret (only ever returned here).
+ */
+export async function addWebhookEndpoint(
+  walletAddress: string,
+  endpoint: { url: string; events: WebhookEvent[] },
+): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+  const secret = `whsec_${randomBytes(24).toString("hex")}`;
+  const created: WebhookEndpoint = {
+    id: `wh_${randomBytes(8).toString("hex")}`,
+    url: endpoint.url,
+    encryptedSecret: await encryptPrivateKey(secret),
+    events: endpoint.events,
+    createdAt: new Date().toISOString(),
+  };
+
+  await writeSession(walletAddress, (existing) => {
+    if (!existing) throw new Error(`No session for ${walletAddress}`);
+    return { ...existing, webhooks: [...(existing.webhooks ?? []), created] };
+  });
+
+  console.log(
+    c.dim(`  🗄 Webhook ${created.id} added for ${shortAddr(walletAddress)}`),
+  );
+  return { endpoint: created, secret };
+}
+
+/** Remove a webhook endpoint.  Returns `false` if it did not exist. */
+export async function removeWebhookEndpoint(
+  walletAddress: string,
+  endpointId: string,
+): Promise<boolean> {
+  const { after } = await writeSession(walletAddress, (existing) => {
+    const webhooks = existing?.webhooks ?? [];
+    if (!existing || !webhooks.some((w) => w.id === endpointId)) return null;
+    return { ...existing, webhooks: webhooks.filter((w) => w.id !== endpointId) };
+  });
+  return after !== null;
+}
+
+/** Decrypt an endpoint's signing secret. */
+export async function decryptWebhookSecret(
+  endpoint: WebhookEndpoint,
+): Promise<string> {
+  return decryptPrivateKey(endpoint.encryptedSecret);
+}
+
+/** Queue (or re-queue) a delivery for its `nextAttemptAt`. */
+export async function enqueueWebhookDelivery(
+  delivery: WebhookDelivery,
+): Promise<void> {
+  await store().enqueueWebhook(delivery);
+}
+
+/**
+ * Claim up to `limit` deliveries that are due now.  Claimed deliveries
+ * stay hidden from other poll cycles for `claimMs`; if the sender dies,
+ * they become due again after that.
+ */
+export async function claimDueWebhookDeliveries(
+  limit: number,
+  claimMs: number,
+): Promise<WebhookDelivery[]> {
+  return store().claimDueWebhooks(Date.now(), limit, claimMs);
+}
+
+/** Drop a delivery from the queue (delivered, or out of retries). */
+export async function completeWebhookDelivery(id: string): Promise<void> {
+  await store().deleteWebhook(id);
+}
+
+// ── RPC Health API ───────────────────────────────────────────────────
+
+/**
+ * RPC endpoint health is tracked in memory by whichever process makes the
+ * requests (see rpcHealth.ts).  Poll cycles save their snapshot here so
+ * the admin RPC endpoint can show it from any process.
+ */
+
+export async function saveRpcHealth(snapshot: RpcHealthSnapshot): Promise<void> {
+  await store().setConfig(RPC_HEALTH_CONFIG, JSON.stringify(snapshot));
+}
+
+/** The last snapshot a poll cycle saved, or null before the first one. */
+export async function getRpcHealth(): Promise<RpcHealthSnapshot | null> {
+  const raw = await store().getConfig(RPC_HEALTH_CONFIG);
+  return raw ? (JSON.parse(raw) as RpcHealthSnapshot) : null;
+}
+
+/**
+ * Nuclear option: wipe the entire store except the audit log and the
+ * lease fencing counters.  This removes ALL other data — sessions,
+ * history, active set, admins.
+ * Returns the count of active sessions that were wiped (for logging).
+ */
+export async function deleteAllData(
+  by: AuditActor = SYSTEM_ACTOR,
+): Promise<{ sessionsWiped: number }> {
+  const s = store();
+  const count = await s.flush();
+
+  console.log(
+    c.boldRed(`  🗄 ⚠ FLUSHED entire ${s.kind} store — ${count} session(s) wiped`),
+  );
+
+  await recordAudit(by, {
+    action: "data.flush",
+    details: { sessionsWiped: count },
+  });
 
   return { sessionsWiped: count };
 }
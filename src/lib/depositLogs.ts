@@ -0,0 +1,224 @@
+/**
+ * Log-based deposit detection.
+ *
+ * Instead of reading every balance of every wallet each cycle, each poll
+ * chunk first scans each chain's ERC-20 `Transfer` logs to the chunk's
+ * wallets, each from its own persisted block cursor up to the chain's
+ * confirmed head (`logConfirmations` short of the head, so reorgs cannot
+ * retract a recorded transfer).
+ * Every transfer found is recorded as its own deposit event (sender, tx
+ * hash, block — see db.ts), and only the balances touched since the
+ * wallet's last poll are read to size the deposit.
+ *
+ * Balance reads stay the fallback reconciliation: every wallet gets a
+ * full read every DEPOSIT_RECONCILE_MINUTES, and immediately on chains
+ * whose scan failed or fell behind.  That catches whatever logs cannot
+ * show — a deposit whose submission failed, or a wallet's first scan of
+ * a chain (its cursor starts at the confirmed head).
+ * Native ETH has no logs and is still read every cycle.
+ *
+ * Enabled with DEPOSIT_DETECTION=logs; the default stays "balances".
+ */
+
+import { getAbiItem, erc20Abi, type Address, type PublicClient } from "viem";
+import type { TokenRegistry } from "../config";
+import { getChainConfig } from "../chains";
+import {
+  getDepositCursors,
+  setDepositCursors,
+  recordDepositEvent,
+  type DepositEvent,
+} from "./db";
+import { c } from "./log";
+
+export type DepositDetectionMode = "balances" | "logs";
+
+/** Full balance reads happen at least this often in logs mode */
+const DEFAULT_RECONCILE_MINUTES = 15;
+/**
+ * Most blocks scanned per chain per chunk (RPC providers cap
+ * `eth_getLogs` ranges).  A cursor further behind catches up over
+ * several cycles.
+ */
+const MAX_LOG_SCAN_BLOCKS = 2_000n;
+/**
+ * Most wallets matched by one `eth_getLogs` call (providers cap the
+ * topic OR-list).  A chain's wallets are scanned in batches of this
+ * many, one call after another.
+ */
+const MAX_LOG_SCAN_WALLETS = 100;
+
+const TRANSFER_EVENT = getAbiItem({ abi: erc20Abi, name: "Transfer" });
+
+/** How deposits are detected (DEPOSIT_DETECTION). */
+export function depositDetectionMode(): DepositDetectionMode {
+  const mode = (process.env.DEPOSIT_DETECTION || "balances").toLowerCase();
+  if (mode !== "balances" && mode !== "logs")
+    throw new Error(`DEPOSIT_DETECTION must be "balances" or "logs" (got "${mode}").`);
+  return mode;
+}
+
+/** How often logs mode reads every balance anyway */
+export function balanceReconcileIntervalMs(): number {
+  const minutes = Number(process.env.DEPOSIT_RECONCILE_MINUTES);
+  return (minutes > 0 ? minutes : DEFAULT_RECONCILE_MINUTES) * 60 * 1000;
+}
+
+/** A wallet and the chains it is watched on this cycle */
+export type LogWatch = {
+  walletAddress: Address;
+  watchedChainIds: number[];
+  /** Tokens the wallet's grant covers */
+  tokens: TokenRegistry;
+};
+
+export type TransferLogScan = {
+  /** Transfers found this cycle, by lowercase wallet address */
+  events: Map<string, DepositEvent[]>;
+  /**
+   * Chains not fully scanned up to the confirmed head for each wallet (failed,
+   * behind, or its first scan there), by lowercase wallet address —
+   * their balances must be read in full.
+   */
+  unscannedChainIds: Map<string, Set<number>>;
+};
+
+/**
+ * Scan every watched chain's `Transfer` logs to the watched wallets, each
+ * from its own cursor, record the transfers as deposit events and advance
+ * the cursors, through the cycle's shared client for each chain.  The
+ * wallets must be leased: their cursors are saved unchecked.  Chains are
+ * scanned in parallel, each in batches of MAX_LOG_SCAN_WALLETS wallets;
+ * a chain that fails keeps the cursors of the batches it did not finish
+ * and is reported unscanned for every wallet watching it.
+ */
+export async function scanTransferLogs(
+  watches: LogWatch[],
+  clients: Map<number, PublicClient>,
+): Promise<TransferLogScan> {
+  const events = new Map<string, DepositEvent[]>();
+  const unscannedChainIds = new Map<string, Set<number>>();
+  const markUnscanned = (wallet: string, chainId: number) => {
+    const chains = unscannedChainIds.get(wallet) ?? new Set<number>();
+    chains.add(chainId);
+    unscannedChainIds.set(wallet, chains);
+  };
+
+  const cursors = new Map(
+    await Promise.all(
+      watches.map(
+        async (w) =>
+          [w.walletAddress.toLowerCase(), await getDepositCursors(w.walletAddress)] as const,
+      ),
+    ),
+  );
+  const cursorOf = (w: LogWatch, chainId: number) =>
+    cursors.get(w.walletAddress.toLowerCase())!.get(chainId);
+
+  const chainIds = [...new Set(watches.flatMap((w) => w.watchedChainIds))];
+
+  await Promise.all(
+    chainIds.map(async (chainId) => {
+      const client = clients.get(chainId);
+      if (!client) return;
+
+      // Token address → symbol, per watcher (grants may cover different tokens)
+      const watchers = watches.filter((w) => w.watchedChainIds.includes(chainId));
+      const symbolsByWallet = new Map(
+        watchers.map((w) => [
+          w.walletAddress.toLowerCase(),
+          new Map(
+            Object.values(w.tokens)
+              .filter((t) => t.addresses[chainId])
+              .map((t) => [t.addresses[chainId].toLowerCase(), t.symbol]),
+          ),
+        ]),
+      );
+      const tokenAddresses = [
+        ...new Set([...symbolsByWallet.values()].flatMap((m) => [...m.keys()])),
+      ] as Address[];
+      if (tokenAddresses.length === 0) return;
+
+      try {
+        // Only scan blocks the chain's confirmation depth has buried
+        const latest = await client.getBlockNumber();
+        const confirmations = BigInt(getChainConfig(chainId)?.logConfirmations ?? 0);
+        const head = latest > confirmations ? latest - confirmations : 0n;
+
+        // A wallet's first scan on this chain starts at the confirmed head; balances cover the past
+        const starting = watchers.filter((w) => cursorOf(w, chainId) === undefined);
+        for (const w of starting) {
+          const wallet = w.walletAddress.toLowerCase();
+          cursors.get(wallet)!.set(chainId, head);
+          markUnscanned(wallet, chainId);
+        }
+        if (starting.length > 0) {
+          console.log(
+            `  🧭 ${c.dim(`${getChainConfig(chainId)?.name ?? chainId}: deposit cursor of ${starting.length} wallet(s) starts at block ${head}`)}`,
+          );
+        }
+
+        // One range per batch, from the batch's cursor furthest behind
+        const behind = watchers.filter((w) => cursorOf(w, chainId)! < head);
+        for (let i = 0; i < behind.length; i += MAX_LOG_SCAN_WALLETS) {
+          const batch = behind.slice(i, i + MAX_LOG_SCAN_WALLETS);
+          const fromBlock =
+            batch
+              .map((w) => cursorOf(w, chainId)!)
+              .reduce((min, cursor) => (cursor < min ? cursor : min)) + 1n;
+          const toBlock =
+            head - fromBlock + 1n > MAX_LOG_SCAN_BLOCKS ? fromBlock + MAX_LOG_SCAN_BLOCKS - 1n : head;
+
+          const logs = await client.getLogs({
+            address: tokenAddresses,
+            event: TRANSFER_EVENT,
+            args: { to: batch.map((w) => w.walletAddress) },
+            fromBlock,
+            toBlock,
+          });
+
+          const detectedAt = new Date().toISOString();
+          for (const log of logs) {
+            const wallet = log.args.to?.toLowerCase();
+            const symbol = wallet && symbolsByWallet.get(wallet)?.get(log.address.toLowerCase());
+            if (!wallet || !symbol || !log.transactionHash || log.logIndex === null) continue;
+            // Already scanned for this wallet by an earlier chunk
+            if (log.blockNumber === null || log.blockNumber <= cursors.get(wallet)!.get(chainId)!) continue;
+
+            const event: DepositEvent = {
+              chainId,
+              tokenSymbol: symbol,
+              amount: String(log.args.value ?? 0n),
+              from: log.args.from ?? "",
+              txHash: log.transactionHash,
+              logIndex: log.logIndex,
+              blockNumber: Number(log.blockNumber),
+              detectedAt,
+            };
+            await recordDepositEvent(wallet, event);
+            const list = events.get(wallet) ?? [];
+            list.push(event);
+            events.set(wallet, list);
+          }
+
+          for (const w of batch) {
+            const wallet = w.walletAddress.toLowerCase();
+            if (cursorOf(w, chainId)! < toBlock) cursors.get(wallet)!.set(chainId, toBlock);
+            if (cursorOf(w, chainId)! < head) markUnscanned(wallet, chainId);
+          }
+        }
+      } catch (err) {
+        for (const w of watchers) markUnscanned(w.walletAddress.toLowerCase(), chainId);
+        console.error(
+          c.boldRed(`  ✗ Log scan failed on ${getChainConfig(chainId)?.name ?? chainId}:`),
+          err instanceof Error ? err.message : err,
+        );
+      }
+    }),
+  );
+
+  // One write per wallet, once every chain is done
+  await Promise.all([...cursors].map(([wallet, walletCursors]) => setDepositCursors(wallet, walletCursors)));
+
+  return { events, unscannedChainIds };
+}
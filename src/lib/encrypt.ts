@@ -1,25 +1,124 @@
 /**
- * AES-256-GCM encryption/decryption for session private keys at rest.
+ * AES-256-GCM encryption/decryption for session private keys (and webhook
+ * secrets) at rest, with a keyring so the encryption key can be rotated
+ * and an optional envelope mode backed by a key-encryption provider.
  *
- * The 32-byte encryption key is derived from the env var
- * SESSION_ENCRYPTION_KEY (hex-encoded, 64 chars).
+ * SESSION_ENCRYPTION_MODE picks how new blobs are written:
+ *   keyring (default) — encrypted directly under the newest env key
+ *   envelope          — encrypted under a fresh per-secret data key, which
+ *                       is wrapped by the key-encryption provider (see
+ *                       lib/kms).  The env keyring is then only needed to
+ *                       read blobs written before the switch, until the
+ *                       re-encryption job has migrated them.
  *
- * Stored format:  <iv_hex>:<ciphertext_hex>:<authtag_hex>
+ * Keyring, from env (each key hex-encoded, 64 chars / 32 bytes):
+ *   SESSION_ENCRYPTION_KEYS=<id>:<hex>,<id>:<hex>,…   newest first
+ *   SESSION_ENCRYPTION_KEY=<hex>                      legacy single key,
+ *                                                     id "v1" (used when
+ *                                                     the keyring is unset)
+ *
+ * New keyring blobs are always written under the first (newest) key.
+ * Older keys stay in the ring only to decrypt until everything has been
+ * re-encrypted (see reencryption.ts).
+ *
+ * Envelope format: env:<kek_id>:<wrapped_dek_b64url>:<iv_hex>:<ciphertext_hex>:<authtag_hex>
+ * Stored format:   <key_id>:<iv_hex>:<ciphertext_hex>:<authtag_hex>
+ * Legacy format:   <iv_hex>:<ciphertext_hex>:<authtag_hex>  (no key id —
+ *                  every key in the ring is tried)
+ *
+ * Key ids as reported by `currentKeyId` / `blobKeyId` are the keyring id
+ * for keyring blobs and `env:<kek_id>` for envelope blobs.
  */
 
 import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { kms, KEK_ID_PATTERN } from "./kms";
+
+type KeyringEntry = { id: string; key: Buffer };
+export type EncryptionMode = "keyring" | "envelope";
 
-function getKey(): Buffer {
-  const hex = process.env.SESSION_ENCRYPTION_KEY;
-  if (!hex || hex.length !== 64)
+const LEGACY_KEY_ID = "v1";
+const KEY_ID_RE = /^[A-Za-z0-9_-]{1,32}$/;
+const ENVELOPE_PREFIX = "env";
+
+/** How new blobs are written (SESSION_ENCRYPTION_MODE). */
+export function encryptionMode(): EncryptionMode {
+  const mode = (process.env.SESSION_ENCRYPTION_MODE || "keyring").toLowerCase();
+  if (mode !== "keyring" && mode !== "envelope")
     throw new Error(
-      "SESSION_ENCRYPTION_KEY must be a 64-char hex string (32 bytes).",
+      `SESSION_ENCRYPTION_MODE must be "keyring" or "envelope" (got "${mode}").`,
     );
-  return Buffer.from(hex, "hex");
+  return mode;
+}
+
+function parseKey(id: string, hex: string | undefined): KeyringEntry {
+  if (!hex || !/^[0-9a-fA-F]{64}$/.test(hex))
+    throw new Error(
+      `Encryption key "${id}" must be a 64-char hex string (32 bytes).`,
+    );
+  return { id, key: Buffer.from(hex, "hex") };
+}
+
+function getKeyring(): KeyringEntry[] {
+  const ring = process.env.SESSION_ENCRYPTION_KEYS;
+  if (!ring) {
+    if (!process.env.SESSION_ENCRYPTION_KEY) {
+      // Envelope mode needs no env key once older blobs are migrated
+      if (encryptionMode() === "envelope") return [];
+      throw new Error(
+        "SESSION_ENCRYPTION_KEYS or SESSION_ENCRYPTION_KEY must be set.",
+      );
+    }
+    return [parseKey(LEGACY_KEY_ID, process.env.SESSION_ENCRYPTION_KEY)];
+  }
+
+  const entries = ring
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const [id, hex] = part.split(":");
+      if (!KEY_ID_RE.test(id ?? ""))
+        throw new Error(
+          `SESSION_ENCRYPTION_KEYS: invalid key id "${id}" (letters, digits, _ and - only).`,
+        );
+      return parseKey(id, hex);
+    });
+
+  if (entries.length === 0)
+    throw new Error("SESSION_ENCRYPTION_KEYS is empty.");
+  if (new Set(entries.map((e) => e.id)).size !== entries.length)
+    throw new Error("SESSION_ENCRYPTION_KEYS has duplicate key ids.");
+  return entries;
+}
+
+/** Id of the key new blobs are encrypted under. */
+export async function currentKeyId(): Promise<string> {
+  if (encryptionMode() === "envelope") {
+    return `${ENVELOPE_PREFIX}:${await kms().currentKekId()}`;
+  }
+  return getKeyring()[0].id;
 }
 
-export function encryptPrivateKey(plaintext: string): string {
-  const key = getKey();
+/** Ids of every key in the ring, newest first (never the keys themselves). */
+export function keyringIds(): string[] {
+  return getKeyring().map((e) => e.id);
+}
+
+/** Key id a blob was written under; `null` for legacy (unversioned) blobs. */
+export function blobKeyId(blob: string): string | null {
+  const parts = blob.split(":");
+  if (parts.length === 6 && parts[0] === ENVELOPE_PREFIX) {
+    return `${ENVELOPE_PREFIX}:${parts[1]}`;
+  }
+  return parts.length === 4 ? parts[0] : null;
+}
+
+/** True when `blob` is not encrypted under the current key. */
+export async function needsReencryption(blob: string): Promise<boolean> {
+  return blobKeyId(blob) !== (await currentKeyId());
+}
+
+function encryptWith(key: Buffer, plaintext: string): string {
   const iv = randomBytes(12);
   const cipher = createCipheriv("aes-256-gcm", key, iv);
   const encrypted = Buffer.concat([
@@ -30,11 +129,26 @@ export function encryptPrivateKey(plaintext: string): string {
   return `${iv.toString("hex")}:${encrypted.toString("hex")}:${tag.toString("hex")}`;
 }
 
-export function decryptPrivateKey(blob: string): string {
-  const [ivHex, ctHex, tagHex] = blob.split(":");
-  if (!ivHex || !ctHex || !tagHex) throw new Error("Invalid encrypted blob");
+export async function encryptPrivateKey(plaintext: string): Promise<string> {
+  if (encryptionMode() === "envelope") {
+    const dataKey = randomBytes(32);
+    try {
+      const { kekId, wrappedKey } = await kms().wrapKey(dataKey);
+      // The id is a field of the blob — a colon in it would corrupt it
+      if (!KEK_ID_PATTERN.test(kekId)) {
+        throw new Error(`Key-encryption provider returned an invalid KEK id "${kekId}"`);
+      }
+      return `${ENVELOPE_PREFIX}:${kekId}:${wrappedKey.toString("base64url")}:${encryptWith(dataKey, plaintext)}`;
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  const { id, key } = getKeyring()[0];
+  return `${id}:${encryptWith(key, plaintext)}`;
+}
 
-  const key = getKey();
+function decryptWith(key: Buffer, ivHex: string, ctHex: string, tagHex: string): string {
   const decipher = createDecipheriv(
     "aes-256-gcm",
     key,
@@ -48,4 +162,46 @@ export function decryptPrivateKey(blob: string): string {
   return decrypted.toString("utf8");
 }
 
+export async function decryptPrivateKey(blob: string): Promise<string> {
+  const parts = blob.split(":");
 
+  if (parts.length === 6 && parts[0] === ENVELOPE_PREFIX) {
+    // Envelope blob — only the key-encryption provider can unwrap its data key
+    const [, kekId, wrapped, ivHex, ctHex, tagHex] = parts;
+    const dataKey = await kms().unwrapKey(kekId, Buffer.from(wrapped, "base64url"));
+    try {
+      return decryptWith(dataKey, ivHex, ctHex, tagHex);
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  const keyring = getKeyring();
+
+  if (parts.length === 4) {
+    const [id, ivHex, ctHex, tagHex] = parts;
+    const entry = keyring.find((e) => e.id === id);
+    if (!entry)
+      throw new Error(`Encryption key "${id}" is not in the keyring`);
+    return decryptWith(entry.key, ivHex, ctHex, tagHex);
+  }
+
+  const [ivHex, ctHex, tagHex] = parts;
+  if (parts.length !== 3 || !ivHex || !ctHex || !tagHex)
+    throw new Error("Invalid encrypted blob");
+
+  // Legacy blob — GCM authentication rejects every key but the right one
+  for (const { key } of keyring) {
+    try {
+      return decryptWith(key, ivHex, ctHex, tagHex);
+    } catch {
+      // wrong key, try the next one
+    }
+  }
+  throw new Error("No key in the keyring decrypts this blob");
+}
+
+/** Decrypt under whichever key wrote `blob` and re-encrypt under the current one. */
+export async function reencryptBlob(blob: string): Promise<string> {
+  return encryptPrivateKey(await decryptPrivateKey(blob));
+}
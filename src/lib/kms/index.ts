@@ -0,0 +1,36 @@
+/**
+ * Key-encryption provider selection (envelope mode only, see encrypt.ts).
+ *
+ * SESSION_KMS_PROVIDER picks the adapter that wraps per-secret data keys:
+ *   local (default) — KEKs in a keyfile on disk (SESSION_KMS_LOCAL_KEYFILE)
+ *
+ * Cloud KMS adapters implement `KeyEncryptionProvider` and register here.
+ */
+
+import { c } from "../log";
+import { createLocalKeyProvider } from "./local";
+import type { KeyEncryptionProvider } from "./types";
+
+export { KEK_ID_PATTERN, type KeyEncryptionProvider } from "./types";
+
+const PROVIDERS: Record<string, () => KeyEncryptionProvider> = {
+  local: createLocalKeyProvider,
+};
+
+let _kms: KeyEncryptionProvider | null = null;
+
+/** The configured key-encryption provider (lazy singleton). */
+export function kms(): KeyEncryptionProvider {
+  if (!_kms) {
+    const kind = (process.env.SESSION_KMS_PROVIDER || "local").toLowerCase();
+    const create = PROVIDERS[kind];
+    if (!create) {
+      throw new Error(
+        `Unknown SESSION_KMS_PROVIDER "${kind}" — expected one of: ${Object.keys(PROVIDERS).join(", ")}`,
+      );
+    }
+    _kms = create();
+    console.log(c.dim(`  🔐 Using ${kind} key-encryption provider`));
+  }
+  return _kms;
+}
@@ -0,0 +1,104 @@
+/**
+ * File-based key-encryption provider — the default, so envelope
+ * encryption runs offline with no cloud dependency.
+ *
+ * KEKs live in a JSON keyfile outside the environment, newest first:
+ *
+ *   { "keys": [{ "id": "kek-2", "key": "<64-char hex>" },
+ *              { "id": "kek-1", "key": "<64-char hex>" }] }
+ *
+ * The path defaults to `.data/kek.json` and can be moved with
+ * SESSION_KMS_LOCAL_KEYFILE (e.g. to a mounted secret volume).  Create
+ * it once with `npm run kms:init` and give every instance the same file.
+ * Only outside production is a missing keyfile created on first use —
+ * in production that would give each instance its own KEK.  Data keys
+ * are wrapped with AES-256-GCM as <iv (12)> <ciphertext (32)> <tag (16)>.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, resolve } from "path";
+import { c } from "../log";
+import { KEK_ID_PATTERN, type KeyEncryptionProvider } from "./types";
+
+const DEFAULT_PATH = ".data/kek.json";
+
+type Keyfile = { keys: { id: string; key: string }[] };
+
+function keyfilePath(): string {
+  return resolve(process.env.SESSION_KMS_LOCAL_KEYFILE || DEFAULT_PATH);
+}
+
+function loadKeys(): { id: string; key: Buffer }[] {
+  const path = keyfilePath();
+
+  if (!existsSync(path)) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error(
+        `KEK keyfile ${path} not found — create it once with \`npm run kms:init\` ` +
+          `and give every instance the same file (SESSION_KMS_LOCAL_KEYFILE)`,
+      );
+    }
+    mkdirSync(dirname(path), { recursive: true });
+    const fresh: Keyfile = {
+      keys: [{ id: "kek-1", key: randomBytes(32).toString("hex") }],
+    };
+    writeFileSync(path, JSON.stringify(fresh, null, 2) + "\n", { mode: 0o600 });
+    console.log(c.yellow(`  🔐 Created development KEK keyfile ${path} — back it up`));
+  }
+
+  const { keys } = JSON.parse(readFileSync(path, "utf8")) as Keyfile;
+  if (!Array.isArray(keys) || keys.length === 0) {
+    throw new Error(`KEK keyfile ${path} has no keys`);
+  }
+  const seen = new Set<string>();
+  return keys.map(({ id, key }) => {
+    if (typeof id !== "string" || !KEK_ID_PATTERN.test(id)) {
+      throw new Error(`KEK id "${id}" in ${path} must match ${KEK_ID_PATTERN}`);
+    }
+    if (seen.has(id)) throw new Error(`KEK id "${id}" appears twice in ${path}`);
+    seen.add(id);
+    if (!/^[0-9a-fA-F]{64}$/.test(key ?? "")) {
+      throw new Error(`KEK "${id}" in ${path} must be a 64-char hex string`);
+    }
+    return { id, key: Buffer.from(key, "hex") };
+  });
+}
+
+export function createLocalKeyProvider(): KeyEncryptionProvider {
+  let cache: { id: string; key: Buffer }[] | null = null;
+  const keys = () => (cache ??= loadKeys());
+
+  return {
+    kind: "local",
+
+    async currentKekId() {
+      return keys()[0].id;
+    },
+
+    async wrapKey(dataKey) {
+      const { id, key } = keys()[0];
+      const iv = randomBytes(12);
+      const cipher = createCipheriv("aes-256-gcm", key, iv);
+      const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+      return {
+        kekId: id,
+        wrappedKey: Buffer.concat([iv, wrapped, cipher.getAuthTag()]),
+      };
+    },
+
+    async unwrapKey(kekId, wrappedKey) {
+      const entry = keys().find((k) => k.id === kekId);
+      if (!entry) throw new Error(`KEK "${kekId}" is not in the keyfile`);
+
+      const iv = wrappedKey.subarray(0, 12);
+      const tag = wrappedKey.subarray(wrappedKey.length - 16);
+      const decipher = createDecipheriv("aes-256-gcm", entry.key, iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([
+        decipher.update(wrappedKey.subarray(12, wrappedKey.length - 16)),
+        decipher.final(),
+      ]);
+    },
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Key-encryption provider contract for envelope encryption (see
+ * encrypt.ts).
+ *
+ * Every secret is encrypted with its own random data key; a provider
+ * only ever wraps and unwraps those data keys with a key-encryption key
+ * (KEK) it holds.  The KEK never leaves the provider — a cloud KMS
+ * adapter would send the data key to the KMS and get back ciphertext.
+ *
+ * KEK ids are stored in every envelope blob and must match
+ * `KEK_ID_PATTERN` (no colons — they separate the blob's fields).
+ */
+
+export const KEK_ID_PATTERN = /^[A-Za-z0-9_.\/-]{1,128}$/;
+
+export interface KeyEncryptionProvider {
+  /** Provider name, for logs ("local", …) */
+  readonly kind: string;
+  /** Id of the KEK new data keys are wrapped with */
+  currentKekId(): Promise<string>;
+  /** Wrap a data key with the current KEK */
+  wrapKey(dataKey: Buffer): Promise<{ kekId: string; wrappedKey: Buffer }>;
+  /** Unwrap a data key wrapped by `wrapKey` (any KEK the provider still holds) */
+  unwrapKey(kekId: string, wrappedKey: Buffer): Promise<Buffer>;
+}
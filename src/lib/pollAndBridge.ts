@@ -2,23 +2,36 @@
  * Server-side balance polling + bridge execution.
  *
  * Called by the cron route (/api/cron/poll). For each registered wallet
- * it checks ERC-20 balances for ALL tokens on ALL watched chains and
- * bridges/forwards every deposit above threshold in a single poll cycle.
+ * it checks ERC-20 balances for every token its grant covers (see the
+ * token registry in db.ts) on ALL watched chains and bridges/forwards
+ * every deposit above threshold in a single poll cycle.  With log-based
+ * detection only the balances incoming transfers touched are read, plus
+ * a periodic full read (see depositLogs.ts).
  *
- * All wallets are scanned and executed in PARALLEL for speed.
+ * Wallets are taken from a persisted poll queue in chunks (see db.ts)
+ * until the invocation's time budget (POLL_TIME_BUDGET_SECONDS) runs
+ * out; the rest of the pass carries over to the next invocation, so
+ * every wallet is scanned once per pass however many there are.
+ *
+ * A chunk's wallets are scanned and executed in PARALLEL for speed.
  * Within a single wallet, deposits are processed sequentially only when
  * the first tx needs ENABLE_AND_USE mode (must mine before subsequent txs).
+ *
+ * Overlapping cycles are safe: each wallet is processed under a Redis
+ * lease with a fencing token, and every deposit is claimed by an
+ * idempotency key before its supertx is submitted (see db.ts).
  */
 
 import {
   createPublicClient,
-  erc20Abi,
   formatUnits,
+  parseAbi,
+  parseEventLogs,
   type Address,
-  type Chain,
+  type Hex,
+  type PublicClient,
 } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
-import { optimism, base, polygon, arbitrum } from "viem/chains";
 import {
   toMultichainNexusAccount,
   createMeeClient,
@@ -32,8 +45,15 @@ import {
   SUPPORTED_CHAINS,
   BICONOMY_API_KEY,
   SESSION_VERSION,
+  staleSessionReason,
+  NATIVE_ETH_SYMBOL,
+  TOTAL_SHARE_BPS,
   getTransport,
+  resolveMinBridgeAmount,
+  tokensForVersion,
+  type TokenRegistry,
 } from "../config";
+import { getChainConfig } from "../chains";
 import {
   c,
   shortAddr,
@@ -43,32 +63,76 @@ import {
   summaryLine,
 } from "./log";
 import {
-  getActiveAddresses,
   getSession,
   updateSession,
   decryptSessionKey,
   addHistoryEntry,
   getFeeCollectorAddress,
+  acquireWalletLease,
+  isWalletLeaseHeld,
+  releaseWalletLease,
+  claimDeposit,
+  markDepositSubmitted,
+  releaseDepositClaim,
+  getDepositClaim,
+  getPendingSupertxs,
+  updatePendingSupertx,
+  resolvePendingSupertx,
+  updateHistoryEntries,
+  addHistoryEntries,
+  getHistory,
+  isSessionExpired,
+  isSessionRenewalDue,
+  expireSession,
+  markRenewalNoticeSent,
+  markSessionStale,
+  getTokenRegistry,
+  saveRpcHealth,
+  depositFailureKey,
+  depositFailureHold,
+  getDepositFailures,
+  recordDepositFailure,
+  recordWalletFailure,
+  clearDepositFailures,
+  WALLET_FAILURE_KEY,
+  getPollQueue,
+  savePollQueue,
+  carryOverWallets,
+  getDepositEvents,
+  startPollPass,
   type SessionRecord,
+  type ListeningConfig,
+  type SplitRoute,
+  type HistoryEntry,
+  type PendingSupertx,
+  type AcrossDepositRef,
+  type WalletLease,
+  type DepositClaim,
+  type DepositFailure,
+  type DepositFailures,
+  type PollQueue,
 } from "./db";
-import { executeDepositV3 } from "../sessions/executeDepositV3";
-import { executeForwardTransfer } from "../sessions/executeForwardTransfer";
+import { emitWebhookEvent, deliverWebhooks } from "./webhooks";
+import {
+  depositDetectionMode,
+  balanceReconcileIntervalMs,
+  scanTransferLogs,
+  type LogWatch,
+  type TransferLogScan,
+} from "./depositLogs";
+import { runReencryptionBatch } from "./reencryption";
+import { rpcHealthSnapshot } from "../rpcHealth";
+import { buildDepositV3Calls } from "../sessions/executeDepositV3";
+import { buildForwardTransferCalls } from "../sessions/executeForwardTransfer";
+import {
+  executeSessionCalls,
+  type SessionCall,
+} from "../sessions/executeSessionCalls";
 import type { SessionDetails } from "../sessions/types";
 import { getPostHogClient } from "./posthog-server";
 
 // ── Constants ────────────────────────────────────────────────────────
 
-/** Symbol used internally for native ETH deposits (not an ERC-20 token) */
-const NATIVE_ETH_SYMBOL = "ETH";
-
-const MIN_BRIDGE_AMOUNTS: Record<string, bigint> = {
-  USDC: 100_000n,
-  USDT: 100_000n,
-  WETH: 10_000_000_000_000n,
-  [NATIVE_ETH_SYMBOL]: 10_000_000_000_000n, // 0.00001 ETH
-};
-const DEFAULT_MIN_BRIDGE = 100_000n;
-
 /** Biconomy MEE explorer endpoint for tracking supertransaction execution */
 const MEE_EXPLORER_URL = "https://network.biconomy.io/v1/explorer";
 /** How often to poll the explorer while waiting for a supertx to mine */
@@ -76,25 +140,84 @@ const MINE_POLL_INTERVAL_MS = 3_000;
 /** Maximum time to wait for a supertx to mine before giving up */
 const MINE_POLL_TIMEOUT_MS = 120_000;
 
-const CHAIN_BY_ID = Object.fromEntries(
-  SUPPORTED_CHAINS.map((ch) => [ch.id, ch]),
-) as Record<number, Chain>;
+/**
+ * How long a poll cycle holds a wallet's lease.  Must outlast the worst
+ * case for one wallet: several submissions plus one full mine wait.
+ */
+const WALLET_LEASE_TTL_MS = MINE_POLL_TIMEOUT_MS + 60_000;
+/**
+ * How long a deposit claim blocks resubmission.  Comfortably longer than
+ * the supertx execution window, so a pending supertx has either landed
+ * (balance swept) or expired by the time the claim lapses.
+ */
+const DEPOSIT_CLAIM_TTL_S = 10 * 60;
+
+/** Across endpoint reporting the fill status of a deposit */
+const ACROSS_DEPOSIT_STATUS_URL = "https://app.across.to/api/deposit/status";
+/** Supertxs still unmined this long after submission are marked expired */
+const SUPERTX_EXPIRY_MS = 15 * 60_000;
+/** Bridges still unfilled this long after mining are marked expired */
+const FILL_EXPIRY_MS = 6 * 60 * 60_000;
+/** Max in-flight supertxs looked up per poll cycle (oldest first) */
+const RECONCILE_BATCH_SIZE = 50;
+/** History entries searched for a settled supertx's legs (webhook payload) */
+const WEBHOOK_HISTORY_SCAN = 200;
+/** Balance reads per Multicall3 call (override with BALANCE_MULTICALL_BATCH_SIZE) */
+const DEFAULT_MULTICALL_BATCH_SIZE = 500;
+/**
+ * Seconds an invocation keeps starting work (override with
+ * POLL_TIME_BUDGET_SECONDS).  Leaves the cron route's 60 s limit room for
+ * the chunk in progress to finish.
+ */
+const DEFAULT_POLL_TIME_BUDGET_S = 45;
+/** Wallets scanned together per chunk (override with POLL_CHUNK_SIZE) */
+const DEFAULT_POLL_CHUNK_SIZE = 200;
 
-/** Human-readable chain name by ID */
-const CHAIN_NAME: Record<number, string> = {
-  [optimism.id]: "Optimism",
-  [base.id]: "Base",
-  [polygon.id]: "Polygon",
-  [arbitrum.id]: "Arbitrum",
-};
+/** ERC-20 `balanceOf` and Multicall3's `getEthBalance` (both uint256) */
+const BALANCE_ABI = parseAbi([
+  "function balanceOf(address account) view returns (uint256)",
+  "function getEthBalance(address addr) view returns (uint256)",
+]);
+
+/**
+ * SpokePool deposit events, current and pre-upgrade layouts — read from
+ * a mined bridge's receipt to learn each leg's deposit id.
+ */
+const SPOKE_POOL_DEPOSIT_EVENTS = parseAbi([
+  "event FundsDeposited(bytes32 inputToken, bytes32 outputToken, uint256 inputAmount, uint256 outputAmount, uint256 indexed destinationChainId, uint256 indexed depositId, uint32 quoteTimestamp, uint32 fillDeadline, uint32 exclusivityDeadline, bytes32 indexed depositor, bytes32 recipient, bytes32 exclusiveRelayer, bytes message)",
+  "event V3FundsDeposited(address inputToken, address outputToken, uint256 inputAmount, uint256 outputAmount, uint256 indexed destinationChainId, uint32 indexed depositId, uint32 quoteTimestamp, uint32 fillDeadline, uint32 exclusivityDeadline, address indexed depositor, address recipient, address exclusiveRelayer, bytes message)",
+]);
+
+/** Balance reads per Multicall3 call */
+function multicallBatchSize(): number {
+  const size = Number(process.env.BALANCE_MULTICALL_BATCH_SIZE);
+  return Number.isInteger(size) && size > 0 ? size : DEFAULT_MULTICALL_BATCH_SIZE;
+}
 
+/** How long an invocation keeps starting new chunks and wallet actions */
+function pollTimeBudgetMs(): number {
+  const seconds = Number(process.env.POLL_TIME_BUDGET_SECONDS);
+  return (seconds > 0 ? seconds : DEFAULT_POLL_TIME_BUDGET_S) * 1000;
+}
+
+/** Wallets per poll chunk */
+function pollChunkSize(): number {
+  const size = Number(process.env.POLL_CHUNK_SIZE);
+  return Number.isInteger(size) && size > 0 ? size : DEFAULT_POLL_CHUNK_SIZE;
+}
+
+/** Human-readable chain name by ID */
 function chainName(id: number): string {
-  return CHAIN_NAME[id] ?? `chain-${id}`;
+  return getChainConfig(id)?.name ?? `chain-${id}`;
 }
 
-function fmtToken(amount: bigint, symbol: string): string {
+function fmtToken(
+  amount: bigint,
+  symbol: string,
+  tokens: TokenRegistry = SUPPORTED_TOKENS,
+): string {
   if (symbol === NATIVE_ETH_SYMBOL) return `${formatUnits(amount, 18)} ${symbol}`;
-  const token = SUPPORTED_TOKENS[symbol];
+  const token = tokens[symbol];
   if (!token) return `${amount} ${symbol}`;
   return `${formatUnits(amount, token.decimals)} ${symbol}`;
 }
@@ -132,43 +255,354 @@ async function buildSessionMeeClient(
 // they'll also try ENABLE_AND_USE (since checkEnabledPermissions still
 // returns false) and collide with the first enable.
 
-async function waitForSupertxMined(hash: string): Promise<void> {
+type SupertxStatus = {
+  /** Raw MEE execution status of the main userOp */
+  executionStatus: string;
+  /** "mined" / "failed" once final, otherwise "pending" */
+  outcome: "pending" | "mined" | "failed";
+  /** Source-chain tx hash (MEE reports it as executionData once mined) */
+  txHash?: string;
+  error?: string;
+};
+
+const SUPERTX_FAILURE_STATUSES = new Set([
+  "MINED_FAILURE",
+  "MINED_FAIL",
+  "FAILED",
+  "REVERTED",
+]);
+
+/**
+ * One explorer lookup for a supertx.  Returns `null` when the explorer
+ * has no usable answer yet (not indexed, HTTP error, network error).
+ */
+async function fetchSupertxStatus(hash: string): Promise<SupertxStatus | null> {
+  try {
+    const res = await fetch(`${MEE_EXPLORER_URL}/${hash}`, {
+      headers: { "X-API-Key": BICONOMY_API_KEY },
+    });
+
+    if (!res.ok) return null;
+
+    const data = await res.json();
+    const mainOp = data.userOps?.[1];
+    if (!mainOp?.executionStatus) return null;
+
+    const executionStatus = mainOp.executionStatus as string;
+    const txHash =
+      typeof mainOp.executionData === "string" &&
+      /^0x[0-9a-fA-F]{64}$/.test(mainOp.executionData)
+        ? (mainOp.executionData as string)
+        : undefined;
+
+    if (executionStatus === "MINED_SUCCESS") {
+      return { executionStatus, outcome: "mined", txHash };
+    }
+    if (SUPERTX_FAILURE_STATUSES.has(executionStatus)) {
+      return {
+        executionStatus,
+        outcome: "failed",
+        txHash,
+        error: mainOp.executionError || `Supertx failed on-chain: ${executionStatus}`,
+      };
+    }
+    return { executionStatus, outcome: "pending", txHash };
+  } catch {
+    return null;
+  }
+}
+
+async function waitForSupertxMined(
+  hash: string,
+  timeoutMs = MINE_POLL_TIMEOUT_MS,
+): Promise<void> {
   const start = Date.now();
-  const url = `${MEE_EXPLORER_URL}/${hash}`;
 
-  while (Date.now() - start < MINE_POLL_TIMEOUT_MS) {
+  while (Date.now() - start < timeoutMs) {
     await new Promise((r) => setTimeout(r, MINE_POLL_INTERVAL_MS));
 
-    try {
-      const res = await fetch(url, {
-        headers: { "X-API-Key": BICONOMY_API_KEY },
-      });
+    const status = await fetchSupertxStatus(hash);
+    if (!status) continue;
 
-      if (!res.ok) continue;
+    if (status.outcome === "mined") return;
 
-      const data = await res.json();
-      const mainOp = data.userOps?.[1];
-      if (!mainOp?.executionStatus) continue;
+    if (status.outcome === "failed") {
+      throw new Error(
+        `Supertx ${hash} failed on-chain: ${status.executionStatus}`,
+      );
+    }
+  }
 
-      const status = mainOp.executionStatus as string;
+  throw new Error(
+    `Timed out waiting for supertx ${hash} to mine (${Math.round(timeoutMs / 1000)}s)`,
+  );
+}
 
-      if (status === "MINED_SUCCESS") return;
+// ── Reconcile in-flight supertxs ─────────────────────────────────────
+//
+// History entries are written as "pending" when MEE accepts a supertx.
+// Each poll cycle does one non-blocking lookup per in-flight supertx and
+// moves its entries along:
+//
+//   pending ──▶ mined ──▶ filled        (bridges wait for the Across fills)
+//      │          └─────▶ expired      (a fill missing after FILL_EXPIRY_MS)
+//      ├──────▶ failed                 (reverted on-chain)
+//      └──────▶ expired                (never mined)
+//
+// Forwards are final once mined.  A bridge supertx can make several
+// Across deposits (one per split leg); each is tracked by its deposit id
+// and the supertx settles once every one of them is final.
 
-      if (status === "MINED_FAILURE" || status === "REVERTED") {
-        throw new Error(`Supertx ${hash} failed on-chain: ${status}`);
+type AcrossFillStatus = {
+  status: "pending" | "filled" | "expired";
+  fillTxHash?: string;
+};
+
+/**
+ * One Across lookup, by deposit id or — for origin txs whose deposit
+ * events could not be decoded — by origin tx (its first deposit only).
+ */
+async function fetchAcrossFillStatus(
+  originChainId: number,
+  deposit: { depositId: string } | { depositTxHash: string },
+): Promise<AcrossFillStatus | null> {
+  try {
+    const url = new URL(ACROSS_DEPOSIT_STATUS_URL);
+    url.searchParams.set("originChainId", String(originChainId));
+    if ("depositId" in deposit) url.searchParams.set("depositId", deposit.depositId);
+    else url.searchParams.set("depositTxHash", deposit.depositTxHash);
+
+    const res = await fetch(url.toString());
+    if (!res.ok) return null;
+
+    const data = await res.json();
+    if (data.status === "filled") {
+      return {
+        status: "filled",
+        fillTxHash: typeof data.fillTx === "string" ? data.fillTx : undefined,
+      };
+    }
+    if (data.status === "expired" || data.status === "refunded") {
+      return { status: "expired" };
+    }
+    return { status: "pending" };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The Across deposits a mined bridge made, from the SpokePool events in
+ * its origin tx receipt.  `null` when the receipt could not be read.
+ */
+async function readAcrossDeposits(
+  sourceChainId: number,
+  originTxHash: string,
+): Promise<AcrossDepositRef[] | null> {
+  const config = getChainConfig(sourceChainId);
+  if (!config) return null;
+  try {
+    const client = createPublicClient({
+      chain: config.chain,
+      transport: getTransport(config.chain),
+    });
+    const receipt = await client.getTransactionReceipt({ hash: originTxHash as Hex });
+    const spokePool = config.spokePool.toLowerCase();
+    return parseEventLogs({
+      abi: SPOKE_POOL_DEPOSIT_EVENTS,
+      logs: receipt.logs.filter((log) => log.address.toLowerCase() === spokePool),
+    }).map((log) => ({
+      depositId: log.args.depositId.toString(),
+      destChainId: Number(log.args.destinationChainId),
+      status: "pending",
+    }));
+  } catch {
+    return null;
+  }
+}
+
+type ReconcileOutcome = "mined" | "filled" | "failed" | "expired" | "unchanged";
+
+async function reconcileOne(ref: PendingSupertx): Promise<ReconcileOutcome> {
+  const now = Date.now();
+  const { walletAddress, hash } = ref;
+
+  const settle = async (
+    patch: Parameters<typeof updateHistoryEntries>[2],
+    acrossDeposits?: AcrossDepositRef[],
+  ) => {
+    await updateHistoryEntries(walletAddress, hash, patch);
+    await resolvePendingSupertx(walletAddress, hash);
+
+    // Notify with the settled entries so receivers see every leg
+    const entries = (await getHistory(walletAddress, 0, WEBHOOK_HISTORY_SCAN)).filter(
+      (e) => e.hash === hash,
+    );
+    const succeeded = patch.status === "filled" || patch.status === "mined";
+    await emitWebhookEvent(
+      walletAddress,
+      succeeded ? "bridge.filled" : "bridge.failed",
+      {
+        hash,
+        status: patch.status,
+        sourceChainId: ref.sourceChainId,
+        originTxHash: patch.originTxHash ?? ref.originTxHash,
+        fillTxHash: patch.fillTxHash,
+        error: patch.error,
+        acrossDeposits,
+        legs: entries,
+      },
+    );
+  };
+
+  if (ref.status === "pending") {
+    const status = await fetchSupertxStatus(hash);
+
+    if (status?.outcome === "failed") {
+      await settle({
+        status: "failed",
+        error: status.error,
+        originTxHash: status.txHash,
+      });
+      return "failed";
+    }
+
+    if (status?.outcome === "mined") {
+      // The deposits are swept — an equal balance from now on is a new one
+      for (const key of ref.depositKeys ?? []) {
+        await releaseDepositClaim(walletAddress, key).catch(() => {});
       }
-    } catch (err) {
-      if (
-        err instanceof Error &&
-        err.message.includes("failed on-chain")
-      ) {
-        throw err;
+      if (ref.type !== "bridge") {
+        await settle({ status: "mined", originTxHash: status.txHash });
+        return "mined";
       }
+      await updateHistoryEntries(walletAddress, hash, {
+        status: "mined",
+        originTxHash: status.txHash,
+      });
+      await updatePendingSupertx({
+        ...ref,
+        status: "mined",
+        originTxHash: status.txHash,
+        minedAt: new Date(now).toISOString(),
+      });
+      return "mined";
+    }
+
+    if (now - Date.parse(ref.submittedAt) > SUPERTX_EXPIRY_MS) {
+      await settle({
+        status: "expired",
+        error: `Supertx not mined within ${SUPERTX_EXPIRY_MS / 60_000} min`,
+      });
+      return "expired";
     }
+    return "unchanged";
   }
 
-  throw new Error(
-    `Timed out waiting for supertx ${hash} to mine (${MINE_POLL_TIMEOUT_MS / 1000}s)`,
+  // Mined bridge — waiting for every Across fill on the destination chains
+  const minedAt = Date.parse(ref.minedAt ?? ref.submittedAt);
+  const overdue = now - minedAt > FILL_EXPIRY_MS;
+
+  const { originTxHash } = ref;
+  const deposits =
+    ref.acrossDeposits ??
+    (originTxHash
+      ? ((await readAcrossDeposits(ref.sourceChainId, originTxHash)) ?? undefined)
+      : undefined);
+
+  const expire = async (error: string, acrossDeposits?: AcrossDepositRef[]) => {
+    await settle({ status: "expired", error }, acrossDeposits);
+    return "expired" as const;
+  };
+
+  if (!deposits || !originTxHash) {
+    // Receipt not readable yet — retried next cycle until overdue
+    if (overdue) return expire("Across deposit was not filled before its deadline");
+    return "unchanged";
+  }
+
+  if (deposits.length === 0) {
+    // No deposit events decoded — fall back to the origin tx lookup
+    if (!ref.acrossDeposits) await updatePendingSupertx({ ...ref, acrossDeposits: [] });
+    const fill = await fetchAcrossFillStatus(ref.sourceChainId, { depositTxHash: originTxHash });
+    if (fill?.status === "filled") {
+      await settle({ status: "filled", fillTxHash: fill.fillTxHash });
+      return "filled";
+    }
+    if (fill?.status === "expired" || overdue) {
+      return expire("Across deposit was not filled before its deadline");
+    }
+    return "unchanged";
+  }
+
+  const next = await Promise.all(
+    deposits.map(async (deposit): Promise<AcrossDepositRef> => {
+      if (deposit.status !== "pending") return deposit;
+      const fill = await fetchAcrossFillStatus(ref.sourceChainId, {
+        depositId: deposit.depositId,
+      });
+      if (fill?.status === "filled") {
+        return { ...deposit, status: "filled", fillTxHash: fill.fillTxHash };
+      }
+      if (fill?.status === "expired" || overdue) return { ...deposit, status: "expired" };
+      return deposit;
+    }),
+  );
+
+  if (next.every((d) => d.status !== "pending")) {
+    const unfilled = next.filter((d) => d.status === "expired");
+    if (unfilled.length === 0) {
+      // History entries share one fill link only when there is one fill
+      await settle(
+        { status: "filled", fillTxHash: next.length === 1 ? next[0].fillTxHash : undefined },
+        next,
+      );
+      return "filled";
+    }
+    return expire(
+      `Across deposit${unfilled.length === 1 ? "" : "s"} ` +
+        `${unfilled.map((d) => `#${d.depositId}`).join(", ")} ` +
+        `(of ${next.length}) not filled before the deadline`,
+      next,
+    );
+  }
+
+  if (JSON.stringify(next) !== JSON.stringify(ref.acrossDeposits)) {
+    await updatePendingSupertx({ ...ref, acrossDeposits: next });
+  }
+  return "unchanged";
+}
+
+async function reconcilePendingSupertxs(): Promise<void> {
+  const pending = (await getPendingSupertxs())
+    .sort((a, b) => a.submittedAt.localeCompare(b.submittedAt))
+    .slice(0, RECONCILE_BATCH_SIZE);
+
+  if (pending.length === 0) return;
+
+  const start = Date.now();
+  const outcomes = await Promise.allSettled(pending.map(reconcileOne));
+
+  const counts: Record<ReconcileOutcome | "errors", number> = {
+    mined: 0,
+    filled: 0,
+    failed: 0,
+    expired: 0,
+    unchanged: 0,
+    errors: 0,
+  };
+  for (const o of outcomes) {
+    if (o.status === "fulfilled") counts[o.value]++;
+    else counts.errors++;
+  }
+
+  console.log(
+    `\n  🔎 Reconciled ${c.bold(String(pending.length))} in-flight supertx(s) ${c.dim(`(${fmtMs(Date.now() - start)})`)}  ` +
+      c.dim(
+        `mined ${counts.mined} · filled ${counts.filled} · failed ${counts.failed} · ` +
+          `expired ${counts.expired} · pending ${counts.unchanged}` +
+          (counts.errors ? ` · errors ${counts.errors}` : ""),
+      ),
   );
 }
 
@@ -178,8 +612,15 @@ type DetectedDeposit = {
   chainId: number;
   tokenSymbol: string;
   amount: bigint;
+  /** Block the balance was read at */
+  blockNumber: bigint;
 };
 
+/** Idempotency key for a deposit — see the idempotency section in db.ts */
+function depositKey(deposit: DetectedDeposit): string {
+  return `${deposit.chainId}:${deposit.tokenSymbol}:${deposit.amount}`;
+}
+
 type BalanceEntry = {
   chainId: number;
   chainLabel: string;
@@ -196,120 +637,227 @@ type CheckResult = {
   deposits: DetectedDeposit[];
 };
 
-async function checkBalances(
-  walletAddress: Address,
-  watchedChainIds: number[],
-): Promise<CheckResult> {
-  const entries: BalanceEntry[] = [];
-  const deposits: DetectedDeposit[] = [];
+/** One wallet's balance reads for the cycle */
+type BalanceRequest = {
+  walletAddress: Address;
+  watchedChainIds: number[];
+  tokens: TokenRegistry;
+  minBridgeAmounts?: Record<string, string>;
+  /**
+   * Narrows the reads to some (chain, token) pairs — log-based detection
+   * only reads what incoming transfers touched.  All are read by default.
+   */
+  reads?: (chainId: number, tokenSymbol: string) => boolean;
+};
 
-  const checks: Promise<void>[] = [];
+/** One balance read, queued into its chain's Multicall3 batches */
+type BalanceRead = {
+  /** Index of the request (wallet) it belongs to */
+  index: number;
+  tokenSymbol: string;
+  decimals: number;
+  min: bigint;
+  call: {
+    address: Address;
+    abi: typeof BALANCE_ABI;
+    functionName: "balanceOf" | "getEthBalance";
+    args: [Address];
+  };
+};
 
-  for (const chainId of watchedChainIds) {
-    const chain = CHAIN_BY_ID[chainId];
-    if (!chain) continue;
+/**
+ * Read every wallet's balances on its watched chains.  Reads are pooled
+ * across wallets per chain and sent as Multicall3 batches
+ * (`balanceOf` on the token, `getEthBalance` on Multicall3 for native
+ * ETH), all at the same block so the deposit idempotency claims record a
+ * consistent snapshot.  Returns one `CheckResult` per request, in order.
+ */
+async function checkBalances(
+  requests: BalanceRequest[],
+  clients: Map<number, PublicClient>,
+): Promise<CheckResult[]> {
+  const results: CheckResult[] = requests.map(() => ({ entries: [], deposits: [] }));
+  const batchSize = multicallBatchSize();
+  const chainIds = [...new Set(requests.flatMap((r) => r.watchedChainIds))];
 
-    const client = createPublicClient({
-      chain,
-      transport: getTransport(chain),
-    });
+  await Promise.all(
+    chainIds.map(async (chainId) => {
+      const client = clients.get(chainId);
+      if (!client) return;
+      const multicall3 = client.chain?.contracts?.multicall3?.address;
+      // Chains with another native currency are left alone
+      const nativeEth = !!getChainConfig(chainId)?.capabilities.nativeEth;
+
+      const reads: BalanceRead[] = [];
+      requests.forEach((req, index) => {
+        if (!req.watchedChainIds.includes(chainId)) return;
+        const wants = req.reads ?? (() => true);
+        for (const token of Object.values(req.tokens)) {
+          const tokenAddr = token.addresses[chainId];
+          if (!tokenAddr || !wants(chainId, token.symbol)) continue;
+          reads.push({
+            index,
+            tokenSymbol: token.symbol,
+            decimals: token.decimals,
+            min: resolveMinBridgeAmount(token.symbol, req.minBridgeAmounts, req.tokens),
+            call: {
+              address: tokenAddr,
+              abi: BALANCE_ABI,
+              functionName: "balanceOf",
+              args: [req.walletAddress],
+            },
+          });
+        }
+        // Native ETH (will be wrapped to WETH, or sent as-is, when bridged)
+        if (nativeEth && multicall3 && wants(chainId, NATIVE_ETH_SYMBOL)) {
+          reads.push({
+            index,
+            tokenSymbol: NATIVE_ETH_SYMBOL,
+            decimals: 18,
+            min: resolveMinBridgeAmount(NATIVE_ETH_SYMBOL, req.minBridgeAmounts, req.tokens),
+            call: {
+              address: multicall3,
+              abi: BALANCE_ABI,
+              functionName: "getEthBalance",
+              args: [req.walletAddress],
+            },
+          });
+        }
+      });
+      if (reads.length === 0) return;
+
+      const recordBalance = (read: BalanceRead, balance: bigint, blockNumber: bigint) => {
+        if (balance === 0n) return;
+        const { entries, deposits } = results[read.index];
+        const aboveThreshold = balance >= read.min;
+        entries.push({
+          chainId,
+          chainLabel: chainName(chainId),
+          tokenSymbol: read.tokenSymbol,
+          balance,
+          formatted: formatUnits(balance, read.decimals),
+          threshold: formatUnits(read.min, read.decimals),
+          aboveThreshold,
+        });
+        if (aboveThreshold) {
+          deposits.push({ chainId, tokenSymbol: read.tokenSymbol, amount: balance, blockNumber });
+        }
+      };
+      const recordError = (read: BalanceRead, err: unknown) => {
+        results[read.index].entries.push({
+          chainId,
+          chainLabel: chainName(chainId),
+          tokenSymbol: read.tokenSymbol,
+          balance: 0n,
+          formatted: "ERR",
+          threshold: formatUnits(read.min, read.decimals),
+          aboveThreshold: false,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      };
 
-    for (const token of Object.values(SUPPORTED_TOKENS)) {
-      const tokenAddr = token.addresses[chainId];
-      if (!tokenAddr) continue;
-
-      const min = MIN_BRIDGE_AMOUNTS[token.symbol] ?? DEFAULT_MIN_BRIDGE;
-
-      checks.push(
-        client
-          .readContract({
-            address: tokenAddr,
-            abi: erc20Abi,
-            functionName: "balanceOf",
-            args: [walletAddress],
-          })
-          .then((balance) => {
-            if (balance > 0n) {
-              const aboveThreshold = balance >= min;
-              entries.push({
-                chainId,
-                chainLabel: chainName(chainId),
-                tokenSymbol: token.symbol,
-                balance,
-                formatted: formatUnits(balance, token.decimals),
-                threshold: formatUnits(min, token.decimals),
-                aboveThreshold,
-              });
-
-              if (aboveThreshold) {
-                deposits.push({
-                  chainId,
-                  tokenSymbol: token.symbol,
-                  amount: balance,
-                });
-              }
-            }
-          })
-          .catch((err) => {
-            entries.push({
-              chainId,
-              chainLabel: chainName(chainId),
-              tokenSymbol: token.symbol,
-              balance: 0n,
-              formatted: "ERR",
-              threshold: formatUnits(min, token.decimals),
-              aboveThreshold: false,
-              error: err instanceof Error ? err.message : String(err),
-            });
-          }),
-      );
-    }
+      let blockNumber: bigint;
+      try {
+        blockNumber = await client.getBlockNumber();
+      } catch (err) {
+        for (const read of reads) recordError(read, err);
+        return;
+      }
 
-    // Check native ETH balance (will be wrapped to WETH before bridging)
-    const ethMin = MIN_BRIDGE_AMOUNTS[NATIVE_ETH_SYMBOL] ?? DEFAULT_MIN_BRIDGE;
-    checks.push(
-      client
-        .getBalance({ address: walletAddress })
-        .then((balance) => {
-          if (balance > 0n) {
-            const aboveThreshold = balance >= ethMin;
-            entries.push({
-              chainId,
-              chainLabel: chainName(chainId),
-              tokenSymbol: NATIVE_ETH_SYMBOL,
-              balance,
-              formatted: formatUnits(balance, 18),
-              threshold: formatUnits(ethMin, 18),
-              aboveThreshold,
-            });
-
-            if (aboveThreshold) {
-              deposits.push({
-                chainId,
-                tokenSymbol: NATIVE_ETH_SYMBOL,
-                amount: balance,
-              });
-            }
-          }
-        })
-        .catch((err) => {
-          entries.push({
-            chainId,
-            chainLabel: chainName(chainId),
-            tokenSymbol: NATIVE_ETH_SYMBOL,
-            balance: 0n,
-            formatted: "ERR",
-            threshold: formatUnits(ethMin, 18),
-            aboveThreshold: false,
-            error: err instanceof Error ? err.message : String(err),
+      // Batches go out one after another — a chain's RPC sees one request at a time
+      for (let i = 0; i < reads.length; i += batchSize) {
+        const batch = reads.slice(i, i + batchSize);
+        try {
+          const balances = await client.multicall({
+            contracts: batch.map((read) => read.call),
+            allowFailure: true,
+            blockNumber,
+            batchSize: 0,
           });
-        }),
-    );
-  }
+          balances.forEach((res, k) => {
+            if (res.status === "success") recordBalance(batch[k], res.result as bigint, blockNumber);
+            else recordError(batch[k], res.error);
+          });
+        } catch (err) {
+          for (const read of batch) recordError(read, err);
+        }
+      }
+    }),
+  );
+
+  return results;
+}
+
+// ── Split routes ─────────────────────────────────────────────────────
 
-  await Promise.all(checks);
+/** A destination with the recipient resolved to a concrete address */
+type ResolvedRoute = {
+  destChainId: number;
+  recipient: Address;
+  recipientTokenSymbol?: string;
+  shareBps: number;
+};
 
-  return { entries, deposits };
+/**
+ * The wallet's destinations: its `routes` split if configured, otherwise
+ * the single destination as one route taking the whole deposit.
+ */
+function resolveRoutes(
+  walletAddress: Address,
+  config: ListeningConfig,
+): ResolvedRoute[] {
+  const routes: SplitRoute[] = config.routes?.length
+    ? config.routes
+    : [{ ...config, shareBps: TOTAL_SHARE_BPS }];
+
+  return routes.map((r) => ({
+    destChainId: r.destChainId,
+    recipient: r.recipientIsSelf ? walletAddress : (r.recipientAddr as Address),
+    recipientTokenSymbol: r.recipientTokenSymbol,
+    shareBps: r.shareBps,
+  }));
+}
+
+/**
+ * Chains where the wallet itself is a recipient.  Balances there are
+ * "home" — they are the result of routing, so they are never re-routed.
+ */
+function homeChainIds(walletAddress: Address, routes: ResolvedRoute[]): number[] {
+  return routes
+    .filter((r) => r.recipient.toLowerCase() === walletAddress.toLowerCase())
+    .map((r) => r.destChainId);
+}
+
+/**
+ * Chains the wallet is watched on — every chain except its own
+ * destinations, where funds have already arrived.  A destination with
+ * another recipient is watched so deposits landing on it are forwarded.
+ */
+function watchedChainIds(walletAddress: Address, routes: ResolvedRoute[]): number[] {
+  const homeIds = homeChainIds(walletAddress, routes);
+  return SUPPORTED_CHAINS.map((ch) => ch.id as number).filter((id) => !homeIds.includes(id));
+}
+
+/** Split `amount` by route share; the last leg takes the rounding dust. */
+function splitAmount(amount: bigint, routes: ResolvedRoute[]): bigint[] {
+  let remaining = amount;
+  return routes.map((route, i) => {
+    if (i === routes.length - 1) return remaining;
+    const share = (amount * BigInt(route.shareBps)) / BigInt(TOTAL_SHARE_BPS);
+    remaining -= share;
+    return share;
+  });
+}
+
+function routeLabel(route: ResolvedRoute, walletAddress: Address): string {
+  const recipient =
+    route.recipient.toLowerCase() === walletAddress.toLowerCase()
+      ? "self"
+      : shortAddr(route.recipient);
+  const token = route.recipientTokenSymbol ? ` [${route.recipientTokenSymbol}]` : "";
+  const share =
+    route.shareBps === TOTAL_SHARE_BPS ? "" : `${route.shareBps / 100}% `;
+  return `${share}${chainName(route.destChainId)}${token} (${recipient})`;
 }
 
 // ── Types for scan + execution results ───────────────────────────────
@@ -317,9 +865,19 @@ async function checkBalances(
 type WalletScan = {
   addr: string;
   record: SessionRecord;
+  lease: WalletLease;
+  routes: ResolvedRoute[];
+  /** Tokens the wallet's grant covers (see `tokensForVersion`) */
+  tokens: TokenRegistry;
   checkResult: CheckResult;
+  /** The wallet's failing deposit sources when the scan started */
+  failures: DepositFailures;
+  /** Every balance was read (not just those log-detected transfers touched) */
+  fullBalanceRead: boolean;
   watchedChainIds: number[];
   actionableDeposits: DetectedDeposit[];
+  /** Deposits left alone this cycle — backing off, or circuit open */
+  heldDeposits: { deposit: DetectedDeposit; failure: DepositFailure }[];
 };
 
 type ActionSuccess = {
@@ -346,23 +904,35 @@ type ActionFailure = {
 type WalletExecResult = {
   successes: ActionSuccess[];
   failures: ActionFailure[];
+  /** The deadline stopped it before every chain's batch was submitted */
+  cutShort: boolean;
 };
 
 // ── Execute all actions for a single wallet ──────────────────────────
 
+/** One deposit's share sent along one route */
+type SplitLeg = {
+  deposit: DetectedDeposit;
+  route: ResolvedRoute;
+  amount: bigint;
+  /** Same-chain transfer vs cross-chain bridge */
+  type: "bridge" | "forward";
+};
+
 async function executeWalletActions(
   scan: WalletScan,
-  feeCollectorAddress: Address,
+  currentFeeCollector: Address,
+  deadline: number,
 ): Promise<WalletExecResult> {
-  const { record, actionableDeposits } = scan;
+  const { record, lease, routes, tokens, actionableDeposits, failures: knownFailures } = scan;
   const walletAddress = record.walletAddress as Address;
-  const { destChainId, recipientIsSelf, recipientAddr, recipientTokenSymbol } =
-    record.listeningConfig;
+  // The permission's `transfer` only allows the collector it was granted with
+  const feeCollectorAddress =
+    (record.grantedFeeCollector as Address | undefined) ?? currentFeeCollector;
 
   console.log(
     `  [exec] ${c.cyan(shortAddr(walletAddress))} ` +
-      `recipientTokenSymbol=${recipientTokenSymbol ?? "(undefined → same-as-input)"} ` +
-      `dest=${chainName(destChainId)} ` +
+      `routes=${routes.map((r) => routeLabel(r, walletAddress)).join(", ")} ` +
       `deposits=${actionableDeposits.length}`,
   );
 
@@ -370,15 +940,12 @@ async function executeWalletActions(
   const failures: ActionFailure[] = [];
 
   // Decrypt + build client once for all deposits
-  const sessionKey = decryptSessionKey(record);
+  const sessionKey = await decryptSessionKey(record);
   const sessionMeeClient = await buildSessionMeeClient(
     sessionKey,
     walletAddress,
   );
   const sessionDetails = record.sessionDetails as SessionDetails;
-  const recipient: Address = recipientIsSelf
-    ? walletAddress
-    : (recipientAddr as Address);
 
   // Check if session permissions are already enabled
   const enabledMap: Record<string, Record<number, boolean>> =
@@ -387,166 +954,482 @@ async function executeWalletActions(
     Object.values(chainMap).some((v) => v === true),
   );
 
-  // Execute each deposit (sequentially due to ENABLE_AND_USE constraint)
-  for (let i = 0; i < actionableDeposits.length; i++) {
-    const deposit = actionableDeposits[i];
-    const isOnDestChain = deposit.chainId === destChainId;
-    const type: "bridge" | "forward" = isOnDestChain ? "forward" : "bridge";
-    const sourceChain = chainName(deposit.chainId);
-    const destChain = chainName(destChainId);
-    const amountStr = fmtToken(deposit.amount, deposit.tokenSymbol);
+  /** Fan a deposit out into one leg per route (zero-amount legs dropped). */
+  const splitDeposit = (deposit: DetectedDeposit): SplitLeg[] => {
+    const amounts = splitAmount(deposit.amount, routes);
+    return routes
+      .map((route, i) => ({
+        deposit,
+        route,
+        amount: amounts[i],
+        type: (route.destChainId === deposit.chainId ? "forward" : "bridge") as
+          | "bridge"
+          | "forward",
+      }))
+      .filter((leg) => leg.amount > 0n);
+  };
 
-    try {
-      let result: { hash: string };
-
-      const isNativeETH = deposit.tokenSymbol === NATIVE_ETH_SYMBOL;
-
-      if (isOnDestChain) {
-        if (isNativeETH) {
-          // Native ETH on dest chain: wrap to WETH, then forward as WETH
-          result = await executeDepositV3({
-            sessionMeeClient,
-            sessionDetails,
-            walletAddress,
-            recipient,
-            sourceChainId: deposit.chainId,
-            destinationChainId: deposit.chainId,
-            amount: deposit.amount,
-            tokenSymbol: "WETH",
-            outputTokenSymbol: recipientTokenSymbol,
-            feeCollectorAddress,
-            wrapNativeETH: true,
-          });
-        } else {
-          result = await executeForwardTransfer({
-            sessionMeeClient,
-            sessionDetails,
-            walletAddress,
-            recipient,
-            chainId: deposit.chainId,
-            amount: deposit.amount,
-            tokenSymbol: deposit.tokenSymbol,
-          });
-        }
-      } else {
-        result = await executeDepositV3({
-          sessionMeeClient,
-          sessionDetails,
-          walletAddress,
-          recipient,
-          sourceChainId: deposit.chainId,
-          destinationChainId: destChainId,
-          amount: deposit.amount,
-          tokenSymbol: isNativeETH ? "WETH" : deposit.tokenSymbol,
-          outputTokenSymbol: recipientTokenSymbol,
-          feeCollectorAddress,
-          wrapNativeETH: isNativeETH,
-        });
-      }
+  const legEntry = (
+    leg: SplitLeg,
+    fields: Pick<HistoryEntry, "status" | "hash" | "error">,
+  ): HistoryEntry => ({
+    timestamp: new Date().toISOString(),
+    type: leg.type,
+    ...fields,
+    tokenSymbol: leg.deposit.tokenSymbol,
+    amount: String(leg.amount),
+    sourceChainId: leg.deposit.chainId,
+    destChainId: leg.route.destChainId,
+    recipient: leg.route.recipient,
+  });
 
-      successes.push({
+  /** Webhook payload for one leg (amounts as base-unit strings) */
+  const legPayload = (leg: SplitLeg) => ({
+    type: leg.type,
+    tokenSymbol: leg.deposit.tokenSymbol,
+    amount: String(leg.amount),
+    sourceChainId: leg.deposit.chainId,
+    destChainId: leg.route.destChainId,
+    recipient: leg.route.recipient,
+    recipientTokenSymbol: leg.route.recipientTokenSymbol,
+    shareBps: leg.route.shareBps,
+  });
+
+  const recordFailures = async (legs: SplitLeg[], msg: string) => {
+    for (const leg of legs) {
+      const sourceChain = chainName(leg.deposit.chainId);
+      const destChain = chainName(leg.route.destChainId);
+      const amountStr = fmtToken(leg.amount, leg.deposit.tokenSymbol, tokens);
+
+      failures.push({
         walletAddress: walletAddress as string,
-        type,
-        tokenSymbol: deposit.tokenSymbol,
+        type: leg.type,
+        tokenSymbol: leg.deposit.tokenSymbol,
         amount: amountStr,
         sourceChain,
         destChain,
-        hash: result.hash,
-        meescanUrl: `https://meescan.biconomy.io/details/${result.hash}`,
+        error: msg,
       });
 
-      // Track bridge_executed in PostHog
+      // Track bridge_failed in PostHog
       const posthog = getPostHogClient();
       posthog.capture({
         distinctId: walletAddress as string,
-        event: "bridge_executed",
+        event: "bridge_failed",
         properties: {
           wallet_address: walletAddress as string,
-          type,
-          token_symbol: deposit.tokenSymbol,
+          type: leg.type,
+          token_symbol: leg.deposit.tokenSymbol,
           amount: amountStr,
           source_chain: sourceChain,
-          source_chain_id: deposit.chainId,
+          source_chain_id: leg.deposit.chainId,
           dest_chain: destChain,
-          dest_chain_id: destChainId,
-          tx_hash: result.hash,
-          meescan_url: `https://meescan.biconomy.io/details/${result.hash}`,
-          recipient_is_self: recipientIsSelf,
+          dest_chain_id: leg.route.destChainId,
+          share_bps: leg.route.shareBps,
+          error: msg,
+          recipient_is_self: leg.route.recipient === walletAddress,
           source: "cron",
         },
       });
+    }
 
-      // Record in history
-      await addHistoryEntry(walletAddress, {
-        timestamp: new Date().toISOString(),
-        type,
-        status: "success",
-        hash: result.hash,
-        tokenSymbol: deposit.tokenSymbol,
-        amount: String(deposit.amount),
-        sourceChainId: deposit.chainId,
-        destChainId: isOnDestChain ? deposit.chainId : destChainId,
-        recipient,
-      });
+    // Record failure in history — one entry per leg
+    await addHistoryEntries(
+      walletAddress,
+      legs.map((leg) => legEntry(leg, { status: "error", error: msg })),
+    );
+    await emitWebhookEvent(
+      walletAddress,
+      "bridge.failed",
+      { status: "error", error: msg, legs: legs.map(legPayload) },
+      record,
+    );
 
-      // If first tx used ENABLE_AND_USE, wait for it to mine before
-      // submitting subsequent txs so they can use plain USE mode.
-      if (
-        i === 0 &&
-        !permissionsPreEnabled &&
-        actionableDeposits.length > 1
-      ) {
-        await waitForSupertxMined(result.hash);
+    // Back off retrying the failed deposits (held deposits never get
+    // here, so an open circuit is a newly opened one)
+    for (const deposit of new Set(legs.map((leg) => leg.deposit))) {
+      const failure = await recordDepositFailure(
+        walletAddress,
+        deposit.chainId,
+        deposit.tokenSymbol,
+        msg,
+      );
+      if (failure?.circuitOpenedAt) {
+        console.log(
+          `  ${c.boldRed("⛔")} ${c.cyan(shortAddr(walletAddress))} ${deposit.tokenSymbol} on ` +
+            `${chainName(deposit.chainId)} ${c.dim(`circuit open after ${failure.consecutiveFailures} failures`)}`,
+        );
+        await emitWebhookEvent(walletAddress, "deposit.circuit_open", { ...failure }, record);
       }
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : String(err);
+    }
+  };
 
-      failures.push({
+  const recordSuccesses = async (legs: SplitLeg[], hash: string) => {
+    for (const leg of legs) {
+      const sourceChain = chainName(leg.deposit.chainId);
+      const destChain = chainName(leg.route.destChainId);
+      const amountStr = fmtToken(leg.amount, leg.deposit.tokenSymbol, tokens);
+
+      successes.push({
         walletAddress: walletAddress as string,
-        type,
-        tokenSymbol: deposit.tokenSymbol,
+        type: leg.type,
+        tokenSymbol: leg.deposit.tokenSymbol,
         amount: amountStr,
         sourceChain,
         destChain,
-        error: msg,
+        hash,
+        meescanUrl: `https://meescan.biconomy.io/details/${hash}`,
       });
 
-      // Track bridge_failed in PostHog
+      // Track bridge_executed in PostHog
       const posthog = getPostHogClient();
       posthog.capture({
         distinctId: walletAddress as string,
-        event: "bridge_failed",
+        event: "bridge_executed",
         properties: {
           wallet_address: walletAddress as string,
-          type,
-          token_symbol: deposit.tokenSymbol,
+          type: leg.type,
+          token_symbol: leg.deposit.tokenSymbol,
           amount: amountStr,
           source_chain: sourceChain,
-          source_chain_id: deposit.chainId,
+          source_chain_id: leg.deposit.chainId,
           dest_chain: destChain,
-          dest_chain_id: destChainId,
-          error: msg,
-          recipient_is_self: recipientIsSelf,
+          dest_chain_id: leg.route.destChainId,
+          share_bps: leg.route.shareBps,
+          tx_hash: hash,
+          meescan_url: `https://meescan.biconomy.io/details/${hash}`,
+          recipient_is_self: leg.route.recipient === walletAddress,
+          batch_size: legs.length,
           source: "cron",
         },
       });
+    }
 
-      // Record failure in history
-      await addHistoryEntry(walletAddress, {
-        timestamp: new Date().toISOString(),
-        type,
-        status: "error",
-        error: msg,
+    // Record in history — one entry per leg, all sharing the supertx
+    // hash; the reconciliation pass settles them together later.
+    await addHistoryEntries(
+      walletAddress,
+      legs.map((leg) => legEntry(leg, { status: "pending", hash })),
+      [...new Set(legs.map((leg) => depositKey(leg.deposit)))],
+    );
+    await emitWebhookEvent(
+      walletAddress,
+      "bridge.submitted",
+      {
+        hash,
+        sourceChainId: legs[0].deposit.chainId,
+        meescanUrl: `https://meescan.biconomy.io/details/${hash}`,
+        legs: legs.map(legPayload),
+      },
+      record,
+    );
+
+    // Deposits that had been failing are healthy again
+    if (Object.keys(knownFailures).length > 0) {
+      await clearDepositFailures(
+        walletAddress,
+        legs.map((leg) => depositFailureKey(leg.deposit.chainId, leg.deposit.tokenSymbol)),
+      );
+    }
+  };
+
+  /** Calls that deliver one leg; composed into its chain's batch. */
+  const buildLegCalls = async (leg: SplitLeg): Promise<SessionCall[]> => {
+    const { deposit, route } = leg;
+    const isNativeETH = deposit.tokenSymbol === NATIVE_ETH_SYMBOL;
+    // Native ETH for a route that wants ETH stays native end to end
+    const keepNative = isNativeETH && route.recipientTokenSymbol === NATIVE_ETH_SYMBOL;
+
+    if (leg.type === "forward" && (!isNativeETH || keepNative)) {
+      return buildForwardTransferCalls({
+        walletAddress,
+        recipient: route.recipient,
+        chainId: deposit.chainId,
+        amount: leg.amount,
         tokenSymbol: deposit.tokenSymbol,
-        amount: String(deposit.amount),
-        sourceChainId: deposit.chainId,
-        destChainId: isOnDestChain ? deposit.chainId : destChainId,
-        recipient,
+        tokens,
       });
     }
+
+    // Otherwise native ETH is wrapped to WETH first — on the dest chain it
+    // is then forwarded as WETH (or swapped into the recipient token).
+    const wrap = isNativeETH && !keepNative;
+    const { calls } = await buildDepositV3Calls({
+      walletAddress,
+      recipient: route.recipient,
+      sourceChainId: deposit.chainId,
+      destinationChainId: route.destChainId,
+      amount: leg.amount,
+      tokenSymbol: wrap ? "WETH" : deposit.tokenSymbol,
+      outputTokenSymbol: route.recipientTokenSymbol,
+      feeCollectorAddress,
+      wrapNativeETH: wrap,
+      tokens,
+    });
+    return calls;
+  };
+
+  // Group deposits by source chain — each chain gets one supertx
+  const depositsByChain = new Map<number, DetectedDeposit[]>();
+  for (const deposit of actionableDeposits) {
+    const group = depositsByChain.get(deposit.chainId) ?? [];
+    group.push(deposit);
+    depositsByChain.set(deposit.chainId, group);
+  }
+  const chainGroups = [...depositsByChain.entries()];
+
+  // Execute each chain's batch (sequentially due to ENABLE_AND_USE constraint)
+  for (let i = 0; i < chainGroups.length; i++) {
+    const [chainId, deposits] = chainGroups[i];
+    const sourceChain = chainName(chainId);
+
+    // Leave the remaining chains to the next invocation past the deadline
+    // (their deposits are unclaimed, so they are detected again)
+    if (i > 0 && Date.now() >= deadline) {
+      console.log(
+        `  ${c.yellow("⏱")} ${c.cyan(shortAddr(walletAddress))} ` +
+          c.dim(`time budget reached — ${chainGroups.length - i} chain(s) left for the next invocation`),
+      );
+      return { successes, failures, cutShort: true };
+    }
+
+    // Stop if a newer poll cycle took over this wallet (lease expired)
+    if (!(await isWalletLeaseHeld(lease))) {
+      console.log(
+        `  ${c.yellow("⚠")} ${c.cyan(shortAddr(walletAddress))} lost lease ` +
+          c.dim(`(fence ${lease.fencingToken}) — skipping remaining deposits`),
+      );
+      break;
+    }
+
+    // Claim each deposit and build the calls for all of its legs.
+    // Claimed deposits are skipped.  A deposit is routed all-or-nothing:
+    // if any leg can't be built (e.g. no Swap API quote) the whole deposit
+    // fails on its own without holding back the rest of the batch.
+    const batch: {
+      key: string;
+      claim: DepositClaim;
+      legs: SplitLeg[];
+      calls: SessionCall[];
+    }[] = [];
+
+    for (const deposit of deposits) {
+      const amountStr = fmtToken(deposit.amount, deposit.tokenSymbol, tokens);
+
+      // Claim the deposit — skip it if a supertx for it is already pending
+      const key = depositKey(deposit);
+      const claim: DepositClaim = {
+        blockNumber: String(deposit.blockNumber),
+        fencingToken: lease.fencingToken,
+        claimedAt: new Date().toISOString(),
+      };
+      if (!(await claimDeposit(walletAddress, key, claim, DEPOSIT_CLAIM_TTL_S))) {
+        const existing = await getDepositClaim(walletAddress, key);
+        console.log(
+          `  ${c.dim("↷")} ${c.cyan(shortAddr(walletAddress))} ${amountStr} on ${sourceChain} ` +
+            c.dim(
+              `already claimed at block ${existing?.blockNumber ?? "?"}` +
+                (existing?.hash ? ` (${shortAddr(existing.hash)})` : "") +
+                " — skipping",
+            ),
+        );
+        continue;
+      }
+
+      await emitWebhookEvent(
+        walletAddress,
+        "deposit.detected",
+        {
+          chainId: deposit.chainId,
+          tokenSymbol: deposit.tokenSymbol,
+          amount: String(deposit.amount),
+          blockNumber: String(deposit.blockNumber),
+        },
+        record,
+      );
+
+      const legs = splitDeposit(deposit);
+      try {
+        const calls: SessionCall[] = [];
+        for (const leg of legs) calls.push(...(await buildLegCalls(leg)));
+        batch.push({ key, claim, legs, calls });
+      } catch (err) {
+        await releaseDepositClaim(walletAddress, key).catch(() => {});
+        await recordFailures(legs, err instanceof Error ? err.message : String(err));
+      }
+    }
+
+    if (batch.length === 0) continue;
+
+    const batchLegs = batch.flatMap((b) => b.legs);
+    if (batchLegs.length > 1) {
+      console.log(
+        `  📦 ${c.cyan(shortAddr(walletAddress))} batching ${batchLegs.length} leg(s) ` +
+          `from ${batch.length} deposit(s) on ${sourceChain} into one supertx ` +
+          c.dim(`(${batch.map((b) => b.legs[0].deposit.tokenSymbol).join(", ")})`),
+      );
+    }
+
+    let hash: string;
+    try {
+      ({ hash } = await executeSessionCalls({
+        sessionMeeClient,
+        sessionDetails,
+        chainId,
+        calls: batch.flatMap((b) => b.calls),
+      }));
+    } catch (err) {
+      // Nothing was submitted — let the next cycle retry every deposit
+      for (const { key } of batch) {
+        await releaseDepositClaim(walletAddress, key).catch(() => {});
+      }
+      await recordFailures(batchLegs, err instanceof Error ? err.message : String(err));
+      continue;
+    }
+
+    for (const { key, claim } of batch) {
+      await markDepositSubmitted(walletAddress, key, claim, hash);
+    }
+    await recordSuccesses(batchLegs, hash);
+
+    // If the first supertx used ENABLE_AND_USE, wait for it to mine before
+    // submitting the other chains' batches so they can use plain USE mode
+    // (no longer than the time budget allows).
+    if (i === 0 && !permissionsPreEnabled && chainGroups.length > 1 && Date.now() < deadline) {
+      try {
+        await waitForSupertxMined(
+          hash,
+          Math.min(MINE_POLL_TIMEOUT_MS, deadline - Date.now()),
+        );
+      } catch (err) {
+        // Already submitted — reconciliation settles its history entries
+        console.log(
+          `  ${c.yellow("⚠")} ${c.cyan(shortAddr(walletAddress))} ` +
+            c.dim(err instanceof Error ? err.message : String(err)),
+        );
+      }
+    }
+  }
+
+  return { successes, failures, cutShort: false };
+}
+
+// ── Session expiry ───────────────────────────────────────────────────
+
+/**
+ * Deactivate sessions whose grant has lapsed and send a one-off renewal
+ * prompt to those about to.  Returns the sessions that are still valid.
+ */
+async function checkSessionExpiry(
+  records: { addr: string; record: SessionRecord }[],
+): Promise<{ addr: string; record: SessionRecord }[]> {
+  const now = Date.now();
+  const live: { addr: string; record: SessionRecord }[] = [];
+
+  for (const p of records) {
+    const { addr, record } = p;
+    try {
+      if (isSessionExpired(record, now)) {
+        console.log(
+          `  ⌛ ${c.cyan(shortAddr(addr))} ${c.yellow("session expired")} ` +
+            c.dim(`(${record.expiresAt}) — deactivating`),
+        );
+        await expireSession(addr);
+        await emitWebhookEvent(addr, "session.expired", { expiresAt: record.expiresAt }, record);
+        continue;
+      }
+
+      if (isSessionRenewalDue(record, now) && !record.renewalNoticeSentAt) {
+        console.log(
+          `  ⏳ ${c.cyan(shortAddr(addr))} session expires ${c.yellow(record.expiresAt!)} ` +
+            c.dim("— renewal prompt sent"),
+        );
+        await emitWebhookEvent(addr, "session.expiring", { expiresAt: record.expiresAt }, record);
+        await markRenewalNoticeSent(addr);
+      }
+    } catch (err) {
+      console.error(
+        c.boldRed(`  ✗ Expiry check failed for ${shortAddr(addr)}:`),
+        err instanceof Error ? err.message : err,
+      );
+      // Never act on a grant that may have lapsed
+      if (isSessionExpired(record, now)) continue;
+    }
+    live.push(p);
+  }
+  return live;
+}
+
+/**
+ * Count a failure of the wallet's processing as a whole — held like a
+ * failing deposit, with a webhook once its circuit opens.
+ */
+async function recordWalletProcessingFailure(scan: WalletScan, error: string): Promise<void> {
+  try {
+    const failure = await recordWalletFailure(scan.addr, error);
+    if (failure?.circuitOpenedAt && !scan.failures[WALLET_FAILURE_KEY]?.circuitOpenedAt) {
+      console.log(
+        `  ${c.boldRed("⛔")} ${c.cyan(shortAddr(scan.addr))} all deposits ` +
+          c.dim(`circuit open after ${failure.consecutiveFailures} failures`),
+      );
+      await emitWebhookEvent(scan.addr, "deposit.circuit_open", { ...failure }, scan.record);
+    }
+  } catch (err) {
+    console.error(
+      c.boldRed(`  ✗ Failed to record wallet failure for ${shortAddr(scan.addr)}:`),
+      err instanceof Error ? err.message : err,
+    );
+  }
+}
+
+// ── Log scan ─────────────────────────────────────────────────────────
+
+/** Most recent deposit events read per wallet to find its new transfers */
+const RECENT_TRANSFER_EVENTS = 100;
+
+/**
+ * Scan the `Transfer` logs to a chunk's wallets, recording each transfer
+ * as a deposit event.  `null` when the scan fails — every balance is read
+ * then.
+ */
+async function scanChunkLogs(
+  watches: LogWatch[],
+  clients: Map<number, PublicClient>,
+): Promise<TransferLogScan | null> {
+  try {
+    const logScan = await scanTransferLogs(watches, clients);
+    const found = [...logScan.events.values()].reduce((n, list) => n + list.length, 0);
+    const unscanned = new Set([...logScan.unscannedChainIds.values()].flatMap((ids) => [...ids]));
+    console.log(
+      `\n  🔎 Log scan: ${c.bold(String(found))} transfer(s) to ${watches.length} wallet(s)` +
+        (unscanned.size > 0
+          ? c.dim(`  (balances read on ${[...unscanned].map(chainName).join(", ")})`)
+          : ""),
+    );
+    return logScan;
+  } catch (err) {
+    console.error(
+      c.boldRed(`  ✗ Log scan failed:`),
+      err instanceof Error ? err.message : err,
+    );
+    return null;
   }
+}
 
-  return { successes, failures };
+/**
+ * The `chainId:symbol` pairs transfers touched since `since` (the
+ * wallet's last poll), from its recorded deposit events.  `null` when
+ * there may be more than one page of them — read every balance then.
+ */
+async function transfersSince(
+  addr: string,
+  since: string | null,
+): Promise<Set<string> | null> {
+  const after = since ? Date.parse(since) : 0;
+  const events = await getDepositEvents(addr, 0, RECENT_TRANSFER_EVENTS);
+  const recent = events.filter((e) => Date.parse(e.detectedAt) >= after);
+  if (recent.length === RECENT_TRANSFER_EVENTS) return null;
+  return new Set(recent.map((e) => `${e.chainId}:${e.tokenSymbol}`));
 }
 
 // ── Main entry point — called by the cron route ──────────────────────
@@ -555,20 +1438,179 @@ export type PollResult = {
   processed: number;
   bridged: { walletAddress: string; hash: string }[];
   errors: { walletAddress: string; error: string }[];
+  /** Wallets of the current pass left for the next invocation */
+  remaining: number;
 };
 
 export async function pollAllSessions(): Promise<PollResult> {
   const totalStart = Date.now();
+  // Past this point no new chunk or wallet action is started
+  const deadline = totalStart + pollTimeBudgetMs();
   console.log(header("🔄", "POLL CYCLE"));
 
-  const addresses = await getActiveAddresses();
+  // ── Phase 0: Settle supertxs submitted by earlier cycles ───────────
+  try {
+    await reconcilePendingSupertxs();
+  } catch (err) {
+    console.error(
+      c.boldRed(`  ✗ Reconciliation failed:`),
+      err instanceof Error ? err.message : err,
+    );
+  }
+
+  // Send webhooks queued by reconciliation and by earlier cycles
+  try {
+    await deliverWebhooks();
+  } catch (err) {
+    console.error(
+      c.boldRed(`  ✗ Webhook delivery failed:`),
+      err instanceof Error ? err.message : err,
+    );
+  }
+
+  // Advance an admin-started encryption key re-encryption job
+  try {
+    await runReencryptionBatch();
+  } catch (err) {
+    console.error(
+      c.boldRed(`  ✗ Re-encryption batch failed:`),
+      err instanceof Error ? err.message : err,
+    );
+  }
+
+  // ── Work through the poll queue until the time budget runs out ─────
+  let queue = await getPollQueue();
+  if (!queue || (queue.cursor >= queue.addresses.length && queue.carryOver.length === 0)) {
+    queue = await startPollPass(queue);
+  }
+
+  const result: PollResult = { processed: 0, bridged: [], errors: [], remaining: 0 };
+  const chunkSize = pollChunkSize();
+
+  const clients = new Map(
+    SUPPORTED_CHAINS.map((chain) => [
+      chain.id as number,
+      createPublicClient({ chain, transport: getTransport(chain) }) as PublicClient,
+    ]),
+  );
+
+  const cycle: PollCycle = {
+    totalStart,
+    deadline,
+    clients,
+    logsMode: depositDetectionMode() === "logs",
+  };
 
-  if (addresses.length === 0) {
+  if (queue.addresses.length === 0 && queue.carryOver.length === 0) {
     console.log(`\n  ${c.dim("No active sessions — nothing to do")}`);
-    console.log(footer());
-    return { processed: 0, bridged: [], errors: [] };
   }
 
+  // Carried over by earlier invocations — wallets this one defers wait
+  // for the next, rather than being retried straight away
+  let carryOver = queue.carryOver;
+  const deferredHere: string[] = [];
+
+  while (Date.now() < deadline) {
+    const carried = carryOver.slice(0, chunkSize);
+    const to = Math.min(queue.cursor + chunkSize - carried.length, queue.addresses.length);
+    const fresh = queue.addresses
+      .slice(queue.cursor, to)
+      .filter((addr) => !carried.includes(addr));
+    const chunk = [...carried, ...fresh];
+    if (chunk.length === 0) break;
+
+    if (queue.addresses.length > chunkSize || carried.length > 0) {
+      const range =
+        to > queue.cursor ? `wallets ${queue.cursor + 1}–${to} of ${queue.addresses.length}` : "";
+      console.log(
+        `\n  📦 ${c.bold(`Pass #${queue.pass}`)}  ${range}` +
+          (carried.length > 0 ? c.dim(`  (+${carried.length} carried over)`) : ""),
+      );
+    }
+
+    // A chunk that fails as a whole is reported and passed over, so the
+    // cursor still moves and the next pass retries its wallets
+    let deferred: string[] = [];
+    try {
+      const { deferred: chunkDeferred, ...chunkResult } = await pollWallets(chunk, cycle);
+      deferred = chunkDeferred;
+      result.processed += chunkResult.processed;
+      result.bridged.push(...chunkResult.bridged);
+      result.errors.push(...chunkResult.errors);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error(c.boldRed(`  ✗ Chunk failed:`), msg);
+      result.errors.push(...chunk.map((addr) => ({ walletAddress: addr, error: msg })));
+    }
+
+    // Only a finished chunk moves the cursor
+    carryOver = carryOver.slice(carried.length);
+    deferredHere.push(...deferred.filter((addr) => !deferredHere.includes(addr)));
+    const next: PollQueue = {
+      ...queue,
+      cursor: to,
+      carryOver: [...carryOver, ...deferredHere.filter((addr) => !carryOver.includes(addr))],
+    };
+    if (!(await savePollQueue(next, queue))) {
+      // An overlapping invocation moved the queue on — leave the rest to it
+      console.log(
+        `\n  🔀 ${c.yellow("Poll queue advanced by another invocation — stopping here")}`,
+      );
+      const latest =
+        deferredHere.length > 0 ? await carryOverWallets(deferredHere) : await getPollQueue();
+      queue = latest ?? next;
+      break;
+    }
+    queue = next;
+  }
+
+  result.remaining =
+    Math.max(queue.addresses.length - queue.cursor, 0) + queue.carryOver.length;
+  if (result.remaining > 0) {
+    console.log(
+      `\n  ⏱ ${c.yellow(`Time budget reached — ${result.remaining} wallet(s) of pass #${queue.pass} left for the next invocation`)}`,
+    );
+  }
+
+  // Publish this process's RPC endpoint health for the admin RPC page
+  try {
+    await saveRpcHealth(rpcHealthSnapshot());
+  } catch (err) {
+    console.error(
+      c.boldRed(`  ✗ Failed to save RPC health:`),
+      err instanceof Error ? err.message : err,
+    );
+  }
+
+  console.log(footer());
+  return result;
+}
+
+/** What every chunk of one invocation shares */
+type PollCycle = {
+  totalStart: number;
+  /** Past this point no new chunk or wallet action is started */
+  deadline: number;
+  /** One client per chain, shared by every wallet's reads */
+  clients: Map<number, PublicClient>;
+  /** Each chunk scans its wallets' transfer logs (DEPOSIT_DETECTION=logs) */
+  logsMode: boolean;
+};
+
+type ChunkResult = Omit<PollResult, "remaining"> & {
+  /**
+   * Wallets carried over — their actions were cut short by the deadline,
+   * or another cycle held their lease
+   */
+  deferred: string[];
+};
+
+/**
+ * Scan one chunk of the poll queue and act on its deposits: fetch the
+ * records, settle expiry and stale grants, lease the wallets, then scan
+ * and execute.
+ */
+async function pollWallets(addresses: string[], cycle: PollCycle): Promise<ChunkResult> {
   // ── Phase 1: Fetch all records in parallel ─────────────────────────
   const recordPairs = await Promise.all(
     addresses.map(async (addr) => ({
@@ -582,17 +1624,19 @@ export async function pollAllSessions(): Promise<PollResult> {
       p.record !== null && p.record !== undefined && p.record.active,
   );
 
-  if (allActive.length === 0) {
+  // Deactivate lapsed sessions — their permission no longer works
+  const unexpired = await checkSessionExpiry(allActive);
+
+  if (unexpired.length === 0) {
     console.log(`\n  ${c.dim("No active sessions — nothing to do")}`);
-    console.log(footer());
-    return { processed: 0, bridged: [], errors: [] };
+    return { processed: 0, bridged: [], errors: [], deferred: [] };
   }
 
   // Filter out sessions with stale permission sets
-  const staleRecords = allActive.filter(
+  const staleRecords = unexpired.filter(
     (p) => (p.record.sessionVersion ?? 0) < SESSION_VERSION,
   );
-  const activeRecords = allActive.filter(
+  const activeRecords = unexpired.filter(
     (p) => (p.record.sessionVersion ?? 0) >= SESSION_VERSION,
   );
 
@@ -602,46 +1646,163 @@ export async function pollAllSessions(): Promise<PollResult> {
     );
     for (const { addr, record } of staleRecords) {
       console.log(
-        `    ${c.yellow("↳")} ${c.cyan(shortAddr(addr))}  v${record.sessionVersion ?? "?"}  — user must re-setup session`,
+        `    ${c.yellow("↳")} ${c.cyan(shortAddr(addr))}  v${record.sessionVersion ?? "?"}  — user must re-grant`,
       );
+      // Flag the record so the owner is told (dashboard banner + webhook)
+      const reason = staleSessionReason(record.sessionVersion)!;
+      try {
+        if (await markSessionStale(addr, reason)) {
+          await emitWebhookEvent(
+            addr,
+            "session.stale",
+            { sessionVersion: record.sessionVersion ?? null, requiredVersion: SESSION_VERSION, reason },
+            record,
+          );
+        }
+      } catch (err) {
+        console.error(
+          c.boldRed(`  ✗ Failed to flag stale session ${shortAddr(addr)}:`),
+          err instanceof Error ? err.message : err,
+        );
+      }
     }
   }
 
   if (activeRecords.length === 0) {
     console.log(`\n  ${c.dim("No sessions with current permissions — nothing to do")}`);
-    console.log(footer());
-    return { processed: 0, bridged: [], errors: [] };
+    return { processed: 0, bridged: [], errors: [], deferred: [] };
   }
 
-  // ── Phase 2: Check all balances in parallel ────────────────────────
+  // ── Take a lease on every wallet ───────────────────────────────────
+  // Wallets still leased by an overlapping cycle are left to that cycle.
+  const leaseResults = await Promise.all(
+    activeRecords.map(async (p) => ({
+      ...p,
+      lease: await acquireWalletLease(p.addr, WALLET_LEASE_TTL_MS),
+    })),
+  );
+  const leasedRecords = leaseResults.filter(
+    (p): p is LeasedRecord => p.lease !== null,
+  );
+  const busyRecords = leaseResults.filter((p) => p.lease === null);
+
+  // Carried over like deferred wallets, so the pass still reaches them
+  const busy = busyRecords.map((p) => p.addr);
+  if (busyRecords.length > 0) {
+    console.log(
+      `\n  🔒 ${c.yellow(`${busyRecords.length} wallet(s) carried over — leased by another poll cycle:`)}`,
+    );
+    for (const { addr } of busyRecords) {
+      console.log(`    ${c.yellow("↳")} ${c.cyan(shortAddr(addr))}`);
+    }
+  }
+
+  if (leasedRecords.length === 0) {
+    console.log(`\n  ${c.dim("All wallets are being processed elsewhere — nothing to do")}`);
+    return { processed: 0, bridged: [], errors: [], deferred: busy };
+  }
+
+  try {
+    const chunkResult = await scanAndExecute(leasedRecords, cycle);
+    return { ...chunkResult, deferred: [...chunkResult.deferred, ...busy] };
+  } finally {
+    await Promise.all(
+      leasedRecords.map(({ lease }) =>
+        releaseWalletLease(lease).catch(() => {}),
+      ),
+    );
+  }
+}
+
+type LeasedRecord = { addr: string; record: SessionRecord; lease: WalletLease };
+
+async function scanAndExecute(
+  leasedRecords: LeasedRecord[],
+  cycle: PollCycle,
+): Promise<ChunkResult> {
+  const { totalStart, deadline } = cycle;
+  // ── Phase 2: Check all balances (batched per chain) ────────────────
   const scanStart = Date.now();
 
-  const walletScans: WalletScan[] = await Promise.all(
-    activeRecords.map(async ({ addr, record }) => {
-      const walletAddress = record.walletAddress as Address;
-      const { destChainId, recipientIsSelf } = record.listeningConfig;
+  // Tokens added since a wallet's grant are left alone until it re-grants
+  const registry = await getTokenRegistry();
 
-      const sourceChainIds = SUPPORTED_CHAINS.filter(
-        (ch) => ch.id !== destChainId,
-      ).map((ch) => ch.id);
+  const plans = leasedRecords.map(({ addr, record, lease }) => {
+    const walletAddress = record.walletAddress as Address;
+    const routes = resolveRoutes(walletAddress, record.listeningConfig);
+    const tokens = tokensForVersion(registry.tokens, record.tokenRegistryVersion ?? 0);
+    return {
+      addr,
+      record,
+      lease,
+      walletAddress,
+      routes,
+      watchedChainIds: watchedChainIds(walletAddress, routes),
+      tokens,
+    };
+  });
 
-      const watchedChainIds = recipientIsSelf
-        ? sourceChainIds
-        : [...sourceChainIds, destChainId];
+  // Logs mode scans the chunk's wallets only, within the time budget;
+  // without a scan every balance is read in full
+  const logScan = cycle.logsMode ? await scanChunkLogs(plans, cycle.clients) : null;
 
-      const checkResult = await checkBalances(walletAddress, watchedChainIds);
+  // Transfers recorded since each wallet's last poll — by this scan or
+  // by an earlier one whose poll never finished
+  const transfers = await Promise.all(
+    plans.map(({ addr, record }) =>
+      logScan ? transfersSince(addr, record.lastPollAt) : Promise.resolve(null),
+    ),
+  );
 
-      const actionableDeposits = checkResult.deposits.filter(
-        (dep) => !(dep.chainId === destChainId && recipientIsSelf),
-      );
+  // Logs mode reads only what transfers touched, until a full read is due
+  const now = Date.now();
+  const requests = plans.map(({ addr, record, walletAddress, watchedChainIds, tokens }, i) => {
+    const touched = transfers[i];
+    const reconcileDue =
+      !logScan ||
+      !touched ||
+      !record.lastBalanceCheckAt ||
+      now - Date.parse(record.lastBalanceCheckAt) >= balanceReconcileIntervalMs();
+    const reads = reconcileDue
+      ? undefined
+      : (chainId: number, symbol: string) =>
+          symbol === NATIVE_ETH_SYMBOL ||
+          !!logScan!.unscannedChainIds.get(addr.toLowerCase())?.has(chainId) ||
+          touched!.has(`${chainId}:${symbol}`);
+
+    return {
+      walletAddress,
+      watchedChainIds,
+      tokens,
+      minBridgeAmounts: record.listeningConfig.minBridgeAmounts,
+      reads,
+    };
+  });
 
-      return {
-        addr,
-        record,
-        checkResult,
-        watchedChainIds,
-        actionableDeposits,
-      };
+  const [checkResults, failures] = await Promise.all([
+    checkBalances(requests, cycle.clients),
+    Promise.all(plans.map(({ addr }) => getDepositFailures(addr))),
+  ]);
+
+  const walletScans: WalletScan[] = plans.map(
+    ({ addr, record, lease, routes, watchedChainIds, tokens }, i) => ({
+      addr,
+      record,
+      lease,
+      routes,
+      tokens,
+      checkResult: checkResults[i],
+      failures: failures[i],
+      fullBalanceRead: !requests[i].reads,
+      watchedChainIds,
+      // Deposits that keep failing wait out their backoff or open circuit
+      actionableDeposits: checkResults[i].deposits.filter(
+        (d) => !depositFailureHold(failures[i], d.chainId, d.tokenSymbol, now),
+      ),
+      heldDeposits: checkResults[i].deposits.flatMap((deposit) => {
+        const failure = depositFailureHold(failures[i], deposit.chainId, deposit.tokenSymbol, now);
+        return failure ? [{ deposit, failure }] : [];
+      }),
     }),
   );
 
@@ -655,16 +1816,11 @@ export async function pollAllSessions(): Promise<PollResult> {
   const walletsNeedingAction: WalletScan[] = [];
 
   for (const scan of walletScans) {
-    const { addr, record, checkResult, actionableDeposits } = scan;
-    const { destChainId, recipientIsSelf, recipientAddr, recipientTokenSymbol: rts } =
-      record.listeningConfig;
-    const recipientDisplay = recipientIsSelf
-      ? "self"
-      : shortAddr(recipientAddr);
-    const tokenTag = rts ? ` [${rts}]` : "";
+    const { addr, record, routes, tokens, checkResult, actionableDeposits } = scan;
+    const walletAddress = record.walletAddress as Address;
 
     const addrStr = c.cyan(shortAddr(addr));
-    const destStr = `→ ${chainName(destChainId)}${tokenTag} (${recipientDisplay})`;
+    const destStr = `→ ${routes.map((r) => routeLabel(r, walletAddress)).join(", ")}`;
 
     if (checkResult.entries.length === 0) {
       // No balances at all
@@ -687,7 +1843,7 @@ export async function pollAllSessions(): Promise<PollResult> {
       const depSummary = actionableDeposits
         .map(
           (d) =>
-            `${fmtToken(d.amount, d.tokenSymbol)} on ${chainName(d.chainId)}`,
+            `${fmtToken(d.amount, d.tokenSymbol, tokens)} on ${chainName(d.chainId)}`,
         )
         .join(c.dim(", "));
       console.log(
@@ -695,19 +1851,41 @@ export async function pollAllSessions(): Promise<PollResult> {
       );
       walletsNeedingAction.push(scan);
     }
+
+    for (const { deposit, failure } of scan.heldDeposits) {
+      const what = `${fmtToken(deposit.amount, deposit.tokenSymbol, tokens)} on ${chainName(deposit.chainId)}`;
+      console.log(
+        failure.circuitOpenedAt
+          ? `    ${c.red("⛔")} ${what}  ${c.dim(`circuit open after ${failure.consecutiveFailures} failures — ${failure.lastError}`)}`
+          : `    ${c.yellow("⏸")} ${what}  ${c.dim(`backing off until ${failure.retryAfter} (${failure.consecutiveFailures} failure(s))`)}`,
+      );
+    }
   }
 
   // ── Phase 4: Execute actions in parallel ───────────────────────────
-  const result: PollResult = {
+  const result: ChunkResult = {
     processed: walletScans.length,
     bridged: [],
     errors: [],
+    deferred: [],
   };
 
-  // Update lastPollAt for all scanned wallets (parallel, fire-and-forget)
+  // Update lastPollAt for all scanned wallets (parallel; a wallet whose
+  // update fails, e.g. deleted mid-cycle, is only logged).  Stamped with
+  // the scan's start, so transfers recorded while it ran are still read
+  // next time.
+  const at = new Date(scanStart).toISOString();
   await Promise.all(
     walletScans.map((scan) =>
-      updateSession(scan.addr, { lastPollAt: new Date().toISOString() }),
+      updateSession(
+        scan.addr,
+        scan.fullBalanceRead ? { lastPollAt: at, lastBalanceCheckAt: at } : { lastPollAt: at },
+      ).catch((err) => {
+        console.error(
+          c.boldRed(`  ✗ Failed to update lastPollAt for ${shortAddr(scan.addr)}:`),
+          err instanceof Error ? err.message : err,
+        );
+      }),
     ),
   );
 
@@ -722,7 +1900,15 @@ export async function pollAllSessions(): Promise<PollResult> {
         ["Total", fmtMs(totalElapsed)],
       ]),
     );
-    console.log(footer());
+    return result;
+  }
+
+  // Past the deadline, leave the actions to the next invocation
+  if (Date.now() >= deadline) {
+    result.deferred = walletsNeedingAction.map((scan) => scan.addr);
+    console.log(
+      `\n  ⏱ ${c.yellow(`Time budget reached — ${result.deferred.length} wallet(s) with deposits carried over`)}`,
+    );
     return result;
   }
 
@@ -737,7 +1923,9 @@ export async function pollAllSessions(): Promise<PollResult> {
   const execStart = Date.now();
 
   const execResults = await Promise.allSettled(
-    walletsNeedingAction.map((scan) => executeWalletActions(scan, feeCollectorAddr)),
+    walletsNeedingAction.map((scan) =>
+      executeWalletActions(scan, feeCollectorAddr, deadline),
+    ),
   );
 
   const execElapsed = Date.now() - execStart;
@@ -760,6 +1948,17 @@ export async function pollAllSessions(): Promise<PollResult> {
       for (const f of execResult.value.failures) {
         result.errors.push({ walletAddress: scan.addr, error: f.error });
       }
+      if (execResult.value.cutShort) result.deferred.push(scan.addr);
+
+      // The wallet could be processed again
+      if (scan.failures[WALLET_FAILURE_KEY]) {
+        await clearDepositFailures(scan.addr, [WALLET_FAILURE_KEY]).catch((err) =>
+          console.error(
+            c.boldRed(`  ✗ Failed to clear wallet failure for ${shortAddr(scan.addr)}:`),
+            err instanceof Error ? err.message : err,
+          ),
+        );
+      }
     } else {
       // Entire wallet processing threw
       const msg =
@@ -767,6 +1966,8 @@ export async function pollAllSessions(): Promise<PollResult> {
           ? execResult.reason.message
           : String(execResult.reason);
       result.errors.push({ walletAddress: scan.addr, error: msg });
+      // Back off the whole wallet — every deposit would fail the same way
+      await recordWalletProcessingFailure(scan, msg);
       allFailures.push({
         walletAddress: scan.addr,
         type: "bridge",
@@ -819,7 +2020,6 @@ export async function pollAllSessions(): Promise<PollResult> {
       ["Total", fmtMs(totalElapsed)],
     ]),
   );
-  console.log(footer());
 
   return result;
 }
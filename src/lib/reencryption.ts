@@ -0,0 +1,188 @@
+/**
+ * Re-encryption job — moves every stored secret onto the current key (the
+ * newest key in SESSION_ENCRYPTION_KEYS, or the provider's current KEK in
+ * envelope mode — see encrypt.ts) so older keys can be retired.  The same
+ * job migrates keyring blobs to envelope encryption after a mode switch.
+ *
+ * An owner starts the job from the admin panel; it snapshots every stored
+ * session record — inactive and expired ones included, since they are
+ * kept for renewal — and then works through them in batches.  Each batch
+ * is run by the admin panel while it is open and by every poll cycle
+ * (Phase 0), so the job finishes even if the admin navigates away.
+ * Progress is persisted after every batch (see `ReencryptionJob`).
+ *
+ * Each wallet is rewritten under its poll lease so a concurrent poll
+ * cycle can never write back a record it read before the rewrite.
+ * Wallets whose lease is busy are retried at the end of the queue.
+ */
+
+import {
+  getStoredSessionAddresses,
+  reencryptSession,
+  getReencryptionJob,
+  saveReencryptionJob,
+  acquireWalletLease,
+  releaseWalletLease,
+  appendAuditEntry,
+  type AuditActor,
+  type ReencryptionJob,
+} from "./db";
+import { currentKeyId, encryptionMode, keyringIds, type EncryptionMode } from "./encrypt";
+import { c, shortAddr } from "./log";
+
+/** Wallets processed per batch */
+export const REENCRYPTION_BATCH_SIZE = 25;
+/** One store read + write; poll cycles hold the lease far longer */
+const REENCRYPTION_LEASE_TTL_MS = 15_000;
+
+/** Job progress as shown to admins (the pending queue is summarised). */
+export type ReencryptionProgress = Omit<ReencryptionJob, "pending"> & {
+  processed: number;
+  remaining: number;
+};
+
+export function reencryptionProgress(job: ReencryptionJob): ReencryptionProgress {
+  const { pending, ...rest } = job;
+  return {
+    ...rest,
+    processed: job.reencrypted + job.current + job.missing + job.failed.length,
+    remaining: pending.length,
+  };
+}
+
+/** Keyring overview — key ids only, never key material. */
+export async function keyringStatus(): Promise<{
+  mode: EncryptionMode;
+  currentKeyId: string;
+  keyIds: string[];
+}> {
+  return {
+    mode: encryptionMode(),
+    currentKeyId: await currentKeyId(),
+    keyIds: keyringIds(),
+  };
+}
+
+/**
+ * Start a job over every stored session record.  Returns `null` if one is already
+ * running under the current key; a job left running under a key that is
+ * no longer current is replaced.
+ */
+export async function startReencryptionJob(
+  by: AuditActor,
+): Promise<ReencryptionJob | null> {
+  const targetKeyId = await currentKeyId();
+  const existing = await getReencryptionJob();
+  if (existing?.status === "running" && existing.targetKeyId === targetKeyId) {
+    return null;
+  }
+
+  const addresses = await getStoredSessionAddresses();
+  const now = new Date().toISOString();
+  const job: ReencryptionJob = {
+    status: addresses.length > 0 ? "running" : "done",
+    targetKeyId,
+    startedAt: now,
+    startedBy: by.actor.toLowerCase(),
+    updatedAt: now,
+    finishedAt: addresses.length > 0 ? undefined : now,
+    total: addresses.length,
+    pending: addresses,
+    reencrypted: 0,
+    current: 0,
+    missing: 0,
+    failed: [],
+  };
+  await saveReencryptionJob(job);
+
+  console.log(
+    `  🔐 ${c.boldBlue("RE-ENCRYPT")} started → key ${c.cyan(targetKeyId)}  ` +
+      c.dim(`${addresses.length} wallet(s)`),
+  );
+  await appendAuditEntry(by, {
+    action: "encryption.reencrypt_start",
+    target: targetKeyId,
+    details: { total: addresses.length },
+  });
+  return job;
+}
+
+/**
+ * Process the next batch of a running job.  Returns the updated job, or
+ * `null` when there is no job.  A no-op once the job is done.
+ */
+export async function runReencryptionBatch(
+  batchSize = REENCRYPTION_BATCH_SIZE,
+): Promise<ReencryptionJob | null> {
+  const job = await getReencryptionJob();
+  if (!job || job.status !== "running") return job;
+
+  const keyId = await currentKeyId();
+  if (job.targetKeyId !== keyId) {
+    // The keyring changed under a running job — an admin must restart it
+    console.warn(
+      `  ${c.yellow("⚠")} Re-encryption job targets key ${job.targetKeyId}, ` +
+        `but the current key is ${keyId} — restart it from the admin panel`,
+    );
+    return job;
+  }
+
+  const batch = job.pending.splice(0, batchSize);
+  const deferred: string[] = [];
+
+  for (const addr of batch) {
+    const lease = await acquireWalletLease(addr, REENCRYPTION_LEASE_TTL_MS);
+    if (!lease) {
+      deferred.push(addr);
+      continue;
+    }
+    try {
+      const outcome = await reencryptSession(addr);
+      job[outcome]++;
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      job.failed.push({ walletAddress: addr, error });
+      console.error(
+        c.boldRed(`  ✗ Re-encrypt ${shortAddr(addr)}:`),
+        error,
+      );
+    } finally {
+      await releaseWalletLease(lease).catch(() => {});
+    }
+  }
+
+  job.pending.push(...deferred);
+  job.updatedAt = new Date().toISOString();
+  if (job.pending.length === 0) {
+    job.status = "done";
+    job.finishedAt = job.updatedAt;
+  }
+  await saveReencryptionJob(job);
+
+  const progress = reencryptionProgress(job);
+  console.log(
+    `  🔐 Re-encrypt → ${c.cyan(job.targetKeyId)}  ` +
+      `${progress.processed}/${job.total}` +
+      c.dim(
+        `  (${job.reencrypted} rewritten, ${job.current} current, ` +
+          `${job.missing} gone, ${job.failed.length} failed` +
+          (deferred.length ? `, ${deferred.length} busy` : "") +
+          ")",
+      ),
+  );
+
+  if (job.status === "done") {
+    await appendAuditEntry({ actor: "system" }, {
+      action: "encryption.reencrypt_done",
+      target: job.targetKeyId,
+      details: {
+        total: job.total,
+        reencrypted: job.reencrypted,
+        current: job.current,
+        missing: job.missing,
+        failed: job.failed.length,
+      },
+    });
+  }
+  return job;
+}
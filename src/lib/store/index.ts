@@ -0,0 +1,42 @@
+/**
+ * Storage backend selection.
+ *
+ * SESSION_STORE picks the adapter behind the db module:
+ *   upstash (default) — Upstash Redis via KV_REST_API_URL / KV_REST_API_TOKEN
+ *   memory            — in-process, non-persistent (dev / CI)
+ *   sqlite            — file-backed via node:sqlite (offline dev / CI)
+ */
+
+import { c } from "../log";
+import { createUpstashStore } from "./upstash";
+import { createMemoryStore } from "./memory";
+import { createSqliteStore } from "./sqlite";
+import type { SessionStore } from "./types";
+
+export type { SessionStore, HistoryPatch } from "./types";
+
+const ADAPTERS: Record<string, () => SessionStore> = {
+  upstash: createUpstashStore,
+  memory: createMemoryStore,
+  sqlite: createSqliteStore,
+};
+
+let _store: SessionStore | null = null;
+
+/** The configured storage backend (lazy singleton). */
+export function store(): SessionStore {
+  if (!_store) {
+    const kind = (process.env.SESSION_STORE || "upstash").toLowerCase();
+    const create = ADAPTERS[kind];
+    if (!create) {
+      throw new Error(
+        `Unknown SESSION_STORE "${kind}" — expected one of: ${Object.keys(ADAPTERS).join(", ")}`,
+      );
+    }
+    _store = create();
+    if (kind !== "upstash") {
+      console.log(c.dim(`  🗄 Using ${kind} session store`));
+    }
+  }
+  return _store;
+}
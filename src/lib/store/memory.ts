@@ -0,0 +1,314 @@
+/**
+ * In-process memory adapter — for local development and CI.
+ *
+ * Nothing survives a restart, and state is per process: API routes and
+ * the poll cycle only see each other's writes when they run in the same
+ * server (`next dev` / `next start`).  Values are kept serialised so
+ * callers never share object references with the store, exactly like a
+ * real backend.
+ *
+ * The state hangs off `globalThis` so Next.js dev-mode module reloads do
+ * not silently wipe it.
+ */
+
+import { serialize, deserialize } from "../bigintJson";
+import type {
+  SessionRecord,
+  HistoryEntry,
+  PendingSupertx,
+  DepositEvent,
+  DepositClaim,
+  WebhookDelivery,
+  AuditEntry,
+} from "../db";
+import type { SessionStore } from "./types";
+
+type Expiring = { value: string; expiresAt: number };
+
+type MemoryState = {
+  sessions: Map<string, string>;
+  active: Set<string>;
+  /** Newest first, like the Redis LPUSH layout */
+  history: Map<string, string[]>;
+  pending: Map<string, string>;
+  /** Newest first, like history */
+  deposits: Map<string, string[]>;
+  config: Map<string, string>;
+  leases: Map<string, { token: number; expiresAt: number }>;
+  /** Survives `flush`, so fencing tokens keep increasing */
+  fences: Map<string, number>;
+  claims: Map<string, Expiring>;
+  /** Single-use key → expiry (epoch ms) */
+  nonces: Map<string, number>;
+  webhooks: Map<string, { runAt: number; value: string }>;
+  /** Newest first; survives `flush` */
+  audit: string[];
+};
+
+const GLOBAL_KEY = "__udaMemoryStore";
+
+function state(): MemoryState {
+  const g = globalThis as unknown as Record<string, MemoryState | undefined>;
+  if (!g[GLOBAL_KEY]) {
+    g[GLOBAL_KEY] = {
+      sessions: new Map(),
+      active: new Set(),
+      history: new Map(),
+      pending: new Map(),
+      deposits: new Map(),
+      config: new Map(),
+      leases: new Map(),
+      fences: new Map(),
+      claims: new Map(),
+      nonces: new Map(),
+      webhooks: new Map(),
+      audit: [],
+    };
+  }
+  return g[GLOBAL_KEY];
+}
+
+const pendingField = (addr: string, hash: string) => `${addr}:${hash}`;
+
+/** Returns the live claim, dropping it first if it has expired. */
+function liveClaim(key: string): Expiring | null {
+  const claim = state().claims.get(key);
+  if (!claim) return null;
+  if (claim.expiresAt <= Date.now()) {
+    state().claims.delete(key);
+    return null;
+  }
+  return claim;
+}
+
+/** Serialised audit entries, optionally only one wallet's */
+function auditFor(addr?: string): string[] {
+  const audit = state().audit;
+  if (!addr) return audit;
+  return audit.filter(
+    (raw) => deserialize<AuditEntry>(raw).walletAddress === addr,
+  );
+}
+
+export function createMemoryStore(): SessionStore {
+  return {
+    kind: "memory",
+
+    async getSession(addr) {
+      const raw = state().sessions.get(addr);
+      return raw ? deserialize<SessionRecord>(raw) : null;
+    },
+
+    async swapSession(record, expectedRevision) {
+      const raw = state().sessions.get(record.walletAddress);
+      const revision = raw ? (deserialize<SessionRecord>(raw).revision ?? 0) : null;
+      if (revision !== expectedRevision) return null;
+      const payload = serialize(record);
+      state().sessions.set(record.walletAddress, payload);
+      return payload.length;
+    },
+
+    async deleteSession(addr) {
+      state().sessions.delete(addr);
+    },
+
+    async listSessions() {
+      return [...state().sessions.keys()];
+    },
+
+    async addActive(addr) {
+      state().active.add(addr);
+    },
+
+    async removeActive(addr) {
+      state().active.delete(addr);
+    },
+
+    async listActive() {
+      return [...state().active];
+    },
+
+    async pushHistory(addr, entry) {
+      const payload = serialize(entry);
+      const list = state().history.get(addr) ?? [];
+      list.unshift(payload);
+      state().history.set(addr, list);
+      return payload.length;
+    },
+
+    async getHistory(addr, offset, limit) {
+      const list = state().history.get(addr) ?? [];
+      return list
+        .slice(offset, offset + limit)
+        .map((raw) => deserialize<HistoryEntry>(raw));
+    },
+
+    async countHistory(addr) {
+      return state().history.get(addr)?.length ?? 0;
+    },
+
+    async patchHistory(addr, hash, patch, scanDepth) {
+      const list = state().history.get(addr) ?? [];
+      let updated = 0;
+      for (let i = 0; i < Math.min(scanDepth, list.length); i++) {
+        const entry = deserialize<HistoryEntry>(list[i]);
+        if (entry.hash !== hash) continue;
+        list[i] = serialize({ ...entry, ...patch });
+        updated++;
+      }
+      return updated;
+    },
+
+    async putPendingSupertx(ref) {
+      state().pending.set(pendingField(ref.walletAddress, ref.hash), serialize(ref));
+    },
+
+    async listPendingSupertxs() {
+      return [...state().pending.values()].map((raw) =>
+        deserialize<PendingSupertx>(raw),
+      );
+    },
+
+    async deletePendingSupertx(addr, hash) {
+      state().pending.delete(pendingField(addr, hash));
+    },
+
+    async pushDepositEvent(addr, event) {
+      const list = state().deposits.get(addr) ?? [];
+      list.unshift(serialize(event));
+      state().deposits.set(addr, list);
+    },
+
+    async getDepositEvents(addr, offset, limit) {
+      const list = state().deposits.get(addr) ?? [];
+      return list
+        .slice(offset, offset + limit)
+        .map((raw) => deserialize<DepositEvent>(raw));
+    },
+
+    async countDepositEvents(addr) {
+      return state().deposits.get(addr)?.length ?? 0;
+    },
+
+    async getConfig(key) {
+      return state().config.get(key) ?? null;
+    },
+
+    async setConfig(key, value) {
+      state().config.set(key, value);
+    },
+
+    async swapConfig(key, expected, value) {
+      if ((state().config.get(key) ?? null) !== expected) return false;
+      state().config.set(key, value);
+      return true;
+    },
+
+    async acquireLease(addr, ttlMs) {
+      const s = state();
+      const token = (s.fences.get(addr) ?? 0) + 1;
+      s.fences.set(addr, token);
+
+      const current = s.leases.get(addr);
+      if (current && current.expiresAt > Date.now()) return null;
+
+      s.leases.set(addr, { token, expiresAt: Date.now() + ttlMs });
+      return token;
+    },
+
+    async getLeaseToken(addr) {
+      const current = state().leases.get(addr);
+      if (!current || current.expiresAt <= Date.now()) return null;
+      return current.token;
+    },
+
+    async releaseLease(addr, token) {
+      if (state().leases.get(addr)?.token === token) {
+        state().leases.delete(addr);
+      }
+    },
+
+    async createClaim(key, claim, ttlSeconds) {
+      if (liveClaim(key)) return false;
+      state().claims.set(key, {
+        value: serialize(claim),
+        expiresAt: Date.now() + ttlSeconds * 1000,
+      });
+      return true;
+    },
+
+    async replaceClaim(key, claim) {
+      const existing = liveClaim(key);
+      if (!existing) return;
+      existing.value = serialize(claim);
+    },
+
+    async getClaim(key) {
+      const existing = liveClaim(key);
+      return existing ? deserialize<DepositClaim>(existing.value) : null;
+    },
+
+    async deleteClaim(key) {
+      state().claims.delete(key);
+    },
+
+    async consumeNonce(key, ttlSeconds) {
+      const expiresAt = state().nonces.get(key);
+      if (expiresAt && expiresAt > Date.now()) return false;
+      state().nonces.set(key, Date.now() + ttlSeconds * 1000);
+      return true;
+    },
+
+    async hasNonce(key) {
+      return (state().nonces.get(key) ?? 0) > Date.now();
+    },
+
+    async deleteNonce(key) {
+      state().nonces.delete(key);
+    },
+
+    async enqueueWebhook(delivery) {
+      state().webhooks.set(delivery.id, {
+        runAt: delivery.nextAttemptAt,
+        value: serialize(delivery),
+      });
+    },
+
+    async claimDueWebhooks(now, limit, claimMs) {
+      const due = [...state().webhooks.values()]
+        .filter((w) => w.runAt <= now)
+        .sort((a, b) => a.runAt - b.runAt)
+        .slice(0, limit);
+      for (const w of due) w.runAt = now + claimMs;
+      return due.map((w) => deserialize<WebhookDelivery>(w.value));
+    },
+
+    async deleteWebhook(id) {
+      state().webhooks.delete(id);
+    },
+
+    async appendAudit(entry) {
+      state().audit.unshift(serialize(entry));
+    },
+
+    async listAudit(offset, limit, addr) {
+      return auditFor(addr)
+        .slice(offset, offset + limit)
+        .map((raw) => deserialize<AuditEntry>(raw));
+    },
+
+    async countAudit(addr) {
+      return auditFor(addr).length;
+    },
+
+    async flush() {
+      const g = globalThis as unknown as Record<string, MemoryState | undefined>;
+      const count = state().active.size;
+      const { audit, fences } = state();
+      g[GLOBAL_KEY] = undefined;
+      state().audit = audit;
+      state().fences = fences;
+      return count;
+    },
+  };
+}
@@ -0,0 +1,494 @@
+/**
+ * File-backed SQLite adapter — persistent offline storage for local
+ * development and CI, shared by every process that opens the same file
+ * (e.g. `next start` and a separate poll worker).
+ *
+ * Uses the built-in `node:sqlite` module (Node 22.5+), so there is no
+ * native dependency to install.  The database file defaults to
+ * `.data/sessions.sqlite` and can be moved with SESSION_STORE_SQLITE_PATH.
+ *
+ * Multi-step operations (lease acquisition, history patches) run inside
+ * `BEGIN IMMEDIATE` transactions so concurrent processes serialise on
+ * SQLite's write lock.
+ */
+
+import { mkdirSync } from "fs";
+import { dirname, resolve } from "path";
+import type { DatabaseSync } from "node:sqlite";
+import { serialize, deserialize } from "../bigintJson";
+import { c } from "../log";
+import type {
+  SessionRecord,
+  HistoryEntry,
+  PendingSupertx,
+  DepositEvent,
+  DepositClaim,
+  WebhookDelivery,
+  AuditEntry,
+} from "../db";
+import type { SessionStore } from "./types";
+
+const DEFAULT_PATH = ".data/sessions.sqlite";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS sessions (
+  address TEXT PRIMARY KEY,
+  record  TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS active_sessions (
+  address TEXT PRIMARY KEY
+);
+CREATE TABLE IF NOT EXISTS history (
+  id      INTEGER PRIMARY KEY AUTOINCREMENT,
+  address TEXT NOT NULL,
+  hash    TEXT,
+  entry   TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS history_by_address ON history (address, id);
+CREATE TABLE IF NOT EXISTS pending_supertx (
+  address TEXT NOT NULL,
+  hash    TEXT NOT NULL,
+  ref     TEXT NOT NULL,
+  PRIMARY KEY (address, hash)
+);
+CREATE TABLE IF NOT EXISTS deposit_events (
+  id      INTEGER PRIMARY KEY AUTOINCREMENT,
+  address TEXT NOT NULL,
+  event   TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS deposit_events_by_address ON deposit_events (address, id);
+CREATE TABLE IF NOT EXISTS config (
+  key   TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS leases (
+  address    TEXT PRIMARY KEY,
+  token      INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS lease_fences (
+  address TEXT PRIMARY KEY,
+  counter INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS claims (
+  key        TEXT PRIMARY KEY,
+  value      TEXT NOT NULL,
+  expires_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS nonces (
+  key        TEXT PRIMARY KEY,
+  expires_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS webhook_queue (
+  id       TEXT PRIMARY KEY,
+  run_at   INTEGER NOT NULL,
+  delivery TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS webhook_queue_by_run_at ON webhook_queue (run_at);
+CREATE TABLE IF NOT EXISTS audit_log (
+  id      INTEGER PRIMARY KEY AUTOINCREMENT,
+  address TEXT,
+  entry   TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS audit_log_by_address ON audit_log (address, id);
+`;
+
+/**
+ * Tables wiped by `flush` — everything but audit_log and lease_fences
+ * (fencing tokens must keep increasing across a flush)
+ */
+const TABLES = [
+  "sessions",
+  "active_sessions",
+  "history",
+  "pending_supertx",
+  "deposit_events",
+  "config",
+  "leases",
+  "claims",
+  "nonces",
+  "webhook_queue",
+];
+
+// ── Database handle (lazy singleton) ─────────────────────────────────
+
+let _db: DatabaseSync | null = null;
+
+/**
+ * The built-in node:sqlite module.  `process.getBuiltinModule` itself is
+ * missing before Node 22.3, and node:sqlite is missing before 22.5 (and
+ * before 22.13 without --experimental-sqlite).
+ */
+function sqliteModule(): typeof import("node:sqlite") {
+  const sqlite = process.getBuiltinModule?.("node:sqlite");
+  if (!sqlite) {
+    throw new Error(
+      `SESSION_STORE=sqlite requires Node.js 22.5+ with the built-in node:sqlite ` +
+        `module (running ${process.version}; 22.5–22.12 also need --experimental-sqlite). ` +
+        `Use SESSION_STORE=memory or upstash on this Node version.`,
+    );
+  }
+  return sqlite;
+}
+
+function db(): DatabaseSync {
+  if (!_db) {
+    const sqlite = sqliteModule();
+    const file = resolve(process.env.SESSION_STORE_SQLITE_PATH || DEFAULT_PATH);
+    mkdirSync(dirname(file), { recursive: true });
+
+    _db = new sqlite.DatabaseSync(file);
+    _db.exec("PRAGMA journal_mode = WAL;");
+    _db.exec("PRAGMA busy_timeout = 5000;");
+    _db.exec(SCHEMA);
+
+    console.log(c.dim(`  🗄 SQLite store at ${file}`));
+  }
+  return _db;
+}
+
+/** Run `fn` inside a write transaction. */
+function tx<T>(fn: (d: DatabaseSync) => T): T {
+  const d = db();
+  d.exec("BEGIN IMMEDIATE");
+  try {
+    const result = fn(d);
+    d.exec("COMMIT");
+    return result;
+  } catch (err) {
+    d.exec("ROLLBACK");
+    throw err;
+  }
+}
+
+type Row = Record<string, unknown>;
+
+function one(sql: string, ...params: (string | number | null)[]): Row | undefined {
+  return db().prepare(sql).get(...params) as Row | undefined;
+}
+
+function all(sql: string, ...params: (string | number | null)[]): Row[] {
+  return db().prepare(sql).all(...params) as Row[];
+}
+
+function run(sql: string, ...params: (string | number | null)[]): number {
+  return Number(db().prepare(sql).run(...params).changes);
+}
+
+// ── Adapter ──────────────────────────────────────────────────────────
+
+export function createSqliteStore(): SessionStore {
+  // Fail when the backend is selected, not on the first query
+  sqliteModule();
+
+  return {
+    kind: "sqlite",
+
+    async getSession(addr) {
+      const row = one("SELECT record FROM sessions WHERE address = ?", addr);
+      return row ? deserialize<SessionRecord>(row.record as string) : null;
+    },
+
+    async swapSession(record, expectedRevision) {
+      return tx((d) => {
+        const row = d
+          .prepare("SELECT record FROM sessions WHERE address = ?")
+          .get(record.walletAddress) as Row | undefined;
+        const revision = row
+          ? (deserialize<SessionRecord>(row.record as string).revision ?? 0)
+          : null;
+        if (revision !== expectedRevision) return null;
+        const payload = serialize(record);
+        d.prepare(
+          "INSERT INTO sessions (address, record) VALUES (?, ?) " +
+            "ON CONFLICT (address) DO UPDATE SET record = excluded.record",
+        ).run(record.walletAddress, payload);
+        return payload.length;
+      });
+    },
+
+    async deleteSession(addr) {
+      run("DELETE FROM sessions WHERE address = ?", addr);
+    },
+
+    async listSessions() {
+      return all("SELECT address FROM sessions").map((row) => row.address as string);
+    },
+
+    async addActive(addr) {
+      run("INSERT OR IGNORE INTO active_sessions (address) VALUES (?)", addr);
+    },
+
+    async removeActive(addr) {
+      run("DELETE FROM active_sessions WHERE address = ?", addr);
+    },
+
+    async listActive() {
+      return all("SELECT address FROM active_sessions").map(
+        (row) => row.address as string,
+      );
+    },
+
+    async pushHistory(addr, entry) {
+      const payload = serialize(entry);
+      run(
+        "INSERT INTO history (address, hash, entry) VALUES (?, ?, ?)",
+        addr,
+        entry.hash ?? null,
+        payload,
+      );
+      return payload.length;
+    },
+
+    async getHistory(addr, offset, limit) {
+      return all(
+        "SELECT entry FROM history WHERE address = ? ORDER BY id DESC LIMIT ? OFFSET ?",
+        addr,
+        limit,
+        offset,
+      ).map((row) => deserialize<HistoryEntry>(row.entry as string));
+    },
+
+    async countHistory(addr) {
+      const row = one("SELECT COUNT(*) AS n FROM history WHERE address = ?", addr);
+      return Number(row?.n ?? 0);
+    },
+
+    async patchHistory(addr, hash, patch, scanDepth) {
+      return tx((d) => {
+        const rows = d
+          .prepare(
+            "SELECT id, entry FROM (SELECT id, hash, entry FROM history " +
+              "WHERE address = ? ORDER BY id DESC LIMIT ?) WHERE hash = ?",
+          )
+          .all(addr, scanDepth, hash) as Row[];
+        const update = d.prepare("UPDATE history SET entry = ? WHERE id = ?");
+        for (const row of rows) {
+          const entry = deserialize<HistoryEntry>(row.entry as string);
+          update.run(serialize({ ...entry, ...patch }), row.id as number);
+        }
+        return rows.length;
+      });
+    },
+
+    async putPendingSupertx(ref) {
+      run(
+        "INSERT INTO pending_supertx (address, hash, ref) VALUES (?, ?, ?) " +
+          "ON CONFLICT (address, hash) DO UPDATE SET ref = excluded.ref",
+        ref.walletAddress,
+        ref.hash,
+        serialize(ref),
+      );
+    },
+
+    async listPendingSupertxs() {
+      return all("SELECT ref FROM pending_supertx").map((row) =>
+        deserialize<PendingSupertx>(row.ref as string),
+      );
+    },
+
+    async deletePendingSupertx(addr, hash) {
+      run("DELETE FROM pending_supertx WHERE address = ? AND hash = ?", addr, hash);
+    },
+
+    async pushDepositEvent(addr, event) {
+      run("INSERT INTO deposit_events (address, event) VALUES (?, ?)", addr, serialize(event));
+    },
+
+    async getDepositEvents(addr, offset, limit) {
+      return all(
+        "SELECT event FROM deposit_events WHERE address = ? ORDER BY id DESC LIMIT ? OFFSET ?",
+        addr,
+        limit,
+        offset,
+      ).map((row) => deserialize<DepositEvent>(row.event as string));
+    },
+
+    async countDepositEvents(addr) {
+      const row = one("SELECT COUNT(*) AS n FROM deposit_events WHERE address = ?", addr);
+      return Number(row?.n ?? 0);
+    },
+
+    async getConfig(key) {
+      const row = one("SELECT value FROM config WHERE key = ?", key);
+      return row ? (row.value as string) : null;
+    },
+
+    async setConfig(key, value) {
+      run(
+        "INSERT INTO config (key, value) VALUES (?, ?) " +
+          "ON CONFLICT (key) DO UPDATE SET value = excluded.value",
+        key,
+        value,
+      );
+    },
+
+    async swapConfig(key, expected, value) {
+      return tx((d) => {
+        const row = d.prepare("SELECT value FROM config WHERE key = ?").get(key) as
+          | Row
+          | undefined;
+        if ((row ? (row.value as string) : null) !== expected) return false;
+        d.prepare(
+          "INSERT INTO config (key, value) VALUES (?, ?) " +
+            "ON CONFLICT (key) DO UPDATE SET value = excluded.value",
+        ).run(key, value);
+        return true;
+      });
+    },
+
+    async acquireLease(addr, ttlMs) {
+      return tx((d) => {
+        const now = Date.now();
+        d.prepare(
+          "INSERT INTO lease_fences (address, counter) VALUES (?, 1) " +
+            "ON CONFLICT (address) DO UPDATE SET counter = counter + 1",
+        ).run(addr);
+        const token = Number(
+          (d.prepare("SELECT counter FROM lease_fences WHERE address = ?").get(addr) as Row)
+            .counter,
+        );
+
+        const held = d
+          .prepare("SELECT 1 FROM leases WHERE address = ? AND expires_at > ?")
+          .get(addr, now);
+        if (held) return null;
+
+        d.prepare(
+          "INSERT INTO leases (address, token, expires_at) VALUES (?, ?, ?) " +
+            "ON CONFLICT (address) DO UPDATE SET token = excluded.token, expires_at = excluded.expires_at",
+        ).run(addr, token, now + ttlMs);
+        return token;
+      });
+    },
+
+    async getLeaseToken(addr) {
+      const row = one(
+        "SELECT token FROM leases WHERE address = ? AND expires_at > ?",
+        addr,
+        Date.now(),
+      );
+      return row ? Number(row.token) : null;
+    },
+
+    async releaseLease(addr, token) {
+      run("DELETE FROM leases WHERE address = ? AND token = ?", addr, token);
+    },
+
+    async createClaim(key, claim, ttlSeconds) {
+      return tx((d) => {
+        const now = Date.now();
+        d.prepare("DELETE FROM claims WHERE key = ? AND expires_at <= ?").run(key, now);
+        const inserted = d
+          .prepare(
+            "INSERT OR IGNORE INTO claims (key, value, expires_at) VALUES (?, ?, ?)",
+          )
+          .run(key, serialize(claim), now + ttlSeconds * 1000);
+        return Number(inserted.changes) === 1;
+      });
+    },
+
+    async replaceClaim(key, claim) {
+      run(
+        "UPDATE claims SET value = ? WHERE key = ? AND expires_at > ?",
+        serialize(claim),
+        key,
+        Date.now(),
+      );
+    },
+
+    async getClaim(key) {
+      const row = one(
+        "SELECT value FROM claims WHERE key = ? AND expires_at > ?",
+        key,
+        Date.now(),
+      );
+      return row ? deserialize<DepositClaim>(row.value as string) : null;
+    },
+
+    async deleteClaim(key) {
+      run("DELETE FROM claims WHERE key = ?", key);
+    },
+
+    async consumeNonce(key, ttlSeconds) {
+      return tx((d) => {
+        const now = Date.now();
+        d.prepare("DELETE FROM nonces WHERE expires_at <= ?").run(now);
+        const inserted = d
+          .prepare("INSERT OR IGNORE INTO nonces (key, expires_at) VALUES (?, ?)")
+          .run(key, now + ttlSeconds * 1000);
+        return Number(inserted.changes) === 1;
+      });
+    },
+
+    async hasNonce(key) {
+      return !!one("SELECT 1 FROM nonces WHERE key = ? AND expires_at > ?", key, Date.now());
+    },
+
+    async deleteNonce(key) {
+      run("DELETE FROM nonces WHERE key = ?", key);
+    },
+
+    async enqueueWebhook(delivery) {
+      run(
+        "INSERT INTO webhook_queue (id, run_at, delivery) VALUES (?, ?, ?) " +
+          "ON CONFLICT (id) DO UPDATE SET run_at = excluded.run_at, delivery = excluded.delivery",
+        delivery.id,
+        delivery.nextAttemptAt,
+        serialize(delivery),
+      );
+    },
+
+    async claimDueWebhooks(now, limit, claimMs) {
+      return tx((d) => {
+        const rows = d
+          .prepare(
+            "SELECT id, delivery FROM webhook_queue WHERE run_at <= ? ORDER BY run_at LIMIT ?",
+          )
+          .all(now, limit) as Row[];
+        const bump = d.prepare("UPDATE webhook_queue SET run_at = ? WHERE id = ?");
+        for (const row of rows) bump.run(now + claimMs, row.id as string);
+        return rows.map((row) => deserialize<WebhookDelivery>(row.delivery as string));
+      });
+    },
+
+    async deleteWebhook(id) {
+      run("DELETE FROM webhook_queue WHERE id = ?", id);
+    },
+
+    async appendAudit(entry) {
+      run(
+        "INSERT INTO audit_log (address, entry) VALUES (?, ?)",
+        entry.walletAddress ?? null,
+        serialize(entry),
+      );
+    },
+
+    async listAudit(offset, limit, addr) {
+      const rows = addr
+        ? all(
+            "SELECT entry FROM audit_log WHERE address = ? ORDER BY id DESC LIMIT ? OFFSET ?",
+            addr,
+            limit,
+            offset,
+          )
+        : all("SELECT entry FROM audit_log ORDER BY id DESC LIMIT ? OFFSET ?", limit, offset);
+      return rows.map((row) => deserialize<AuditEntry>(row.entry as string));
+    },
+
+    async countAudit(addr) {
+      const row = addr
+        ? one("SELECT COUNT(*) AS n FROM audit_log WHERE address = ?", addr)
+        : one("SELECT COUNT(*) AS n FROM audit_log");
+      return Number(row?.n ?? 0);
+    },
+
+    async flush() {
+      return tx((d) => {
+        const row = d.prepare("SELECT COUNT(*) AS n FROM active_sessions").get() as Row;
+        for (const table of TABLES) d.exec(`DELETE FROM ${table}`);
+        return Number(row.n);
+      });
+    },
+  };
+}
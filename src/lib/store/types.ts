@@ -0,0 +1,140 @@
+/**
+ * Storage backend contract for the db module.
+ *
+ * `src/lib/db.ts` owns the business rules (encryption, logging, record
+ * defaults); a `SessionStore` only persists and retrieves.  Every adapter
+ * must behave identically so the register → poll → history flow runs the
+ * same against Upstash in production and the memory / SQLite adapters
+ * offline and in CI.
+ *
+ * Wallet addresses are always passed in lowercase.
+ */
+
+import type {
+  SessionRecord,
+  HistoryEntry,
+  PendingSupertx,
+  DepositEvent,
+  DepositClaim,
+  WebhookDelivery,
+  AuditEntry,
+} from "../db";
+
+/** Fields `patchHistory` may rewrite on an existing entry */
+export type HistoryPatch = Partial<
+  Pick<
+    HistoryEntry,
+    "status" | "error" | "originTxHash" | "fillTxHash" | "updatedAt"
+  >
+>;
+
+export interface SessionStore {
+  /** Adapter name, for logs ("upstash", "memory", "sqlite") */
+  readonly kind: string;
+
+  // ── Sessions ──────────────────────────────────────────────────────
+  getSession(addr: string): Promise<SessionRecord | null>;
+  /**
+   * Store `record` only if the stored one is still at `expectedRevision`
+   * (absent revision: 0; `null`: no record stored).  Returns the stored
+   * payload size in bytes, or `null`, writing nothing, when it changed
+   * in the meantime.
+   */
+  swapSession(record: SessionRecord, expectedRevision: number | null): Promise<number | null>;
+  deleteSession(addr: string): Promise<void>;
+  /** Address of every stored session record, active or not */
+  listSessions(): Promise<string[]>;
+
+  // ── Active set ────────────────────────────────────────────────────
+  addActive(addr: string): Promise<void>;
+  removeActive(addr: string): Promise<void>;
+  listActive(): Promise<string[]>;
+
+  // ── History (newest first) ────────────────────────────────────────
+  /** Prepend an entry; returns the stored payload size in bytes */
+  pushHistory(addr: string, entry: HistoryEntry): Promise<number>;
+  getHistory(addr: string, offset: number, limit: number): Promise<HistoryEntry[]>;
+  countHistory(addr: string): Promise<number>;
+  /**
+   * Atomically patch every entry with `hash` among the newest
+   * `scanDepth` entries.  Returns the number of entries updated.
+   */
+  patchHistory(
+    addr: string,
+    hash: string,
+    patch: HistoryPatch,
+    scanDepth: number,
+  ): Promise<number>;
+
+  // ── In-flight supertxs ────────────────────────────────────────────
+  putPendingSupertx(ref: PendingSupertx): Promise<void>;
+  listPendingSupertxs(): Promise<PendingSupertx[]>;
+  deletePendingSupertx(addr: string, hash: string): Promise<void>;
+
+  // ── Deposit events (newest first) ─────────────────────────────────
+  pushDepositEvent(addr: string, event: DepositEvent): Promise<void>;
+  getDepositEvents(addr: string, offset: number, limit: number): Promise<DepositEvent[]>;
+  countDepositEvents(addr: string): Promise<number>;
+
+  // ── App-wide config ───────────────────────────────────────────────
+  getConfig(key: string): Promise<string | null>;
+  setConfig(key: string, value: string): Promise<void>;
+  /**
+   * Set `key` only if it still holds `expected` (`null`: unset).
+   * Returns `false`, writing nothing, when it changed in the meantime.
+   */
+  swapConfig(key: string, expected: string | null, value: string): Promise<boolean>;
+
+  // ── Poll-cycle coordination ───────────────────────────────────────
+  /**
+   * Take the wallet lease if free.  Returns a fencing token strictly
+   * greater than any previously issued for the wallet, or `null`.
+   */
+  acquireLease(addr: string, ttlMs: number): Promise<number | null>;
+  /** Fencing token of the current (unexpired) holder, if any */
+  getLeaseToken(addr: string): Promise<number | null>;
+  /** Release only if still held with `token` */
+  releaseLease(addr: string, token: number): Promise<void>;
+
+  /** Create the claim unless one exists; `false` when already claimed */
+  createClaim(key: string, claim: DepositClaim, ttlSeconds: number): Promise<boolean>;
+  /** Replace an existing claim, keeping its expiry (no-op if gone) */
+  replaceClaim(key: string, claim: DepositClaim): Promise<void>;
+  getClaim(key: string): Promise<DepositClaim | null>;
+  deleteClaim(key: string): Promise<void>;
+
+  /**
+   * Record a single-use key for `ttlSeconds`.  `false` if it was already
+   * recorded (a replay).
+   */
+  consumeNonce(key: string, ttlSeconds: number): Promise<boolean>;
+  /** Whether a recorded key is still live */
+  hasNonce(key: string): Promise<boolean>;
+  deleteNonce(key: string): Promise<void>;
+
+  // ── Webhook delivery queue ────────────────────────────────────────
+  /** Insert or replace a delivery, due at `delivery.nextAttemptAt` */
+  enqueueWebhook(delivery: WebhookDelivery): Promise<void>;
+  /**
+   * Atomically take up to `limit` deliveries due at `now`, pushing their
+   * due time to `now + claimMs` so concurrent cycles skip them.
+   */
+  claimDueWebhooks(now: number, limit: number, claimMs: number): Promise<WebhookDelivery[]>;
+  deleteWebhook(id: string): Promise<void>;
+
+  // ── Audit log (newest first, append-only) ─────────────────────────
+  /** Append to the global stream and, if it has one, the entry's wallet stream */
+  appendAudit(entry: AuditEntry): Promise<void>;
+  /** Global stream, or one wallet's entries when `addr` is given */
+  listAudit(offset: number, limit: number, addr?: string): Promise<AuditEntry[]>;
+  countAudit(addr?: string): Promise<number>;
+
+  // ── Maintenance ───────────────────────────────────────────────────
+  /**
+   * Wipe everything except the audit log and the lease fencing counters
+   * (a token issued after the flush must still outrank any held by a
+   * cycle that started before it).  Returns how many active sessions
+   * were wiped.
+   */
+  flush(): Promise<number>;
+}
@@ -0,0 +1,452 @@
+/**
+ * Upstash Redis adapter (provisioned via Vercel marketplace).
+ *
+ * Vercel auto-injects these env vars when the store is linked:
+ *   KV_REST_API_URL
+ *   KV_REST_API_TOKEN
+ *
+ * Key layout:
+ *   session:<walletAddress>       →  JSON SessionRecord
+ *   sessions:active               →  SET { walletAddress, … }
+ *   history:<walletAddress>       →  LIST of JSON HistoryEntry (LPUSH, newest first)
+ *   history:pending               →  HASH { <walletAddress>:<hash> → PendingSupertx }
+ *   deposits:<walletAddress>      →  LIST of JSON DepositEvent (LPUSH, newest first)
+ *   config:<name>                 →  string
+ *   lease:<walletAddress>         →  fencing token   (SET NX PX ttl)
+ *   lease:fence:<walletAddress>   →  monotonic counter (INCR)
+ *   deposit:<walletAddress>:…     →  JSON DepositClaim (SET NX EX ttl)
+ *   deposit:event:<walletAddress>:…  →  "1" (SET NX EX ttl)
+ *   auth:nonce:<walletAddress>:…  →  "1" (SET NX EX ttl)
+ *   admin:challenge:<address>:…   →  "1" (SET NX EX ttl)
+ *   admin:nonce:<address>:…       →  "1" (SET NX EX ttl)
+ *   audit:log                     →  LIST of JSON AuditEntry (LPUSH, newest first)
+ *   audit:wallet:<walletAddress>  →  LIST of the wallet's AuditEntry (same order)
+ *   webhooks:queue                →  ZSET { deliveryId } scored by due time (ms)
+ *   webhooks:delivery             →  HASH { deliveryId → WebhookDelivery }
+ */
+
+import { Redis } from "@upstash/redis";
+import { serialize, deserialize, reviveBigInts } from "../bigintJson";
+import { c } from "../log";
+import type {
+  SessionRecord,
+  HistoryEntry,
+  PendingSupertx,
+  DepositEvent,
+  DepositClaim,
+  WebhookDelivery,
+  AuditEntry,
+} from "../db";
+import type { SessionStore, HistoryPatch } from "./types";
+
+// ── Redis client (lazy singleton) ────────────────────────────────────
+
+let _redis: Redis | null = null;
+
+function redis(): Redis {
+  if (!_redis) {
+    const url = process.env.KV_REST_API_URL;
+    const token = process.env.KV_REST_API_TOKEN;
+    if (!url || !token) {
+      console.error(
+        c.boldRed(`  🗄 ✗ Redis env vars missing!`) +
+          ` KV_REST_API_URL=${url ? "set" : c.red("MISSING")}` +
+          ` KV_REST_API_TOKEN=${token ? "set" : c.red("MISSING")}`,
+      );
+      throw new Error(
+        "Redis configuration missing — check KV_REST_API_URL and KV_REST_API_TOKEN env vars",
+      );
+    }
+    _redis = new Redis({ url, token });
+  }
+  return _redis;
+}
+
+// ── Key helpers ──────────────────────────────────────────────────────
+
+const sessionKey = (addr: string) => `session:${addr}`;
+const historyKey = (addr: string) => `history:${addr}`;
+const depositEventsKey = (addr: string) => `deposits:${addr}`;
+const configKey = (name: string) => `config:${name}`;
+const leaseKey = (addr: string) => `lease:${addr}`;
+const FENCE_PREFIX = "lease:fence:";
+const fenceKey = (addr: string) => `${FENCE_PREFIX}${addr}`;
+const ACTIVE_SET = "sessions:active";
+const PENDING_SUPERTX_HASH = "history:pending";
+const pendingField = (addr: string, hash: string) => `${addr}:${hash}`;
+const WEBHOOK_QUEUE = "webhooks:queue";
+const WEBHOOK_DELIVERIES = "webhooks:delivery";
+const AUDIT_PREFIX = "audit:";
+const AUDIT_LOG = "audit:log";
+const auditWalletKey = (addr: string) => `audit:wallet:${addr}`;
+
+// ── Internal: normalise a raw Redis value ────────────────────────────
+
+/**
+ * Upstash may return a raw string OR an already-parsed object depending
+ * on SDK version / internal behaviour.  Normalise either form, reviving
+ * BigInts.
+ */
+function parseRaw<T>(raw: string | Record<string, unknown>): T {
+  return typeof raw === "string" ? deserialize<T>(raw) : reviveBigInts<T>(raw);
+}
+
+/**
+ * Also handles **legacy records** where `sessionDetails` was stored
+ * as a pre-serialised JSON string (the old JSON-inside-JSON layout).
+ */
+function parseRawRecord(raw: string | Record<string, unknown>): SessionRecord {
+  const record = parseRaw<SessionRecord>(raw);
+
+  // Legacy migration: old records stored sessionDetails as a JSON string.
+  if (typeof record.sessionDetails === "string") {
+    record.sessionDetails = deserialize(record.sessionDetails);
+  }
+
+  return record;
+}
+
+// ── Lua scripts ──────────────────────────────────────────────────────
+
+/** Delete the lease only if it is still held with the given token. */
+const RELEASE_LEASE_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Set KEYS[1] to ARGV[3] only if it still holds ARGV[2] — or is unset,
+ * when ARGV[1] is "0".
+ */
+const SWAP_CONFIG_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+if ARGV[1] == "0" then
+  if current then return 0 end
+elseif current ~= ARGV[2] then
+  return 0
+end
+redis.call("SET", KEYS[1], ARGV[3])
+return 1
+`;
+
+/**
+ * Set the session record KEYS[1] to ARGV[3] only if the stored one is at
+ * revision ARGV[2] — or is unset, when ARGV[1] is "0".
+ */
+const SWAP_SESSION_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+if ARGV[1] == "0" then
+  if current then return 0 end
+else
+  if not current then return 0 end
+  local revision = cjson.decode(current).revision or 0
+  if revision ~= tonumber(ARGV[2]) then return 0 end
+end
+redis.call("SET", KEYS[1], ARGV[3])
+return 1
+`;
+
+/**
+ * Patch every history entry carrying ARGV[1] among the newest ARGV[3].
+ * Runs as one script so the find-and-LSET cannot race with a concurrent
+ * LPUSH shifting list indices.
+ */
+const PATCH_HISTORY_SCRIPT = `
+local items = redis.call("LRANGE", KEYS[1], 0, tonumber(ARGV[3]) - 1)
+local patch = cjson.decode(ARGV[2])
+local n = 0
+for i, raw in ipairs(items) do
+  local ok, entry = pcall(cjson.decode, raw)
+  if ok and type(entry) == "table" and entry.hash == ARGV[1] then
+    for k, v in pairs(patch) do entry[k] = v end
+    redis.call("LSET", KEYS[1], i - 1, cjson.encode(entry))
+    n = n + 1
+  end
+end
+return n
+`;
+
+/**
+ * Take up to ARGV[2] deliveries due by ARGV[1] and push their score to
+ * ARGV[3] in the same step, so two cycles never claim the same one.
+ */
+const CLAIM_WEBHOOKS_SCRIPT = `
+local ids = redis.call("ZRANGEBYSCORE", KEYS[1], "-inf", ARGV[1], "LIMIT", 0, tonumber(ARGV[2]))
+local out = {}
+for _, id in ipairs(ids) do
+  local raw = redis.call("HGET", KEYS[2], id)
+  if raw then
+    redis.call("ZADD", KEYS[1], ARGV[3], id)
+    table.insert(out, raw)
+  else
+    redis.call("ZREM", KEYS[1], id)
+  end
+end
+return out
+`;
+
+// ── Adapter ──────────────────────────────────────────────────────────
+
+export function createUpstashStore(): SessionStore {
+  return {
+    kind: "upstash",
+
+    async getSession(addr) {
+      const raw = await redis().get<string | Record<string, unknown>>(
+        sessionKey(addr),
+      );
+      return raw ? parseRawRecord(raw) : null;
+    },
+
+    async swapSession(record, expectedRevision) {
+      const payload = serialize(record);
+      const swapped = await redis().eval<[string, string, string], number>(
+        SWAP_SESSION_SCRIPT,
+        [sessionKey(record.walletAddress)],
+        [expectedRevision === null ? "0" : "1", String(expectedRevision ?? 0), payload],
+      );
+      return Number(swapped) === 1 ? payload.length : null;
+    },
+
+    async deleteSession(addr) {
+      await redis().del(sessionKey(addr));
+    },
+
+    async listSessions() {
+      const r = redis();
+      const addresses: string[] = [];
+      let cursor: string | number = 0;
+      do {
+        const [next, keys]: [string | number, string[]] = await r.scan(cursor, {
+          match: sessionKey("*"),
+          count: 500,
+        });
+        addresses.push(...keys.map((k) => k.slice(sessionKey("").length)));
+        cursor = next;
+      } while (String(cursor) !== "0");
+      return [...new Set(addresses)];
+    },
+
+    async addActive(addr) {
+      await redis().sadd(ACTIVE_SET, addr);
+    },
+
+    async removeActive(addr) {
+      await redis().srem(ACTIVE_SET, addr);
+    },
+
+    async listActive() {
+      return (await redis().smembers(ACTIVE_SET)) as string[];
+    },
+
+    async pushHistory(addr, entry) {
+      const payload = serialize(entry);
+      await redis().lpush(historyKey(addr), payload);
+      return payload.length;
+    },
+
+    async getHistory(addr, offset, limit) {
+      const raw = await redis().lrange(
+        historyKey(addr),
+        offset,
+        offset + limit - 1,
+      );
+      return (raw as (string | Record<string, unknown>)[]).map((item) =>
+        parseRaw<HistoryEntry>(item),
+      );
+    },
+
+    async countHistory(addr) {
+      return redis().llen(historyKey(addr));
+    },
+
+    async patchHistory(addr, hash, patch: HistoryPatch, scanDepth) {
+      const updated = await redis().eval<[string, string, string], number>(
+        PATCH_HISTORY_SCRIPT,
+        [historyKey(addr)],
+        [hash, serialize(patch), String(scanDepth)],
+      );
+      return Number(updated) || 0;
+    },
+
+    async putPendingSupertx(ref) {
+      await redis().hset(PENDING_SUPERTX_HASH, {
+        [pendingField(ref.walletAddress, ref.hash)]: serialize(ref),
+      });
+    },
+
+    async listPendingSupertxs() {
+      const raw = await redis().hgetall<
+        Record<string, string | Record<string, unknown>>
+      >(PENDING_SUPERTX_HASH);
+      if (!raw) return [];
+      return Object.values(raw).map((item) => parseRaw<PendingSupertx>(item));
+    },
+
+    async deletePendingSupertx(addr, hash) {
+      await redis().hdel(PENDING_SUPERTX_HASH, pendingField(addr, hash));
+    },
+
+    async pushDepositEvent(addr, event) {
+      await redis().lpush(depositEventsKey(addr), serialize(event));
+    },
+
+    async getDepositEvents(addr, offset, limit) {
+      const raw = await redis().lrange(
+        depositEventsKey(addr),
+        offset,
+        offset + limit - 1,
+      );
+      return (raw as (string | Record<string, unknown>)[]).map((item) =>
+        parseRaw<DepositEvent>(item),
+      );
+    },
+
+    async countDepositEvents(addr) {
+      return redis().llen(depositEventsKey(addr));
+    },
+
+    async getConfig(key) {
+      const value = await redis().get<unknown>(configKey(key));
+      if (value === null || value === undefined) return null;
+      // Upstash parses JSON values on read — hand back the stored text
+      return typeof value === "string" ? value : JSON.stringify(value);
+    },
+
+    async setConfig(key, value) {
+      await redis().set(configKey(key), value);
+    },
+
+    async swapConfig(key, expected, value) {
+      const swapped = await redis().eval<[string, string, string], number>(
+        SWAP_CONFIG_SCRIPT,
+        [configKey(key)],
+        [expected === null ? "0" : "1", expected ?? "", value],
+      );
+      return Number(swapped) === 1;
+    },
+
+    async acquireLease(addr, ttlMs) {
+      const r = redis();
+      const token = await r.incr(fenceKey(addr));
+      const ok = await r.set(leaseKey(addr), String(token), {
+        nx: true,
+        px: ttlMs,
+      });
+      return ok === "OK" ? token : null;
+    },
+
+    async getLeaseToken(addr) {
+      const current = await redis().get<string | number>(leaseKey(addr));
+      return current === null ? null : Number(current);
+    },
+
+    async releaseLease(addr, token) {
+      await redis().eval(RELEASE_LEASE_SCRIPT, [leaseKey(addr)], [String(token)]);
+    },
+
+    async createClaim(key, claim, ttlSeconds) {
+      const ok = await redis().set(key, serialize(claim), {
+        nx: true,
+        ex: ttlSeconds,
+      });
+      return ok === "OK";
+    },
+
+    async replaceClaim(key, claim) {
+      await redis().set(key, serialize(claim), { xx: true, keepTtl: true });
+    },
+
+    async getClaim(key) {
+      const raw = await redis().get<string | Record<string, unknown>>(key);
+      return raw ? parseRaw<DepositClaim>(raw) : null;
+    },
+
+    async deleteClaim(key) {
+      await redis().del(key);
+    },
+
+    async consumeNonce(key, ttlSeconds) {
+      const ok = await redis().set(key, "1", { nx: true, ex: ttlSeconds });
+      return ok === "OK";
+    },
+
+    async hasNonce(key) {
+      return (await redis().exists(key)) === 1;
+    },
+
+    async deleteNonce(key) {
+      await redis().del(key);
+    },
+
+    async enqueueWebhook(delivery) {
+      const r = redis();
+      await r.hset(WEBHOOK_DELIVERIES, { [delivery.id]: serialize(delivery) });
+      await r.zadd(WEBHOOK_QUEUE, {
+        score: delivery.nextAttemptAt,
+        member: delivery.id,
+      });
+    },
+
+    async claimDueWebhooks(now, limit, claimMs) {
+      const raw = await redis().eval<[string, string, string], unknown[]>(
+        CLAIM_WEBHOOKS_SCRIPT,
+        [WEBHOOK_QUEUE, WEBHOOK_DELIVERIES],
+        [String(now), String(limit), String(now + claimMs)],
+      );
+      return (raw ?? []).map((item) =>
+        parseRaw<WebhookDelivery>(item as string | Record<string, unknown>),
+      );
+    },
+
+    async deleteWebhook(id) {
+      const r = redis();
+      await r.zrem(WEBHOOK_QUEUE, id);
+      await r.hdel(WEBHOOK_DELIVERIES, id);
+    },
+
+    async appendAudit(entry) {
+      const payload = serialize(entry);
+      await redis().lpush(AUDIT_LOG, payload);
+      if (entry.walletAddress) {
+        await redis().lpush(auditWalletKey(entry.walletAddress), payload);
+      }
+    },
+
+    async listAudit(offset, limit, addr) {
+      const key = addr ? auditWalletKey(addr) : AUDIT_LOG;
+      const raw = await redis().lrange(key, offset, offset + limit - 1);
+      return (raw as (string | Record<string, unknown>)[]).map((item) =>
+        parseRaw<AuditEntry>(item),
+      );
+    },
+
+    async countAudit(addr) {
+      return redis().llen(addr ? auditWalletKey(addr) : AUDIT_LOG);
+    },
+
+    async flush() {
+      const r = redis();
+      // Grab count before nuking so we can report it
+      const count = ((await r.smembers(ACTIVE_SET)) as string[]).length;
+
+      // Delete every key except the audit streams and lease fencing
+      // counters (FLUSHDB would take them too)
+      let cursor: string | number = 0;
+      do {
+        const [next, keys]: [string | number, string[]] = await r.scan(cursor, {
+          count: 500,
+        });
+        const doomed = keys.filter(
+          (k) => !k.startsWith(AUDIT_PREFIX) && !k.startsWith(FENCE_PREFIX),
+        );
+        if (doomed.length > 0) await r.del(...doomed);
+        cursor = next;
+      } while (String(cursor) !== "0");
+
+      return count;
+    },
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Wallet-owner authentication for the per-wallet API routes.
+ *
+ * Mutating requests (register, reconfigure, deregister, history writes,
+ * webhook management) must be signed by the wallet they act on — see
+ * walletAuthMessage.ts for the message format.  A request is accepted
+ * only if:
+ *   - the message names the wallet acted on and this exact method + path,
+ *   - its body hash matches the request body,
+ *   - it was issued within the last 5 minutes,
+ *   - the personal_sign signature recovers to that wallet, and
+ *   - its nonce has not been seen before (recorded in the session store).
+ */
+
+import { verifyMessage } from "viem";
+import { consumeAuthNonce, type AuditActor } from "./db";
+import { requestIp } from "./clientIp";
+import {
+  WALLET_MESSAGE_HEADER,
+  WALLET_SIGNATURE_HEADER,
+  parseWalletAuthMessage,
+  hashWalletAuthBody,
+} from "./walletAuthMessage";
+
+/** Signature validity window */
+const MAX_AGE_MS = 5 * 60 * 1000;
+/** Tolerated client clock drift into the future */
+const MAX_CLOCK_SKEW_MS = 60 * 1000;
+
+export type WalletAuthResult =
+  | { ok: true }
+  | { ok: false; error: string; status: number };
+
+/**
+ * Verify that `req` was signed by `walletAddress`.  Routes that read the
+ * body before verifying pass it as `rawBody`.
+ */
+export async function verifyWalletRequest(
+  req: Request,
+  walletAddress: string,
+  rawBody?: string,
+): Promise<WalletAuthResult> {
+  const signature = req.headers.get(WALLET_SIGNATURE_HEADER) as `0x${string}` | null;
+  const encoded = req.headers.get(WALLET_MESSAGE_HEADER);
+
+  if (!signature || !encoded) {
+    return { ok: false, error: "Missing wallet signature", status: 401 };
+  }
+
+  let message: string;
+  try {
+    message = decodeURIComponent(encoded);
+  } catch {
+    return { ok: false, error: "Malformed wallet message", status: 401 };
+  }
+
+  const fields = parseWalletAuthMessage(message);
+  if (!fields) {
+    return { ok: false, error: "Malformed wallet message", status: 401 };
+  }
+
+  if (fields.address.toLowerCase() !== walletAddress.toLowerCase()) {
+    return { ok: false, error: "Signature is for a different wallet", status: 403 };
+  }
+
+  const url = new URL(req.url);
+  const action = `${req.method} ${url.pathname}${url.search}`;
+  if (fields.action.toLowerCase() !== action.toLowerCase()) {
+    return { ok: false, error: "Signature is for a different request", status: 403 };
+  }
+
+  // Read a clone, so the route can still read the body itself
+  const body = rawBody ?? (await req.clone().text());
+  if (fields.bodyHash.toLowerCase() !== hashWalletAuthBody(body).toLowerCase()) {
+    return { ok: false, error: "Signature is for a different request body", status: 403 };
+  }
+
+  const issuedAt = Date.parse(fields.issuedAt);
+  if (
+    Number.isNaN(issuedAt) ||
+    Date.now() - issuedAt > MAX_AGE_MS ||
+    issuedAt - Date.now() > MAX_CLOCK_SKEW_MS
+  ) {
+    return { ok: false, error: "Signature expired — please sign again", status: 401 };
+  }
+
+  try {
+    const valid = await verifyMessage({
+      address: fields.address as `0x${string}`,
+      message,
+      signature,
+    });
+    if (!valid) {
+      return { ok: false, error: "Invalid signature", status: 403 };
+    }
+  } catch {
+    return { ok: false, error: "Signature verification failed", status: 403 };
+  }
+
+  // Record the nonce last, so unsigned junk can't burn nonces
+  const ttlSeconds = Math.ceil((MAX_AGE_MS + MAX_CLOCK_SKEW_MS) / 1000);
+  if (!(await consumeAuthNonce(walletAddress, fields.nonce, ttlSeconds))) {
+    return { ok: false, error: "Signature already used — please sign again", status: 401 };
+  }
+
+  return { ok: true };
+}
+
+/** Attribute a db change to the wallet owner who signed `req`. */
+export function walletActor(req: Request, walletAddress: string): AuditActor {
+  return { actor: walletAddress, ip: requestIp(req) };
+}
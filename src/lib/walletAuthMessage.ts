@@ -0,0 +1,80 @@
+/**
+ * Wallet-signed request messages — shared by the browser (which signs)
+ * and the API routes (which verify, see walletAuth.ts).
+ *
+ * The message follows the shape of a SIWE (EIP-4361) message and binds
+ * the signature to one wallet, one HTTP method + path, one request body,
+ * one nonce and one point in time:
+ *
+ *   Universal Deposit Address wants you to sign in with your Ethereum account:
+ *   0xabc…
+ *
+ *   Authorize: PATCH /api/sessions/0xabc…
+ *   Body-Hash: 0x…   (sha256 of the raw body; of "" when there is none)
+ *
+ *   Nonce: 3f9c…
+ *   Issued At: 2025-01-01T00:00:00.000Z
+ *
+ * It travels URI-encoded in the X-Wallet-Message header (headers cannot
+ * carry newlines) next to the personal_sign signature in X-Wallet-Signature.
+ */
+
+import { sha256, stringToBytes } from "viem";
+
+export const WALLET_MESSAGE_HEADER = "x-wallet-message";
+export const WALLET_SIGNATURE_HEADER = "x-wallet-signature";
+
+const DOMAIN_LINE =
+  "Universal Deposit Address wants you to sign in with your Ethereum account:";
+
+export type WalletAuthFields = {
+  address: string;
+  /** "<METHOD> <path + query>", e.g. "DELETE /api/sessions/0xabc…" */
+  action: string;
+  /** `hashWalletAuthBody` of the request body */
+  bodyHash: string;
+  nonce: string;
+  /** ISO timestamp */
+  issuedAt: string;
+};
+
+/** sha256 of a raw request body (`""` when the request has none). */
+export function hashWalletAuthBody(body: string | undefined): string {
+  return sha256(stringToBytes(body ?? ""));
+}
+
+export function buildWalletAuthMessage(fields: WalletAuthFields): string {
+  return [
+    DOMAIN_LINE,
+    fields.address,
+    "",
+    `Authorize: ${fields.action}`,
+    `Body-Hash: ${fields.bodyHash}`,
+    "",
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+  ].join("\n");
+}
+
+/** Parse a message built by `buildWalletAuthMessage`; `null` if malformed. */
+export function parseWalletAuthMessage(message: string): WalletAuthFields | null {
+  const lines = message.split("\n");
+  if (lines.length !== 8 || lines[0] !== DOMAIN_LINE) return null;
+
+  const field = (line: string, label: string) =>
+    line.startsWith(`${label}: `) ? line.slice(label.length + 2) : null;
+
+  const address = lines[1];
+  const action = field(lines[3], "Authorize");
+  const bodyHash = field(lines[4], "Body-Hash");
+  const nonce = field(lines[6], "Nonce");
+  const issuedAt = field(lines[7], "Issued At");
+
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address) || !action || !nonce || !issuedAt) {
+    return null;
+  }
+  if (!bodyHash || !/^0x[a-fA-F0-9]{64}$/.test(bodyHash)) return null;
+  if (!/^[a-zA-Z0-9]{16,64}$/.test(nonce)) return null;
+
+  return { address, action, bodyHash, nonce, issuedAt };
+}
@@ -0,0 +1,390 @@
+/**
+ * Outbound webhooks — signed event notifications to wallet owners.
+ *
+ * Events are queued by `emitWebhookEvent` (one delivery per subscribed
+ * endpoint) and sent by `deliverWebhooks`, which runs at the start of
+ * every poll cycle — so an event goes out within about a minute.
+ * Failed deliveries are retried with exponential backoff until
+ * WEBHOOK_MAX_ATTEMPTS, then dropped.
+ *
+ * Every request carries:
+ *   X-Webhook-Id         delivery id (stable across retries — dedupe on it)
+ *   X-Webhook-Event      event name
+ *   X-Webhook-Signature  t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ *
+ * The HMAC key is the endpoint's `whsec_…` secret, returned once when the
+ * endpoint is registered via /api/sessions/[address]/webhooks.
+ *
+ * Endpoint hosts must resolve to public addresses — checked when the
+ * endpoint is registered, and on every delivery by the lookup the
+ * connection itself uses, so a DNS answer that changes after the check
+ * (rebinding) cannot point it elsewhere.  Redirects are never followed,
+ * so a webhook cannot reach into the deployment's own network.
+ */
+
+import { createHmac, randomUUID } from "crypto";
+import { lookup as dnsLookup } from "dns";
+import { lookup } from "dns/promises";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import {
+  getSession,
+  enqueueWebhookDelivery,
+  claimDueWebhookDeliveries,
+  completeWebhookDelivery,
+  decryptWebhookSecret,
+  type SessionRecord,
+  type WebhookDelivery,
+  type WebhookEvent,
+} from "./db";
+import { c, shortAddr, fmtMs } from "./log";
+
+// ── Constants ────────────────────────────────────────────────────────
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  "deposit.detected",
+  "bridge.submitted",
+  "bridge.filled",
+  "bridge.failed",
+  "session.expiring",
+  "session.expired",
+  "session.stale",
+  "deposit.circuit_open",
+];
+
+/** Most endpoints a single wallet may register */
+export const MAX_WEBHOOK_ENDPOINTS = 5;
+
+/** Attempts before a delivery is dropped (≈4 h of retries with the backoff below) */
+const WEBHOOK_MAX_ATTEMPTS = 10;
+/** First retry delay; doubles on every failed attempt */
+const WEBHOOK_BACKOFF_BASE_MS = 30_000;
+const WEBHOOK_BACKOFF_MAX_MS = 6 * 60 * 60_000;
+/** Per-request timeout — keeps a slow endpoint from stalling the cycle */
+const WEBHOOK_TIMEOUT_MS = 5_000;
+/** Deliveries sent per poll cycle */
+const WEBHOOK_BATCH_SIZE = 50;
+/** How long a claimed delivery stays hidden from other cycles */
+const WEBHOOK_CLAIM_MS = 60_000;
+
+/** Loopback ranges — allowed as endpoints outside production only */
+const LOOPBACK_RANGES = new BlockList();
+LOOPBACK_RANGES.addSubnet("127.0.0.0", 8, "ipv4");
+LOOPBACK_RANGES.addAddress("::1", "ipv6");
+
+/** Addresses a webhook may never be sent to */
+const NON_PUBLIC_RANGES = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // link-local, incl. cloud metadata
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved, broadcast
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(net, prefix, "ipv4");
+}
+for (const [net, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96], // NAT64 of any IPv4 address
+  ["fc00::", 7], // unique local, incl. fd00:ec2::254 metadata
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(net, prefix, "ipv6");
+}
+
+// ── Signing ──────────────────────────────────────────────────────────
+
+/** `t=…,v1=…` signature header value for a body sent at `timestamp`. */
+export function signWebhookBody(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const mac = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${mac}`;
+}
+
+/** Endpoint URLs must be HTTPS (plain HTTP only for localhost, in dev). */
+export function validateWebhookUrl(value: unknown): string | null {
+  if (typeof value !== "string") return "url must be a string";
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "url is not a valid URL";
+  }
+  const isLocal = url.hostname === "localhost" || url.hostname === "127.0.0.1";
+  if (url.protocol === "https:") return null;
+  if (url.protocol === "http:" && isLocal && process.env.NODE_ENV !== "production") {
+    return null;
+  }
+  return "url must use https";
+}
+
+/** `::ffff:a.b.c.d` → `a.b.c.d`, so mapped addresses get the IPv4 rules */
+function unmapIpv4(address: string): string {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  return mapped ? mapped[1] : address;
+}
+
+/**
+ * Why `host` may not be sent webhooks given the addresses it resolves
+ * to — any loopback, private, link-local or otherwise non-public one
+ * (loopback is allowed outside production, for local testing) — or null
+ * when they are all public.
+ */
+function nonPublicAddressError(host: string, addresses: string[]): string | null {
+  const allowLoopback = process.env.NODE_ENV !== "production";
+  for (const raw of addresses) {
+    const address = unmapIpv4(raw);
+    const type = isIP(address) === 6 ? "ipv6" : "ipv4";
+    if (allowLoopback && LOOPBACK_RANGES.check(address, type)) continue;
+    if (NON_PUBLIC_RANGES.check(address, type)) {
+      return `url host ${host} resolves to a non-public address (${raw})`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve an endpoint URL's host and reject it when any address is not
+ * public (see `nonPublicAddressError`).  Returns an error message, or
+ * null when the host is public.
+ */
+export async function checkWebhookHost(value: string): Promise<string | null> {
+  const host = new URL(value).hostname.replace(/^\[|\]$/g, "");
+
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true, verbatim: true })).map((a) => a.address);
+    } catch {
+      return `url host ${host} does not resolve`;
+    }
+  }
+  return nonPublicAddressError(host, addresses);
+}
+
+/**
+ * DNS lookup for delivery connections: fails when the host resolves to
+ * a non-public address, so the socket connects only to addresses that
+ * passed the check.
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true, verbatim: true }, (err, addresses) => {
+    if (err) return callback(err, "", 0);
+    const error = nonPublicAddressError(hostname, addresses.map((a) => a.address));
+    if (error) return callback(new Error(error), "", 0);
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * POST `body` to an endpoint and return the response status.  Connects
+ * through `publicOnlyLookup` (IP-literal hosts skip DNS and are checked
+ * here) and never follows redirects.
+ */
+async function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+): Promise<number> {
+  const target = new URL(url);
+  const host = target.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host)) {
+    const error = nonPublicAddressError(host, [host]);
+    if (error) throw new Error(error);
+  }
+
+  return new Promise((resolve, reject) => {
+    const req = (target.protocol === "https:" ? https : http).request(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) },
+        lookup: publicOnlyLookup,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      },
+      (res) => {
+        // Only the status matters
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      },
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+// ── Emit ─────────────────────────────────────────────────────────────
+
+/**
+ * Queue `event` for every endpoint of the wallet subscribed to it.
+ * Never throws — webhook bookkeeping must not break a poll cycle.
+ */
+export async function emitWebhookEvent(
+  walletAddress: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+  record?: SessionRecord | null,
+): Promise<void> {
+  try {
+    const session = record ?? (await getSession(walletAddress));
+    const endpoints = (session?.webhooks ?? []).filter((w) =>
+      w.events.includes(event),
+    );
+    if (endpoints.length === 0) return;
+
+    const now = new Date();
+    const body = JSON.stringify({
+      id: `evt_${randomUUID()}`,
+      event,
+      createdAt: now.toISOString(),
+      walletAddress: walletAddress.toLowerCase(),
+      data,
+    });
+
+    for (const endpoint of endpoints) {
+      await enqueueWebhookDelivery({
+        id: `whd_${randomUUID()}`,
+        walletAddress: walletAddress.toLowerCase(),
+        endpointId: endpoint.id,
+        event,
+        body,
+        attempts: 0,
+        nextAttemptAt: now.getTime(),
+        createdAt: now.toISOString(),
+      });
+    }
+  } catch (err) {
+    console.error(
+      c.boldRed(`  📬 ✗ Failed to queue ${event} for ${shortAddr(walletAddress)}:`),
+      err instanceof Error ? err.message : err,
+    );
+  }
+}
+
+// ── Deliver ──────────────────────────────────────────────────────────
+
+type DeliveryOutcome = "delivered" | "retrying" | "dropped";
+
+function backoffMs(attempts: number): number {
+  const delay = WEBHOOK_BACKOFF_BASE_MS * 2 ** (attempts - 1);
+  // ±20% jitter so retries from one outage don't arrive in lockstep
+  const jitter = 0.8 + Math.random() * 0.4;
+  return Math.min(delay, WEBHOOK_BACKOFF_MAX_MS) * jitter;
+}
+
+async function deliverOne(
+  delivery: WebhookDelivery,
+  sessions: Map<string, Promise<SessionRecord | null>>,
+): Promise<DeliveryOutcome> {
+  if (!sessions.has(delivery.walletAddress)) {
+    sessions.set(delivery.walletAddress, getSession(delivery.walletAddress));
+  }
+  const session = await sessions.get(delivery.walletAddress)!;
+  const endpoint = session?.webhooks?.find((w) => w.id === delivery.endpointId);
+
+  // Endpoint (or whole session) was removed after the event was queued
+  if (!endpoint) {
+    await completeWebhookDelivery(delivery.id);
+    return "dropped";
+  }
+
+  let error: string;
+  try {
+    const secret = await decryptWebhookSecret(endpoint);
+    const timestamp = Math.floor(Date.now() / 1000);
+    // DNS may have changed since the endpoint was registered — the
+    // connection only goes to addresses that pass the check again
+    const status = await postWebhook(
+      endpoint.url,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "uda-webhooks/1",
+        "X-Webhook-Id": delivery.id,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Signature": signWebhookBody(
+          secret,
+          timestamp,
+          delivery.body,
+        ),
+      },
+      delivery.body,
+    );
+
+    if (status >= 200 && status < 300) {
+      await completeWebhookDelivery(delivery.id);
+      return "delivered";
+    }
+    error =
+      status >= 300 && status < 400
+        ? `HTTP ${status} (redirects are not followed)`
+        : `HTTP ${status}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const attempts = delivery.attempts + 1;
+  if (attempts >= WEBHOOK_MAX_ATTEMPTS) {
+    console.log(
+      `    ${c.red("↳")} ${c.cyan(shortAddr(delivery.walletAddress))} ${delivery.event} → ` +
+        `${endpoint.url} ${c.red(`dropped after ${attempts} attempts (${error})`)}`,
+    );
+    await completeWebhookDelivery(delivery.id);
+    return "dropped";
+  }
+
+  await enqueueWebhookDelivery({
+    ...delivery,
+    attempts,
+    nextAttemptAt: Date.now() + backoffMs(attempts),
+    lastError: error,
+  });
+  return "retrying";
+}
+
+/** Send every due delivery (up to WEBHOOK_BATCH_SIZE) once. */
+export async function deliverWebhooks(): Promise<void> {
+  const due = await claimDueWebhookDeliveries(WEBHOOK_BATCH_SIZE, WEBHOOK_CLAIM_MS);
+  if (due.length === 0) return;
+
+  const start = Date.now();
+  const sessions = new Map<string, Promise<SessionRecord | null>>();
+  const outcomes = await Promise.allSettled(
+    due.map((d) => deliverOne(d, sessions)),
+  );
+
+  const counts: Record<DeliveryOutcome | "errors", number> = {
+    delivered: 0,
+    retrying: 0,
+    dropped: 0,
+    errors: 0,
+  };
+  for (const o of outcomes) {
+    if (o.status === "fulfilled") counts[o.value]++;
+    else counts.errors++;
+  }
+
+  console.log(
+    `\n  📬 Sent ${c.bold(String(due.length))} webhook(s) ${c.dim(`(${fmtMs(Date.now() - start)})`)}  ` +
+      c.dim(
+        `delivered ${counts.delivered} · retrying ${counts.retrying} · dropped ${counts.dropped}` +
+          (counts.errors ? ` · errors ${counts.errors}` : ""),
+      ),
+  );
+}
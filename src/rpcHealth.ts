@@ -0,0 +1,176 @@
+import {
+  HttpRequestError,
+  LimitExceededRpcError,
+  TimeoutError,
+  type Transport,
+} from "viem";
+import { chainRpcUrls } from "./chains";
+
+/**
+ * RPC endpoint health — latency and error rate per endpoint, recorded by
+ * the transports `getTransport` builds (see config.ts), for the admin RPC
+ * page.  Ordering a chain's endpoints is left to viem's fallback ranking.
+ *
+ * Kept in memory, per process.  Poll cycles persist their process's
+ * snapshot (see `saveRpcHealth` in db.ts) for the admin RPC endpoint.
+ */
+
+/** Outcomes kept per endpoint for the rolling error rate and latency */
+const WINDOW_SIZE = 50;
+/** Samples needed before an endpoint is judged */
+const MIN_SAMPLES = 3;
+/** Rolling error rate at which an endpoint is reported unhealthy */
+const UNHEALTHY_ERROR_RATE = 0.5;
+
+type Outcome = { ok: boolean; ms: number };
+
+type EndpointStats = {
+  chainId: number;
+  url: string;
+  requests: number;
+  errors: number;
+  window: Outcome[];
+  lastError?: string;
+  lastErrorAt?: string;
+  lastSuccessAt?: string;
+};
+
+export type EndpointHealth = {
+  chainId: number;
+  /** Host only — full RPC URLs often embed API keys */
+  host: string;
+  /** Position in the chain's configured list (0 = primary) */
+  index: number;
+  requests: number;
+  errors: number;
+  /** Error rate over the last WINDOW_SIZE requests */
+  errorRate: number;
+  /** Mean latency over the last WINDOW_SIZE requests, in ms */
+  avgLatencyMs: number | null;
+  healthy: boolean;
+  lastError?: string;
+  lastErrorAt?: string;
+  lastSuccessAt?: string;
+};
+
+export type RpcHealthSnapshot = {
+  /** ISO timestamp the snapshot was taken */
+  at: string;
+  endpoints: EndpointHealth[];
+};
+
+const GLOBAL_KEY = "__udaRpcHealth";
+
+/** Stats by `<chainId> <url>`, kept on globalThis across dev-mode reloads */
+function state(): Map<string, EndpointStats> {
+  const g = globalThis as unknown as Record<string, Map<string, EndpointStats> | undefined>;
+  if (!g[GLOBAL_KEY]) g[GLOBAL_KEY] = new Map();
+  return g[GLOBAL_KEY];
+}
+
+const statsKey = (chainId: number, url: string) => `${chainId} ${url}`;
+
+function statsFor(chainId: number, url: string): EndpointStats {
+  const key = statsKey(chainId, url);
+  let stats = state().get(key);
+  if (!stats) {
+    stats = { chainId, url, requests: 0, errors: 0, window: [] };
+    state().set(key, stats);
+  }
+  return stats;
+}
+
+/**
+ * Whether `err` is the endpoint's fault (unreachable, timed out, rate
+ * limited) rather than the request's, like a reverted call.
+ */
+function isEndpointError(err: unknown): boolean {
+  if (err instanceof HttpRequestError || err instanceof TimeoutError) return true;
+  if (err instanceof LimitExceededRpcError) return true;
+  return (err as { status?: number } | null)?.status === 429;
+}
+
+/** Record one request's outcome against an endpoint. */
+export function recordRpcResult(chainId: number, url: string, ms: number, err?: unknown): void {
+  const stats = statsFor(chainId, url);
+  const ok = err === undefined || !isEndpointError(err);
+  stats.requests++;
+  stats.window.push({ ok, ms });
+  if (stats.window.length > WINDOW_SIZE) stats.window.shift();
+
+  const now = new Date().toISOString();
+  if (ok) {
+    stats.lastSuccessAt = now;
+  } else {
+    stats.errors++;
+    stats.lastError = err instanceof Error ? err.message.split("\n")[0] : String(err);
+    stats.lastErrorAt = now;
+  }
+}
+
+function errorRate(stats: EndpointStats): number {
+  if (stats.window.length === 0) return 0;
+  return stats.window.filter((o) => !o.ok).length / stats.window.length;
+}
+
+function avgLatency(stats: EndpointStats): number | null {
+  const ok = stats.window.filter((o) => o.ok);
+  if (ok.length === 0) return null;
+  return Math.round(ok.reduce((sum, o) => sum + o.ms, 0) / ok.length);
+}
+
+function isHealthy(stats: EndpointStats): boolean {
+  return stats.window.length < MIN_SAMPLES || errorRate(stats) < UNHEALTHY_ERROR_RATE;
+}
+
+/**
+ * Wrap an endpoint's transport so every request's latency and outcome is
+ * recorded against it.
+ */
+export function trackedTransport(chainId: number, url: string, transport: Transport): Transport {
+  return ((params) => {
+    const inner = transport(params);
+    return {
+      ...inner,
+      request: (async (args: Parameters<typeof inner.request>[0]) => {
+        const start = Date.now();
+        try {
+          const result = await inner.request(args);
+          recordRpcResult(chainId, url, Date.now() - start);
+          return result;
+        } catch (err) {
+          recordRpcResult(chainId, url, Date.now() - start, err);
+          throw err;
+        }
+      }) as typeof inner.request,
+    };
+  }) as Transport;
+}
+
+/** An RPC URL's host — safe to show, unlike URLs carrying API keys. */
+export function rpcUrlHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return "(invalid url)";
+  }
+}
+
+/** Current health of every endpoint this process has used. */
+export function rpcHealthSnapshot(): RpcHealthSnapshot {
+  const endpoints = [...state().values()].map((stats): EndpointHealth => ({
+    chainId: stats.chainId,
+    host: rpcUrlHost(stats.url),
+    index: chainRpcUrls(stats.chainId).indexOf(stats.url),
+    requests: stats.requests,
+    errors: stats.errors,
+    errorRate: errorRate(stats),
+    avgLatencyMs: avgLatency(stats),
+    healthy: isHealthy(stats),
+    lastError: stats.lastError,
+    lastErrorAt: stats.lastErrorAt,
+    lastSuccessAt: stats.lastSuccessAt,
+  }));
+  endpoints.sort((a, b) => a.chainId - b.chainId || a.index - b.index);
+  return { at: new Date().toISOString(), endpoints };
+}
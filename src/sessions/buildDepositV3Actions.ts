@@ -1,33 +1,382 @@
-import { getSudoPolicy } from "@biconomy/abstractjs";
-import { toFunctionSelector, getAbiItem, erc20Abi } from "viem";
+import {
+  getSudoPolicy,
+  getUniversalActionPolicy,
+  getSpendingLimitsPolicy,
+  getValueLimitPolicy,
+} from "@biconomy/abstractjs";
+import { getTimeFramePolicy } from "@rhinestone/module-sdk";
+import {
+  toFunctionSelector,
+  getAbiItem,
+  erc20Abi,
+  maxUint256,
+  numberToHex,
+  padHex,
+  zeroHash,
+  type Address,
+  type Hex,
+} from "viem";
 import {
   ACROSS_SPOKEPOOL,
   ACROSS_SPOKEPOOL_PERIPHERY,
   SUPPORTED_TOKENS,
-  DEPOSIT_V3_ABI,
+  NATIVE_ETH_SYMBOL,
   SWAP_API_DEPOSIT_SELECTOR,
   SWAP_API_PERIPHERY_SELECTOR,
   WETH,
+  isSameAsset,
+  type TokenRegistry,
 } from "../config";
+import { getChainConfig, chainDisplayName } from "../chains";
 
 /** WETH deposit() selector — wraps native ETH into WETH (no arguments) */
 const WETH_DEPOSIT_SELECTOR = "0xd0e30db0" as const;
 
+/** Selector Smart Sessions checks a call without calldata (a plain value transfer) under */
+const VALUE_TRANSFER_SELECTOR = "0x00000000" as const;
+
+/** A destination deposits are delivered to (see `ListeningConfig.routes`) */
+export type PermissionRoute = {
+  destChainId: number;
+  /** Resolved recipient — the wallet itself when `recipientIsSelf` */
+  recipient: Address;
+  /** Token received on the destination chain; defaults to the input token */
+  recipientTokenSymbol?: string;
+};
+
+/**
+ * What the session key may do, beyond which contracts it may call.
+ *
+ * `transfer`, `approve` and the Across deposits are pinned to the
+ * addresses the routes need; the spending limits and validity window are
+ * optional.
+ */
+export type DepositV3PermissionScope = {
+  /** The wallet the permission is granted on */
+  walletAddress: Address;
+  routes: PermissionRoute[];
+  /** Receives the cross-token bridge fee (see `calculateBridgeFee`) */
+  feeCollectorAddress: Address;
+  /**
+   * Cap on the total amount approved or transferred per token, per chain,
+   * in base units keyed by symbol.  The native ETH entry caps the value
+   * wrapped into WETH, sent to each same-chain ETH recipient and bridged
+   * as native ETH (each separately).
+   */
+  spendingLimits?: Record<string, bigint>;
+  /** Unix seconds — the permission is unusable before this */
+  validAfter?: number;
+  /** Unix seconds — the permission is unusable after this */
+  validUntil?: number;
+  /**
+   * Tokens to grant for — the token registry (built-in plus admin-added
+   * tokens).  Defaults to the built-in tokens.
+   */
+  tokens?: TokenRegistry;
+};
+
+type UniversalActionConfig = Parameters<typeof getUniversalActionPolicy>[0];
+type ParamRule = UniversalActionConfig["paramRules"]["rules"][number];
+
+/** ParamCondition.EQUAL (the enum itself is not exported by the SDK) */
+const PARAM_EQUAL = 0 as ParamRule["condition"];
+
+const UNUSED_RULE: ParamRule = {
+  condition: PARAM_EQUAL,
+  offset: 0n,
+  isLimited: false,
+  ref: zeroHash,
+  usage: { limit: 0n, used: 0n },
+};
+
+/** A 32-byte calldata word — an address left-padded, or a number */
+const word = (value: Address | bigint): Hex =>
+  typeof value === "bigint"
+    ? numberToHex(value, { size: 32 })
+    : padHex(value as Hex, { size: 32 });
+
+/**
+ * Universal action policy allowing the call only when each calldata word
+ * at `offset` (bytes after the selector) equals its `value`.  Calls may
+ * carry at most `valueLimitPerUse` wei.
+ */
+function argsEqual(
+  words: { offset: bigint; value: Address | bigint }[],
+  valueLimitPerUse = 0n,
+) {
+  const rules = Array(16).fill(UNUSED_RULE) as UniversalActionConfig["paramRules"]["rules"];
+  words.forEach(({ offset, value }, i) => {
+    rules[i] = { ...UNUSED_RULE, offset, ref: word(value) };
+  });
+  return getUniversalActionPolicy({
+    valueLimitPerUse,
+    paramRules: { length: BigInt(words.length), rules },
+  });
+}
+
+/** The `transfer` recipient / `approve` spender (first argument) */
+const firstArgEquals = (address: Address) => argsEqual([{ offset: 0n, value: address }]);
+
 /**
- * Build session permission actions for ALL supported tokens (USDC, USDT, WETH)
- * on the given chain IDs.
+ * SpokePool `deposit(bytes32 depositor, bytes32 recipient, …)` — the Swap
+ * API's same-asset bridge.  Both leading arguments are static.
+ */
+function spokePoolDepositPin(depositor: Address, recipient: Address, valueLimitPerUse: bigint) {
+  return argsEqual(
+    [
+      { offset: 0n, value: depositor },
+      { offset: 32n, value: recipient },
+    ],
+    valueLimitPerUse,
+  );
+}
+
+/**
+ * Periphery `swapAndBridge(SwapAndDepositData)` — the Swap API's
+ * cross-token bridge.  The struct is dynamic, so the offsets hold for
+ * the canonical encoding only, which the two pointer words pin:
+ *
+ *     0  struct offset (0x20)
+ *    32  submissionFees.amount (0 — no fee to a third party)
+ *    96  depositData offset within the struct (0x180)
+ *   352  spokePool
+ *   512  depositData.depositor
+ *   544  depositData.recipient
  *
- * For each chain we grant:
- *  - `approve` on every token address (so the SpokePool / Periphery can spend it)
- *  - `transfer` on every token address (for fee collection + forward transfers)
- *  - `depositV3` on the SpokePool (legacy, for direct calls)
- *  - The Swap API deposit function on the SpokePool (same-token routes via Swap API)
- *  - The swap+bridge function on the SpokePoolPeriphery (cross-token routes)
+ * The swap's `exchange` and router calldata vary per quote and cannot
+ * be pinned, so the Periphery is only granted for tokens with a spending
+ * limit (see `permissionScopeProblem`) — the limit bounds what a swap
+ * can take.
  */
-export function buildDepositV3Actions(chainIds: number[]) {
-  const depositV3Selector = toFunctionSelector(
-    getAbiItem({ abi: DEPOSIT_V3_ABI, name: "depositV3" })
+function peripheryDepositPin(depositor: Address, recipient: Address, spokePool: Address) {
+  return argsEqual([
+    { offset: 0n, value: 0x20n },
+    { offset: 32n, value: 0n },
+    { offset: 96n, value: 0x180n },
+    { offset: 352n, value: spokePool },
+    { offset: 512n, value: depositor },
+    { offset: 544n, value: recipient },
+  ]);
+}
+
+/** Chains where the wallet itself is a recipient are never acted on */
+function isHomeChain(chainId: number, scope: DepositV3PermissionScope): boolean {
+  const wallet = scope.walletAddress.toLowerCase();
+  return scope.routes.some(
+    (r) => r.destChainId === chainId && r.recipient.toLowerCase() === wallet,
   );
+}
+
+/** Who the session key may pay on one chain, by action */
+type ChainCounterparties = {
+  /** `transfer` recipients and `approve` spenders, per token symbol */
+  tokens: Map<string, { transfer: Set<Address>; approve: Set<Address> }>;
+  /** Across deposit recipients via the SpokePool (same asset, native ETH) */
+  spokePoolRecipients: Set<Address>;
+  /** Across deposit recipients via the Periphery (cross-token) */
+  peripheryRecipients: Set<Address>;
+  /** Plain native ETH transfers — ETH recipients, fees on wrapped ETH */
+  valueRecipients: Set<Address>;
+  /** Native ETH is bridged as-is, so the SpokePool deposit carries value */
+  nativeBridged: boolean;
+};
+
+/**
+ * Everything the routes need on `chainId`.  Mirrors how pollAndBridge
+ * delivers a deposit:
+ *  - on a route's destination chain it is forwarded to the recipient
+ *    (native ETH is wrapped and swapped instead, or sent as-is to a
+ *    recipient that wants ETH)
+ *  - elsewhere it is bridged via the Swap API: same-asset through the
+ *    SpokePool, cross-token through the Periphery after a fee transfer
+ *    (in ETH, before wrapping, for native ETH)
+ *  - native ETH for a route that wants ETH is bridged as-is
+ * Chains where the wallet itself is a recipient are never acted on.
+ */
+function chainCounterparties(
+  chainId: number,
+  scope: DepositV3PermissionScope,
+): ChainCounterparties {
+  const plan: ChainCounterparties = {
+    tokens: new Map(),
+    spokePoolRecipients: new Set(),
+    peripheryRecipients: new Set(),
+    valueRecipients: new Set(),
+    nativeBridged: false,
+  };
+  if (isHomeChain(chainId, scope)) return plan;
+
+  const lower = (address: Address) => address.toLowerCase() as Address;
+  const nativeEth = !!getChainConfig(chainId)?.capabilities.nativeEth;
+  /** Native ETH here is wrapped into WETH for `route` */
+  const wrapsNative = (route: PermissionRoute) =>
+    nativeEth && route.recipientTokenSymbol !== NATIVE_ETH_SYMBOL;
+
+  for (const token of Object.values(scope.tokens ?? SUPPORTED_TOKENS)) {
+    if (!token.addresses[chainId]) continue;
+    const transfer = new Set<Address>();
+    const approve = new Set<Address>();
+
+    const addBridge = (route: PermissionRoute, wrappedEth: boolean) => {
+      const outputSymbol = route.recipientTokenSymbol ?? token.symbol;
+      if (isSameAsset(token.symbol, outputSymbol)) {
+        approve.add(lower(ACROSS_SPOKEPOOL[chainId]));
+        plan.spokePoolRecipients.add(lower(route.recipient));
+      } else {
+        if (wrappedEth) plan.valueRecipients.add(lower(scope.feeCollectorAddress));
+        else transfer.add(lower(scope.feeCollectorAddress));
+        approve.add(lower(ACROSS_SPOKEPOOL_PERIPHERY));
+        plan.peripheryRecipients.add(lower(route.recipient));
+      }
+    };
+
+    for (const route of scope.routes) {
+      if (route.destChainId !== chainId) addBridge(route, false);
+      else transfer.add(lower(route.recipient));
+      if (token.symbol === "WETH" && wrapsNative(route)) addBridge(route, true);
+    }
+    plan.tokens.set(token.symbol, { transfer, approve });
+  }
+
+  if (nativeEth) {
+    for (const route of scope.routes) {
+      if (route.recipientTokenSymbol !== NATIVE_ETH_SYMBOL) continue;
+      if (route.destChainId === chainId) {
+        plan.valueRecipients.add(lower(route.recipient));
+      } else {
+        plan.spokePoolRecipients.add(lower(route.recipient));
+        plan.nativeBridged = true;
+      }
+    }
+  }
+  return plan;
+}
+
+/** Actions `plan` would need more than one counterparty for */
+function unpinnableActions(chainId: number, plan: ChainCounterparties): string[] {
+  const problems: string[] = [];
+  const check = (allowed: Set<Address>, action: string) => {
+    if (allowed.size > 1) {
+      problems.push(
+        `${action} on ${chainDisplayName(chainId)} (${[...allowed].join(", ")})`,
+      );
+    }
+  };
+  for (const [symbol, { transfer, approve }] of plan.tokens) {
+    check(transfer, `${symbol} transfer`);
+    check(approve, `${symbol} approve`);
+  }
+  check(plan.spokePoolRecipients, "Across deposit");
+  check(plan.peripheryRecipients, "Across swap+bridge");
+  return problems;
+}
+
+/** Tokens `plan` approves to the Periphery with no spending limit set */
+function unlimitedSwapTokens(plan: ChainCounterparties, scope: DepositV3PermissionScope): string[] {
+  const periphery = ACROSS_SPOKEPOOL_PERIPHERY.toLowerCase() as Address;
+  return [...plan.tokens]
+    .filter(
+      ([symbol, { approve }]) =>
+        approve.has(periphery) && scope.spendingLimits?.[symbol] === undefined,
+    )
+    .map(([symbol]) => symbol);
+}
+
+/**
+ * Why `scope` cannot be granted, or `null` when it can.
+ *  - A Smart Sessions action is checked against all of its policies, so
+ *    it can only be pinned to a single counterparty.  Routes needing two
+ *    for one action (e.g. split routes that both forward and fee-charge
+ *    one token on one chain, or bridge one token to two recipients) are
+ *    refused rather than granted unpinned.
+ *  - The swap inside a cross-token bridge cannot be pinned (see
+ *    `peripheryDepositPin`), so every token swapped that way needs a
+ *    spending limit.
+ */
+export function permissionScopeProblem(
+  chainIds: number[],
+  scope: DepositV3PermissionScope,
+): string | null {
+  const plans = chainIds
+    .filter((id) => ACROSS_SPOKEPOOL[id])
+    .map((id) => ({ id, plan: chainCounterparties(id, scope) }));
+
+  const problems: string[] = [];
+  const unpinnable = plans.flatMap(({ id, plan }) => unpinnableActions(id, plan));
+  if (unpinnable.length > 0) {
+    problems.push(
+      "These routes would let the session key pay more than one address through " +
+        `the same call, which cannot be restricted: ${unpinnable.join("; ")}`,
+    );
+  }
+  const unlimited = [...new Set(plans.flatMap(({ plan }) => unlimitedSwapTokens(plan, scope)))];
+  if (unlimited.length > 0) {
+    problems.push(
+      "These routes swap tokens through a call that cannot be restricted, so each " +
+        `token swapped needs a spending limit: ${unlimited.join(", ")}`,
+    );
+  }
+  return problems.length > 0 ? problems.join(". ") : null;
+}
+
+/**
+ * Resolve a listening config's destinations for a permission scope — the
+ * split routes, or the single destination.
+ */
+export function resolvePermissionRoutes(
+  walletAddress: Address,
+  config: {
+    destChainId: number;
+    recipientIsSelf: boolean;
+    recipientAddr?: string;
+    recipientTokenSymbol?: string;
+    routes?: {
+      destChainId: number;
+      recipientIsSelf: boolean;
+      recipientAddr?: string;
+      recipientTokenSymbol?: string;
+    }[];
+  },
+): PermissionRoute[] {
+  const routes = config.routes?.length ? config.routes : [config];
+  return routes.map((r) => ({
+    destChainId: r.destChainId,
+    recipient: r.recipientIsSelf ? walletAddress : (r.recipientAddr as Address),
+    recipientTokenSymbol: r.recipientTokenSymbol,
+  }));
+}
+
+/**
+ * Build session permission actions for every token in `scope.tokens` (the
+ * built-in USDC, USDT, WETH by default) on the given chain IDs.
+ *
+ * For each chain we grant, where the routes need it:
+ *  - `approve` on every token address, pinned to the SpokePool or the
+ *    Periphery (whichever the routes bridge through)
+ *  - `transfer` on every token address, pinned to the route recipient
+ *    (forward transfers) or the fee collector (cross-token fees)
+ *  - The Swap API deposit function on the SpokePool (same-asset routes),
+ *    pinned to the wallet as depositor and the route recipient
+ *  - The swap+bridge function on the SpokePoolPeriphery (cross-token
+ *    routes), pinned the same way and to the SpokePool
+ *  - `deposit` on WETH (wraps native ETH) where ETH is the native
+ *    currency, value-limited when an ETH spending limit is set
+ *  - Plain value transfers to same-chain recipients that want native ETH
+ *    and to the fee collector (fees on wrapped ETH), value-limited the
+ *    same way — as is the Swap API deposit when a route bridges native
+ *    ETH
+ *
+ * Throws when an action would need more than one counterparty, or a
+ * swapped token has no spending limit (see `permissionScopeProblem`) —
+ * nothing is ever granted unpinned.
+ */
+export function buildDepositV3Actions(
+  chainIds: number[],
+  scope: DepositV3PermissionScope,
+) {
+  const problem = permissionScopeProblem(chainIds, scope);
+  if (problem) throw new Error(problem);
+
   const approveSelector = toFunctionSelector(
     getAbiItem({ abi: erc20Abi, name: "approve" })
   );
@@ -37,72 +386,122 @@ export function buildDepositV3Actions(chainIds: number[]) {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const actions: any[] = [];
 
-  const addedSpokepool = new Set<number>();
+  // Applied to every action when a validity window is set
+  const timeFrame =
+    scope.validAfter !== undefined || scope.validUntil !== undefined
+      ? [
+          getTimeFramePolicy({
+            validAfter: scope.validAfter ?? 0,
+            validUntil: scope.validUntil ?? 0,
+          }),
+        ]
+      : [];
+  /** A counterparty pin plus the action's limits and the validity window */
+  const pinned = (pin: object, limits: object[] = []) => [pin, ...limits, ...timeFrame];
+  /**
+   * Actions whose target alone fixes the counterparty (wrapping into
+   * WETH, value transfers to a recipient) — an action needs at least one
+   * policy, so Sudo when no limit or window applies.
+   */
+  const targetOnly = (limits: object[]) => {
+    const all = [...limits, ...timeFrame];
+    return all.length > 0 ? all : [getSudoPolicy()];
+  };
+  const only = (allowed: Set<Address>) => [...allowed][0];
 
-  for (const token of Object.values(SUPPORTED_TOKENS)) {
-    const supported = chainIds.filter(
-      (id) => ACROSS_SPOKEPOOL[id] && token.addresses[id],
-    );
+  for (const chainId of chainIds.filter((id) => ACROSS_SPOKEPOOL[id])) {
+    const plan = chainCounterparties(chainId, scope);
 
-    for (const chainId of supported) {
-      // Allow approve on this token (covers both SpokePool and Periphery as spender)
-      actions.push({
-        actionTarget: token.addresses[chainId],
-        actionTargetSelector: approveSelector,
-        actionPolicies: [getSudoPolicy()],
-        chainId,
-      });
+    for (const token of Object.values(scope.tokens ?? SUPPORTED_TOKENS)) {
+      const allowed = plan.tokens.get(token.symbol);
+      if (!allowed) continue;
+      const limit = scope.spendingLimits?.[token.symbol];
+      const tokenSpending =
+        limit !== undefined
+          ? [getSpendingLimitsPolicy([{ token: token.addresses[chainId], limit }])]
+          : [];
 
-      // Allow transfer on this token (fee collection + forward transfers)
-      actions.push({
-        actionTarget: token.addresses[chainId],
-        actionTargetSelector: transferSelector,
-        actionPolicies: [getSudoPolicy()],
-        chainId,
-      });
-
-      // Per-chain permissions (added once regardless of token)
-      if (!addedSpokepool.has(chainId)) {
-        // Allow depositV3 on the SpokePool (legacy direct calls)
+      // Allow approve on this token, for the spender the routes bridge through
+      if (allowed.approve.size > 0) {
         actions.push({
-          actionTarget: ACROSS_SPOKEPOOL[chainId],
-          actionTargetSelector: depositV3Selector,
-          actionPolicies: [getSudoPolicy()],
+          actionTarget: token.addresses[chainId],
+          actionTargetSelector: approveSelector,
+          actionPolicies: pinned(firstArgEquals(only(allowed.approve)), tokenSpending),
           chainId,
         });
+      }
 
-        // Allow the Swap API deposit function on the SpokePool (same-token routes)
+      // Allow transfer on this token (fee collection + forward transfers)
+      if (allowed.transfer.size > 0) {
         actions.push({
-          actionTarget: ACROSS_SPOKEPOOL[chainId],
-          actionTargetSelector: SWAP_API_DEPOSIT_SELECTOR,
-          actionPolicies: [getSudoPolicy()],
+          actionTarget: token.addresses[chainId],
+          actionTargetSelector: transferSelector,
+          actionPolicies: pinned(firstArgEquals(only(allowed.transfer)), tokenSpending),
           chainId,
         });
+      }
+    }
 
-        // Allow the swap+bridge function on the SpokePoolPeriphery (cross-token routes)
-        actions.push({
-          actionTarget: ACROSS_SPOKEPOOL_PERIPHERY,
-          actionTargetSelector: SWAP_API_PERIPHERY_SELECTOR,
-          actionPolicies: [getSudoPolicy()],
-          chainId,
-        });
+    const ethLimit = scope.spendingLimits?.[NATIVE_ETH_SYMBOL];
+    const ethValueLimit =
+      ethLimit !== undefined ? [getValueLimitPolicy({ limit: ethLimit })] : [];
 
-        // Allow deposit() on the WETH contract (wraps native ETH → WETH)
-        const wethAddr = WETH[chainId];
-        if (wethAddr) {
-          actions.push({
-            actionTarget: wethAddr,
-            actionTargetSelector: WETH_DEPOSIT_SELECTOR,
-            actionPolicies: [getSudoPolicy()],
-            chainId,
-          });
-        }
-
-        addedSpokepool.add(chainId);
-      }
+    // Allow the Swap API deposit function on the SpokePool (same-asset
+    // routes, including native ETH bridged as-is)
+    if (plan.spokePoolRecipients.size > 0) {
+      actions.push({
+        actionTarget: ACROSS_SPOKEPOOL[chainId],
+        actionTargetSelector: SWAP_API_DEPOSIT_SELECTOR,
+        actionPolicies: pinned(
+          spokePoolDepositPin(
+            scope.walletAddress,
+            only(plan.spokePoolRecipients),
+            plan.nativeBridged ? maxUint256 : 0n,
+          ),
+          plan.nativeBridged ? ethValueLimit : [],
+        ),
+        chainId,
+      });
+    }
+
+    // Allow the swap+bridge function on the SpokePoolPeriphery (cross-token routes)
+    if (plan.peripheryRecipients.size > 0) {
+      actions.push({
+        actionTarget: ACROSS_SPOKEPOOL_PERIPHERY,
+        actionTargetSelector: SWAP_API_PERIPHERY_SELECTOR,
+        actionPolicies: pinned(
+          peripheryDepositPin(
+            scope.walletAddress,
+            only(plan.peripheryRecipients),
+            ACROSS_SPOKEPOOL[chainId],
+          ),
+        ),
+        chainId,
+      });
+    }
+
+    // Allow deposit() on the WETH contract (wraps native ETH → WETH)
+    const wethAddr = WETH[chainId];
+    if (wethAddr && getChainConfig(chainId)?.capabilities.nativeEth) {
+      actions.push({
+        actionTarget: wethAddr,
+        actionTargetSelector: WETH_DEPOSIT_SELECTOR,
+        actionPolicies: targetOnly(ethValueLimit),
+        chainId,
+      });
+    }
+
+    // Allow native ETH value transfers to same-chain ETH recipients and
+    // the fee collector
+    for (const recipient of plan.valueRecipients) {
+      actions.push({
+        actionTarget: recipient,
+        actionTargetSelector: VALUE_TRANSFER_SELECTOR,
+        actionPolicies: targetOnly(ethValueLimit),
+        chainId,
+      });
     }
   }
 
   return actions;
 }
-
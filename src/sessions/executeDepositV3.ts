@@ -5,11 +5,22 @@ import {
   encodeFunctionData,
   erc20Abi,
 } from "viem";
-import { SUPPORTED_TOKENS, WETH, FEE_BPS, MAX_FEE_AMOUNTS } from "../config";
+import {
+  SUPPORTED_TOKENS,
+  WETH,
+  FEE_BPS,
+  NATIVE_ETH_SYMBOL,
+  isSameAsset,
+  type TokenRegistry,
+} from "../config";
+import { getChainConfig } from "../chains";
 
 /** WETH deposit() selector — wraps native ETH into WETH (no arguments) */
 const WETH_DEPOSIT_SELECTOR: Hex = "0xd0e30db0";
-import { ScheduledExecutionBounds } from "./getScheduledExecutionBounds";
+
+/** How the Across Swap API names native ETH, as input or output token */
+const ACROSS_NATIVE_TOKEN: Address = "0x0000000000000000000000000000000000000000";
+import { executeSessionCalls, type SessionCall } from "./executeSessionCalls";
 import type { SessionDetails } from "./types";
 
 // ── Across Swap API types ───────────────────────────────────────────
@@ -29,6 +40,8 @@ type SwapApprovalResponse = {
     chainId: number;
     to: Address;
     data: Hex;
+    /** Native value to send — set when the input token is native ETH */
+    value?: string;
     gas: string;
   };
   inputAmount: string;
@@ -95,43 +108,86 @@ export type ExecuteDepositV3Params = {
   destinationChainId: number;
   /** Amount to bridge (in token's native decimals) */
   amount: bigint;
-  /** Input token symbol (e.g. "USDC") — the token being deposited */
+  /**
+   * Input token symbol (e.g. "USDC") — the token being deposited.  "ETH"
+   * bridges native ETH as-is through Across's native path; it can only
+   * be delivered as ETH or WETH (wrap it first for anything else).
+   */
   tokenSymbol?: string;
-  /** Output token symbol on the destination chain. Defaults to tokenSymbol (same-token bridge) */
+  /**
+   * Output token symbol on the destination chain. Defaults to tokenSymbol
+   * (same-token bridge).  "ETH" delivers native ETH.
+   */
   outputTokenSymbol?: string;
   /** Fee collector address. When set and bridge is cross-token, a 10 bps fee is transferred here. */
   feeCollectorAddress?: Address;
   /**
    * When true, the account holds native ETH that must be wrapped into WETH
-   * before bridging. A WETH `deposit()` call is prepended to the calls array.
+   * before bridging. A WETH `deposit()` call is prepended to the calls array,
+   * and any cross-token fee is paid in ETH before wrapping.
    * `tokenSymbol` should be "WETH" when this is set.
    */
   wrapNativeETH?: boolean;
+  /** Token registry to resolve symbols in (defaults to the built-in tokens) */
+  tokens?: TokenRegistry;
 };
 
 /**
  * Calculate the fee for a cross-token bridge.
- * Fee = min(amount * FEE_BPS / 10_000, MAX_FEE_AMOUNTS[tokenSymbol])
+ * Fee = min(amount * FEE_BPS / 10_000, tokens[tokenSymbol].maxFeeAmount)
  * Returns 0n for same-token bridges.
  */
 export function calculateBridgeFee(
   amount: bigint,
   tokenSymbol: string,
   isCrossToken: boolean,
+  tokens: TokenRegistry = SUPPORTED_TOKENS,
 ): bigint {
   if (!isCrossToken) return 0n;
   const rawFee = (amount * FEE_BPS) / 10_000n;
-  const maxFee = MAX_FEE_AMOUNTS[tokenSymbol];
+  const maxFee = tokens[tokenSymbol]?.maxFeeAmount;
   if (maxFee && rawFee > maxFee) return maxFee;
   return rawFee;
 }
 
-export async function executeDepositV3(
-  params: ExecuteDepositV3Params,
-): Promise<{ hash: Hash; feeAmount?: bigint }> {
+/**
+ * Address the Swap API knows `symbol` by on `chainId` — the registry
+ * token's address, or the native placeholder for ETH where it is the
+ * native currency.
+ */
+function resolveTokenAddress(
+  symbol: string,
+  chainId: number,
+  tokens: TokenRegistry,
+  side: "input" | "output",
+): Address {
+  if (symbol === NATIVE_ETH_SYMBOL) {
+    if (!getChainConfig(chainId)?.capabilities.nativeEth) {
+      throw new Error(`Native ETH not available on chain ${chainId}`);
+    }
+    return ACROSS_NATIVE_TOKEN;
+  }
+  const token = tokens[symbol];
+  if (!token) throw new Error(`Unsupported ${side} token: ${symbol}`);
+  const address = token.addresses[chainId];
+  if (!address) throw new Error(`${symbol} not available on chain ${chainId}`);
+  return address;
+}
+
+export type BuildDepositV3CallsParams = Omit<
+  ExecuteDepositV3Params,
+  "sessionMeeClient" | "sessionDetails"
+>;
+
+/**
+ * Build the calls for one deposit — optional ETH wrap, fee transfer,
+ * Swap API approvals and the swap/bridge call — without submitting them,
+ * so several deposits on the same chain can share one supertransaction.
+ */
+export async function buildDepositV3Calls(
+  params: BuildDepositV3CallsParams,
+): Promise<{ calls: SessionCall[]; feeAmount: bigint }> {
   const {
-    sessionMeeClient,
-    sessionDetails,
     walletAddress,
     recipient = walletAddress,
     sourceChainId,
@@ -141,10 +197,18 @@ export async function executeDepositV3(
     outputTokenSymbol,
     feeCollectorAddress,
     wrapNativeETH = false,
+    tokens = SUPPORTED_TOKENS,
   } = params;
 
   const effectiveOutputSymbol = outputTokenSymbol ?? tokenSymbol;
-  const isCrossToken = effectiveOutputSymbol !== tokenSymbol;
+  const isCrossToken = !isSameAsset(tokenSymbol, effectiveOutputSymbol);
+  const isNativeInput = tokenSymbol === NATIVE_ETH_SYMBOL;
+
+  if (isNativeInput && (isCrossToken || wrapNativeETH)) {
+    throw new Error(
+      `Native ETH can only be bridged as-is into ETH or WETH, not ${effectiveOutputSymbol}`,
+    );
+  }
 
   console.log(
     `[executeDepositV3] tokenSymbol=${tokenSymbol}, outputTokenSymbol=${outputTokenSymbol ?? "(undefined)"}, ` +
@@ -152,25 +216,19 @@ export async function executeDepositV3(
   );
 
   // Resolve input token address on the source chain
-  const inputToken = SUPPORTED_TOKENS[tokenSymbol];
-  if (!inputToken) throw new Error(`Unsupported input token: ${tokenSymbol}`);
-  const inputTokenAddress = inputToken.addresses[sourceChainId];
-  if (!inputTokenAddress)
-    throw new Error(`${tokenSymbol} not available on chain ${sourceChainId}`);
+  const inputTokenAddress = resolveTokenAddress(tokenSymbol, sourceChainId, tokens, "input");
 
   // Resolve output token address on the destination chain
-  const outputToken = SUPPORTED_TOKENS[effectiveOutputSymbol];
-  if (!outputToken)
-    throw new Error(`Unsupported output token: ${effectiveOutputSymbol}`);
-  const outputTokenAddress = outputToken.addresses[destinationChainId];
-  if (!outputTokenAddress)
-    throw new Error(
-      `${effectiveOutputSymbol} not available on chain ${destinationChainId}`,
-    );
+  const outputTokenAddress = resolveTokenAddress(
+    effectiveOutputSymbol,
+    destinationChainId,
+    tokens,
+    "output",
+  );
 
   // ── Calculate fee for cross-token bridges ─────────────────────────
   const feeAmount = feeCollectorAddress
-    ? calculateBridgeFee(amount, tokenSymbol, isCrossToken)
+    ? calculateBridgeFee(amount, tokenSymbol, isCrossToken, tokens)
     : 0n;
   const bridgeAmount = amount - feeAmount;
 
@@ -208,28 +266,30 @@ export async function executeDepositV3(
   //      SpokePoolPeriphery for cross-token routes)
   //
   // When a cross-token fee applies, we prepend a transfer to the fee
-  // collector before the approval + bridge calls.
+  // collector before the approval + bridge calls — in native ETH, before
+  // wrapping, when the deposit arrived as ETH.
 
-  const calls: { to: Address; data: Hex; value: bigint }[] = [];
+  const calls: SessionCall[] = [];
 
   // Wrap native ETH → WETH before bridging
   if (wrapNativeETH) {
     const wethAddr = WETH[sourceChainId];
-    if (!wethAddr) {
-      throw new Error(`WETH not available on chain ${sourceChainId}`);
+    if (!wethAddr || !getChainConfig(sourceChainId)?.capabilities.nativeEth) {
+      throw new Error(`Native ETH cannot be wrapped into WETH on chain ${sourceChainId}`);
+    }
+    if (feeAmount > 0n && feeCollectorAddress) {
+      calls.push({ to: feeCollectorAddress, data: "0x", value: feeAmount });
     }
     console.log(
-      `[executeDepositV3] Wrapping ${amount} native ETH → WETH on chain ${sourceChainId}`,
+      `[executeDepositV3] Wrapping ${bridgeAmount} native ETH → WETH on chain ${sourceChainId}`,
     );
     calls.push({
       to: wethAddr,
       data: WETH_DEPOSIT_SELECTOR,
-      value: amount,
+      value: bridgeAmount,
     });
-  }
-
-  // Prepend fee transfer for cross-token bridges
-  if (feeAmount > 0n && feeCollectorAddress) {
+  } else if (feeAmount > 0n && feeCollectorAddress) {
+    // Prepend fee transfer for cross-token bridges
     calls.push({
       to: inputTokenAddress,
       data: encodeFunctionData({
@@ -252,37 +312,29 @@ export async function executeDepositV3(
     }
   }
 
-  // The main swap/bridge transaction
+  // The main swap/bridge transaction — carries the ETH itself on the
+  // native path
   calls.push({
     to: swap.swapTx.to as Address,
     data: swap.swapTx.data as Hex,
-    value: 0n,
+    value: BigInt(swap.swapTx.value ?? 0),
   });
 
-  // ── Execute via Biconomy session ──────────────────────────────────
-  const enabledMap: Record<string, Record<number, boolean>> =
-    await sessionMeeClient.checkEnabledPermissions(sessionDetails);
+  return { calls, feeAmount };
+}
 
-  const alreadyEnabled = Object.values(enabledMap).some(
-    (chainMap) => chainMap[sourceChainId] === true,
-  );
-  const mode = alreadyEnabled ? "USE" : "ENABLE_AND_USE";
+export async function executeDepositV3(
+  params: ExecuteDepositV3Params,
+): Promise<{ hash: Hash; feeAmount?: bigint }> {
+  const { sessionMeeClient, sessionDetails, ...buildParams } = params;
+  const { calls, feeAmount } = await buildDepositV3Calls(buildParams);
 
-  const result = await sessionMeeClient.usePermission({
+  // ── Execute via Biconomy session ──────────────────────────────────
+  const result = await executeSessionCalls({
+    sessionMeeClient,
     sessionDetails,
-    mode,
-    instructions: [
-      {
-        calls,
-        chainId: sourceChainId,
-        ...ScheduledExecutionBounds,
-      },
-    ],
-    verificationGasLimit: 2_500_000n,
-    sponsorship: true,
-    simulation: {
-      simulate: true,
-    },
+    chainId: params.sourceChainId,
+    calls,
   });
 
   return { ...result, feeAmount };
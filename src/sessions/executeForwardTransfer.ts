@@ -4,8 +4,8 @@ import {
   type Address,
   type Hash,
 } from "viem";
-import { SUPPORTED_TOKENS } from "../config";
-import { ScheduledExecutionBounds } from "./getScheduledExecutionBounds";
+import { SUPPORTED_TOKENS, NATIVE_ETH_SYMBOL, type TokenRegistry } from "../config";
+import { executeSessionCalls, type SessionCall } from "./executeSessionCalls";
 import type { SessionDetails } from "./types";
 
 export type ExecuteForwardTransferParams = {
@@ -22,51 +22,53 @@ export type ExecuteForwardTransferParams = {
   chainId: number;
   /** Amount to forward (in token's native decimals) */
   amount: bigint;
-  /** Token symbol (e.g. "USDC", "USDT", "WETH") — defaults to "USDC" */
+  /**
+   * Token symbol (e.g. "USDC", "USDT", "WETH") — defaults to "USDC".
+   * "ETH" forwards native ETH as a plain value transfer.
+   */
   tokenSymbol?: string;
+  /** Token registry to resolve the symbol in (defaults to the built-in tokens) */
+  tokens?: TokenRegistry;
 };
 
+export type BuildForwardTransferCallsParams = Omit<
+  ExecuteForwardTransferParams,
+  "sessionMeeClient" | "sessionDetails"
+>;
+
 /**
- * Forward tokens that already reside on the destination chain from the
- * wallet address to the configured recipient via a simple ERC20 `transfer`.
- *
- * This is used when funds land directly on the destination chain (e.g. someone
- * sends tokens to the deposit address on the destination chain) and the
- * recipient differs from the wallet address.
+ * Build the call that forwards tokens to the recipient — an ERC20
+ * `transfer`, or a plain value transfer for native ETH — without
+ * submitting it (see `executeForwardTransfer`).
  */
-export async function executeForwardTransfer(
-  params: ExecuteForwardTransferParams,
-): Promise<{ hash: Hash }> {
+export function buildForwardTransferCalls(
+  params: BuildForwardTransferCallsParams,
+): SessionCall[] {
   const {
-    sessionMeeClient,
-    sessionDetails,
     walletAddress,
     recipient,
     chainId,
     amount,
     tokenSymbol = "USDC",
+    tokens = SUPPORTED_TOKENS,
   } = params;
 
   if (recipient === walletAddress) {
     throw new Error("Recipient is the same as wallet address — nothing to forward");
   }
 
-  const token = SUPPORTED_TOKENS[tokenSymbol];
+  // Native ETH: send the value itself, no calldata
+  if (tokenSymbol === NATIVE_ETH_SYMBOL) {
+    return [{ to: recipient, data: "0x", value: amount }];
+  }
+
+  const token = tokens[tokenSymbol];
   if (!token) throw new Error(`Unsupported token: ${tokenSymbol}`);
 
   const tokenAddress = token.addresses[chainId];
   if (!tokenAddress)
     throw new Error(`${tokenSymbol} not available on chain ${chainId}`);
 
-  // Check if the session permission is already enabled on this chain.
-  const enabledMap: Record<string, Record<number, boolean>> =
-    await sessionMeeClient.checkEnabledPermissions(sessionDetails);
-
-  const alreadyEnabled = Object.values(enabledMap).some(
-    (chainMap) => chainMap[chainId] === true,
-  );
-  const mode = alreadyEnabled ? "USE" : "ENABLE_AND_USE";
-
   // Build a simple ERC20 transfer call
   const transferCalldata = encodeFunctionData({
     abi: erc20Abi,
@@ -74,28 +76,27 @@ export async function executeForwardTransfer(
     args: [recipient, amount],
   });
 
-  const result = await sessionMeeClient.usePermission({
+  return [{ to: tokenAddress, data: transferCalldata }];
+}
+
+/**
+ * Forward tokens that already reside on the destination chain from the
+ * wallet address to the configured recipient via a simple ERC20 `transfer`
+ * (or a value transfer for native ETH).
+ *
+ * This is used when funds land directly on the destination chain (e.g. someone
+ * sends tokens to the deposit address on the destination chain) and the
+ * recipient differs from the wallet address.
+ */
+export async function executeForwardTransfer(
+  params: ExecuteForwardTransferParams,
+): Promise<{ hash: Hash }> {
+  const { sessionMeeClient, sessionDetails, ...buildParams } = params;
+
+  return executeSessionCalls({
+    sessionMeeClient,
     sessionDetails,
-    mode,
-    instructions: [
-      {
-        calls: [
-          {
-            to: tokenAddress,
-            data: transferCalldata,
-          },
-        ],
-        chainId,
-        ...ScheduledExecutionBounds,
-      },
-    ],
-    verificationGasLimit: 2_500_000n,
-    sponsorship: true,
-    simulation: {
-      simulate: true,
-    },
+    chainId: params.chainId,
+    calls: buildForwardTransferCalls(buildParams),
   });
-
-  return result;
 }
-
@@ -0,0 +1,64 @@
+import type { Address, Hash, Hex } from "viem";
+import { ScheduledExecutionBounds } from "./getScheduledExecutionBounds";
+import type { SessionDetails } from "./types";
+
+/** One call inside a session instruction */
+export type SessionCall = {
+  to: Address;
+  data: Hex;
+  value?: bigint;
+};
+
+export type ExecuteSessionCallsParams = {
+  /** The session MEE client (with meeSessionActions extended) */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  sessionMeeClient: any;
+  /** Session details returned from grantPermissionTypedDataSign */
+  sessionDetails: SessionDetails;
+  /** Chain the calls execute on */
+  chainId: number;
+  /** Calls to run, in order, as a single instruction */
+  calls: SessionCall[];
+};
+
+/**
+ * Submit a list of calls on one chain as a single supertransaction via
+ * the session signer.
+ *
+ * Uses ENABLE_AND_USE when the permission is not yet enabled on the
+ * chain, USE otherwise.
+ */
+export async function executeSessionCalls(
+  params: ExecuteSessionCallsParams,
+): Promise<{ hash: Hash }> {
+  const { sessionMeeClient, sessionDetails, chainId, calls } = params;
+
+  if (calls.length === 0) {
+    throw new Error("No calls to execute");
+  }
+
+  const enabledMap: Record<string, Record<number, boolean>> =
+    await sessionMeeClient.checkEnabledPermissions(sessionDetails);
+
+  const alreadyEnabled = Object.values(enabledMap).some(
+    (chainMap) => chainMap[chainId] === true,
+  );
+  const mode = alreadyEnabled ? "USE" : "ENABLE_AND_USE";
+
+  return sessionMeeClient.usePermission({
+    sessionDetails,
+    mode,
+    instructions: [
+      {
+        calls,
+        chainId,
+        ...ScheduledExecutionBounds,
+      },
+    ],
+    verificationGasLimit: 2_500_000n,
+    sponsorship: true,
+    simulation: {
+      simulate: true,
+    },
+  });
+}
@@ -0,0 +1,64 @@
+import {
+  getAccount,
+  getSessionDigest,
+  isSessionEnabled,
+  SmartSessionMode,
+  type Session,
+} from "@rhinestone/module-sdk";
+import { createPublicClient, type Address, type PublicClient } from "viem";
+import { SUPPORTED_CHAINS, getTransport } from "../config";
+import type { SessionDetails } from "./types";
+
+/**
+ * Chains on which a grant can still be used by its session signer — empty
+ * once it has been fully revoked (see revokeSessionPermission).  A grant
+ * is live on a chain while its permission is enabled there, or while its
+ * enable signature still matches the permission's current nonce (a
+ * never-used permission is enabled by its first use).
+ *
+ * Reads every supported chain the grant covers; throws when a chain
+ * cannot be read, so callers never mistake an RPC failure for a revoke.
+ */
+export async function getLivePermissionChains(
+  walletAddress: Address,
+  sessionDetails: SessionDetails,
+): Promise<number[]> {
+  const account = getAccount({ address: walletAddress, type: "nexus" });
+
+  const live = await Promise.all(
+    SUPPORTED_CHAINS.map(async (chain) => {
+      const entry = sessionDetails.find(
+        (e) => Number(e.enableSessionData.enableSession.sessionToEnable.chainId) === chain.id,
+      );
+      if (!entry) return false;
+
+      const client = createPublicClient({
+        chain,
+        transport: getTransport(chain),
+      }) as PublicClient;
+      const { permissionId } = entry;
+      if (await isSessionEnabled({ client, account: walletAddress, permissionId })) {
+        return true;
+      }
+
+      // The signed digest commits to the nonce — it stops matching once
+      // the enable signature has been revoked
+      const { hashesAndChainIds, sessionToEnable } = entry.enableSessionData.enableSession;
+      const signed = hashesAndChainIds.find((d) => Number(d.chainId) === chain.id)?.sessionDigest;
+      if (!signed) return false;
+      for (const mode of [SmartSessionMode.ENABLE, SmartSessionMode.UNSAFE_ENABLE]) {
+        const current = await getSessionDigest({
+          client,
+          account,
+          session: sessionToEnable as Session,
+          permissionId,
+          mode,
+        });
+        if (current === signed) return true;
+      }
+      return false;
+    }),
+  );
+
+  return SUPPORTED_CHAINS.filter((_, i) => live[i]).map((chain) => chain.id as number);
+}
@@ -1,19 +1,25 @@
 import { meeSessionActions } from "@biconomy/abstractjs";
 import { type Address } from "viem";
-import { buildDepositV3Actions } from "./buildDepositV3Actions";
+import {
+  buildDepositV3Actions,
+  type DepositV3PermissionScope,
+} from "./buildDepositV3Actions";
 
 export async function grantDepositV3Permission(params: {
   sessionMeeClient: ReturnType<typeof meeSessionActions> & any;
   sessionSignerAddress: Address;
   chainIds: number[];
+  /** Recipients, fee collector, spending limits and validity window */
+  scope: DepositV3PermissionScope;
 }) {
   const {
     sessionMeeClient,
     sessionSignerAddress,
     chainIds,
+    scope,
   } = params;
 
-  const actions = buildDepositV3Actions(chainIds);
+  const actions = buildDepositV3Actions(chainIds, scope);
 
   const sessionDetails = await sessionMeeClient.grantPermissionTypedDataSign({
     redeemer: sessionSignerAddress,
@@ -1,11 +1,19 @@
 export { createSessionSigner, type SessionSetupResult } from "./createSessionSigner";
 export { createSmartSessionModule } from "./createSmartSessionModule";
-export { buildDepositV3Actions } from "./buildDepositV3Actions";
+export {
+  buildDepositV3Actions,
+  permissionScopeProblem,
+  resolvePermissionRoutes,
+  type DepositV3PermissionScope,
+  type PermissionRoute,
+} from "./buildDepositV3Actions";
 export { createSessionMeeClient } from "./createSessionMeeClient";
 export { installSessionModule } from "./installSessionModule";
 export { grantDepositV3Permission } from "./grantDepositV3Permission";
-// executeDepositV3 and executeForwardTransfer are used server-side only
-// (imported directly by src/lib/pollAndBridge.ts)
+export { revokeSessionPermission } from "./revokeSessionPermission";
+export { uninstallSessionModule } from "./uninstallSessionModule";
+// executeDepositV3, executeForwardTransfer and executeSessionCalls are used
+// server-side only (imported directly by src/lib/pollAndBridge.ts)
 export {
   // Local (localStorage) — session key only
   saveSessionKey,
@@ -16,6 +24,16 @@ export {
   getServerSessionStatus,
   reconfigureServerSession,
   deregisterServerSession,
+  rotateServerSessionKey,
+  resetServerDepositFailures,
+  getFeeCollectorAddress,
+  fetchTokenRegistry,
+  addServerHistoryEntry,
+} from "./sessionStore";
+export type {
+  ListeningConfig,
+  SplitRoute,
+  OwnerWallet,
+  ServerDepositFailure,
 } from "./sessionStore";
-export type { ListeningConfig } from "./sessionStore";
 export type { SessionDetails } from "./types";
@@ -0,0 +1,75 @@
+import { smartSessionCalls, SMART_SESSIONS_ADDRESS } from "@biconomy/abstractjs";
+import { encodeFunctionData, parseAbi, type Address, type Hash, type Hex } from "viem";
+import { SUPPORTED_CHAINS } from "../config";
+import { toUninstallSessionModuleCalls } from "./uninstallSessionModule";
+import type { SessionDetails } from "./types";
+
+const REVOKE_ENABLE_SIGNATURE_ABI = parseAbi([
+  "function revokeEnableSignature(bytes32 permissionId)",
+]);
+
+/**
+ * Revoke a granted permission on-chain, on every supported chain the
+ * grant covers, so its session signer can no longer act for the account:
+ *  - `removeSession` drops it from the Smart Sessions validator where it
+ *    has been enabled (by its first use on that chain)
+ *  - `revokeEnableSignature` bumps the permission's nonce, so the signed
+ *    grant can no longer enable it on chains it was never used on
+ *
+ * With `uninstallModule` the Smart Sessions validator itself is also
+ * uninstalled from the account (see uninstallSessionModule.ts), in the
+ * same supertransaction.
+ *
+ * Must run through the **user-flow** MEE client (the owner signs the
+ * supertransaction); session signers cannot revoke permissions.
+ */
+export async function revokeSessionPermission(params: {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  meeClient: any;
+  sessionDetails: SessionDetails;
+  uninstallModule?: boolean;
+}): Promise<{ hash: Hash; chainIds: number[] }> {
+  const { meeClient, sessionDetails, uninstallModule = false } = params;
+
+  const entries = SUPPORTED_CHAINS.flatMap((chain) => {
+    const entry = sessionDetails.find(
+      (e) => Number(e.enableSessionData.enableSession.sessionToEnable.chainId) === chain.id,
+    );
+    return entry ? [{ chainId: chain.id as number, entry }] : [];
+  });
+
+  const instructions = await Promise.all(
+    entries.map(async ({ chainId, entry }) => {
+      const account = meeClient.account.deploymentOn(chainId, true);
+      const calls = [
+        ...(await smartSessionCalls.toRemoveSessionCalls(account, {
+          permissionId: entry.permissionId,
+        })),
+        {
+          to: SMART_SESSIONS_ADDRESS as Address,
+          data: encodeFunctionData({
+            abi: REVOKE_ENABLE_SIGNATURE_ABI,
+            functionName: "revokeEnableSignature",
+            args: [entry.permissionId],
+          }),
+        },
+        ...(uninstallModule ? await toUninstallSessionModuleCalls(account) : []),
+      ];
+      return {
+        chainId,
+        calls: calls.map((call) => ({ to: call.to, data: call.data ?? ("0x" as Hex) })),
+      };
+    }),
+  );
+
+  if (instructions.length === 0) {
+    throw new Error("revokeSessionPermission requires a grant on a supported chain");
+  }
+
+  const { hash } = await meeClient.execute({
+    instructions,
+    sponsorship: true,
+  });
+  await meeClient.waitForSupertransactionReceipt({ hash });
+  return { hash, chainIds: entries.map((e) => e.chainId) };
+}
@@ -9,11 +9,27 @@
  * so we can reuse the same signer if the user refreshes mid-pipeline.
  * Once the pipeline completes the key is sent to the server (encrypted at
  * rest) and the server handles all subsequent transaction execution.
+ *
+ * Session key rotation (`rotateServerSessionKey`) replaces the server-side
+ * key with a new one in place, without re-running the setup pipeline.
+ * Renewing an expiring or stale session re-grants the same signer and
+ * sends the new grant with its `expiresAt` via `reconfigureServerSession`.
+ *
+ * Every request that changes server state is signed by the user's Privy
+ * wallet (see lib/walletAuthMessage.ts) so nobody else can reconfigure or
+ * delete a wallet's session.
  */
 
+import type { ConnectedWallet } from "@privy-io/react-auth";
 import type { SessionDetails } from "./types";
-import { SESSION_VERSION } from "../config";
-import { serialize } from "../lib/bigintJson";
+import { SESSION_VERSION, type TokenConfig, type TokenRegistry } from "../config";
+import { serialize, deserialize } from "../lib/bigintJson";
+import {
+  WALLET_MESSAGE_HEADER,
+  WALLET_SIGNATURE_HEADER,
+  buildWalletAuthMessage,
+  hashWalletAuthBody,
+} from "../lib/walletAuthMessage";
 
 // ═══════════════════════════════════════════════════════════════════════
 //  LOCAL (localStorage) — session key only
@@ -43,12 +59,47 @@ export function loadSessionKey(
 
 // ── Listening config type (shared with server) ───────────────────────
 
+/**
+ * One weighted leg of a split.  `shareBps` is the share of every deposit
+ * sent this way, in basis points; a config's shares sum to 10 000.
+ */
+export type SplitRoute = {
+  destChainId: number;
+  recipientIsSelf: boolean;
+  recipientAddr: string;
+  /** Token the recipient receives; same as the input token when omitted */
+  recipientTokenSymbol?: string;
+  shareBps: number;
+};
+
 export type ListeningConfig = {
   destChainId: number;
   recipientIsSelf: boolean;
   recipientAddr: string;
   /** Token symbol the recipient should receive on the destination chain (e.g. "USDC"). Defaults to same as input token when omitted. */
   recipientTokenSymbol?: string;
+  /**
+   * Per-token minimum balance before bridging, as human-readable amounts
+   * keyed by symbol (e.g. { USDC: "25" }).  Omitted tokens use the defaults.
+   */
+  minBridgeAmounts?: Record<string, string>;
+  /**
+   * Optional cap on the total amount of each token the session key may
+   * move per chain, as human-readable amounts keyed by symbol.  Enforced
+   * on-chain by the granted permission, so changing it needs a re-grant.
+   */
+  spendingLimits?: Record<string, string>;
+  /**
+   * How long each permission grant is valid for, in days (one of
+   * SESSION_LIFETIME_OPTIONS_DAYS).
+   */
+  sessionLifetimeDays?: number;
+  /**
+   * Split every deposit across several destinations by weight.  When set,
+   * it replaces the single destination above (which then mirrors the
+   * first route, for display).
+   */
+  routes?: SplitRoute[];
 };
 
 // ── Clear local session data ─────────────────────────────────────────
@@ -61,22 +112,70 @@ export function clearSessionKey(walletAddress: string) {
 //  SERVER — register / check / reconfigure / deregister
 // ═══════════════════════════════════════════════════════════════════════
 
+/** The Privy wallet that owns the session — signs mutating requests */
+export type OwnerWallet = Pick<ConnectedWallet, "address" | "getEthereumProvider">;
+
+const sessionPath = (walletAddress: string) =>
+  `/api/sessions/${encodeURIComponent(walletAddress.toLowerCase())}`;
+
+/**
+ * `fetch` with a fresh wallet signature over the method + path and body.
+ * Embedded wallets sign silently (no Privy wallet UI).
+ */
+async function signedFetch(
+  wallet: OwnerWallet,
+  path: string,
+  init: { method: string; body?: string },
+): Promise<Response> {
+  const nonce = Array.from(crypto.getRandomValues(new Uint8Array(16)), (b) =>
+    b.toString(16).padStart(2, "0"),
+  ).join("");
+  const message = buildWalletAuthMessage({
+    address: wallet.address,
+    action: `${init.method} ${path}`,
+    bodyHash: hashWalletAuthBody(init.body),
+    nonce,
+    issuedAt: new Date().toISOString(),
+  });
+
+  const provider = await wallet.getEthereumProvider();
+  const signature = (await provider.request({
+    method: "personal_sign",
+    params: [message, wallet.address],
+  })) as string;
+
+  return fetch(path, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      [WALLET_MESSAGE_HEADER]: encodeURIComponent(message),
+      [WALLET_SIGNATURE_HEADER]: signature,
+    },
+  });
+}
+
 /**
  * Register a wallet for persistent server-side monitoring.
  * Called after the full pipeline completes (install + grant + config).
  */
-export async function registerSessionOnServer(params: {
-  walletAddress: string;
-  sessionPrivateKey: string;
-  sessionSignerAddress: string;
-  sessionDetails: SessionDetails;
-  listeningConfig: ListeningConfig;
-}): Promise<void> {
-  const res = await fetch("/api/sessions/register", {
+export async function registerSessionOnServer(
+  wallet: OwnerWallet,
+  params: {
+    sessionPrivateKey: string;
+    sessionSignerAddress: string;
+    sessionDetails: SessionDetails;
+    listeningConfig: ListeningConfig;
+    /** Token registry version the grant covers (see fetchTokenRegistry) */
+    tokenRegistryVersion: number;
+    /** When the granted permission expires (ISO timestamp) */
+    expiresAt?: string;
+  },
+): Promise<void> {
+  const res = await signedFetch(wallet, "/api/sessions/register", {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
     body: serialize({
       ...params,
+      walletAddress: wallet.address,
       sessionVersion: SESSION_VERSION,
     }),
   });
@@ -87,6 +186,22 @@ export async function registerSessionOnServer(params: {
   }
 }
 
+/** A deposit source (chain + token) whose execution keeps failing */
+export type ServerDepositFailure = {
+  /** "<chainId>:<tokenSymbol>", or "wallet" when the wallet as a whole fails */
+  key: string;
+  chainId: number;
+  tokenSymbol: string;
+  consecutiveFailures: number;
+  lastError: string;
+  lastFailureAt: string;
+  /** No retry before this ISO timestamp */
+  retryAfter: string;
+  /** Retries stopped until a reset */
+  circuitOpen: boolean;
+  circuitOpenedAt?: string;
+};
+
 /** Check whether a wallet is registered on the server. */
 export async function getServerSessionStatus(walletAddress: string): Promise<{
   registered: boolean;
@@ -96,45 +211,188 @@ export async function getServerSessionStatus(walletAddress: string): Promise<{
   sessionVersion?: number;
   registeredAt?: string;
   lastPollAt?: string | null;
+  keyRotatedAt?: string | null;
+  /** Session key is older than the server's rotation policy */
+  keyRotationDue?: boolean;
+  /** When the granted permission expires (null: no expiry) */
+  expiresAt?: string | null;
+  /** The grant has expired and the session was (or is about to be) deactivated */
+  expired?: boolean;
+  /** The grant expires within the server's renewal notice window */
+  renewalDue?: boolean;
+  /** The permission set is older than SESSION_VERSION — poll cycles skip it */
+  stale?: boolean;
+  staleReason?: string | null;
+  /** When poll cycles started skipping the session */
+  staleSince?: string | null;
+  /** Token registry version the grant covers */
+  tokenRegistryVersion?: number;
+  /** Tokens added to the registry since the grant — need a re-grant */
+  newTokens?: string[];
+  /** Deposits that keep failing — backing off, or held until a reset */
+  depositFailures?: ServerDepositFailure[];
 }> {
-  const res = await fetch(
-    `/api/sessions/${encodeURIComponent(walletAddress.toLowerCase())}`,
-  );
+  const res = await fetch(sessionPath(walletAddress));
   if (!res.ok) return { registered: false };
   return res.json();
 }
 
+/** Fee collector the session's `transfer` permission must allow. */
+export async function getFeeCollectorAddress(): Promise<`0x${string}`> {
+  const res = await fetch("/api/sessions/fee-collector");
+  if (!res.ok) throw new Error(`Failed to load fee collector (${res.status})`);
+  const data = await res.json();
+  return data.feeCollectorAddress;
+}
+
+/**
+ * The token registry: built-in plus admin-added tokens and its version.
+ * A grant covers the tokens of the version it was built from.
+ */
+export async function fetchTokenRegistry(): Promise<{ version: number; tokens: TokenRegistry }> {
+  const res = await fetch("/api/sessions/tokens");
+  if (!res.ok) throw new Error(`Failed to load token registry (${res.status})`);
+  // Amounts are BigInts
+  const data = deserialize<{ version: number; tokens: TokenConfig[] }>(await res.text());
+  return {
+    version: data.version,
+    tokens: Object.fromEntries(data.tokens.map((t) => [t.symbol, t])),
+  };
+}
+
 /** Reconfigure the server-side listening config. */
 export async function reconfigureServerSession(
-  walletAddress: string,
+  wallet: OwnerWallet,
   patch: {
     listeningConfig?: ListeningConfig;
     sessionDetails?: SessionDetails;
     sessionVersion?: number;
+    /** Token registry version of the new grant — only together with sessionDetails */
+    tokenRegistryVersion?: number;
+    /** Expiry of the new grant — only together with sessionDetails */
+    expiresAt?: string;
     active?: boolean;
   },
-): Promise<void> {
-  const res = await fetch(
-    `/api/sessions/${encodeURIComponent(walletAddress.toLowerCase())}`,
-    {
-      method: "PATCH",
-      headers: { "Content-Type": "application/json" },
-      body: serialize(patch),
-    },
-  );
+): Promise<{ previousSessionDetails?: SessionDetails }> {
+  const res = await signedFetch(wallet, sessionPath(wallet.address), {
+    method: "PATCH",
+    body: serialize(patch),
+  });
 
   if (!res.ok) {
     const data = await res.json().catch(() => ({}));
     throw new Error(data.error || `Reconfigure failed (${res.status})`);
   }
+  // A replaced grant comes back with its BigInts serialised
+  const data = deserialize<{ previousSessionDetails?: SessionDetails }>(await res.text());
+  return { previousSessionDetails: data.previousSessionDetails };
 }
 
-/** Deregister — stop server-side monitoring for a wallet. */
+/**
+ * Deregister — stop server-side monitoring and delete the session.  The
+ * server refuses while any of the session's grants (the current one or
+ * one it replaced) is still live on-chain; those grants are then
+ * returned as `revokeRequired`, to be revoked (revokeSessionPermission)
+ * before calling this again.
+ */
 export async function deregisterServerSession(
-  walletAddress: string,
+  wallet: OwnerWallet,
+): Promise<{ deleted: true } | { deleted: false; revokeRequired: SessionDetails[] }> {
+  const res = await signedFetch(wallet, sessionPath(wallet.address), { method: "DELETE" });
+  if (res.ok) return { deleted: true };
+
+  type Refusal = {
+    error?: string;
+    revokeRequired?: boolean;
+    grants?: { sessionDetails: SessionDetails; liveChainIds: number[] }[];
+  };
+  // Revive BigInts in the returned grants
+  const data: Refusal = await res
+    .text()
+    .then((text) => deserialize<Refusal>(text))
+    .catch(() => ({}));
+  if (res.status === 409 && data.revokeRequired && data.grants?.length) {
+    return { deleted: false, revokeRequired: data.grants.map((g) => g.sessionDetails) };
+  }
+  throw new Error(data.error || `Delete failed (${res.status})`);
+}
+
+/** Rotation attempts while a poll cycle holds the wallet (409 + Retry-After) */
+const ROTATE_MAX_ATTEMPTS = 8;
+
+/**
+ * Swap the server-side session key for a new signer that has already
+ * been granted its own permission.  Returns the previous grant so the
+ * caller can revoke it on-chain.  Retries, re-signed, while a poll cycle
+ * is processing the wallet.
+ */
+export async function rotateServerSessionKey(
+  wallet: OwnerWallet,
+  params: {
+    sessionPrivateKey: string;
+    sessionSignerAddress: string;
+    sessionDetails: SessionDetails;
+    tokenRegistryVersion?: number;
+  },
+): Promise<{ previousSignerAddress: string; previousSessionDetails: SessionDetails }> {
+  let res: Response;
+  for (let attempt = 1; ; attempt++) {
+    res = await signedFetch(wallet, `${sessionPath(wallet.address)}/rotate`, {
+      method: "POST",
+      body: serialize(params),
+    });
+    const retryAfter = Number(res.headers.get("Retry-After"));
+    if (res.status !== 409 || !(retryAfter > 0) || attempt >= ROTATE_MAX_ATTEMPTS) break;
+    await new Promise((r) => setTimeout(r, retryAfter * 1000));
+  }
+
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `Key rotation failed (${res.status})`);
+  }
+  // Revive BigInts in the returned grant
+  return deserialize(await res.text());
+}
+
+/**
+ * Reset the server's failure backoff and open circuits, so the next poll
+ * cycle retries every held deposit.
+ */
+export async function resetServerDepositFailures(wallet: OwnerWallet): Promise<void> {
+  const res = await signedFetch(wallet, `${sessionPath(wallet.address)}/failures`, {
+    method: "DELETE",
+  });
+
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `Failure reset failed (${res.status})`);
+  }
+}
+
+/** Record a client-side action (e.g. a manual sweep) in the wallet's history. */
+export async function addServerHistoryEntry(
+  wallet: OwnerWallet,
+  entry: {
+    timestamp: string;
+    type: "bridge" | "forward" | "sweep";
+    status: "success" | "error";
+    hash?: string;
+    error?: string;
+    tokenSymbol: string;
+    amount: string;
+    sourceChainId: number;
+    destChainId: number;
+    recipient: string;
+  },
 ): Promise<void> {
-  await fetch(
-    `/api/sessions/${encodeURIComponent(walletAddress.toLowerCase())}`,
-    { method: "DELETE" },
+  const res = await signedFetch(
+    wallet,
+    `/api/history/${encodeURIComponent(wallet.address.toLowerCase())}`,
+    { method: "POST", body: JSON.stringify(entry) },
   );
+
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `History write failed (${res.status})`);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,86 @@
+import {
+  erc7579Calls,
+  getInstalledValidators,
+  getPreviousModule,
+  SMART_SESSIONS_ADDRESS,
+} from "@biconomy/abstractjs";
+import { encodeAbiParameters, getAddress, type Hash, type Hex } from "viem";
+
+/**
+ * Calls uninstalling the Smart Sessions validator from one chain's
+ * deployment of the account, or none when it is not installed there.
+ * Nexus keeps validators in a linked list, so the uninstall names the
+ * entry before it.
+ */
+export async function toUninstallSessionModuleCalls(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  account: any,
+): Promise<{ to: Hex; data?: Hex }[]> {
+  if (!(await account.isDeployed())) return [];
+
+  const [installedValidators] = await getInstalledValidators(account.client, { account });
+  const module = { address: SMART_SESSIONS_ADDRESS as Hex, type: "validator" as const };
+  if (!installedValidators.map((a) => getAddress(a)).includes(getAddress(module.address))) {
+    return [];
+  }
+
+  const prev = await getPreviousModule(account.client, {
+    account,
+    module,
+    installedValidators,
+  });
+  return erc7579Calls.toUninstallModuleCalls(account, {
+    ...module,
+    deInitData: encodeAbiParameters(
+      [
+        { name: "prev", type: "address" },
+        { name: "disableModuleData", type: "bytes" },
+      ],
+      [prev, "0x"],
+    ),
+  });
+}
+
+/**
+ * Uninstall the Smart Sessions validator from the account on `chainIds`,
+ * removing every permission it holds there.  Setup has to install it
+ * again before a new session can be granted.
+ *
+ * Optional — deleting a session only needs its own permission revoked
+ * (see revokeSessionPermission, which can do both in one go).  Returns
+ * `null` when the module is not installed on any of the chains.
+ *
+ * Must run through the **user-flow** MEE client (the owner signs the
+ * supertransaction).
+ */
+export async function uninstallSessionModule(params: {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  meeClient: any;
+  chainIds: number[];
+}): Promise<{ hash: Hash } | null> {
+  const { meeClient, chainIds } = params;
+
+  const instructions = (
+    await Promise.all(
+      chainIds.map(async (chainId) => {
+        const calls = await toUninstallSessionModuleCalls(
+          meeClient.account.deploymentOn(chainId, true),
+        );
+        return {
+          chainId,
+          calls: calls.map((call) => ({ to: call.to, data: call.data ?? ("0x" as Hex) })),
+        };
+      }),
+    )
+  ).filter((instruction) => instruction.calls.length > 0);
+
+  // Module not installed anywhere, no tx needed
+  if (instructions.length === 0) return null;
+
+  const { hash } = await meeClient.execute({
+    instructions,
+    sponsorship: true,
+  });
+  await meeClient.waitForSupertransactionReceipt({ hash });
+  return { hash };
+}
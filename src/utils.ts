@@ -1,6 +1,6 @@
 import type { Status, StepStatus } from "./types";
-import { MEESCAN_URL } from "./constants";
-import { SUPPORTED_TOKENS } from "./config";
+import { MEESCAN_URL, CHAIN_META } from "./constants";
+import { SUPPORTED_TOKENS, type TokenRegistry } from "./config";
 
 /** Truncate an address / hash for display: 0x1234…abcd */
 export const shortAddr = (addr: string) =>
@@ -24,11 +24,57 @@ export const formatUSDC = (amount: bigint): string =>
   formatTokenAmount(amount, 6);
 
 /** Format an amount using the token symbol to look up decimals */
-export const formatTokenBySymbol = (amount: bigint, symbol: string): string => {
-  const token = SUPPORTED_TOKENS[symbol];
+export const formatTokenBySymbol = (
+  amount: bigint,
+  symbol: string,
+  tokens: TokenRegistry = SUPPORTED_TOKENS,
+): string => {
+  const token = tokens[symbol];
   return formatTokenAmount(amount, token?.decimals ?? 18);
 };
 
+/** Summarise a wallet's custom minimum bridge amounts, e.g. "USDC ≥ 25 · ETH ≥ 0.01" */
+export const formatMinBridgeAmounts = (
+  overrides: Record<string, string> | undefined,
+): string => {
+  const custom = Object.entries(overrides ?? {}).filter(([, v]) => v.trim() !== "");
+  if (custom.length === 0) return "Defaults";
+  return custom.map(([sym, v]) => `${sym} ≥ ${v}`).join(" · ");
+};
+
+/** Describe a wallet's session spending limits, e.g. "USDC ≤ 500" */
+export const formatSpendingLimits = (
+  limits: Record<string, string> | undefined,
+): string => {
+  const set = Object.entries(limits ?? {}).filter(([, v]) => v.trim() !== "");
+  if (set.length === 0) return "No limit";
+  return set.map(([sym, v]) => `${sym} ≤ ${v}`).join(" · ");
+};
+
+/** Time left until `expiresAt`, e.g. "12d 4h", "5h 12m" or "Expired" */
+export const formatTimeLeft = (expiresAt: string, now = Date.now()): string => {
+  const minutes = Math.floor((Date.parse(expiresAt) - now) / 60_000);
+  if (Number.isNaN(minutes) || minutes <= 0) return "Expired";
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+/** Describe one split route, e.g. "70% → Base · USDC · 0x1234…abcd" */
+export const formatSplitRoute = (route: {
+  destChainId: number;
+  recipientIsSelf: boolean;
+  recipientAddr: string;
+  recipientTokenSymbol?: string;
+  shareBps: number;
+}): string =>
+  [
+    `${route.shareBps / 100}% → ${CHAIN_META[route.destChainId]?.name ?? `Chain ${route.destChainId}`}`,
+    route.recipientTokenSymbol ?? "same token",
+    route.recipientIsSelf ? "self" : shortAddr(route.recipientAddr),
+  ].join(" · ");
+
 /**
  * Derive the visual StepStatus from readiness + async status.
  * For the login step, pass `isLoginStep = true` and `authenticated`.